@@ -1,21 +1,31 @@
 # German translations
 
 ## Errors
-error-rateLimit = Rate-Limit überschritten. Bitte warte { $seconds } Sekunden.
+error-rateLimit = { $seconds ->
+    [one] Rate-Limit überschritten. Bitte warte { $seconds } Sekunde.
+   *[other] Rate-Limit überschritten. Bitte warte { $seconds } Sekunden.
+}
 error-invalidRegex = Ungültiges Regex-Muster. Überprüfe deine Syntax und versuche es erneut.
 error-telegramAPI = Etwas ist schiefgelaufen. Bitte versuche es erneut.
+error-telegramRateLimit = Rate-Limit erreicht. Bitte warte einen Moment, bevor du es erneut versuchst.
+error-telegramUnavailable = Telegram hat gerade Probleme. Bitte versuche es gleich noch einmal.
 error-workerTimeout = Verarbeitungsfehler. Bitte versuche es mit einem einfacheren Muster erneut.
 error-circuitOpen = Dienst vorübergehend nicht verfügbar. Bitte versuche es später erneut.
 error-noTarget = Kein passendes Ziel in den letzten Nachrichten gefunden.
 error-targetIsCommand = Kann nicht auf einen anderen sed-Befehl zugreifen.
 error-messageTooLong = Ergebnis ist zu lang ({ $length }/{ $max } Zeichen).
 error-chainTooLong = Zu viele Befehle in der Kette (max { $max }).
+error-substitution = Fehler bei der Ersetzung: { $error }
+error-unexpected = Ein unerwarteter Fehler ist aufgetreten. Bitte versuche es erneut.
+error-replyOnly = Antworte in diesem Chat auf die Nachricht, die du ändern möchtest.
+error-flagsNotAllowed = Diese Flags sind in diesem Chat deaktiviert: { $flags }
 
 ## Commands
 command-start = Hallo! Ich bin ein Regex-Bot. Verwende s/find/replace/flags, um Text in Nachrichten zu ersetzen. Der Ersatztext kann mehrere Zeilen umfassen oder Escape-Sequenzen wie `\n` verwenden. Du kannst auch mehrere Befehle verketten, einer pro Zeile.
 
     Spezielle Flags:
     - `p`: Zeige Ausführungszeit an
+    - `d`: Änderungen anzeigen (entfernter Text durchgestrichen)
     Verwende `\N` für erfasste Gruppen.
 
 command-privacy = Dieser Bot sammelt oder verarbeitet keine Benutzerdaten, außer einem kurzen Nachrichtenverlauf, um Regex-Ersetzungen durchzuführen. Diese werden für 48 Stunden in einer In-Memory-SQL-Datenbank gespeichert und können vom Administrator des Bots in keiner Weise abgerufen werden.
@@ -33,40 +43,379 @@ command-language-list = Verfügbare Sprachen:
     Verwende /language set <code> zum Ändern.
 command-language-setSuccess = Sprache geändert zu { $language }
 command-language-setError = Ungültiger Sprachcode. Verwende /language list, um die verfügbaren Optionen zu sehen.
+command-language-chatOverride = Dieser Chat verwendet { $language } für alle, festgelegt von den Admins.
+
+command-start-description = Begrüßungsnachricht anzeigen
+command-privacy-description = Datenschutzinformationen anzeigen
+command-regexhelp-description = Hilfe zur Regex-Syntax
+command-explain-description = Ein Regex-Muster erklären
+command-language-description = Bot-Sprache ändern
+command-health-description = Gesundheitsstatus des Bots anzeigen
+command-metrics-description = Leistungsmetriken anzeigen
+command-chatsettings-description = Einstellungen für diesen Chat ändern
+command-test-description = Eine Regex an einem Text testen
+command-undo-description = Letzte Änderung einer Korrektur rückgängig machen
+command-redo-description = Rückgängig gemachte Änderung einer Korrektur wiederherstellen
+
+## Chat settings
+chatSettings-title = Einstellungen für diesen Chat:
+chatSettings-language = Sprache: { $language }
+chatSettings-languageUnset = nicht gesetzt (jede Person erhält ihre eigene Sprache)
+chatSettings-on = an
+chatSettings-off = aus
+chatSettings-tips = Optimierungstipps: { $state }
+chatSettings-dangerWarnings = Warnungen vor gefährlichen Mustern: { $state }
+chatSettings-dangerPolicy = Gefährliche Muster: { $policy }
+chatSettings-dangerPolicy-warn = warnen
+chatSettings-dangerPolicy-block = blockieren
+chatSettings-dangerPolicy-sandbox = Sandbox
+chatSettings-replyOnly = Nur-Antwort-Modus: { $state }
+chatSettings-maxChainLength = Max. Befehle pro Nachricht: { $count }
+chatSettings-allowedFlags = Erlaubte Flags: { $flags }
+chatSettings-noFlags = keine
+chatSettings-menuHint = Tippe unten auf eine Schaltfläche, um eine Einstellung zu ändern.
+chatSettings-usage = Verwendung:
+    /chatsettings - Einstellungen dieses Chats anzeigen
+    /chatsettings language <code> - Allen in dieser Sprache antworten
+    /chatsettings language reset - Allen in ihrer eigenen Sprache antworten
+
+chatSettings-notAdmin = Nur Chat-Admins können die Einstellungen dieses Chats ändern.
+chatSettings-languageSet = Chat-Sprache geändert zu { $language }
+chatSettings-languageReset = Chat-Sprache zurückgesetzt. Alle erhalten wieder ihre eigene Sprache.
 
 ## Substitution results
 substitution-result = Ergebnis: { $result }
 substitution-noMatch = Keine Übereinstimmung gefunden.
 substitution-multipleResults = { $count } Ersetzungen angewendet
-substitution-performance = { $count } Ersetzungen in { $time } ausgeführt
+substitution-performance = { $count ->
+    [one] { $count } Ersetzung in { $time } ausgeführt
+   *[other] { $count } Ersetzungen in { $time } ausgeführt
+}
+
+## Corrections
+correction-notReply = Antworte auf eine meiner Korrekturen, um sie rückgängig zu machen oder wiederherzustellen.
+correction-nothingToUndo = Es gibt nichts rückgängig zu machen.
+correction-nothingToRedo = Es gibt nichts wiederherzustellen.
+
+## Inline mode
+inline-usage = Tippe s/suchen/ersetzen/ | Text
+inline-resultTitle = Ersetzter Text
+inline-errorTitle = Ersetzung fehlgeschlagen
+inline-dangerTitle = Gefährliches Muster
+inline-emptyResult = (leeres Ergebnis)
+
+## Regex testing
+regexTest-usage = Verwendung: /test muster/flags [text]
+    Antworte auf eine Nachricht, um sie zu testen, oder schreibe den Text hinter das Muster.
+regexTest-matchCount = { $count ->
+    [one] { $count } Treffer
+   *[other] { $count } Treffer
+}
+regexTest-noMatches = Keine Treffer.
+regexTest-match = Treffer { $number } bei { $index }:
+regexTest-unmatched = nicht erfasst
+regexTest-moreMatches = { $count ->
+    [one] …und { $count } weiterer Treffer
+   *[other] …und { $count } weitere Treffer
+}
+
+## Explain
+explain-usage = Bitte gib ein Muster zum Erklären an.
+
+    Verwendung:
+    /explain Muster
+    /explain /Muster/Flags
+    /explain s/Muster/Ersetzung/Flags
+
+    Beispiel: /explain s/(\w+)@(\w+)/$2: $1/gi
+explain-invalid = Ungültiges Regex-Muster: { $error }
+
+    Bitte prüfe die Syntax und versuche es erneut.
+explain-pattern = Muster:
+explain-breakdown = Aufschlüsselung:
+explain-flags = Flags:
+explain-replacement = Ersetzung:
+explain-truncated = (Erklärung gekürzt)
+explain-quoted = „{ $text }“
+explain-literal = Zeichen { $char }
+explain-literal-codePoint = Zeichen { $char } ({ $codePoint })
+explain-literal-escaped = Zeichen { $char } (maskiert)
+explain-literalText = Text { $text }
+explain-anyCase = { $description }, beliebige Groß-/Kleinschreibung
+explain-char-null = Nullzeichen
+explain-char-backspace = Rückschritt
+explain-char-tab = Tabulator
+explain-char-newline = Zeilenumbruch
+explain-char-verticalTab = Vertikaler Tabulator
+explain-char-formFeed = Seitenvorschub
+explain-char-carriageReturn = Wagenrücklauf
+explain-char-space = Leerzeichen
+explain-char-control = Steuerzeichen { $codePoint }
+explain-empty = Nichts (passt immer)
+explain-alternatives = Eine von { $count } Alternativen
+explain-sequence = Alles davon, in dieser Reihenfolge
+explain-group-named = Benannte Gruppe { $name } (Gruppe { $index })
+explain-group-capture = Gruppe { $index }
+explain-group-nonCapturing = Nicht erfassende Gruppe
+explain-group-flagsOn = Nicht erfassende Gruppe mit Flags { $on } an
+explain-group-flagsOff = Nicht erfassende Gruppe mit Flags { $off } aus
+explain-group-flagsOnOff = Nicht erfassende Gruppe mit Flags { $on } an, { $off } aus
+explain-lookahead = Positiver Lookahead: gefolgt von
+explain-lookahead-negated = Negativer Lookahead: nicht gefolgt von
+explain-lookbehind = Positiver Lookbehind: nach
+explain-lookbehind-negated = Negativer Lookbehind: nicht nach
+explain-quantifier-zeroOrMore = Null- oder mehrmals
+explain-quantifier-oneOrMore = Ein- oder mehrmals
+explain-quantifier-optional = Optional (null- oder einmal)
+explain-quantifier-exactly = Genau { $count }-mal
+explain-quantifier-atLeast = Mindestens { $min }-mal
+explain-quantifier-between = Zwischen { $min }- und { $max }-mal
+explain-quantifier-greedy = { $quantifier }, so oft wie möglich
+explain-quantifier-lazy = { $quantifier }, so selten wie möglich (genügsam)
+explain-class-digit = Eine beliebige Ziffer (0-9)
+explain-class-nonDigit = Ein beliebiges Zeichen außer Ziffern
+explain-class-word = Ein beliebiges Wortzeichen [a-zA-Z0-9_]
+explain-class-nonWord = Ein beliebiges Zeichen außer Wortzeichen
+explain-class-space = Ein beliebiges Leerraumzeichen
+explain-class-nonSpace = Ein beliebiges Zeichen außer Leerraum
+explain-class-set = Ein Zeichen aus
+explain-class-set-negated = Ein beliebiges Zeichen außer
+explain-class-intersection = Ein Zeichen, das in allen diesen Mengen liegt
+explain-class-intersection-negated = Ein Zeichen, das nicht in allen diesen Mengen liegt
+explain-class-subtraction = Ein Zeichen aus der ersten Menge, aber nicht aus den anderen
+explain-class-subtraction-negated = Ein beliebiges Zeichen außer denen aus der ersten Menge, die nicht in den anderen liegen
+explain-class-range = Ein beliebiges Zeichen von { $from } bis { $to }
+explain-class-strings = Einer der Texte { $strings }
+explain-category-letter = Ein beliebiger Buchstabe
+explain-category-letter-negated = Ein beliebiges Zeichen außer Buchstaben
+explain-category-uppercase = Ein beliebiger Großbuchstabe
+explain-category-uppercase-negated = Ein beliebiges Zeichen außer Großbuchstaben
+explain-category-lowercase = Ein beliebiger Kleinbuchstabe
+explain-category-lowercase-negated = Ein beliebiges Zeichen außer Kleinbuchstaben
+explain-category-titlecase = Ein beliebiger Titelbuchstabe
+explain-category-titlecase-negated = Ein beliebiges Zeichen außer Titelbuchstaben
+explain-category-mark = Ein beliebiges kombinierendes Zeichen
+explain-category-mark-negated = Ein beliebiges Zeichen außer kombinierenden Zeichen
+explain-category-number = Eine beliebige Zahl
+explain-category-number-negated = Ein beliebiges Zeichen außer Zahlen
+explain-category-digit = Eine beliebige Dezimalziffer
+explain-category-digit-negated = Ein beliebiges Zeichen außer Dezimalziffern
+explain-category-punctuation = Ein beliebiges Satzzeichen
+explain-category-punctuation-negated = Ein beliebiges Zeichen außer Satzzeichen
+explain-category-symbol = Ein beliebiges Symbol
+explain-category-symbol-negated = Ein beliebiges Zeichen außer Symbolen
+explain-category-currency = Ein beliebiges Währungssymbol
+explain-category-currency-negated = Ein beliebiges Zeichen außer Währungssymbolen
+explain-category-separator = Ein beliebiges Trennzeichen
+explain-category-separator-negated = Ein beliebiges Zeichen außer Trennzeichen
+explain-category-spaceSeparator = Ein beliebiges Leerzeichen-Trennzeichen
+explain-category-spaceSeparator-negated = Ein beliebiges Zeichen außer Leerzeichen-Trennzeichen
+explain-category-other = Ein beliebiges Steuer- oder nicht zugewiesenes Zeichen
+explain-category-other-negated = Ein beliebiges Zeichen außer Steuer- und nicht zugewiesenen Zeichen
+explain-category-control = Ein beliebiges Steuerzeichen
+explain-category-control-negated = Ein beliebiges Zeichen außer Steuerzeichen
+explain-property-script = Ein beliebiges Zeichen der Schrift { $script }
+explain-property-script-negated = Ein beliebiges Zeichen, das nicht zur Schrift { $script } gehört
+explain-property-value = Ein beliebiges Zeichen mit { $name } = { $value }
+explain-property-value-negated = Ein beliebiges Zeichen ohne { $name } = { $value }
+explain-property = Ein beliebiges Zeichen mit der Unicode-Eigenschaft { $name }
+explain-property-negated = Ein beliebiges Zeichen ohne die Unicode-Eigenschaft { $name }
+explain-dot = Ein beliebiges Zeichen außer Zeilenumbrüchen
+explain-dot-all = Ein beliebiges Zeichen
+explain-stringStart = Anfang des Textes
+explain-stringEnd = Ende des Textes
+explain-lineStart = Anfang einer Zeile
+explain-lineEnd = Ende einer Zeile
+explain-wordBoundary = Wortgrenze
+explain-nonWordBoundary = Keine Wortgrenze
+explain-backreference = Derselbe Text, den Gruppe { $group } gefunden hat
+explain-flag-indices = Indizes: speichert, wo jede Gruppe gefunden wurde
+explain-flag-global = Global: findet alle Treffer, nicht nur den ersten
+explain-flag-ignoreCase = Groß-/Kleinschreibung ignorieren
+explain-flag-multiline = Mehrzeilig: ^ und $ passen an jeder Zeile
+explain-flag-dotAll = Dot all: . passt auch auf Zeilenumbrüche
+explain-flag-unicode = Unicode: vergleicht nach Codepunkten und erlaubt \p-Escapes
+explain-flag-unicodeSets = Unicode-Mengen: wie u, plus Mengenoperationen in Klassen
+explain-flag-sticky = Sticky: jeder Treffer muss dort beginnen, wo der vorige endete
+explain-flag-replaceAll = Global: ersetzt alle Treffer, nicht nur den ersten
+explain-flag-performance = Zeigt, wie lange die Ersetzung gedauert hat
+explain-flag-diff = Zeigt die Änderungen: entfernter Text durchgestrichen
+explain-flag-occurrence = Ersetzt nur Treffer { $occurrence }
+explain-flag-occurrenceOnward = Ersetzt Treffer { $occurrence } und alle danach
+explain-flag-unknown = Kein Flag, wird ignoriert
+explain-flag-firstOnly = Ohne g wird nur der erste Treffer ersetzt
+explain-address = Adresse:
+explain-address-line = Nur Zeile { $line }
+explain-address-last = Nur die letzte Zeile
+explain-address-regex = Nur Zeilen, auf die { $pattern } passt
+explain-address-range = Bereich: { $start } bis { $end }
+explain-address-part-line = Zeile { $line }
+explain-address-part-last = letzte Zeile
+explain-address-part-regex = Zeile, auf die { $pattern } passt
+explain-transliteration = Transliteration:
+explain-transliteration-characters = Zeichen:
+explain-transliteration-char = { $from } wird zu { $to }
+explain-replacement-empty = Nichts: Treffer werden gelöscht
+explain-replacement-group = Text von Gruppe { $group }
+explain-replacement-groupThen = Text von Gruppe { $group }, dann { $rest }
+explain-replacement-noGroup = Zeichen { $text } (es gibt keine Gruppe { $group })
+explain-replacement-missingName = Nichts (es gibt keine Gruppe { $name })
+explain-replacement-noNamedGroups = Zeichen { $text } (das Muster hat keine benannten Gruppen)
+explain-replacement-match = Der ganze Treffer
+explain-replacement-before = Text vor dem Treffer
+explain-replacement-after = Text nach dem Treffer
 
 ## Tips
 tip-optimization = Tipp: { $suggestion }
 tip-useShorthand = Verwende { $shorthand } statt { $longform } (kürzer)
 tip-nonCapturing = Verwende (?:...) für Gruppen, die du nicht referenzierst
 tip-greedy = Erwäge .*? statt .* zu verwenden (nicht-gierig)
+tip-whitespace = Verwende { $shorthand } statt { $longform } (erfasst alle Leerzeichen)
+tip-dotAll = Verwende . mit dem s-Flag statt { $longform } (idiomatischer)
+tip-unnecessaryEscape = Entferne unnötige Escapes wie { $example } (übersichtlicheres Muster)
+tip-anchors = Füge unbegrenzten Mustern die Anker ^ und/oder $ hinzu (kann die Leistung verbessern)
+
+## Dangerous pattern warnings
+danger-title = Warnung: Dieses Muster kann Leistungsprobleme verursachen
+danger-pattern = Muster: { $pattern }
+danger-riskScore = Risikowert: { $score }/100
+danger-issuesFound = Gefundene Probleme:
+danger-footer = Der Bot führt dieses Muster trotzdem aus, aber es kann bei bestimmten Eingaben langsam sein.
+danger-exponential = In { $subexpression } können die wiederholten Teile denselben Text auf viele Arten treffen, daher dauert ein Fehlschlag exponentiell lange
+danger-exponential-suggestion = Sorge dafür, dass die wiederholten Teile nicht denselben Text treffen können, z. B. (a+)+ → a+
+danger-polynomial = { $subexpression } hat überlappende Wiederholungen, daher dauert ein Fehlschlag polynomiell lange (Grad { $degree })
+danger-polynomial-suggestion = Lass benachbarte Wiederholungen unterschiedliche Zeichen treffen oder verankere das Muster
+danger-unknown = Das Muster ist zu komplex für eine Prüfung, daher kann ein fehlschlagender Treffer exponentielle Zeit brauchen
+danger-unknown-suggestion = Kürze das Muster oder teile es auf mehrere Befehle auf
+danger-attack = Eingaben wie diese werden mit jeder Verlängerung langsamer: { $example }
+danger-blocked = Blockiert: Dieses Muster kann exponentiell lange brauchen, und dieser Chat führt solche Muster nicht aus.
+danger-footerSandbox = Der Bot führt dieses Muster mit einem Zeitlimit von { $seconds } s aus.
+danger-sandboxTimeout = Nach { $seconds } s abgebrochen: Dieser Chat führt gefährliche Muster mit kurzem Zeitlimit aus.
 
 ## Regex Help
 regexHelp-title = Regex-Hilfe
 regexHelp-selectCategory = Wähle eine Kategorie, um Regex-Syntax zu lernen:
 regexHelp-back = Zurück
 regexHelp-backToCategories = Zurück zu Kategorien
+regexHelp-availableItems = Verfügbare Einträge:
+regexHelp-example = Beispiel:
+regexHelp-categoryNotFound = Kategorie nicht gefunden
+regexHelp-itemNotFound = Eintrag nicht gefunden
+regexHelp-tokens = Tokens
+regexHelp-tokens-description = Spezielle Zeichenklassen, die bestimmte Arten von Zeichen finden
+regexHelp-tokens-digit = Findet jede Ziffer (0-9)
+regexHelp-tokens-digit-example = \d findet '5' in 'abc5def'
+regexHelp-tokens-nonDigit = Findet jedes Zeichen außer Ziffern
+regexHelp-tokens-nonDigit-example = \D findet 'a' in '123a456'
+regexHelp-tokens-word = Findet jedes Wortzeichen [a-zA-Z0-9_]
+regexHelp-tokens-word-example = \w findet 'h' in 'hello'
+regexHelp-tokens-nonWord = Findet jedes Zeichen außer Wortzeichen
+regexHelp-tokens-nonWord-example = \W findet ' ' in 'hello world'
+regexHelp-tokens-space = Findet jeden Leerraum (Leerzeichen, Tabulator, Zeilenumbruch)
+regexHelp-tokens-space-example = \s findet das Leerzeichen in 'a b'
+regexHelp-tokens-nonSpace = Findet jedes Zeichen außer Leerraum
+regexHelp-tokens-nonSpace-example = \S findet 'a' in ' a '
+regexHelp-tokens-dot = Findet jedes Zeichen außer Zeilenumbrüchen
+regexHelp-tokens-dot-example = . findet jedes Zeichen in 'abc'
+regexHelp-quantifiers = Quantoren
+regexHelp-quantifiers-description = Legen fest, wie oft ein Muster passen soll
+regexHelp-quantifiers-star = Null- oder mehrmals
+regexHelp-quantifiers-star-example = a* findet '', 'a' oder 'aaa'
+regexHelp-quantifiers-plus = Ein- oder mehrmals
+regexHelp-quantifiers-plus-example = a+ findet 'a' oder 'aaa', aber nicht ''
+regexHelp-quantifiers-question = Null- oder einmal (optional)
+regexHelp-quantifiers-question-example = a? findet '' oder 'a'
+regexHelp-quantifiers-exact = Genau n-mal
+regexHelp-quantifiers-exact-example = a{"{"}3{"}"} findet genau 'aaa'
+regexHelp-quantifiers-min = Mindestens n-mal
+regexHelp-quantifiers-min-example = a{"{"}2,{"}"} findet 'aa', 'aaa' usw.
+regexHelp-quantifiers-range = Zwischen n- und m-mal
+regexHelp-quantifiers-range-example = a{"{"}2,4{"}"} findet 'aa', 'aaa' oder 'aaaa'
+regexHelp-anchors = Anker
+regexHelp-anchors-description = Finden Positionen statt Zeichen
+regexHelp-anchors-start = Anfang des Textes
+regexHelp-anchors-start-example = ^hello findet 'hello world', aber nicht 'say hello'
+regexHelp-anchors-end = Ende des Textes
+regexHelp-anchors-end-example = world$ findet 'hello world', aber nicht 'world peace'
+regexHelp-anchors-word = Wortgrenze
+regexHelp-anchors-word-example = \bcat\b findet 'cat', aber nicht 'category'
+regexHelp-anchors-nonWord = Keine Wortgrenze
+regexHelp-anchors-nonWord-example = \Bcat findet 'category', aber nicht 'cat'
+regexHelp-groups = Gruppen
+regexHelp-groups-description = Fassen Teile von Mustern zusammen
+regexHelp-groups-capture = Erfassende Gruppe - merkt sich den Treffer für Rückverweise
+regexHelp-groups-capture-example = (abc) erfasst 'abc' zur Verwendung mit $1
+regexHelp-groups-nonCapture = Nicht erfassende Gruppe - gruppiert, ohne sich etwas zu merken
+regexHelp-groups-nonCapture-example = (?:abc) gruppiert, erfasst aber nicht
+regexHelp-groups-lookahead = Positiver Lookahead - passt, wenn gefolgt von
+regexHelp-groups-lookahead-example = a(?=b) findet 'a' nur, wenn 'b' folgt
+regexHelp-groups-negLookahead = Negativer Lookahead - passt, wenn NICHT gefolgt von
+regexHelp-groups-negLookahead-example = a(?!b) findet 'a' nur, wenn NICHT 'b' folgt
+regexHelp-classes = Zeichenklassen
+regexHelp-classes-description = Finden bestimmte Mengen von Zeichen
+regexHelp-classes-set = Zeichenmenge - findet jedes enthaltene Zeichen
+regexHelp-classes-set-example = [abc] findet 'a', 'b' oder 'c'
+regexHelp-classes-negSet = Negierte Menge - findet jedes NICHT enthaltene Zeichen
+regexHelp-classes-negSet-example = [^abc] findet jedes Zeichen außer 'a', 'b', 'c'
+regexHelp-classes-range = Bereich - findet jedes Zeichen im Bereich
+regexHelp-classes-range-example = [a-z] findet jeden Kleinbuchstaben
+regexHelp-escapes = Escapes
+regexHelp-escapes-description = Finden Sonderzeichen wörtlich
+regexHelp-escapes-dot = Wörtlicher Punkt
+regexHelp-escapes-dot-example = \. findet '.', nicht 'ein beliebiges Zeichen'
+regexHelp-escapes-star = Wörtliches Sternchen
+regexHelp-escapes-star-example = \* findet '*', nicht 'null- oder mehrmals'
+regexHelp-escapes-plus = Wörtliches Plus
+regexHelp-escapes-plus-example = \+ findet '+', nicht 'ein- oder mehrmals'
+regexHelp-escapes-backslash = Wörtlicher Backslash
+regexHelp-escapes-backslash-example = \\ findet einen einzelnen Backslash
+regexHelp-escapes-tab = Tabulator
+regexHelp-escapes-tab-example = \t findet einen Tabulator
+regexHelp-escapes-newline = Zeilenumbruch
+regexHelp-escapes-newline-example = \n findet einen Zeilenumbruch
+regexHelp-flags = Flags
+regexHelp-flags-description = Ändern das Verhalten der Regex
+regexHelp-flags-global = Global - findet alle Treffer, nicht nur den ersten
+regexHelp-flags-global-example = /a/g findet alle 'a' in 'banana'
+regexHelp-flags-ignoreCase = Groß-/Kleinschreibung ignorieren
+regexHelp-flags-ignoreCase-example = /hello/i findet 'HELLO', 'Hello' usw.
+regexHelp-flags-multiline = Mehrzeilig - ^ und $ passen an Zeilengrenzen
+regexHelp-flags-multiline-example = /^foo/m findet 'foo' am Anfang jeder Zeile
+regexHelp-flags-dotAll = Dot all - der Punkt passt auch auf Zeilenumbrüche
+regexHelp-flags-dotAll-example = /.+/s findet den ganzen mehrzeiligen Text
+regexHelp-flags-performance = Performance - zeigt die Laufzeit (eigenes Flag)
+regexHelp-flags-performance-example = /pattern/p zeigt die Ausführungszeit
+regexHelp-flags-diff = Diff - zeigt entfernten Text durchgestrichen und eingefügten Text unterstrichen (eigenes Flag)
+regexHelp-flags-diff-example = s/cat/dog/d zeigt cat durchgestrichen, gefolgt von dog
+regexHelp-flags-occurrence = Vorkommen - ersetzt nur den n-ten Treffer, mit g den n-ten und alle folgenden (eigenes Flag)
+regexHelp-flags-occurrence-example = s/a/o/2 macht aus 'banana' 'banona', s/a/o/2g macht 'banono' daraus
 
 ## Health & Metrics
 health-title = Bot-Gesundheitsstatus
+health-status = Bot-Gesundheitsstatus: { $status }
 health-healthy = GESUND
 health-degraded = BEEINTRÄCHTIGT
 health-unhealthy = NICHT GESUND
+health-unknown = UNBEKANNT
 health-workers = Worker: { $active } aktiv, { $idle } inaktiv
 health-queue = Warteschlange: { $pending } ausstehende Aufgaben
 health-errorRate = Fehlerrate: { $rate }%
+health-workersUnavailable = Worker-Pool: Nicht verfügbar
+health-circuitBreakers = Circuit Breaker:
+health-circuitClosed = GESCHLOSSEN
+health-circuitOpen = OFFEN
+health-circuitHalfOpen = HALB OFFEN
+health-circuitRetry = neuer Versuch in { $seconds }s
 health-uptime = Betriebszeit: { $uptime }
 
 metrics-title = Leistungsmetriken
-metrics-cacheHitRate = Cache-Trefferrate: { $rate }%
+metrics-cacheEntries = Cache: { $count } Einträge
+metrics-cacheDisabled = Cache: Deaktiviert
+metrics-cacheHitRate = Cache-Trefferrate: { $rate }% ({ $hits }/{ $lookups } Abfragen)
+metrics-cacheChurn = Cache-Verdrängungen: { $evictions }, Abläufe: { $expirations }
 metrics-avgProcessingTime = Durchschnittliche Verarbeitungszeit: { $time }ms
 metrics-totalSubstitutions = Gesamtzahl der Ersetzungen: { $count }
-metrics-regexCompilations = Regex-Kompilierungen: { $total } (zwischengespeichert: { $cached })
+metrics-regexCompilations = Regex-Kompilierungen: { $total }
 
 ## General
 general-yes = Ja
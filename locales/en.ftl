@@ -1,21 +1,31 @@
 # English translations (default)
 
 ## Errors
-error-rateLimit = Rate limit exceeded. Please wait { $seconds } seconds.
+error-rateLimit = { $seconds ->
+    [one] Rate limit exceeded. Please wait { $seconds } second.
+   *[other] Rate limit exceeded. Please wait { $seconds } seconds.
+}
 error-invalidRegex = Invalid regex pattern. Check your syntax and try again.
 error-telegramAPI = Something went wrong. Please try again.
+error-telegramRateLimit = Rate limit hit. Please wait a moment before trying again.
+error-telegramUnavailable = Telegram is having issues. Please try again in a moment.
 error-workerTimeout = Processing error. Please try again with a simpler pattern.
 error-circuitOpen = Service temporarily unavailable. Please try again later.
 error-noTarget = No matching target found in recent messages.
 error-targetIsCommand = Cannot substitute on another sed command.
 error-messageTooLong = Result is too long ({ $length }/{ $max } characters).
 error-chainTooLong = Too many commands in chain (max { $max }).
+error-substitution = Error during substitution: { $error }
+error-unexpected = An unexpected error occurred. Please try again.
+error-replyOnly = In this chat, reply to the message you want to change.
+error-flagsNotAllowed = These flags are turned off in this chat: { $flags }
 
 ## Commands
 command-start = Hello! I am a regex bot. Use s/find/replace/flags to substitute text in messages. The replacement text can span multiple lines or use escape sequences like `\n`. You can also chain multiple commands, one per line.
 
     Special flags:
     - `p`: Show performance timing
+    - `d`: Show what changed (removed text struck through)
     Use `\N` for captured groups.
 
 command-privacy = This bot does not collect or process any user data, apart from a short backlog of messages to perform regex substitutions on. These are stored in an in-memory sql db for 48h, and can not be accessed by the bot's administrator in any way.
@@ -33,40 +43,382 @@ command-language-list = Available languages:
     Use /language set <code> to change.
 command-language-setSuccess = Language changed to { $language }
 command-language-setError = Invalid language code. Use /language list to see available options.
+command-language-chatOverride = This chat uses { $language } for everyone, as set by its admins.
+
+command-start-description = Get a greeting message
+command-privacy-description = Show privacy information
+command-regexhelp-description = Get help with regex syntax
+command-explain-description = Explain a regex pattern
+command-language-description = Change bot language
+command-health-description = Show bot health status
+command-metrics-description = Show performance metrics
+command-chatsettings-description = Change settings for this chat
+command-test-description = Test a regex against some text
+command-undo-description = Undo the last change to a correction
+command-redo-description = Redo an undone change to a correction
+
+## Chat settings
+chatSettings-title = Settings for this chat:
+chatSettings-language = Language: { $language }
+chatSettings-languageUnset = not set (everyone gets their own language)
+chatSettings-on = on
+chatSettings-off = off
+chatSettings-tips = Optimization tips: { $state }
+chatSettings-dangerWarnings = Dangerous pattern warnings: { $state }
+chatSettings-dangerPolicy = Dangerous patterns: { $policy }
+chatSettings-dangerPolicy-warn = warn
+chatSettings-dangerPolicy-block = block
+chatSettings-dangerPolicy-sandbox = sandbox
+chatSettings-replyOnly = Reply-only mode: { $state }
+chatSettings-maxChainLength = Max commands per message: { $count }
+chatSettings-allowedFlags = Allowed flags: { $flags }
+chatSettings-noFlags = none
+chatSettings-menuHint = Tap a button below to change a setting.
+chatSettings-usage = Usage:
+    /chatsettings - Show the settings of this chat
+    /chatsettings language <code> - Answer everyone in this language
+    /chatsettings language reset - Answer everyone in their own language
+
+chatSettings-notAdmin = Only chat admins can change the settings of this chat.
+chatSettings-languageSet = Chat language changed to { $language }
+chatSettings-languageReset = Chat language reset. Everyone gets their own language again.
 
 ## Substitution results
 substitution-result = Result: { $result }
 substitution-noMatch = No match found.
 substitution-multipleResults = Applied { $count } substitutions
-substitution-performance = Performed { $count } substitutions in { $time }
+substitution-performance = { $count ->
+    [one] Performed { $count } substitution in { $time }
+   *[other] Performed { $count } substitutions in { $time }
+}
+
+## Corrections
+correction-notReply = Reply to one of my corrections to undo or redo it.
+correction-nothingToUndo = There is nothing to undo.
+correction-nothingToRedo = There is nothing to redo.
+
+## Inline mode
+inline-usage = Type s/find/replace/ | text
+inline-resultTitle = Substituted text
+inline-errorTitle = Substitution failed
+inline-dangerTitle = Dangerous pattern
+inline-emptyResult = (empty result)
+
+## Regex testing
+regexTest-usage = Usage: /test pattern/flags [text]
+    Reply to a message to test against it, or write the text after the pattern.
+regexTest-matchCount = { $count ->
+    [one] { $count } match
+   *[other] { $count } matches
+}
+regexTest-noMatches = No matches.
+regexTest-match = Match { $number } at { $index }:
+regexTest-unmatched = not matched
+regexTest-moreMatches = { $count ->
+    [one] …and { $count } more match
+   *[other] …and { $count } more matches
+}
+
+## Explain
+explain-usage = Please provide a pattern to explain.
+
+    Usage:
+    /explain pattern
+    /explain /pattern/flags
+    /explain s/pattern/replacement/flags
+
+    Example: /explain s/(\w+)@(\w+)/$2: $1/gi
+explain-invalid = Invalid regex pattern: { $error }
+
+    Please check your syntax and try again.
+explain-pattern = Pattern:
+explain-breakdown = Breakdown:
+explain-flags = Flags:
+explain-replacement = Replacement:
+explain-truncated = (Explanation truncated)
+explain-quoted = "{ $text }"
+explain-literal = Literal { $char }
+explain-literal-codePoint = Literal { $char } ({ $codePoint })
+explain-literal-escaped = Literal { $char } (escaped)
+explain-literalText = Literal text { $text }
+explain-anyCase = { $description }, any case
+explain-char-null = Null character
+explain-char-backspace = Backspace
+explain-char-tab = Tab
+explain-char-newline = Newline
+explain-char-verticalTab = Vertical tab
+explain-char-formFeed = Form feed
+explain-char-carriageReturn = Carriage return
+explain-char-space = Space
+explain-char-control = Control character { $codePoint }
+explain-empty = Nothing (always matches)
+explain-alternatives = One of { $count } alternatives
+explain-sequence = All of, in order
+explain-group-named = Named capture group { $name } (group { $index })
+explain-group-capture = Capture group { $index }
+explain-group-nonCapturing = Non-capturing group
+explain-group-flagsOn = Non-capturing group with flags { $on } on
+explain-group-flagsOff = Non-capturing group with flags { $off } off
+explain-group-flagsOnOff = Non-capturing group with flags { $on } on, { $off } off
+explain-lookahead = Positive lookahead: followed by
+explain-lookahead-negated = Negative lookahead: not followed by
+explain-lookbehind = Positive lookbehind: preceded by
+explain-lookbehind-negated = Negative lookbehind: not preceded by
+explain-quantifier-zeroOrMore = Zero or more times
+explain-quantifier-oneOrMore = One or more times
+explain-quantifier-optional = Optional (zero or one time)
+explain-quantifier-exactly = { $count ->
+    [one] Exactly { $count } time
+   *[other] Exactly { $count } times
+}
+explain-quantifier-atLeast = At least { $min } times
+explain-quantifier-between = Between { $min } and { $max } times
+explain-quantifier-greedy = { $quantifier }, as many as possible
+explain-quantifier-lazy = { $quantifier }, as few as possible (lazy)
+explain-class-digit = Any digit (0-9)
+explain-class-nonDigit = Any non-digit
+explain-class-word = Any word character [a-zA-Z0-9_]
+explain-class-nonWord = Any non-word character
+explain-class-space = Any whitespace
+explain-class-nonSpace = Any non-whitespace
+explain-class-set = One character of
+explain-class-set-negated = Any character except
+explain-class-intersection = One character in all of these sets
+explain-class-intersection-negated = Any character not in all of these sets
+explain-class-subtraction = One character in the first set but not the others
+explain-class-subtraction-negated = Any character except those in the first set but not the others
+explain-class-range = Any character from { $from } to { $to }
+explain-class-strings = One of the strings { $strings }
+explain-category-letter = Any letter
+explain-category-letter-negated = Any character that isn't a letter
+explain-category-uppercase = Any uppercase letter
+explain-category-uppercase-negated = Any character that isn't an uppercase letter
+explain-category-lowercase = Any lowercase letter
+explain-category-lowercase-negated = Any character that isn't a lowercase letter
+explain-category-titlecase = Any titlecase letter
+explain-category-titlecase-negated = Any character that isn't a titlecase letter
+explain-category-mark = Any combining mark
+explain-category-mark-negated = Any character that isn't a combining mark
+explain-category-number = Any number
+explain-category-number-negated = Any character that isn't a number
+explain-category-digit = Any decimal digit
+explain-category-digit-negated = Any character that isn't a decimal digit
+explain-category-punctuation = Any punctuation character
+explain-category-punctuation-negated = Any character that isn't a punctuation character
+explain-category-symbol = Any symbol
+explain-category-symbol-negated = Any character that isn't a symbol
+explain-category-currency = Any currency symbol
+explain-category-currency-negated = Any character that isn't a currency symbol
+explain-category-separator = Any separator
+explain-category-separator-negated = Any character that isn't a separator
+explain-category-spaceSeparator = Any space separator
+explain-category-spaceSeparator-negated = Any character that isn't a space separator
+explain-category-other = Any control or unassigned character
+explain-category-other-negated = Any character that isn't a control or unassigned character
+explain-category-control = Any control character
+explain-category-control-negated = Any character that isn't a control character
+explain-property-script = Any character in the { $script } script
+explain-property-script-negated = Any character that isn't in the { $script } script
+explain-property-value = Any character with { $name } = { $value }
+explain-property-value-negated = Any character without { $name } = { $value }
+explain-property = Any character with the Unicode property { $name }
+explain-property-negated = Any character without the Unicode property { $name }
+explain-dot = Any character except line breaks
+explain-dot-all = Any character
+explain-stringStart = Start of string
+explain-stringEnd = End of string
+explain-lineStart = Start of a line
+explain-lineEnd = End of a line
+explain-wordBoundary = Word boundary
+explain-nonWordBoundary = Non-word boundary
+explain-backreference = Same text as group { $group } matched
+explain-flag-indices = Indices: record where each group matched
+explain-flag-global = Global: find every match, not just the first
+explain-flag-ignoreCase = Ignore case
+explain-flag-multiline = Multiline: ^ and $ match at every line
+explain-flag-dotAll = Dot all: . also matches line breaks
+explain-flag-unicode = Unicode: match by code point and allow \p escapes
+explain-flag-unicodeSets = Unicode sets: like u, plus set operations in classes
+explain-flag-sticky = Sticky: each match must start where the previous one ended
+explain-flag-replaceAll = Global: replace every match, not just the first
+explain-flag-performance = Show how long the substitution took
+explain-flag-diff = Show what changed: removed text struck through
+explain-flag-occurrence = Replace only match { $occurrence }
+explain-flag-occurrenceOnward = Replace match { $occurrence } and every one after it
+explain-flag-unknown = Not a flag, ignored
+explain-flag-firstOnly = Without g, only the first match is replaced
+explain-address = Address:
+explain-address-line = Only line { $line }
+explain-address-last = Only the last line
+explain-address-regex = Only lines matching { $pattern }
+explain-address-range = From { $start } to { $end }
+explain-address-part-line = line { $line }
+explain-address-part-last = the last line
+explain-address-part-regex = a line matching { $pattern }
+explain-transliteration = Transliteration:
+explain-transliteration-characters = Characters:
+explain-transliteration-char = { $from } becomes { $to }
+explain-replacement-empty = Nothing: matches are deleted
+explain-replacement-group = Text of group { $group }
+explain-replacement-groupThen = Text of group { $group }, then { $rest }
+explain-replacement-noGroup = Literal { $text } (there is no group { $group })
+explain-replacement-missingName = Nothing (there is no group { $name })
+explain-replacement-noNamedGroups = Literal { $text } (the pattern has no named groups)
+explain-replacement-match = The whole match
+explain-replacement-before = Text before the match
+explain-replacement-after = Text after the match
 
 ## Tips
 tip-optimization = Tip: { $suggestion }
 tip-useShorthand = Use { $shorthand } instead of { $longform } (shorter)
 tip-nonCapturing = Use (?:...) for groups you don't reference
 tip-greedy = Consider using .*? instead of .* (non-greedy)
+tip-whitespace = Use { $shorthand } instead of { $longform } (matches all whitespace characters)
+tip-dotAll = Use . with the s flag instead of { $longform } (more idiomatic)
+tip-unnecessaryEscape = Remove unnecessary escapes like { $example } (cleaner pattern)
+tip-anchors = Add ^ and/or $ anchors to unbounded patterns (can improve performance)
+
+## Dangerous pattern warnings
+danger-title = Warning: This pattern may cause performance issues
+danger-pattern = Pattern: { $pattern }
+danger-riskScore = Risk Score: { $score }/100
+danger-issuesFound = Issues found:
+danger-footer = The bot will still execute this pattern, but it may be slow on certain inputs.
+danger-exponential = In { $subexpression } the repeated parts can match the same text in many ways, so a failing match takes exponential time
+danger-exponential-suggestion = Make the repeated parts unable to match the same text, e.g. (a+)+ → a+
+danger-polynomial = { $subexpression } has overlapping repetitions, so a failing match takes polynomial time of degree { $degree }
+danger-polynomial-suggestion = Make neighbouring repetitions match different characters, or anchor the pattern
+danger-unknown = The pattern is too complex to check, so a failing match may take exponential time
+danger-unknown-suggestion = Shorten the pattern, or split it into several commands
+danger-attack = Input like this gets slower the longer it is: { $example }
+danger-blocked = Blocked: this pattern can take exponential time, and this chat doesn't run such patterns.
+danger-footerSandbox = The bot runs this pattern with a time limit of { $seconds }s.
+danger-sandboxTimeout = Stopped after { $seconds }s: this chat runs dangerous patterns with a short time limit.
 
 ## Regex Help
 regexHelp-title = Regex Help
 regexHelp-selectCategory = Select a category to learn about regex syntax:
 regexHelp-back = Back
 regexHelp-backToCategories = Back to Categories
+regexHelp-availableItems = Available items:
+regexHelp-example = Example:
+regexHelp-categoryNotFound = Category not found
+regexHelp-itemNotFound = Item not found
+regexHelp-tokens = Tokens
+regexHelp-tokens-description = Special character classes that match specific types of characters
+regexHelp-tokens-digit = Matches any digit (0-9)
+regexHelp-tokens-digit-example = \d matches '5' in 'abc5def'
+regexHelp-tokens-nonDigit = Matches any non-digit
+regexHelp-tokens-nonDigit-example = \D matches 'a' in '123a456'
+regexHelp-tokens-word = Matches any word character [a-zA-Z0-9_]
+regexHelp-tokens-word-example = \w matches 'h' in 'hello'
+regexHelp-tokens-nonWord = Matches any non-word character
+regexHelp-tokens-nonWord-example = \W matches ' ' in 'hello world'
+regexHelp-tokens-space = Matches any whitespace (space, tab, newline)
+regexHelp-tokens-space-example = \s matches the space in 'a b'
+regexHelp-tokens-nonSpace = Matches any non-whitespace
+regexHelp-tokens-nonSpace-example = \S matches 'a' in ' a '
+regexHelp-tokens-dot = Matches any character except newline
+regexHelp-tokens-dot-example = . matches any character in 'abc'
+regexHelp-quantifiers = Quantifiers
+regexHelp-quantifiers-description = Specify how many times a pattern should match
+regexHelp-quantifiers-star = Zero or more times
+regexHelp-quantifiers-star-example = a* matches '', 'a', or 'aaa'
+regexHelp-quantifiers-plus = One or more times
+regexHelp-quantifiers-plus-example = a+ matches 'a' or 'aaa' but not ''
+regexHelp-quantifiers-question = Zero or one time (optional)
+regexHelp-quantifiers-question-example = a? matches '' or 'a'
+regexHelp-quantifiers-exact = Exactly n times
+regexHelp-quantifiers-exact-example = a{"{"}3{"}"} matches exactly 'aaa'
+regexHelp-quantifiers-min = At least n times
+regexHelp-quantifiers-min-example = a{"{"}2,{"}"} matches 'aa', 'aaa', etc.
+regexHelp-quantifiers-range = Between n and m times
+regexHelp-quantifiers-range-example = a{"{"}2,4{"}"} matches 'aa', 'aaa', or 'aaaa'
+regexHelp-anchors = Anchors
+regexHelp-anchors-description = Match positions rather than characters
+regexHelp-anchors-start = Start of string
+regexHelp-anchors-start-example = ^hello matches 'hello world' but not 'say hello'
+regexHelp-anchors-end = End of string
+regexHelp-anchors-end-example = world$ matches 'hello world' but not 'world peace'
+regexHelp-anchors-word = Word boundary
+regexHelp-anchors-word-example = \bcat\b matches 'cat' but not 'category'
+regexHelp-anchors-nonWord = Non-word boundary
+regexHelp-anchors-nonWord-example = \Bcat matches 'category' but not 'cat'
+regexHelp-groups = Groups
+regexHelp-groups-description = Group parts of patterns together
+regexHelp-groups-capture = Capture group - remembers match for backreferences
+regexHelp-groups-capture-example = (abc) captures 'abc' for use with $1
+regexHelp-groups-nonCapture = Non-capturing group - groups without remembering
+regexHelp-groups-nonCapture-example = (?:abc) groups but doesn't capture
+regexHelp-groups-lookahead = Positive lookahead - matches if followed by
+regexHelp-groups-lookahead-example = a(?=b) matches 'a' only if followed by 'b'
+regexHelp-groups-negLookahead = Negative lookahead - matches if NOT followed by
+regexHelp-groups-negLookahead-example = a(?!b) matches 'a' only if NOT followed by 'b'
+regexHelp-classes = Character Classes
+regexHelp-classes-description = Match specific sets of characters
+regexHelp-classes-set = Character set - match any character inside
+regexHelp-classes-set-example = [abc] matches 'a', 'b', or 'c'
+regexHelp-classes-negSet = Negated set - match any character NOT inside
+regexHelp-classes-negSet-example = [^abc] matches any character except 'a', 'b', 'c'
+regexHelp-classes-range = Range - match any character in range
+regexHelp-classes-range-example = [a-z] matches any lowercase letter
+regexHelp-escapes = Escapes
+regexHelp-escapes-description = Match special characters literally
+regexHelp-escapes-dot = Literal dot
+regexHelp-escapes-dot-example = \. matches '.' not 'any character'
+regexHelp-escapes-star = Literal asterisk
+regexHelp-escapes-star-example = \* matches '*' not 'zero or more'
+regexHelp-escapes-plus = Literal plus
+regexHelp-escapes-plus-example = \+ matches '+' not 'one or more'
+regexHelp-escapes-backslash = Literal backslash
+regexHelp-escapes-backslash-example = \\ matches a single backslash
+regexHelp-escapes-tab = Tab character
+regexHelp-escapes-tab-example = \t matches a tab
+regexHelp-escapes-newline = Newline character
+regexHelp-escapes-newline-example = \n matches a newline
+regexHelp-flags = Flags
+regexHelp-flags-description = Modify how the regex behaves
+regexHelp-flags-global = Global - find all matches, not just first
+regexHelp-flags-global-example = /a/g matches all 'a's in 'banana'
+regexHelp-flags-ignoreCase = Ignore case - case insensitive matching
+regexHelp-flags-ignoreCase-example = /hello/i matches 'HELLO', 'Hello', etc.
+regexHelp-flags-multiline = Multiline - ^ and $ match line boundaries
+regexHelp-flags-multiline-example = /^foo/m matches 'foo' at start of any line
+regexHelp-flags-dotAll = Dot all - dot matches newlines too
+regexHelp-flags-dotAll-example = /.+/s matches entire multiline text
+regexHelp-flags-performance = Performance - show timing info (custom flag)
+regexHelp-flags-performance-example = /pattern/p shows execution time
+regexHelp-flags-diff = Diff - show removed text struck through and inserted text underlined (custom flag)
+regexHelp-flags-diff-example = s/cat/dog/d shows cat struck through, followed by dog
+regexHelp-flags-occurrence = Occurrence - replace only the Nth match, or the Nth onward with g (custom flag)
+regexHelp-flags-occurrence-example = s/a/o/2 turns 'banana' into 'banona', s/a/o/2g into 'banono'
 
 ## Health & Metrics
 health-title = Bot Health Status
+health-status = Bot Health Status: { $status }
 health-healthy = HEALTHY
 health-degraded = DEGRADED
 health-unhealthy = UNHEALTHY
+health-unknown = UNKNOWN
 health-workers = Workers: { $active } active, { $idle } idle
 health-queue = Queue: { $pending } pending tasks
 health-errorRate = Error Rate: { $rate }%
+health-workersUnavailable = Worker pool: Not available
+health-circuitBreakers = Circuit Breakers:
+health-circuitClosed = CLOSED
+health-circuitOpen = OPEN
+health-circuitHalfOpen = HALF-OPEN
+health-circuitRetry = retry in { $seconds }s
 health-uptime = Uptime: { $uptime }
 
 metrics-title = Performance Metrics
-metrics-cacheHitRate = Cache Hit Rate: { $rate }%
+metrics-cacheEntries = Cache: { $count } entries
+metrics-cacheDisabled = Cache: Disabled
+metrics-cacheHitRate = Cache Hit Rate: { $rate }% ({ $hits }/{ $lookups } lookups)
+metrics-cacheChurn = Cache Evictions: { $evictions }, Expirations: { $expirations }
 metrics-avgProcessingTime = Avg Processing Time: { $time }ms
 metrics-totalSubstitutions = Total Substitutions: { $count }
-metrics-regexCompilations = Regex Compilations: { $total } (cached: { $cached })
+metrics-regexCompilations = Regex Compilations: { $total }
 
 ## General
 general-yes = Yes
@@ -1,21 +1,31 @@
 # Spanish translations
 
 ## Errors
-error-rateLimit = Límite de velocidad excedido. Por favor espera { $seconds } segundos.
+error-rateLimit = { $seconds ->
+    [one] Límite de velocidad excedido. Por favor espera { $seconds } segundo.
+   *[other] Límite de velocidad excedido. Por favor espera { $seconds } segundos.
+}
 error-invalidRegex = Patrón regex inválido. Verifica tu sintaxis e inténtalo de nuevo.
 error-telegramAPI = Algo salió mal. Por favor inténtalo de nuevo.
+error-telegramRateLimit = Límite de velocidad alcanzado. Espera un momento antes de volver a intentarlo.
+error-telegramUnavailable = Telegram está teniendo problemas. Inténtalo de nuevo en un momento.
 error-workerTimeout = Error de procesamiento. Por favor inténtalo con un patrón más simple.
 error-circuitOpen = Servicio temporalmente no disponible. Por favor inténtalo más tarde.
 error-noTarget = No se encontró objetivo coincidente en mensajes recientes.
 error-targetIsCommand = No se puede sustituir en otro comando sed.
 error-messageTooLong = El resultado es demasiado largo ({ $length }/{ $max } caracteres).
 error-chainTooLong = Demasiados comandos en cadena (máx { $max }).
+error-substitution = Error durante la sustitución: { $error }
+error-unexpected = Ocurrió un error inesperado. Por favor inténtalo de nuevo.
+error-replyOnly = En este chat, responde al mensaje que quieres cambiar.
+error-flagsNotAllowed = Estos flags están desactivados en este chat: { $flags }
 
 ## Commands
 command-start = ¡Hola! Soy un bot de regex. Usa s/find/replace/flags para sustituir texto en mensajes. El texto de reemplazo puede abarcar múltiples líneas o usar secuencias de escape como `\n`. También puedes encadenar múltiples comandos, uno por línea.
 
     Flags especiales:
     - `p`: Mostrar tiempo de ejecución
+    - `d`: Mostrar los cambios (texto eliminado tachado)
     Usa `\N` para grupos capturados.
 
 command-privacy = Este bot no recopila ni procesa datos de usuario, aparte de un breve historial de mensajes para realizar sustituciones regex. Estos se almacenan en una base de datos SQL en memoria durante 48 horas y no pueden ser accedidos por el administrador del bot de ninguna manera.
@@ -33,40 +43,382 @@ command-language-list = Idiomas disponibles:
     Usa /language set <código> para cambiar.
 command-language-setSuccess = Idioma cambiado a { $language }
 command-language-setError = Código de idioma inválido. Usa /language list para ver las opciones disponibles.
+command-language-chatOverride = Este chat usa { $language } para todos, según lo configurado por sus administradores.
+
+command-start-description = Recibir un mensaje de bienvenida
+command-privacy-description = Mostrar información de privacidad
+command-regexhelp-description = Ayuda con la sintaxis regex
+command-explain-description = Explicar un patrón regex
+command-language-description = Cambiar el idioma del bot
+command-health-description = Mostrar el estado de salud del bot
+command-metrics-description = Mostrar métricas de rendimiento
+command-chatsettings-description = Cambiar la configuración de este chat
+command-test-description = Probar una regex con un texto
+command-undo-description = Deshacer el último cambio de una corrección
+command-redo-description = Rehacer un cambio deshecho de una corrección
+
+## Chat settings
+chatSettings-title = Configuración de este chat:
+chatSettings-language = Idioma: { $language }
+chatSettings-languageUnset = no establecido (cada persona recibe su propio idioma)
+chatSettings-on = activado
+chatSettings-off = desactivado
+chatSettings-tips = Consejos de optimización: { $state }
+chatSettings-dangerWarnings = Avisos de patrones peligrosos: { $state }
+chatSettings-dangerPolicy = Patrones peligrosos: { $policy }
+chatSettings-dangerPolicy-warn = avisar
+chatSettings-dangerPolicy-block = bloquear
+chatSettings-dangerPolicy-sandbox = sandbox
+chatSettings-replyOnly = Modo solo respuestas: { $state }
+chatSettings-maxChainLength = Máx. comandos por mensaje: { $count }
+chatSettings-allowedFlags = Flags permitidos: { $flags }
+chatSettings-noFlags = ninguno
+chatSettings-menuHint = Pulsa un botón de abajo para cambiar un ajuste.
+chatSettings-usage = Uso:
+    /chatsettings - Mostrar la configuración de este chat
+    /chatsettings language <code> - Responder a todos en este idioma
+    /chatsettings language reset - Responder a cada persona en su propio idioma
+
+chatSettings-notAdmin = Solo los administradores del chat pueden cambiar su configuración.
+chatSettings-languageSet = Idioma del chat cambiado a { $language }
+chatSettings-languageReset = Idioma del chat restablecido. Cada persona vuelve a recibir su propio idioma.
 
 ## Substitution results
 substitution-result = Resultado: { $result }
 substitution-noMatch = No se encontró coincidencia.
 substitution-multipleResults = Aplicadas { $count } sustituciones
-substitution-performance = Realizadas { $count } sustituciones en { $time }
+substitution-performance = { $count ->
+    [one] Realizada { $count } sustitución en { $time }
+   *[other] Realizadas { $count } sustituciones en { $time }
+}
+
+## Corrections
+correction-notReply = Responde a una de mis correcciones para deshacerla o rehacerla.
+correction-nothingToUndo = No hay nada que deshacer.
+correction-nothingToRedo = No hay nada que rehacer.
+
+## Inline mode
+inline-usage = Escribe s/buscar/reemplazar/ | texto
+inline-resultTitle = Texto sustituido
+inline-errorTitle = La sustitución falló
+inline-dangerTitle = Patrón peligroso
+inline-emptyResult = (resultado vacío)
+
+## Regex testing
+regexTest-usage = Uso: /test patrón/flags [texto]
+    Responde a un mensaje para probarlo, o escribe el texto después del patrón.
+regexTest-matchCount = { $count ->
+    [one] { $count } coincidencia
+   *[other] { $count } coincidencias
+}
+regexTest-noMatches = Sin coincidencias.
+regexTest-match = Coincidencia { $number } en { $index }:
+regexTest-unmatched = sin coincidencia
+regexTest-moreMatches = { $count ->
+    [one] …y { $count } coincidencia más
+   *[other] …y { $count } coincidencias más
+}
+
+## Explain
+explain-usage = Indica un patrón para explicar.
+
+    Uso:
+    /explain patrón
+    /explain /patrón/flags
+    /explain s/patrón/reemplazo/flags
+
+    Ejemplo: /explain s/(\w+)@(\w+)/$2: $1/gi
+explain-invalid = Patrón regex no válido: { $error }
+
+    Revisa la sintaxis e inténtalo de nuevo.
+explain-pattern = Patrón:
+explain-breakdown = Desglose:
+explain-flags = Flags:
+explain-replacement = Reemplazo:
+explain-truncated = (Explicación recortada)
+explain-quoted = «{ $text }»
+explain-literal = Carácter { $char }
+explain-literal-codePoint = Carácter { $char } ({ $codePoint })
+explain-literal-escaped = Carácter { $char } (escapado)
+explain-literalText = Texto { $text }
+explain-anyCase = { $description }, sin distinguir mayúsculas
+explain-char-null = Carácter nulo
+explain-char-backspace = Retroceso
+explain-char-tab = Tabulación
+explain-char-newline = Salto de línea
+explain-char-verticalTab = Tabulación vertical
+explain-char-formFeed = Avance de página
+explain-char-carriageReturn = Retorno de carro
+explain-char-space = Espacio
+explain-char-control = Carácter de control { $codePoint }
+explain-empty = Nada (siempre coincide)
+explain-alternatives = Una de { $count } alternativas
+explain-sequence = Todo esto, en orden
+explain-group-named = Grupo con nombre { $name } (grupo { $index })
+explain-group-capture = Grupo de captura { $index }
+explain-group-nonCapturing = Grupo sin captura
+explain-group-flagsOn = Grupo sin captura con los flags { $on } activados
+explain-group-flagsOff = Grupo sin captura con los flags { $off } desactivados
+explain-group-flagsOnOff = Grupo sin captura con los flags { $on } activados y { $off } desactivados
+explain-lookahead = Lookahead positivo: seguido de
+explain-lookahead-negated = Lookahead negativo: no seguido de
+explain-lookbehind = Lookbehind positivo: precedido de
+explain-lookbehind-negated = Lookbehind negativo: no precedido de
+explain-quantifier-zeroOrMore = Cero o más veces
+explain-quantifier-oneOrMore = Una o más veces
+explain-quantifier-optional = Opcional (cero o una vez)
+explain-quantifier-exactly = { $count ->
+    [one] Exactamente { $count } vez
+   *[other] Exactamente { $count } veces
+}
+explain-quantifier-atLeast = Al menos { $min } veces
+explain-quantifier-between = Entre { $min } y { $max } veces
+explain-quantifier-greedy = { $quantifier }, tantas como sea posible
+explain-quantifier-lazy = { $quantifier }, las menos posibles (perezoso)
+explain-class-digit = Cualquier dígito (0-9)
+explain-class-nonDigit = Cualquier carácter que no sea un dígito
+explain-class-word = Cualquier carácter de palabra [a-zA-Z0-9_]
+explain-class-nonWord = Cualquier carácter que no sea de palabra
+explain-class-space = Cualquier espacio en blanco
+explain-class-nonSpace = Cualquier carácter que no sea un espacio en blanco
+explain-class-set = Un carácter de
+explain-class-set-negated = Cualquier carácter excepto
+explain-class-intersection = Un carácter que esté en todos estos conjuntos
+explain-class-intersection-negated = Cualquier carácter que no esté en todos estos conjuntos
+explain-class-subtraction = Un carácter del primer conjunto que no esté en los demás
+explain-class-subtraction-negated = Cualquier carácter excepto los del primer conjunto que no están en los demás
+explain-class-range = Cualquier carácter de { $from } a { $to }
+explain-class-strings = Una de las cadenas { $strings }
+explain-category-letter = Cualquier letra
+explain-category-letter-negated = Cualquier carácter que no sea una letra
+explain-category-uppercase = Cualquier letra mayúscula
+explain-category-uppercase-negated = Cualquier carácter que no sea una letra mayúscula
+explain-category-lowercase = Cualquier letra minúscula
+explain-category-lowercase-negated = Cualquier carácter que no sea una letra minúscula
+explain-category-titlecase = Cualquier letra de título
+explain-category-titlecase-negated = Cualquier carácter que no sea una letra de título
+explain-category-mark = Cualquier marca combinable
+explain-category-mark-negated = Cualquier carácter que no sea una marca combinable
+explain-category-number = Cualquier número
+explain-category-number-negated = Cualquier carácter que no sea un número
+explain-category-digit = Cualquier dígito decimal
+explain-category-digit-negated = Cualquier carácter que no sea un dígito decimal
+explain-category-punctuation = Cualquier signo de puntuación
+explain-category-punctuation-negated = Cualquier carácter que no sea un signo de puntuación
+explain-category-symbol = Cualquier símbolo
+explain-category-symbol-negated = Cualquier carácter que no sea un símbolo
+explain-category-currency = Cualquier símbolo de moneda
+explain-category-currency-negated = Cualquier carácter que no sea un símbolo de moneda
+explain-category-separator = Cualquier separador
+explain-category-separator-negated = Cualquier carácter que no sea un separador
+explain-category-spaceSeparator = Cualquier separador de espacio
+explain-category-spaceSeparator-negated = Cualquier carácter que no sea un separador de espacio
+explain-category-other = Cualquier carácter de control o sin asignar
+explain-category-other-negated = Cualquier carácter que no sea de control ni sin asignar
+explain-category-control = Cualquier carácter de control
+explain-category-control-negated = Cualquier carácter que no sea de control
+explain-property-script = Cualquier carácter de la escritura { $script }
+explain-property-script-negated = Cualquier carácter que no sea de la escritura { $script }
+explain-property-value = Cualquier carácter con { $name } = { $value }
+explain-property-value-negated = Cualquier carácter sin { $name } = { $value }
+explain-property = Cualquier carácter con la propiedad Unicode { $name }
+explain-property-negated = Cualquier carácter sin la propiedad Unicode { $name }
+explain-dot = Cualquier carácter excepto saltos de línea
+explain-dot-all = Cualquier carácter
+explain-stringStart = Inicio del texto
+explain-stringEnd = Fin del texto
+explain-lineStart = Inicio de una línea
+explain-lineEnd = Fin de una línea
+explain-wordBoundary = Límite de palabra
+explain-nonWordBoundary = No es un límite de palabra
+explain-backreference = El mismo texto que encontró el grupo { $group }
+explain-flag-indices = Índices: guarda dónde coincidió cada grupo
+explain-flag-global = Global: encuentra todas las coincidencias, no solo la primera
+explain-flag-ignoreCase = Ignorar mayúsculas y minúsculas
+explain-flag-multiline = Multilínea: ^ y $ coinciden en cada línea
+explain-flag-dotAll = Dot all: . también coincide con saltos de línea
+explain-flag-unicode = Unicode: compara por punto de código y permite escapes \p
+explain-flag-unicodeSets = Conjuntos Unicode: como u, con operaciones de conjuntos en clases
+explain-flag-sticky = Sticky: cada coincidencia debe empezar donde terminó la anterior
+explain-flag-replaceAll = Global: reemplaza todas las coincidencias, no solo la primera
+explain-flag-performance = Muestra cuánto tardó la sustitución
+explain-flag-diff = Muestra qué cambió: el texto eliminado aparece tachado
+explain-flag-occurrence = Reemplaza solo la coincidencia { $occurrence }
+explain-flag-occurrenceOnward = Reemplaza la coincidencia { $occurrence } y todas las siguientes
+explain-flag-unknown = No es un flag, se ignora
+explain-flag-firstOnly = Sin g, solo se reemplaza la primera coincidencia
+explain-address = Dirección:
+explain-address-line = Solo la línea { $line }
+explain-address-last = Solo la última línea
+explain-address-regex = Solo las líneas que coinciden con { $pattern }
+explain-address-range = Desde { $start } hasta { $end }
+explain-address-part-line = la línea { $line }
+explain-address-part-last = la última línea
+explain-address-part-regex = una línea que coincide con { $pattern }
+explain-transliteration = Transliteración:
+explain-transliteration-characters = Caracteres:
+explain-transliteration-char = { $from } se convierte en { $to }
+explain-replacement-empty = Nada: las coincidencias se eliminan
+explain-replacement-group = Texto del grupo { $group }
+explain-replacement-groupThen = Texto del grupo { $group }, seguido de { $rest }
+explain-replacement-noGroup = Carácter { $text } (no existe el grupo { $group })
+explain-replacement-missingName = Nada (no existe el grupo { $name })
+explain-replacement-noNamedGroups = Carácter { $text } (el patrón no tiene grupos con nombre)
+explain-replacement-match = La coincidencia completa
+explain-replacement-before = Texto antes de la coincidencia
+explain-replacement-after = Texto después de la coincidencia
 
 ## Tips
 tip-optimization = Consejo: { $suggestion }
 tip-useShorthand = Usa { $shorthand } en lugar de { $longform } (más corto)
 tip-nonCapturing = Usa (?:...) para grupos que no referencias
 tip-greedy = Considera usar .*? en lugar de .* (no codicioso)
+tip-whitespace = Usa { $shorthand } en lugar de { $longform } (incluye todos los espacios en blanco)
+tip-dotAll = Usa . con el flag s en lugar de { $longform } (más idiomático)
+tip-unnecessaryEscape = Elimina escapes innecesarios como { $example } (patrón más limpio)
+tip-anchors = Añade anclas ^ y/o $ a los patrones sin límites (puede mejorar el rendimiento)
+
+## Dangerous pattern warnings
+danger-title = Advertencia: este patrón puede causar problemas de rendimiento
+danger-pattern = Patrón: { $pattern }
+danger-riskScore = Puntuación de Riesgo: { $score }/100
+danger-issuesFound = Problemas encontrados:
+danger-footer = El bot ejecutará este patrón de todos modos, pero puede ser lento con ciertas entradas.
+danger-exponential = En { $subexpression } las partes repetidas pueden coincidir con el mismo texto de muchas formas, así que una coincidencia fallida tarda un tiempo exponencial
+danger-exponential-suggestion = Haz que las partes repetidas no puedan coincidir con el mismo texto, p. ej. (a+)+ → a+
+danger-polynomial = { $subexpression } tiene repeticiones superpuestas, así que una coincidencia fallida tarda un tiempo polinómico de grado { $degree }
+danger-polynomial-suggestion = Haz que las repeticiones vecinas coincidan con caracteres distintos o ancla el patrón
+danger-unknown = El patrón es demasiado complejo para comprobarlo, así que una coincidencia fallida puede tardar un tiempo exponencial
+danger-unknown-suggestion = Acorta el patrón o divídelo en varios comandos
+danger-attack = Entradas como esta se vuelven más lentas cuanto más largas son: { $example }
+danger-blocked = Bloqueado: este patrón puede tardar un tiempo exponencial y este chat no ejecuta patrones así.
+danger-footerSandbox = El bot ejecuta este patrón con un límite de tiempo de { $seconds } s.
+danger-sandboxTimeout = Detenido tras { $seconds } s: este chat ejecuta los patrones peligrosos con un límite de tiempo corto.
 
 ## Regex Help
 regexHelp-title = Ayuda de Regex
 regexHelp-selectCategory = Selecciona una categoría para aprender sintaxis regex:
 regexHelp-back = Atrás
 regexHelp-backToCategories = Volver a Categorías
+regexHelp-availableItems = Elementos disponibles:
+regexHelp-example = Ejemplo:
+regexHelp-categoryNotFound = Categoría no encontrada
+regexHelp-itemNotFound = Elemento no encontrado
+regexHelp-tokens = Tokens
+regexHelp-tokens-description = Clases de caracteres especiales que coinciden con tipos concretos de caracteres
+regexHelp-tokens-digit = Coincide con cualquier dígito (0-9)
+regexHelp-tokens-digit-example = \d coincide con '5' en 'abc5def'
+regexHelp-tokens-nonDigit = Coincide con cualquier carácter que no sea un dígito
+regexHelp-tokens-nonDigit-example = \D coincide con 'a' en '123a456'
+regexHelp-tokens-word = Coincide con cualquier carácter de palabra [a-zA-Z0-9_]
+regexHelp-tokens-word-example = \w coincide con 'h' en 'hello'
+regexHelp-tokens-nonWord = Coincide con cualquier carácter que no sea de palabra
+regexHelp-tokens-nonWord-example = \W coincide con ' ' en 'hello world'
+regexHelp-tokens-space = Coincide con cualquier espacio en blanco (espacio, tabulación, salto de línea)
+regexHelp-tokens-space-example = \s coincide con el espacio en 'a b'
+regexHelp-tokens-nonSpace = Coincide con cualquier carácter que no sea un espacio en blanco
+regexHelp-tokens-nonSpace-example = \S coincide con 'a' en ' a '
+regexHelp-tokens-dot = Coincide con cualquier carácter excepto el salto de línea
+regexHelp-tokens-dot-example = . coincide con cualquier carácter en 'abc'
+regexHelp-quantifiers = Cuantificadores
+regexHelp-quantifiers-description = Indican cuántas veces debe coincidir un patrón
+regexHelp-quantifiers-star = Cero o más veces
+regexHelp-quantifiers-star-example = a* coincide con '', 'a' o 'aaa'
+regexHelp-quantifiers-plus = Una o más veces
+regexHelp-quantifiers-plus-example = a+ coincide con 'a' o 'aaa', pero no con ''
+regexHelp-quantifiers-question = Cero o una vez (opcional)
+regexHelp-quantifiers-question-example = a? coincide con '' o 'a'
+regexHelp-quantifiers-exact = Exactamente n veces
+regexHelp-quantifiers-exact-example = a{"{"}3{"}"} coincide exactamente con 'aaa'
+regexHelp-quantifiers-min = Al menos n veces
+regexHelp-quantifiers-min-example = a{"{"}2,{"}"} coincide con 'aa', 'aaa', etc.
+regexHelp-quantifiers-range = Entre n y m veces
+regexHelp-quantifiers-range-example = a{"{"}2,4{"}"} coincide con 'aa', 'aaa' o 'aaaa'
+regexHelp-anchors = Anclas
+regexHelp-anchors-description = Coinciden con posiciones en lugar de caracteres
+regexHelp-anchors-start = Inicio del texto
+regexHelp-anchors-start-example = ^hello coincide con 'hello world', pero no con 'say hello'
+regexHelp-anchors-end = Fin del texto
+regexHelp-anchors-end-example = world$ coincide con 'hello world', pero no con 'world peace'
+regexHelp-anchors-word = Límite de palabra
+regexHelp-anchors-word-example = \bcat\b coincide con 'cat', pero no con 'category'
+regexHelp-anchors-nonWord = No es un límite de palabra
+regexHelp-anchors-nonWord-example = \Bcat coincide con 'category', pero no con 'cat'
+regexHelp-groups = Grupos
+regexHelp-groups-description = Agrupan partes de los patrones
+regexHelp-groups-capture = Grupo de captura - recuerda la coincidencia para referencias
+regexHelp-groups-capture-example = (abc) captura 'abc' para usarlo con $1
+regexHelp-groups-nonCapture = Grupo sin captura - agrupa sin recordar
+regexHelp-groups-nonCapture-example = (?:abc) agrupa, pero no captura
+regexHelp-groups-lookahead = Lookahead positivo - coincide si va seguido de
+regexHelp-groups-lookahead-example = a(?=b) coincide con 'a' solo si va seguida de 'b'
+regexHelp-groups-negLookahead = Lookahead negativo - coincide si NO va seguido de
+regexHelp-groups-negLookahead-example = a(?!b) coincide con 'a' solo si NO va seguida de 'b'
+regexHelp-classes = Clases de caracteres
+regexHelp-classes-description = Coinciden con conjuntos concretos de caracteres
+regexHelp-classes-set = Conjunto - coincide con cualquier carácter de dentro
+regexHelp-classes-set-example = [abc] coincide con 'a', 'b' o 'c'
+regexHelp-classes-negSet = Conjunto negado - coincide con cualquier carácter que NO esté dentro
+regexHelp-classes-negSet-example = [^abc] coincide con cualquier carácter excepto 'a', 'b', 'c'
+regexHelp-classes-range = Rango - coincide con cualquier carácter del rango
+regexHelp-classes-range-example = [a-z] coincide con cualquier letra minúscula
+regexHelp-escapes = Escapes
+regexHelp-escapes-description = Coinciden literalmente con caracteres especiales
+regexHelp-escapes-dot = Punto literal
+regexHelp-escapes-dot-example = \. coincide con '.', no con 'cualquier carácter'
+regexHelp-escapes-star = Asterisco literal
+regexHelp-escapes-star-example = \* coincide con '*', no con 'cero o más'
+regexHelp-escapes-plus = Más literal
+regexHelp-escapes-plus-example = \+ coincide con '+', no con 'una o más'
+regexHelp-escapes-backslash = Barra invertida literal
+regexHelp-escapes-backslash-example = \\ coincide con una sola barra invertida
+regexHelp-escapes-tab = Tabulación
+regexHelp-escapes-tab-example = \t coincide con una tabulación
+regexHelp-escapes-newline = Salto de línea
+regexHelp-escapes-newline-example = \n coincide con un salto de línea
+regexHelp-flags = Flags
+regexHelp-flags-description = Cambian el comportamiento de la regex
+regexHelp-flags-global = Global - encuentra todas las coincidencias, no solo la primera
+regexHelp-flags-global-example = /a/g coincide con todas las 'a' de 'banana'
+regexHelp-flags-ignoreCase = Ignorar mayúsculas - coincidencia sin distinguir mayúsculas
+regexHelp-flags-ignoreCase-example = /hello/i coincide con 'HELLO', 'Hello', etc.
+regexHelp-flags-multiline = Multilínea - ^ y $ coinciden en los límites de línea
+regexHelp-flags-multiline-example = /^foo/m coincide con 'foo' al inicio de cualquier línea
+regexHelp-flags-dotAll = Dot all - el punto también coincide con saltos de línea
+regexHelp-flags-dotAll-example = /.+/s coincide con todo el texto de varias líneas
+regexHelp-flags-performance = Rendimiento - muestra el tiempo de ejecución (flag propio)
+regexHelp-flags-performance-example = /pattern/p muestra el tiempo de ejecución
+regexHelp-flags-diff = Diff - muestra el texto eliminado tachado y el insertado subrayado (flag propio)
+regexHelp-flags-diff-example = s/cat/dog/d muestra cat tachado, seguido de dog
+regexHelp-flags-occurrence = Ocurrencia - reemplaza solo la n-ésima coincidencia, o desde la n-ésima con g (flag propio)
+regexHelp-flags-occurrence-example = s/a/o/2 convierte 'banana' en 'banona', s/a/o/2g en 'banono'
 
 ## Health & Metrics
 health-title = Estado de Salud del Bot
+health-status = Estado de Salud del Bot: { $status }
 health-healthy = SALUDABLE
 health-degraded = DEGRADADO
 health-unhealthy = NO SALUDABLE
+health-unknown = DESCONOCIDO
 health-workers = Workers: { $active } activos, { $idle } inactivos
 health-queue = Cola: { $pending } tareas pendientes
 health-errorRate = Tasa de Error: { $rate }%
+health-workersUnavailable = Pool de workers: No disponible
+health-circuitBreakers = Circuit Breakers:
+health-circuitClosed = CERRADO
+health-circuitOpen = ABIERTO
+health-circuitHalfOpen = SEMIABIERTO
+health-circuitRetry = reintento en { $seconds }s
 health-uptime = Tiempo de Actividad: { $uptime }
 
 metrics-title = Métricas de Rendimiento
-metrics-cacheHitRate = Tasa de Acierto de Caché: { $rate }%
+metrics-cacheEntries = Caché: { $count } entradas
+metrics-cacheDisabled = Caché: Desactivada
+metrics-cacheHitRate = Tasa de Acierto de Caché: { $rate }% ({ $hits }/{ $lookups } búsquedas)
+metrics-cacheChurn = Desalojos de Caché: { $evictions }, Expiraciones: { $expirations }
 metrics-avgProcessingTime = Tiempo Promedio de Procesamiento: { $time }ms
 metrics-totalSubstitutions = Sustituciones Totales: { $count }
-metrics-regexCompilations = Compilaciones Regex: { $total } (en caché: { $cached })
+metrics-regexCompilations = Compilaciones Regex: { $total }
 
 ## General
 general-yes = Sí
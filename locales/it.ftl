@@ -1,21 +1,31 @@
 # Italian translations
 
 ## Errors
-error-rateLimit = Limite di velocità superato. Attendi { $seconds } secondi.
+error-rateLimit = { $seconds ->
+    [one] Limite di velocità superato. Attendi { $seconds } secondo.
+   *[other] Limite di velocità superato. Attendi { $seconds } secondi.
+}
 error-invalidRegex = Pattern regex non valido. Controlla la sintassi e riprova.
 error-telegramAPI = Qualcosa è andato storto. Per favore riprova.
+error-telegramRateLimit = Limite di velocità raggiunto. Attendi un momento prima di riprovare.
+error-telegramUnavailable = Telegram ha dei problemi. Riprova tra un momento.
 error-workerTimeout = Errore di elaborazione. Riprova con un pattern più semplice.
 error-circuitOpen = Servizio temporaneamente non disponibile. Riprova più tardi.
 error-noTarget = Nessun target corrispondente trovato nei messaggi recenti.
 error-targetIsCommand = Impossibile sostituire su un altro comando sed.
 error-messageTooLong = Il risultato è troppo lungo ({ $length }/{ $max } caratteri).
 error-chainTooLong = Troppi comandi in catena (max { $max }).
+error-substitution = Errore durante la sostituzione: { $error }
+error-unexpected = Si è verificato un errore imprevisto. Per favore riprova.
+error-replyOnly = In questa chat, rispondi al messaggio che vuoi modificare.
+error-flagsNotAllowed = Questi flag sono disattivati in questa chat: { $flags }
 
 ## Commands
 command-start = Ciao! Sono un bot regex. Usa s/find/replace/flags per sostituire testo nei messaggi. Il testo di sostituzione può estendersi su più righe o usare sequenze di escape come `\n`. Puoi anche concatenare più comandi, uno per riga.
 
     Flag speciali:
     - `p`: Mostra tempo di esecuzione
+    - `d`: Mostra le modifiche (testo rimosso barrato)
     Usa `\N` per i gruppi catturati.
 
 command-privacy = Questo bot non raccoglie né elabora dati utente, a parte un breve storico di messaggi per eseguire sostituzioni regex. Questi vengono archiviati in un database SQL in memoria per 48 ore e non possono essere accessibili dall'amministratore del bot in alcun modo.
@@ -33,40 +43,382 @@ command-language-list = Lingue disponibili:
     Usa /language set <codice> per cambiare.
 command-language-setSuccess = Lingua cambiata in { $language }
 command-language-setError = Codice lingua non valido. Usa /language list per vedere le opzioni disponibili.
+command-language-chatOverride = Questa chat usa { $language } per tutti, come impostato dai suoi amministratori.
+
+command-start-description = Ricevi un messaggio di benvenuto
+command-privacy-description = Mostra le informazioni sulla privacy
+command-regexhelp-description = Aiuto sulla sintassi regex
+command-explain-description = Spiega un pattern regex
+command-language-description = Cambia la lingua del bot
+command-health-description = Mostra lo stato di salute del bot
+command-metrics-description = Mostra le metriche di prestazione
+command-chatsettings-description = Modifica le impostazioni di questa chat
+command-test-description = Testa una regex su un testo
+command-undo-description = Annulla l'ultima modifica a una correzione
+command-redo-description = Ripristina una modifica annullata a una correzione
+
+## Chat settings
+chatSettings-title = Impostazioni di questa chat:
+chatSettings-language = Lingua: { $language }
+chatSettings-languageUnset = non impostata (ognuno riceve la propria lingua)
+chatSettings-on = attivo
+chatSettings-off = disattivo
+chatSettings-tips = Suggerimenti di ottimizzazione: { $state }
+chatSettings-dangerWarnings = Avvisi sui pattern pericolosi: { $state }
+chatSettings-dangerPolicy = Pattern pericolosi: { $policy }
+chatSettings-dangerPolicy-warn = avvisa
+chatSettings-dangerPolicy-block = blocca
+chatSettings-dangerPolicy-sandbox = sandbox
+chatSettings-replyOnly = Modalità solo risposte: { $state }
+chatSettings-maxChainLength = Max comandi per messaggio: { $count }
+chatSettings-allowedFlags = Flag consentiti: { $flags }
+chatSettings-noFlags = nessuno
+chatSettings-menuHint = Tocca un pulsante qui sotto per modificare un'impostazione.
+chatSettings-usage = Uso:
+    /chatsettings - Mostra le impostazioni di questa chat
+    /chatsettings language <code> - Rispondi a tutti in questa lingua
+    /chatsettings language reset - Rispondi a ognuno nella propria lingua
+
+chatSettings-notAdmin = Solo gli amministratori della chat possono modificarne le impostazioni.
+chatSettings-languageSet = Lingua della chat cambiata in { $language }
+chatSettings-languageReset = Lingua della chat reimpostata. Ognuno riceve di nuovo la propria lingua.
 
 ## Substitution results
 substitution-result = Risultato: { $result }
 substitution-noMatch = Nessuna corrispondenza trovata.
 substitution-multipleResults = Applicate { $count } sostituzioni
-substitution-performance = Eseguite { $count } sostituzioni in { $time }
+substitution-performance = { $count ->
+    [one] Eseguita { $count } sostituzione in { $time }
+   *[other] Eseguite { $count } sostituzioni in { $time }
+}
+
+## Corrections
+correction-notReply = Rispondi a una delle mie correzioni per annullarla o ripristinarla.
+correction-nothingToUndo = Non c'è niente da annullare.
+correction-nothingToRedo = Non c'è niente da ripristinare.
+
+## Inline mode
+inline-usage = Scrivi s/cerca/sostituisci/ | testo
+inline-resultTitle = Testo sostituito
+inline-errorTitle = Sostituzione non riuscita
+inline-dangerTitle = Pattern pericoloso
+inline-emptyResult = (risultato vuoto)
+
+## Regex testing
+regexTest-usage = Uso: /test pattern/flag [testo]
+    Rispondi a un messaggio per testarlo, oppure scrivi il testo dopo il pattern.
+regexTest-matchCount = { $count ->
+    [one] { $count } corrispondenza
+   *[other] { $count } corrispondenze
+}
+regexTest-noMatches = Nessuna corrispondenza.
+regexTest-match = Corrispondenza { $number } a { $index }:
+regexTest-unmatched = non trovato
+regexTest-moreMatches = { $count ->
+    [one] …e { $count } altra corrispondenza
+   *[other] …e altre { $count } corrispondenze
+}
+
+## Explain
+explain-usage = Indica un pattern da spiegare.
+
+    Uso:
+    /explain pattern
+    /explain /pattern/flag
+    /explain s/pattern/sostituzione/flag
+
+    Esempio: /explain s/(\w+)@(\w+)/$2: $1/gi
+explain-invalid = Pattern regex non valido: { $error }
+
+    Controlla la sintassi e riprova.
+explain-pattern = Pattern:
+explain-breakdown = Scomposizione:
+explain-flags = Flag:
+explain-replacement = Sostituzione:
+explain-truncated = (Spiegazione troncata)
+explain-quoted = «{ $text }»
+explain-literal = Carattere { $char }
+explain-literal-codePoint = Carattere { $char } ({ $codePoint })
+explain-literal-escaped = Carattere { $char } (con escape)
+explain-literalText = Testo { $text }
+explain-anyCase = { $description }, maiuscolo o minuscolo
+explain-char-null = Carattere nullo
+explain-char-backspace = Backspace
+explain-char-tab = Tabulazione
+explain-char-newline = A capo
+explain-char-verticalTab = Tabulazione verticale
+explain-char-formFeed = Avanzamento pagina
+explain-char-carriageReturn = Ritorno a capo
+explain-char-space = Spazio
+explain-char-control = Carattere di controllo { $codePoint }
+explain-empty = Niente (corrisponde sempre)
+explain-alternatives = Una di { $count } alternative
+explain-sequence = Tutto questo, in ordine
+explain-group-named = Gruppo con nome { $name } (gruppo { $index })
+explain-group-capture = Gruppo di cattura { $index }
+explain-group-nonCapturing = Gruppo non catturante
+explain-group-flagsOn = Gruppo non catturante con i flag { $on } attivi
+explain-group-flagsOff = Gruppo non catturante con i flag { $off } disattivati
+explain-group-flagsOnOff = Gruppo non catturante con i flag { $on } attivi e { $off } disattivati
+explain-lookahead = Lookahead positivo: seguito da
+explain-lookahead-negated = Lookahead negativo: non seguito da
+explain-lookbehind = Lookbehind positivo: preceduto da
+explain-lookbehind-negated = Lookbehind negativo: non preceduto da
+explain-quantifier-zeroOrMore = Zero o più volte
+explain-quantifier-oneOrMore = Una o più volte
+explain-quantifier-optional = Facoltativo (zero o una volta)
+explain-quantifier-exactly = { $count ->
+    [one] Esattamente { $count } volta
+   *[other] Esattamente { $count } volte
+}
+explain-quantifier-atLeast = Almeno { $min } volte
+explain-quantifier-between = Da { $min } a { $max } volte
+explain-quantifier-greedy = { $quantifier }, il più possibile
+explain-quantifier-lazy = { $quantifier }, il meno possibile (lazy)
+explain-class-digit = Qualsiasi cifra (0-9)
+explain-class-nonDigit = Qualsiasi carattere che non sia una cifra
+explain-class-word = Qualsiasi carattere di parola [a-zA-Z0-9_]
+explain-class-nonWord = Qualsiasi carattere che non sia di parola
+explain-class-space = Qualsiasi spazio bianco
+explain-class-nonSpace = Qualsiasi carattere che non sia uno spazio bianco
+explain-class-set = Un carattere tra
+explain-class-set-negated = Qualsiasi carattere tranne
+explain-class-intersection = Un carattere presente in tutti questi insiemi
+explain-class-intersection-negated = Qualsiasi carattere non presente in tutti questi insiemi
+explain-class-subtraction = Un carattere del primo insieme ma non degli altri
+explain-class-subtraction-negated = Qualsiasi carattere tranne quelli del primo insieme che non sono negli altri
+explain-class-range = Qualsiasi carattere da { $from } a { $to }
+explain-class-strings = Una delle stringhe { $strings }
+explain-category-letter = Qualsiasi lettera
+explain-category-letter-negated = Qualsiasi carattere che non sia una lettera
+explain-category-uppercase = Qualsiasi lettera maiuscola
+explain-category-uppercase-negated = Qualsiasi carattere che non sia una lettera maiuscola
+explain-category-lowercase = Qualsiasi lettera minuscola
+explain-category-lowercase-negated = Qualsiasi carattere che non sia una lettera minuscola
+explain-category-titlecase = Qualsiasi lettera titlecase
+explain-category-titlecase-negated = Qualsiasi carattere che non sia una lettera titlecase
+explain-category-mark = Qualsiasi segno combinante
+explain-category-mark-negated = Qualsiasi carattere che non sia un segno combinante
+explain-category-number = Qualsiasi numero
+explain-category-number-negated = Qualsiasi carattere che non sia un numero
+explain-category-digit = Qualsiasi cifra decimale
+explain-category-digit-negated = Qualsiasi carattere che non sia una cifra decimale
+explain-category-punctuation = Qualsiasi segno di punteggiatura
+explain-category-punctuation-negated = Qualsiasi carattere che non sia un segno di punteggiatura
+explain-category-symbol = Qualsiasi simbolo
+explain-category-symbol-negated = Qualsiasi carattere che non sia un simbolo
+explain-category-currency = Qualsiasi simbolo di valuta
+explain-category-currency-negated = Qualsiasi carattere che non sia un simbolo di valuta
+explain-category-separator = Qualsiasi separatore
+explain-category-separator-negated = Qualsiasi carattere che non sia un separatore
+explain-category-spaceSeparator = Qualsiasi separatore di spazio
+explain-category-spaceSeparator-negated = Qualsiasi carattere che non sia un separatore di spazio
+explain-category-other = Qualsiasi carattere di controllo o non assegnato
+explain-category-other-negated = Qualsiasi carattere che non sia di controllo né non assegnato
+explain-category-control = Qualsiasi carattere di controllo
+explain-category-control-negated = Qualsiasi carattere che non sia di controllo
+explain-property-script = Qualsiasi carattere della scrittura { $script }
+explain-property-script-negated = Qualsiasi carattere che non sia della scrittura { $script }
+explain-property-value = Qualsiasi carattere con { $name } = { $value }
+explain-property-value-negated = Qualsiasi carattere senza { $name } = { $value }
+explain-property = Qualsiasi carattere con la proprietà Unicode { $name }
+explain-property-negated = Qualsiasi carattere senza la proprietà Unicode { $name }
+explain-dot = Qualsiasi carattere tranne gli a capo
+explain-dot-all = Qualsiasi carattere
+explain-stringStart = Inizio del testo
+explain-stringEnd = Fine del testo
+explain-lineStart = Inizio di una riga
+explain-lineEnd = Fine di una riga
+explain-wordBoundary = Confine di parola
+explain-nonWordBoundary = Non confine di parola
+explain-backreference = Lo stesso testo trovato dal gruppo { $group }
+explain-flag-indices = Indici: registra dove ha trovato corrispondenza ogni gruppo
+explain-flag-global = Globale: trova tutte le corrispondenze, non solo la prima
+explain-flag-ignoreCase = Ignora maiuscole e minuscole
+explain-flag-multiline = Multiriga: ^ e $ corrispondono a ogni riga
+explain-flag-dotAll = Dot all: . corrisponde anche agli a capo
+explain-flag-unicode = Unicode: confronta per code point e consente gli escape \p
+explain-flag-unicodeSets = Insiemi Unicode: come u, più le operazioni sugli insiemi nelle classi
+explain-flag-sticky = Sticky: ogni corrispondenza deve iniziare dove è finita la precedente
+explain-flag-replaceAll = Globale: sostituisce tutte le corrispondenze, non solo la prima
+explain-flag-performance = Mostra quanto è durata la sostituzione
+explain-flag-diff = Mostra cosa è cambiato: il testo rimosso è barrato
+explain-flag-occurrence = Sostituisce solo la corrispondenza { $occurrence }
+explain-flag-occurrenceOnward = Sostituisce la corrispondenza { $occurrence } e tutte le successive
+explain-flag-unknown = Non è un flag, ignorato
+explain-flag-firstOnly = Senza g viene sostituita solo la prima corrispondenza
+explain-address = Indirizzo:
+explain-address-line = Solo la riga { $line }
+explain-address-last = Solo l'ultima riga
+explain-address-regex = Solo le righe che corrispondono a { $pattern }
+explain-address-range = Intervallo: da { $start } a { $end }
+explain-address-part-line = riga { $line }
+explain-address-part-last = ultima riga
+explain-address-part-regex = una riga che corrisponde a { $pattern }
+explain-transliteration = Traslitterazione:
+explain-transliteration-characters = Caratteri:
+explain-transliteration-char = { $from } diventa { $to }
+explain-replacement-empty = Niente: le corrispondenze vengono eliminate
+explain-replacement-group = Testo del gruppo { $group }
+explain-replacement-groupThen = Testo del gruppo { $group }, poi { $rest }
+explain-replacement-noGroup = Carattere { $text } (il gruppo { $group } non esiste)
+explain-replacement-missingName = Niente (il gruppo { $name } non esiste)
+explain-replacement-noNamedGroups = Carattere { $text } (il pattern non ha gruppi con nome)
+explain-replacement-match = L'intera corrispondenza
+explain-replacement-before = Testo prima della corrispondenza
+explain-replacement-after = Testo dopo la corrispondenza
 
 ## Tips
 tip-optimization = Suggerimento: { $suggestion }
 tip-useShorthand = Usa { $shorthand } invece di { $longform } (più corto)
 tip-nonCapturing = Usa (?:...) per i gruppi che non referenzi
 tip-greedy = Considera di usare .*? invece di .* (non avido)
+tip-whitespace = Usa { $shorthand } invece di { $longform } (include tutti gli spazi bianchi)
+tip-dotAll = Usa . con il flag s invece di { $longform } (più idiomatico)
+tip-unnecessaryEscape = Rimuovi gli escape non necessari come { $example } (pattern più pulito)
+tip-anchors = Aggiungi le ancore ^ e/o $ ai pattern non delimitati (può migliorare le prestazioni)
+
+## Dangerous pattern warnings
+danger-title = Attenzione: questo pattern potrebbe causare problemi di prestazioni
+danger-pattern = Pattern: { $pattern }
+danger-riskScore = Punteggio di Rischio: { $score }/100
+danger-issuesFound = Problemi trovati:
+danger-footer = Il bot eseguirà comunque questo pattern, ma potrebbe essere lento con certi input.
+danger-exponential = In { $subexpression } le parti ripetute possono corrispondere allo stesso testo in molti modi, quindi una corrispondenza fallita richiede tempo esponenziale
+danger-exponential-suggestion = Fai in modo che le parti ripetute non possano corrispondere allo stesso testo, es. (a+)+ → a+
+danger-polynomial = { $subexpression } ha ripetizioni sovrapposte, quindi una corrispondenza fallita richiede tempo polinomiale di grado { $degree }
+danger-polynomial-suggestion = Fai corrispondere le ripetizioni vicine a caratteri diversi, oppure ancora il pattern
+danger-unknown = Il pattern è troppo complesso da verificare, quindi una corrispondenza fallita può richiedere tempo esponenziale
+danger-unknown-suggestion = Accorcia il pattern oppure dividilo in più comandi
+danger-attack = Input come questo diventano più lenti quanto più sono lunghi: { $example }
+danger-blocked = Bloccato: questo pattern può richiedere tempo esponenziale e questa chat non esegue pattern simili.
+danger-footerSandbox = Il bot esegue questo pattern con un limite di tempo di { $seconds } s.
+danger-sandboxTimeout = Interrotto dopo { $seconds } s: questa chat esegue i pattern pericolosi con un limite di tempo breve.
 
 ## Regex Help
 regexHelp-title = Aiuto Regex
 regexHelp-selectCategory = Seleziona una categoria per imparare la sintassi regex:
 regexHelp-back = Indietro
 regexHelp-backToCategories = Torna alle Categorie
+regexHelp-availableItems = Elementi disponibili:
+regexHelp-example = Esempio:
+regexHelp-categoryNotFound = Categoria non trovata
+regexHelp-itemNotFound = Elemento non trovato
+regexHelp-tokens = Token
+regexHelp-tokens-description = Classi di caratteri speciali che corrispondono a tipi specifici di caratteri
+regexHelp-tokens-digit = Corrisponde a qualsiasi cifra (0-9)
+regexHelp-tokens-digit-example = \d corrisponde a '5' in 'abc5def'
+regexHelp-tokens-nonDigit = Corrisponde a qualsiasi carattere che non sia una cifra
+regexHelp-tokens-nonDigit-example = \D corrisponde ad 'a' in '123a456'
+regexHelp-tokens-word = Corrisponde a qualsiasi carattere di parola [a-zA-Z0-9_]
+regexHelp-tokens-word-example = \w corrisponde ad 'h' in 'hello'
+regexHelp-tokens-nonWord = Corrisponde a qualsiasi carattere che non sia di parola
+regexHelp-tokens-nonWord-example = \W corrisponde a ' ' in 'hello world'
+regexHelp-tokens-space = Corrisponde a qualsiasi spazio bianco (spazio, tabulazione, a capo)
+regexHelp-tokens-space-example = \s corrisponde allo spazio in 'a b'
+regexHelp-tokens-nonSpace = Corrisponde a qualsiasi carattere che non sia uno spazio bianco
+regexHelp-tokens-nonSpace-example = \S corrisponde ad 'a' in ' a '
+regexHelp-tokens-dot = Corrisponde a qualsiasi carattere tranne l'a capo
+regexHelp-tokens-dot-example = . corrisponde a qualsiasi carattere in 'abc'
+regexHelp-quantifiers = Quantificatori
+regexHelp-quantifiers-description = Indicano quante volte deve corrispondere un pattern
+regexHelp-quantifiers-star = Zero o più volte
+regexHelp-quantifiers-star-example = a* corrisponde a '', 'a' o 'aaa'
+regexHelp-quantifiers-plus = Una o più volte
+regexHelp-quantifiers-plus-example = a+ corrisponde ad 'a' o 'aaa' ma non a ''
+regexHelp-quantifiers-question = Zero o una volta (facoltativo)
+regexHelp-quantifiers-question-example = a? corrisponde a '' o 'a'
+regexHelp-quantifiers-exact = Esattamente n volte
+regexHelp-quantifiers-exact-example = a{"{"}3{"}"} corrisponde esattamente ad 'aaa'
+regexHelp-quantifiers-min = Almeno n volte
+regexHelp-quantifiers-min-example = a{"{"}2,{"}"} corrisponde ad 'aa', 'aaa' ecc.
+regexHelp-quantifiers-range = Da n a m volte
+regexHelp-quantifiers-range-example = a{"{"}2,4{"}"} corrisponde ad 'aa', 'aaa' o 'aaaa'
+regexHelp-anchors = Ancore
+regexHelp-anchors-description = Corrispondono a posizioni invece che a caratteri
+regexHelp-anchors-start = Inizio del testo
+regexHelp-anchors-start-example = ^hello corrisponde a 'hello world' ma non a 'say hello'
+regexHelp-anchors-end = Fine del testo
+regexHelp-anchors-end-example = world$ corrisponde a 'hello world' ma non a 'world peace'
+regexHelp-anchors-word = Confine di parola
+regexHelp-anchors-word-example = \bcat\b corrisponde a 'cat' ma non a 'category'
+regexHelp-anchors-nonWord = Non confine di parola
+regexHelp-anchors-nonWord-example = \Bcat corrisponde a 'category' ma non a 'cat'
+regexHelp-groups = Gruppi
+regexHelp-groups-description = Raggruppano parti dei pattern
+regexHelp-groups-capture = Gruppo di cattura - ricorda la corrispondenza per i riferimenti
+regexHelp-groups-capture-example = (abc) cattura 'abc' da usare con $1
+regexHelp-groups-nonCapture = Gruppo non catturante - raggruppa senza ricordare
+regexHelp-groups-nonCapture-example = (?:abc) raggruppa ma non cattura
+regexHelp-groups-lookahead = Lookahead positivo - corrisponde se seguito da
+regexHelp-groups-lookahead-example = a(?=b) corrisponde ad 'a' solo se seguita da 'b'
+regexHelp-groups-negLookahead = Lookahead negativo - corrisponde se NON seguito da
+regexHelp-groups-negLookahead-example = a(?!b) corrisponde ad 'a' solo se NON seguita da 'b'
+regexHelp-classes = Classi di caratteri
+regexHelp-classes-description = Corrispondono a insiemi specifici di caratteri
+regexHelp-classes-set = Insieme - corrisponde a qualsiasi carattere al suo interno
+regexHelp-classes-set-example = [abc] corrisponde ad 'a', 'b' o 'c'
+regexHelp-classes-negSet = Insieme negato - corrisponde a qualsiasi carattere NON al suo interno
+regexHelp-classes-negSet-example = [^abc] corrisponde a qualsiasi carattere tranne 'a', 'b', 'c'
+regexHelp-classes-range = Intervallo - corrisponde a qualsiasi carattere nell'intervallo
+regexHelp-classes-range-example = [a-z] corrisponde a qualsiasi lettera minuscola
+regexHelp-escapes = Escape
+regexHelp-escapes-description = Corrispondono letteralmente ai caratteri speciali
+regexHelp-escapes-dot = Punto letterale
+regexHelp-escapes-dot-example = \. corrisponde a '.' e non a 'qualsiasi carattere'
+regexHelp-escapes-star = Asterisco letterale
+regexHelp-escapes-star-example = \* corrisponde a '*' e non a 'zero o più'
+regexHelp-escapes-plus = Più letterale
+regexHelp-escapes-plus-example = \+ corrisponde a '+' e non a 'una o più'
+regexHelp-escapes-backslash = Backslash letterale
+regexHelp-escapes-backslash-example = \\ corrisponde a un singolo backslash
+regexHelp-escapes-tab = Tabulazione
+regexHelp-escapes-tab-example = \t corrisponde a una tabulazione
+regexHelp-escapes-newline = A capo
+regexHelp-escapes-newline-example = \n corrisponde a un a capo
+regexHelp-flags = Flag
+regexHelp-flags-description = Modificano il comportamento della regex
+regexHelp-flags-global = Globale - trova tutte le corrispondenze, non solo la prima
+regexHelp-flags-global-example = /a/g trova tutte le 'a' in 'banana'
+regexHelp-flags-ignoreCase = Ignora maiuscole - confronto senza distinzione tra maiuscole e minuscole
+regexHelp-flags-ignoreCase-example = /hello/i corrisponde a 'HELLO', 'Hello' ecc.
+regexHelp-flags-multiline = Multiriga - ^ e $ corrispondono ai confini di riga
+regexHelp-flags-multiline-example = /^foo/m corrisponde a 'foo' all'inizio di qualsiasi riga
+regexHelp-flags-dotAll = Dot all - il punto corrisponde anche agli a capo
+regexHelp-flags-dotAll-example = /.+/s corrisponde all'intero testo su più righe
+regexHelp-flags-performance = Prestazioni - mostra i tempi (flag personalizzato)
+regexHelp-flags-performance-example = /pattern/p mostra il tempo di esecuzione
+regexHelp-flags-diff = Diff - mostra il testo rimosso barrato e quello inserito sottolineato (flag personalizzato)
+regexHelp-flags-diff-example = s/cat/dog/d mostra cat barrato, seguito da dog
+regexHelp-flags-occurrence = Occorrenza - sostituisce solo l'n-esima corrispondenza, o dall'n-esima in poi con g (flag personalizzato)
+regexHelp-flags-occurrence-example = s/a/o/2 trasforma 'banana' in 'banona', s/a/o/2g in 'banono'
 
 ## Health & Metrics
 health-title = Stato di Salute del Bot
+health-status = Stato di Salute del Bot: { $status }
 health-healthy = SANO
 health-degraded = DEGRADATO
 health-unhealthy = NON SANO
+health-unknown = SCONOSCIUTO
 health-workers = Worker: { $active } attivi, { $idle } inattivi
 health-queue = Coda: { $pending } attività in sospeso
 health-errorRate = Tasso di Errore: { $rate }%
+health-workersUnavailable = Pool di worker: Non disponibile
+health-circuitBreakers = Circuit Breaker:
+health-circuitClosed = CHIUSO
+health-circuitOpen = APERTO
+health-circuitHalfOpen = SEMI-APERTO
+health-circuitRetry = nuovo tentativo tra { $seconds }s
 health-uptime = Tempo di Attività: { $uptime }
 
 metrics-title = Metriche di Prestazione
-metrics-cacheHitRate = Tasso di Successo Cache: { $rate }%
+metrics-cacheEntries = Cache: { $count } voci
+metrics-cacheDisabled = Cache: Disattivata
+metrics-cacheHitRate = Tasso di Successo Cache: { $rate }% ({ $hits }/{ $lookups } ricerche)
+metrics-cacheChurn = Rimozioni dalla Cache: { $evictions }, Scadenze: { $expirations }
 metrics-avgProcessingTime = Tempo Medio di Elaborazione: { $time }ms
 metrics-totalSubstitutions = Sostituzioni Totali: { $count }
-metrics-regexCompilations = Compilazioni Regex: { $total } (in cache: { $cached })
+metrics-regexCompilations = Compilazioni Regex: { $total }
 
 ## General
 general-yes = Sì
@@ -4,18 +4,25 @@
 error-rateLimit = レート制限を超えました。{ $seconds }秒お待ちください。
 error-invalidRegex = 無効な正規表現パターンです。構文を確認して再試行してください。
 error-telegramAPI = 問題が発生しました。再試行してください。
+error-telegramRateLimit = レート制限に達しました。しばらく待ってから再試行してください。
+error-telegramUnavailable = Telegramで問題が発生しています。しばらくしてから再試行してください。
 error-workerTimeout = 処理エラー。よりシンプルなパターンで再試行してください。
 error-circuitOpen = サービスが一時的に利用できません。後で再試行してください。
 error-noTarget = 最近のメッセージに一致する対象が見つかりません。
 error-targetIsCommand = 他のsedコマンドでは置換できません。
 error-messageTooLong = 結果が長すぎます（{ $length }/{ $max }文字）。
 error-chainTooLong = チェーン内のコマンドが多すぎます（最大{ $max }）。
+error-substitution = 置換中のエラー：{ $error }
+error-unexpected = 予期しないエラーが発生しました。再試行してください。
+error-replyOnly = このチャットでは、変更したいメッセージに返信してください。
+error-flagsNotAllowed = このチャットでは次のフラグが無効です: { $flags }
 
 ## Commands
 command-start = こんにちは！私は正規表現ボットです。s/find/replace/flagsを使用してメッセージ内のテキストを置換します。置換テキストは複数行にまたがることも、`\n`のようなエスケープシーケンスを使用することもできます。複数のコマンドを1行に1つずつ連鎖することもできます。
 
     特殊フラグ：
     - `p`: 実行時間を表示
+    - `d`: 変更点を表示（削除部分は取り消し線）
     キャプチャグループには`\N`を使用してください。
 
 command-privacy = このボットは、正規表現による置換を実行するための短いメッセージ履歴を除き、ユーザーデータを収集または処理しません。これらはインメモリSQLデータベースに48時間保存され、ボット管理者がいかなる方法でもアクセスすることはできません。
@@ -33,6 +40,45 @@ command-language-list = 利用可能な言語：
     変更するには/language set <コード>を使用してください。
 command-language-setSuccess = 言語を{ $language }に変更しました
 command-language-setError = 無効な言語コードです。利用可能なオプションを表示するには/language listを使用してください。
+command-language-chatOverride = このチャットでは管理者の設定により全員に{ $language }が使われます。
+
+command-start-description = あいさつメッセージを表示
+command-privacy-description = プライバシー情報を表示
+command-regexhelp-description = 正規表現の構文ヘルプ
+command-explain-description = 正規表現パターンを説明
+command-language-description = ボットの言語を変更
+command-health-description = ボットの健全性を表示
+command-metrics-description = パフォーマンス指標を表示
+command-chatsettings-description = このチャットの設定を変更
+command-test-description = テキストに対して正規表現をテスト
+command-undo-description = 修正の最後の変更を元に戻す
+command-redo-description = 元に戻した修正の変更をやり直す
+
+## Chat settings
+chatSettings-title = このチャットの設定:
+chatSettings-language = 言語: { $language }
+chatSettings-languageUnset = 未設定（各自の言語を使用）
+chatSettings-on = オン
+chatSettings-off = オフ
+chatSettings-tips = 最適化のヒント: { $state }
+chatSettings-dangerWarnings = 危険なパターンの警告: { $state }
+chatSettings-dangerPolicy = 危険なパターン：{ $policy }
+chatSettings-dangerPolicy-warn = 警告
+chatSettings-dangerPolicy-block = ブロック
+chatSettings-dangerPolicy-sandbox = サンドボックス
+chatSettings-replyOnly = 返信のみモード: { $state }
+chatSettings-maxChainLength = 1メッセージの最大コマンド数: { $count }
+chatSettings-allowedFlags = 許可されたフラグ: { $flags }
+chatSettings-noFlags = なし
+chatSettings-menuHint = 下のボタンをタップして設定を変更してください。
+chatSettings-usage = 使い方:
+    /chatsettings - このチャットの設定を表示
+    /chatsettings language <code> - 全員にこの言語で返信
+    /chatsettings language reset - 各自の言語で返信
+
+chatSettings-notAdmin = このチャットの設定を変更できるのはチャット管理者のみです。
+chatSettings-languageSet = チャットの言語を{ $language }に変更しました
+chatSettings-languageReset = チャットの言語をリセットしました。再び各自の言語が使われます。
 
 ## Substitution results
 substitution-result = 結果：{ $result }
@@ -40,33 +86,324 @@ substitution-noMatch = 一致が見つかりません。
 substitution-multipleResults = { $count }件の置換を適用
 substitution-performance = { $time }で{ $count }件の置換を実行
 
+## Corrections
+correction-notReply = 元に戻す・やり直すには、私の修正に返信してください。
+correction-nothingToUndo = 元に戻せる変更はありません。
+correction-nothingToRedo = やり直せる変更はありません。
+
+## Inline mode
+inline-usage = s/検索/置換/ | テキスト と入力
+inline-resultTitle = 置換後のテキスト
+inline-errorTitle = 置換に失敗しました
+inline-dangerTitle = 危険なパターン
+inline-emptyResult = （空の結果）
+
+## Regex testing
+regexTest-usage = 使い方: /test パターン/フラグ [テキスト]
+    メッセージに返信してテストするか、パターンの後にテキストを書いてください。
+regexTest-matchCount = { $count }件のマッチ
+regexTest-noMatches = マッチなし。
+regexTest-match = マッチ { $number }（位置 { $index }）:
+regexTest-unmatched = マッチなし
+regexTest-moreMatches = …他 { $count }件のマッチ
+
+## Explain
+explain-usage = 説明するパターンを指定してください。
+
+    使い方:
+    /explain パターン
+    /explain /パターン/フラグ
+    /explain s/パターン/置換文字列/フラグ
+
+    例: /explain s/(\w+)@(\w+)/$2: $1/gi
+explain-invalid = 無効な正規表現パターン: { $error }
+
+    構文を確認してもう一度お試しください。
+explain-pattern = パターン:
+explain-breakdown = 内訳:
+explain-flags = フラグ:
+explain-replacement = 置換文字列:
+explain-truncated = (説明は省略されました)
+explain-quoted = 「{ $text }」
+explain-literal = 文字 { $char }
+explain-literal-codePoint = 文字 { $char }（{ $codePoint }）
+explain-literal-escaped = 文字 { $char }（エスケープ）
+explain-literalText = テキスト { $text }
+explain-anyCase = { $description }、大文字小文字を区別しない
+explain-char-null = ヌル文字
+explain-char-backspace = バックスペース
+explain-char-tab = タブ
+explain-char-newline = 改行
+explain-char-verticalTab = 垂直タブ
+explain-char-formFeed = 改ページ
+explain-char-carriageReturn = 復帰
+explain-char-space = スペース
+explain-char-control = 制御文字 { $codePoint }
+explain-empty = なし（常にマッチ）
+explain-alternatives = { $count }個の選択肢のいずれか
+explain-sequence = 以下すべてを順番に
+explain-group-named = 名前付きグループ { $name }（グループ { $index }）
+explain-group-capture = キャプチャグループ { $index }
+explain-group-nonCapturing = 非キャプチャグループ
+explain-group-flagsOn = フラグ { $on } をオンにした非キャプチャグループ
+explain-group-flagsOff = フラグ { $off } をオフにした非キャプチャグループ
+explain-group-flagsOnOff = フラグ { $on } をオン、{ $off } をオフにした非キャプチャグループ
+explain-lookahead = 肯定先読み：後に続くもの
+explain-lookahead-negated = 否定先読み：後に続かないもの
+explain-lookbehind = 肯定後読み：前にあるもの
+explain-lookbehind-negated = 否定後読み：前にないもの
+explain-quantifier-zeroOrMore = 0回以上
+explain-quantifier-oneOrMore = 1回以上
+explain-quantifier-optional = 省略可能（0回または1回）
+explain-quantifier-exactly = ちょうど{ $count }回
+explain-quantifier-atLeast = { $min }回以上
+explain-quantifier-between = { $min }回から{ $max }回
+explain-quantifier-greedy = { $quantifier }、できるだけ多く
+explain-quantifier-lazy = { $quantifier }、できるだけ少なく（非貪欲）
+explain-class-digit = 任意の数字（0-9）
+explain-class-nonDigit = 数字以外の任意の文字
+explain-class-word = 任意の単語文字 [a-zA-Z0-9_]
+explain-class-nonWord = 単語文字以外の任意の文字
+explain-class-space = 任意の空白文字
+explain-class-nonSpace = 空白以外の任意の文字
+explain-class-set = 次のいずれか1文字
+explain-class-set-negated = 次以外の任意の文字
+explain-class-intersection = これらすべての集合に含まれる1文字
+explain-class-intersection-negated = これらすべての集合には含まれない任意の文字
+explain-class-subtraction = 最初の集合に含まれ、他の集合に含まれない1文字
+explain-class-subtraction-negated = 最初の集合にあり他の集合にない文字以外の任意の文字
+explain-class-range = { $from }から{ $to }までの任意の文字
+explain-class-strings = 文字列 { $strings } のいずれか
+explain-category-letter = 任意の文字（レター）
+explain-category-letter-negated = レター以外の任意の文字
+explain-category-uppercase = 任意の大文字
+explain-category-uppercase-negated = 大文字以外の任意の文字
+explain-category-lowercase = 任意の小文字
+explain-category-lowercase-negated = 小文字以外の任意の文字
+explain-category-titlecase = 任意のタイトルケース文字
+explain-category-titlecase-negated = タイトルケース文字以外の任意の文字
+explain-category-mark = 任意の結合記号
+explain-category-mark-negated = 結合記号以外の任意の文字
+explain-category-number = 任意の数
+explain-category-number-negated = 数以外の任意の文字
+explain-category-digit = 任意の10進数字
+explain-category-digit-negated = 10進数字以外の任意の文字
+explain-category-punctuation = 任意の句読点
+explain-category-punctuation-negated = 句読点以外の任意の文字
+explain-category-symbol = 任意の記号
+explain-category-symbol-negated = 記号以外の任意の文字
+explain-category-currency = 任意の通貨記号
+explain-category-currency-negated = 通貨記号以外の任意の文字
+explain-category-separator = 任意の区切り文字
+explain-category-separator-negated = 区切り文字以外の任意の文字
+explain-category-spaceSeparator = 任意の空白区切り文字
+explain-category-spaceSeparator-negated = 空白区切り文字以外の任意の文字
+explain-category-other = 任意の制御文字または未割り当て文字
+explain-category-other-negated = 制御文字と未割り当て文字以外の任意の文字
+explain-category-control = 任意の制御文字
+explain-category-control-negated = 制御文字以外の任意の文字
+explain-property-script = { $script } 文字体系の任意の文字
+explain-property-script-negated = { $script } 文字体系以外の任意の文字
+explain-property-value = { $name } = { $value } の任意の文字
+explain-property-value-negated = { $name } = { $value } ではない任意の文字
+explain-property = Unicode プロパティ { $name } を持つ任意の文字
+explain-property-negated = Unicode プロパティ { $name } を持たない任意の文字
+explain-dot = 改行以外の任意の文字
+explain-dot-all = 任意の文字
+explain-stringStart = 文字列の先頭
+explain-stringEnd = 文字列の末尾
+explain-lineStart = 行頭
+explain-lineEnd = 行末
+explain-wordBoundary = 単語境界
+explain-nonWordBoundary = 単語境界以外
+explain-backreference = グループ { $group } がマッチしたのと同じテキスト
+explain-flag-indices = インデックス：各グループのマッチ位置を記録
+explain-flag-global = グローバル：最初だけでなくすべてのマッチを探す
+explain-flag-ignoreCase = 大文字小文字を区別しない
+explain-flag-multiline = 複数行：^ と $ が各行でマッチ
+explain-flag-dotAll = Dot all：. が改行にもマッチ
+explain-flag-unicode = Unicode：コードポイント単位でマッチし、\p エスケープを使える
+explain-flag-unicodeSets = Unicode セット：u に加えて文字クラスで集合演算を使える
+explain-flag-sticky = Sticky：各マッチは前のマッチの終わりから始まる必要がある
+explain-flag-replaceAll = グローバル：最初だけでなくすべてのマッチを置換
+explain-flag-performance = 置換にかかった時間を表示
+explain-flag-diff = 変更点を表示：削除されたテキストは取り消し線付き
+explain-flag-occurrence = { $occurrence }番目のマッチだけを置換
+explain-flag-occurrenceOnward = { $occurrence }番目以降のすべてのマッチを置換
+explain-flag-unknown = フラグではないため無視
+explain-flag-firstOnly = g がないと最初のマッチだけが置換されます
+explain-address = アドレス:
+explain-address-line = { $line } 行目のみ
+explain-address-last = 最後の行のみ
+explain-address-regex = { $pattern } にマッチする行のみ
+explain-address-range = { $start }から{ $end }まで
+explain-address-part-line = { $line } 行目
+explain-address-part-last = 最後の行
+explain-address-part-regex = { $pattern } にマッチする行
+explain-transliteration = 文字変換:
+explain-transliteration-characters = 文字:
+explain-transliteration-char = { $from } を { $to } に置き換え
+explain-replacement-empty = なし：マッチは削除されます
+explain-replacement-group = グループ { $group } のテキスト
+explain-replacement-groupThen = グループ { $group } のテキスト、続けて { $rest }
+explain-replacement-noGroup = 文字 { $text }（グループ { $group } は存在しません）
+explain-replacement-missingName = なし（グループ { $name } は存在しません）
+explain-replacement-noNamedGroups = 文字 { $text }（パターンに名前付きグループがありません）
+explain-replacement-match = マッチ全体
+explain-replacement-before = マッチより前のテキスト
+explain-replacement-after = マッチより後のテキスト
+
 ## Tips
 tip-optimization = ヒント：{ $suggestion }
 tip-useShorthand = { $longform }の代わりに{ $shorthand }を使用（短い）
 tip-nonCapturing = 参照しないグループには(?:...)を使用
 tip-greedy = .*の代わりに.*?を検討（非貪欲）
+tip-whitespace = { $longform }の代わりに{ $shorthand }を使用（すべての空白文字に一致）
+tip-dotAll = { $longform }の代わりにsフラグ付きの.を使用（より慣用的）
+tip-unnecessaryEscape = { $example }のような不要なエスケープを削除（よりすっきりしたパターン）
+tip-anchors = 範囲のないパターンに^や$のアンカーを追加（パフォーマンスが向上する場合があります）
+
+## Dangerous pattern warnings
+danger-title = 警告：このパターンはパフォーマンスの問題を引き起こす可能性があります
+danger-pattern = パターン：{ $pattern }
+danger-riskScore = リスクスコア：{ $score }/100
+danger-issuesFound = 検出された問題：
+danger-footer = ボットはこのパターンを実行しますが、入力によっては遅くなる可能性があります。
+danger-exponential = { $subexpression } では繰り返し部分が同じテキストに何通りもマッチできるため、マッチ失敗に指数的な時間がかかります
+danger-exponential-suggestion = 繰り返し部分が同じテキストにマッチしないようにしてください（例：(a+)+ → a+）
+danger-polynomial = { $subexpression } には重なり合う繰り返しがあるため、マッチ失敗に { $degree } 次の多項式時間がかかります
+danger-polynomial-suggestion = 隣り合う繰り返しが異なる文字にマッチするようにするか、パターンにアンカーを付けてください
+danger-unknown = パターンが複雑すぎて検査できないため、マッチの失敗に指数時間がかかる可能性があります
+danger-unknown-suggestion = パターンを短くするか、複数のコマンドに分けてください
+danger-attack = このような入力は長くなるほど遅くなります：{ $example }
+danger-blocked = ブロックしました：このパターンは指数的な時間がかかる可能性があり、このチャットではそのようなパターンを実行しません。
+danger-footerSandbox = ボットはこのパターンを { $seconds } 秒の制限時間付きで実行します。
+danger-sandboxTimeout = { $seconds } 秒で停止しました：このチャットでは危険なパターンを短い制限時間で実行します。
 
 ## Regex Help
 regexHelp-title = 正規表現ヘルプ
 regexHelp-selectCategory = 正規表現の構文を学ぶカテゴリを選択：
 regexHelp-back = 戻る
 regexHelp-backToCategories = カテゴリに戻る
+regexHelp-availableItems = 利用可能な項目：
+regexHelp-example = 例：
+regexHelp-categoryNotFound = カテゴリが見つかりません
+regexHelp-itemNotFound = 項目が見つかりません
+regexHelp-tokens = トークン
+regexHelp-tokens-description = 特定の種類の文字にマッチする特殊な文字クラス
+regexHelp-tokens-digit = 任意の数字（0-9）にマッチ
+regexHelp-tokens-digit-example = \d は 'abc5def' の '5' にマッチ
+regexHelp-tokens-nonDigit = 数字以外の任意の文字にマッチ
+regexHelp-tokens-nonDigit-example = \D は '123a456' の 'a' にマッチ
+regexHelp-tokens-word = 任意の単語文字 [a-zA-Z0-9_] にマッチ
+regexHelp-tokens-word-example = \w は 'hello' の 'h' にマッチ
+regexHelp-tokens-nonWord = 単語文字以外の任意の文字にマッチ
+regexHelp-tokens-nonWord-example = \W は 'hello world' の ' ' にマッチ
+regexHelp-tokens-space = 任意の空白文字（スペース、タブ、改行）にマッチ
+regexHelp-tokens-space-example = \s は 'a b' のスペースにマッチ
+regexHelp-tokens-nonSpace = 空白以外の任意の文字にマッチ
+regexHelp-tokens-nonSpace-example = \S は ' a ' の 'a' にマッチ
+regexHelp-tokens-dot = 改行以外の任意の文字にマッチ
+regexHelp-tokens-dot-example = . は 'abc' の任意の文字にマッチ
+regexHelp-quantifiers = 量指定子
+regexHelp-quantifiers-description = パターンが何回マッチするかを指定
+regexHelp-quantifiers-star = 0回以上
+regexHelp-quantifiers-star-example = a* は ''、'a'、'aaa' にマッチ
+regexHelp-quantifiers-plus = 1回以上
+regexHelp-quantifiers-plus-example = a+ は 'a' や 'aaa' にマッチするが '' にはマッチしない
+regexHelp-quantifiers-question = 0回または1回（省略可能）
+regexHelp-quantifiers-question-example = a? は '' または 'a' にマッチ
+regexHelp-quantifiers-exact = ちょうど n 回
+regexHelp-quantifiers-exact-example = a{"{"}3{"}"} は 'aaa' だけにマッチ
+regexHelp-quantifiers-min = n 回以上
+regexHelp-quantifiers-min-example = a{"{"}2,{"}"} は 'aa'、'aaa' などにマッチ
+regexHelp-quantifiers-range = n 回から m 回
+regexHelp-quantifiers-range-example = a{"{"}2,4{"}"} は 'aa'、'aaa'、'aaaa' にマッチ
+regexHelp-anchors = アンカー
+regexHelp-anchors-description = 文字ではなく位置にマッチ
+regexHelp-anchors-start = 文字列の先頭
+regexHelp-anchors-start-example = ^hello は 'hello world' にマッチするが 'say hello' にはマッチしない
+regexHelp-anchors-end = 文字列の末尾
+regexHelp-anchors-end-example = world$ は 'hello world' にマッチするが 'world peace' にはマッチしない
+regexHelp-anchors-word = 単語境界
+regexHelp-anchors-word-example = \bcat\b は 'cat' にマッチするが 'category' にはマッチしない
+regexHelp-anchors-nonWord = 単語境界以外
+regexHelp-anchors-nonWord-example = \Bcat は 'category' にマッチするが 'cat' にはマッチしない
+regexHelp-groups = グループ
+regexHelp-groups-description = パターンの一部をまとめる
+regexHelp-groups-capture = キャプチャグループ - 後方参照のためにマッチを記憶
+regexHelp-groups-capture-example = (abc) は 'abc' をキャプチャし $1 で使える
+regexHelp-groups-nonCapture = 非キャプチャグループ - 記憶せずにまとめる
+regexHelp-groups-nonCapture-example = (?:abc) はまとめるがキャプチャしない
+regexHelp-groups-lookahead = 肯定先読み - 後に続く場合にマッチ
+regexHelp-groups-lookahead-example = a(?=b) は後に 'b' が続く場合だけ 'a' にマッチ
+regexHelp-groups-negLookahead = 否定先読み - 後に続かない場合にマッチ
+regexHelp-groups-negLookahead-example = a(?!b) は後に 'b' が続かない場合だけ 'a' にマッチ
+regexHelp-classes = 文字クラス
+regexHelp-classes-description = 特定の文字の集合にマッチ
+regexHelp-classes-set = 文字セット - 中の任意の文字にマッチ
+regexHelp-classes-set-example = [abc] は 'a'、'b'、'c' にマッチ
+regexHelp-classes-negSet = 否定セット - 中にない任意の文字にマッチ
+regexHelp-classes-negSet-example = [^abc] は 'a'、'b'、'c' 以外の任意の文字にマッチ
+regexHelp-classes-range = 範囲 - 範囲内の任意の文字にマッチ
+regexHelp-classes-range-example = [a-z] は任意の小文字にマッチ
+regexHelp-escapes = エスケープ
+regexHelp-escapes-description = 特殊文字をそのままの文字としてマッチ
+regexHelp-escapes-dot = ドットそのもの
+regexHelp-escapes-dot-example = \. は「任意の文字」ではなく '.' にマッチ
+regexHelp-escapes-star = アスタリスクそのもの
+regexHelp-escapes-star-example = \* は「0回以上」ではなく '*' にマッチ
+regexHelp-escapes-plus = プラスそのもの
+regexHelp-escapes-plus-example = \+ は「1回以上」ではなく '+' にマッチ
+regexHelp-escapes-backslash = バックスラッシュそのもの
+regexHelp-escapes-backslash-example = \\ は1つのバックスラッシュにマッチ
+regexHelp-escapes-tab = タブ文字
+regexHelp-escapes-tab-example = \t はタブにマッチ
+regexHelp-escapes-newline = 改行文字
+regexHelp-escapes-newline-example = \n は改行にマッチ
+regexHelp-flags = フラグ
+regexHelp-flags-description = 正規表現の動作を変更
+regexHelp-flags-global = グローバル - 最初だけでなくすべてのマッチを探す
+regexHelp-flags-global-example = /a/g は 'banana' のすべての 'a' にマッチ
+regexHelp-flags-ignoreCase = 大文字小文字を無視 - 大文字小文字を区別しないマッチ
+regexHelp-flags-ignoreCase-example = /hello/i は 'HELLO'、'Hello' などにマッチ
+regexHelp-flags-multiline = 複数行 - ^ と $ が行の境界にマッチ
+regexHelp-flags-multiline-example = /^foo/m は任意の行頭の 'foo' にマッチ
+regexHelp-flags-dotAll = Dot all - ドットが改行にもマッチ
+regexHelp-flags-dotAll-example = /.+/s は複数行のテキスト全体にマッチ
+regexHelp-flags-performance = パフォーマンス - 実行時間を表示（独自フラグ）
+regexHelp-flags-performance-example = /pattern/p は実行時間を表示
+regexHelp-flags-diff = 差分 - 削除されたテキストを取り消し線、挿入されたテキストを下線で表示（独自フラグ）
+regexHelp-flags-diff-example = s/cat/dog/d は取り消し線付きの cat の後に dog を表示
+regexHelp-flags-occurrence = 出現位置 - n 番目のマッチだけを置換、g と併用で n 番目以降を置換（独自フラグ）
+regexHelp-flags-occurrence-example = s/a/o/2 は 'banana' を 'banona' に、s/a/o/2g は 'banono' に変換
 
 ## Health & Metrics
 health-title = ボットの健全性
+health-status = ボットの健全性：{ $status }
 health-healthy = 健全
 health-degraded = 低下
 health-unhealthy = 不健全
+health-unknown = 不明
 health-workers = ワーカー：{ $active }アクティブ、{ $idle }アイドル
 health-queue = キュー：{ $pending }件の保留中タスク
 health-errorRate = エラー率：{ $rate }％
+health-workersUnavailable = ワーカープール：利用不可
+health-circuitBreakers = サーキットブレーカー：
+health-circuitClosed = クローズ
+health-circuitOpen = オープン
+health-circuitHalfOpen = ハーフオープン
+health-circuitRetry = { $seconds }秒後に再試行
 health-uptime = 稼働時間：{ $uptime }
 
 metrics-title = パフォーマンス指標
-metrics-cacheHitRate = キャッシュヒット率：{ $rate }％
+metrics-cacheEntries = キャッシュ：{ $count }件
+metrics-cacheDisabled = キャッシュ：無効
+metrics-cacheHitRate = キャッシュヒット率：{ $rate }％（{ $hits }/{ $lookups }回の参照）
+metrics-cacheChurn = キャッシュ追い出し：{ $evictions }、期限切れ：{ $expirations }
 metrics-avgProcessingTime = 平均処理時間：{ $time }ms
 metrics-totalSubstitutions = 総置換数：{ $count }
-metrics-regexCompilations = 正規表現コンパイル数：{ $total }（キャッシュ済み：{ $cached }）
+metrics-regexCompilations = 正規表現コンパイル数：{ $total }
 
 ## General
 general-yes = はい
@@ -4,18 +4,25 @@
 error-rateLimit = 속도 제한을 초과했습니다. { $seconds }초 기다려주세요.
 error-invalidRegex = 잘못된 정규식 패턴입니다. 구문을 확인하고 다시 시도하세요.
 error-telegramAPI = 문제가 발생했습니다. 다시 시도해주세요.
+error-telegramRateLimit = 속도 제한에 도달했습니다. 잠시 후 다시 시도해주세요.
+error-telegramUnavailable = Telegram에 문제가 있습니다. 잠시 후 다시 시도해주세요.
 error-workerTimeout = 처리 오류. 더 간단한 패턴으로 다시 시도하세요.
 error-circuitOpen = 서비스를 일시적으로 사용할 수 없습니다. 나중에 다시 시도해주세요.
 error-noTarget = 최근 메시지에서 일치하는 대상을 찾을 수 없습니다.
 error-targetIsCommand = 다른 sed 명령에서는 대체할 수 없습니다.
 error-messageTooLong = 결과가 너무 깁니다 ({ $length }/{ $max }자).
 error-chainTooLong = 체인의 명령이 너무 많습니다 (최대 { $max }).
+error-substitution = 대체 중 오류: { $error }
+error-unexpected = 예기치 않은 오류가 발생했습니다. 다시 시도해주세요.
+error-replyOnly = 이 채팅에서는 변경할 메시지에 답장하세요.
+error-flagsNotAllowed = 이 채팅에서 꺼진 플래그: { $flags }
 
 ## Commands
 command-start = 안녕하세요! 저는 정규식 봇입니다. s/find/replace/flags를 사용하여 메시지의 텍스트를 대체하세요. 대체 텍스트는 여러 줄에 걸쳐 있거나 `\n`과 같은 이스케이프 시퀀스를 사용할 수 있습니다. 여러 명령을 한 줄에 하나씩 연결할 수도 있습니다.
 
     특수 플래그:
     - `p`: 실행 시간 표시
+    - `d`: 변경 사항 표시 (삭제된 텍스트는 취소선)
     캡처 그룹에는 `\N`을 사용하세요.
 
 command-privacy = 이 봇은 정규식 대체를 수행하기 위한 짧은 메시지 기록을 제외하고는 사용자 데이터를 수집하거나 처리하지 않습니다. 이러한 데이터는 인메모리 SQL 데이터베이스에 48시간 동안 저장되며 봇 관리자가 어떤 방식으로도 액세스할 수 없습니다.
@@ -33,6 +40,45 @@ command-language-list = 사용 가능한 언어:
     변경하려면 /language set <코드>를 사용하세요.
 command-language-setSuccess = 언어를 { $language }(으)로 변경했습니다
 command-language-setError = 잘못된 언어 코드입니다. 사용 가능한 옵션을 볼 수 있도록 /language list를 사용하세요.
+command-language-chatOverride = 이 채팅은 관리자가 설정한 대로 모두에게 { $language }을(를) 사용합니다.
+
+command-start-description = 인사 메시지 받기
+command-privacy-description = 개인정보 보호 정보 보기
+command-regexhelp-description = 정규식 문법 도움말
+command-explain-description = 정규식 패턴 설명
+command-language-description = 봇 언어 변경
+command-health-description = 봇 상태 보기
+command-metrics-description = 성능 지표 보기
+command-chatsettings-description = 이 채팅의 설정 변경
+command-test-description = 텍스트에 정규식 테스트
+command-undo-description = 수정의 마지막 변경 실행 취소
+command-redo-description = 실행 취소한 수정의 변경 다시 실행
+
+## Chat settings
+chatSettings-title = 이 채팅의 설정:
+chatSettings-language = 언어: { $language }
+chatSettings-languageUnset = 설정 안 됨 (각자 자신의 언어 사용)
+chatSettings-on = 켜짐
+chatSettings-off = 꺼짐
+chatSettings-tips = 최적화 팁: { $state }
+chatSettings-dangerWarnings = 위험한 패턴 경고: { $state }
+chatSettings-dangerPolicy = 위험한 패턴: { $policy }
+chatSettings-dangerPolicy-warn = 경고
+chatSettings-dangerPolicy-block = 차단
+chatSettings-dangerPolicy-sandbox = 샌드박스
+chatSettings-replyOnly = 답장 전용 모드: { $state }
+chatSettings-maxChainLength = 메시지당 최대 명령 수: { $count }
+chatSettings-allowedFlags = 허용된 플래그: { $flags }
+chatSettings-noFlags = 없음
+chatSettings-menuHint = 아래 버튼을 눌러 설정을 변경하세요.
+chatSettings-usage = 사용법:
+    /chatsettings - 이 채팅의 설정 보기
+    /chatsettings language <code> - 모두에게 이 언어로 응답
+    /chatsettings language reset - 각자 자신의 언어로 응답
+
+chatSettings-notAdmin = 채팅 관리자만 이 채팅의 설정을 변경할 수 있습니다.
+chatSettings-languageSet = 채팅 언어가 { $language }(으)로 변경되었습니다
+chatSettings-languageReset = 채팅 언어가 초기화되었습니다. 다시 각자 자신의 언어를 사용합니다.
 
 ## Substitution results
 substitution-result = 결과: { $result }
@@ -40,33 +86,324 @@ substitution-noMatch = 일치하는 항목을 찾을 수 없습니다.
 substitution-multipleResults = { $count }개의 대체 적용
 substitution-performance = { $time }에 { $count }개의 대체 실행
 
+## Corrections
+correction-notReply = 실행 취소하거나 다시 실행하려면 제 수정 메시지에 답장하세요.
+correction-nothingToUndo = 실행 취소할 내용이 없습니다.
+correction-nothingToRedo = 다시 실행할 내용이 없습니다.
+
+## Inline mode
+inline-usage = s/찾기/바꾸기/ | 텍스트 입력
+inline-resultTitle = 치환된 텍스트
+inline-errorTitle = 치환 실패
+inline-dangerTitle = 위험한 패턴
+inline-emptyResult = (빈 결과)
+
+## Regex testing
+regexTest-usage = 사용법: /test 패턴/플래그 [텍스트]
+    메시지에 답장하여 테스트하거나 패턴 뒤에 텍스트를 쓰세요.
+regexTest-matchCount = 일치 { $count }개
+regexTest-noMatches = 일치 없음.
+regexTest-match = 일치 { $number } (위치 { $index }):
+regexTest-unmatched = 일치 안 함
+regexTest-moreMatches = …그 외 일치 { $count }개
+
+## Explain
+explain-usage = 설명할 패턴을 입력해 주세요.
+
+    사용법:
+    /explain 패턴
+    /explain /패턴/플래그
+    /explain s/패턴/치환/플래그
+
+    예: /explain s/(\w+)@(\w+)/$2: $1/gi
+explain-invalid = 잘못된 정규식 패턴: { $error }
+
+    문법을 확인하고 다시 시도해 주세요.
+explain-pattern = 패턴:
+explain-breakdown = 구성:
+explain-flags = 플래그:
+explain-replacement = 치환 문자열:
+explain-truncated = (설명이 잘렸습니다)
+explain-quoted = "{ $text }"
+explain-literal = 문자 { $char }
+explain-literal-codePoint = 문자 { $char } ({ $codePoint })
+explain-literal-escaped = 문자 { $char } (이스케이프됨)
+explain-literalText = 텍스트 { $text }
+explain-anyCase = { $description }, 대소문자 무관
+explain-char-null = 널 문자
+explain-char-backspace = 백스페이스
+explain-char-tab = 탭
+explain-char-newline = 줄바꿈
+explain-char-verticalTab = 수직 탭
+explain-char-formFeed = 폼 피드
+explain-char-carriageReturn = 캐리지 리턴
+explain-char-space = 공백
+explain-char-control = 제어 문자 { $codePoint }
+explain-empty = 없음 (항상 일치)
+explain-alternatives = { $count }개의 대안 중 하나
+explain-sequence = 다음 모두를 순서대로
+explain-group-named = 이름 있는 그룹 { $name } (그룹 { $index })
+explain-group-capture = 캡처 그룹 { $index }
+explain-group-nonCapturing = 비캡처 그룹
+explain-group-flagsOn = 플래그 { $on }을(를) 켠 비캡처 그룹
+explain-group-flagsOff = 플래그 { $off }을(를) 끈 비캡처 그룹
+explain-group-flagsOnOff = 플래그 { $on }을(를) 켜고 { $off }을(를) 끈 비캡처 그룹
+explain-lookahead = 긍정 전방 탐색: 뒤에 오는 것
+explain-lookahead-negated = 부정 전방 탐색: 뒤에 오지 않는 것
+explain-lookbehind = 긍정 후방 탐색: 앞에 있는 것
+explain-lookbehind-negated = 부정 후방 탐색: 앞에 없는 것
+explain-quantifier-zeroOrMore = 0회 이상
+explain-quantifier-oneOrMore = 1회 이상
+explain-quantifier-optional = 선택 사항 (0회 또는 1회)
+explain-quantifier-exactly = 정확히 { $count }회
+explain-quantifier-atLeast = { $min }회 이상
+explain-quantifier-between = { $min }회에서 { $max }회
+explain-quantifier-greedy = { $quantifier }, 가능한 한 많이
+explain-quantifier-lazy = { $quantifier }, 가능한 한 적게 (게으른)
+explain-class-digit = 모든 숫자 (0-9)
+explain-class-nonDigit = 숫자가 아닌 모든 문자
+explain-class-word = 모든 단어 문자 [a-zA-Z0-9_]
+explain-class-nonWord = 단어 문자가 아닌 모든 문자
+explain-class-space = 모든 공백 문자
+explain-class-nonSpace = 공백이 아닌 모든 문자
+explain-class-set = 다음 중 한 문자
+explain-class-set-negated = 다음을 제외한 모든 문자
+explain-class-intersection = 이 모든 집합에 속하는 한 문자
+explain-class-intersection-negated = 이 모든 집합에 속하지 않는 모든 문자
+explain-class-subtraction = 첫 번째 집합에는 있지만 나머지에는 없는 한 문자
+explain-class-subtraction-negated = 첫 번째 집합에만 있는 문자를 제외한 모든 문자
+explain-class-range = { $from }부터 { $to }까지의 모든 문자
+explain-class-strings = 문자열 { $strings } 중 하나
+explain-category-letter = 모든 글자
+explain-category-letter-negated = 글자가 아닌 모든 문자
+explain-category-uppercase = 모든 대문자
+explain-category-uppercase-negated = 대문자가 아닌 모든 문자
+explain-category-lowercase = 모든 소문자
+explain-category-lowercase-negated = 소문자가 아닌 모든 문자
+explain-category-titlecase = 모든 타이틀 케이스 글자
+explain-category-titlecase-negated = 타이틀 케이스 글자가 아닌 모든 문자
+explain-category-mark = 모든 결합 기호
+explain-category-mark-negated = 결합 기호가 아닌 모든 문자
+explain-category-number = 모든 숫자류 문자
+explain-category-number-negated = 숫자류가 아닌 모든 문자
+explain-category-digit = 모든 10진수 숫자
+explain-category-digit-negated = 10진수 숫자가 아닌 모든 문자
+explain-category-punctuation = 모든 문장 부호
+explain-category-punctuation-negated = 문장 부호가 아닌 모든 문자
+explain-category-symbol = 모든 기호
+explain-category-symbol-negated = 기호가 아닌 모든 문자
+explain-category-currency = 모든 통화 기호
+explain-category-currency-negated = 통화 기호가 아닌 모든 문자
+explain-category-separator = 모든 구분자
+explain-category-separator-negated = 구분자가 아닌 모든 문자
+explain-category-spaceSeparator = 모든 공백 구분자
+explain-category-spaceSeparator-negated = 공백 구분자가 아닌 모든 문자
+explain-category-other = 모든 제어 문자 또는 할당되지 않은 문자
+explain-category-other-negated = 제어 문자나 할당되지 않은 문자가 아닌 모든 문자
+explain-category-control = 모든 제어 문자
+explain-category-control-negated = 제어 문자가 아닌 모든 문자
+explain-property-script = { $script } 문자 체계의 모든 문자
+explain-property-script-negated = { $script } 문자 체계가 아닌 모든 문자
+explain-property-value = { $name } = { $value }인 모든 문자
+explain-property-value-negated = { $name } = { $value }이(가) 아닌 모든 문자
+explain-property = 유니코드 속성 { $name }을(를) 가진 모든 문자
+explain-property-negated = 유니코드 속성 { $name }이(가) 없는 모든 문자
+explain-dot = 줄바꿈을 제외한 모든 문자
+explain-dot-all = 모든 문자
+explain-stringStart = 문자열의 시작
+explain-stringEnd = 문자열의 끝
+explain-lineStart = 줄의 시작
+explain-lineEnd = 줄의 끝
+explain-wordBoundary = 단어 경계
+explain-nonWordBoundary = 단어 경계가 아님
+explain-backreference = 그룹 { $group }이(가) 일치한 것과 같은 텍스트
+explain-flag-indices = 인덱스: 각 그룹이 일치한 위치를 기록
+explain-flag-global = 전역: 첫 번째뿐 아니라 모든 일치 항목을 찾음
+explain-flag-ignoreCase = 대소문자 무시
+explain-flag-multiline = 여러 줄: ^와 $가 각 줄에서 일치
+explain-flag-dotAll = Dot all: .이 줄바꿈에도 일치
+explain-flag-unicode = 유니코드: 코드 포인트 단위로 일치하고 \p 이스케이프를 허용
+explain-flag-unicodeSets = 유니코드 집합: u와 같고, 클래스에서 집합 연산도 가능
+explain-flag-sticky = Sticky: 각 일치는 이전 일치가 끝난 곳에서 시작해야 함
+explain-flag-replaceAll = 전역: 첫 번째뿐 아니라 모든 일치 항목을 바꿈
+explain-flag-performance = 치환에 걸린 시간을 표시
+explain-flag-diff = 바뀐 부분을 표시: 삭제된 텍스트에 취소선
+explain-flag-occurrence = { $occurrence }번째 일치 항목만 바꿈
+explain-flag-occurrenceOnward = { $occurrence }번째 일치 항목과 그 이후 모두를 바꿈
+explain-flag-unknown = 플래그가 아니므로 무시됨
+explain-flag-firstOnly = g가 없으면 첫 번째 일치 항목만 바뀝니다
+explain-address = 주소:
+explain-address-line = { $line }번째 줄만
+explain-address-last = 마지막 줄만
+explain-address-regex = { $pattern }에 일치하는 줄만
+explain-address-range = { $start }부터 { $end }까지
+explain-address-part-line = { $line }번째 줄
+explain-address-part-last = 마지막 줄
+explain-address-part-regex = { $pattern }에 일치하는 줄
+explain-transliteration = 문자 변환:
+explain-transliteration-characters = 문자:
+explain-transliteration-char = { $from }을(를) { $to }(으)로 바꿈
+explain-replacement-empty = 없음: 일치 항목이 삭제됩니다
+explain-replacement-group = 그룹 { $group }의 텍스트
+explain-replacement-groupThen = 그룹 { $group }의 텍스트, 이어서 { $rest }
+explain-replacement-noGroup = 문자 { $text } (그룹 { $group }이(가) 없음)
+explain-replacement-missingName = 없음 (그룹 { $name }이(가) 없음)
+explain-replacement-noNamedGroups = 문자 { $text } (패턴에 이름 있는 그룹이 없음)
+explain-replacement-match = 일치한 전체
+explain-replacement-before = 일치 항목 앞의 텍스트
+explain-replacement-after = 일치 항목 뒤의 텍스트
+
 ## Tips
 tip-optimization = 팁: { $suggestion }
 tip-useShorthand = { $longform } 대신 { $shorthand } 사용 (더 짧음)
 tip-nonCapturing = 참조하지 않는 그룹에는 (?:...) 사용
 tip-greedy = .* 대신 .*? 고려 (비탐욕적)
+tip-whitespace = { $longform } 대신 { $shorthand } 사용 (모든 공백 문자와 일치)
+tip-dotAll = { $longform } 대신 s 플래그와 함께 . 사용 (더 관용적)
+tip-unnecessaryEscape = { $example } 같은 불필요한 이스케이프 제거 (더 깔끔한 패턴)
+tip-anchors = 제한 없는 패턴에 ^ 및/또는 $ 앵커 추가 (성능이 향상될 수 있음)
+
+## Dangerous pattern warnings
+danger-title = 경고: 이 패턴은 성능 문제를 일으킬 수 있습니다
+danger-pattern = 패턴: { $pattern }
+danger-riskScore = 위험 점수: { $score }/100
+danger-issuesFound = 발견된 문제:
+danger-footer = 봇은 이 패턴을 그대로 실행하지만, 특정 입력에서는 느릴 수 있습니다.
+danger-exponential = { $subexpression }에서 반복되는 부분이 같은 텍스트에 여러 방식으로 매칭될 수 있어, 매칭 실패 시 지수 시간이 걸립니다
+danger-exponential-suggestion = 반복되는 부분이 같은 텍스트에 매칭되지 않도록 하세요 (예: (a+)+ → a+)
+danger-polynomial = { $subexpression }에 겹치는 반복이 있어, 매칭 실패 시 { $degree }차 다항 시간이 걸립니다
+danger-polynomial-suggestion = 인접한 반복이 서로 다른 문자에 매칭되도록 하거나 패턴에 앵커를 추가하세요
+danger-unknown = 패턴이 너무 복잡해 검사할 수 없으므로 매칭 실패에 지수 시간이 걸릴 수 있습니다
+danger-unknown-suggestion = 패턴을 줄이거나 여러 명령으로 나누세요
+danger-attack = 이런 입력은 길어질수록 느려집니다: { $example }
+danger-blocked = 차단됨: 이 패턴은 지수 시간이 걸릴 수 있으며, 이 채팅에서는 그런 패턴을 실행하지 않습니다.
+danger-footerSandbox = 봇은 이 패턴을 { $seconds }초 시간 제한으로 실행합니다.
+danger-sandboxTimeout = { $seconds }초 후 중단됨: 이 채팅은 위험한 패턴을 짧은 시간 제한으로 실행합니다.
 
 ## Regex Help
 regexHelp-title = 정규식 도움말
 regexHelp-selectCategory = 정규식 구문을 배울 카테고리를 선택하세요:
 regexHelp-back = 뒤로
 regexHelp-backToCategories = 카테고리로 돌아가기
+regexHelp-availableItems = 사용 가능한 항목:
+regexHelp-example = 예:
+regexHelp-categoryNotFound = 카테고리를 찾을 수 없습니다
+regexHelp-itemNotFound = 항목을 찾을 수 없습니다
+regexHelp-tokens = 토큰
+regexHelp-tokens-description = 특정 종류의 문자와 일치하는 특수 문자 클래스
+regexHelp-tokens-digit = 모든 숫자(0-9)와 일치
+regexHelp-tokens-digit-example = \d는 'abc5def'의 '5'와 일치
+regexHelp-tokens-nonDigit = 숫자가 아닌 모든 문자와 일치
+regexHelp-tokens-nonDigit-example = \D는 '123a456'의 'a'와 일치
+regexHelp-tokens-word = 모든 단어 문자 [a-zA-Z0-9_]와 일치
+regexHelp-tokens-word-example = \w는 'hello'의 'h'와 일치
+regexHelp-tokens-nonWord = 단어 문자가 아닌 모든 문자와 일치
+regexHelp-tokens-nonWord-example = \W는 'hello world'의 ' '와 일치
+regexHelp-tokens-space = 모든 공백 문자(공백, 탭, 줄바꿈)와 일치
+regexHelp-tokens-space-example = \s는 'a b'의 공백과 일치
+regexHelp-tokens-nonSpace = 공백이 아닌 모든 문자와 일치
+regexHelp-tokens-nonSpace-example = \S는 ' a '의 'a'와 일치
+regexHelp-tokens-dot = 줄바꿈을 제외한 모든 문자와 일치
+regexHelp-tokens-dot-example = .는 'abc'의 모든 문자와 일치
+regexHelp-quantifiers = 수량자
+regexHelp-quantifiers-description = 패턴이 몇 번 일치해야 하는지 지정
+regexHelp-quantifiers-star = 0회 이상
+regexHelp-quantifiers-star-example = a*는 '', 'a', 'aaa'와 일치
+regexHelp-quantifiers-plus = 1회 이상
+regexHelp-quantifiers-plus-example = a+는 'a'나 'aaa'와 일치하지만 ''와는 일치하지 않음
+regexHelp-quantifiers-question = 0회 또는 1회 (선택 사항)
+regexHelp-quantifiers-question-example = a?는 '' 또는 'a'와 일치
+regexHelp-quantifiers-exact = 정확히 n회
+regexHelp-quantifiers-exact-example = a{"{"}3{"}"}는 정확히 'aaa'와 일치
+regexHelp-quantifiers-min = n회 이상
+regexHelp-quantifiers-min-example = a{"{"}2,{"}"}는 'aa', 'aaa' 등과 일치
+regexHelp-quantifiers-range = n회에서 m회
+regexHelp-quantifiers-range-example = a{"{"}2,4{"}"}는 'aa', 'aaa', 'aaaa'와 일치
+regexHelp-anchors = 앵커
+regexHelp-anchors-description = 문자가 아닌 위치와 일치
+regexHelp-anchors-start = 문자열의 시작
+regexHelp-anchors-start-example = ^hello는 'hello world'와 일치하지만 'say hello'와는 일치하지 않음
+regexHelp-anchors-end = 문자열의 끝
+regexHelp-anchors-end-example = world$는 'hello world'와 일치하지만 'world peace'와는 일치하지 않음
+regexHelp-anchors-word = 단어 경계
+regexHelp-anchors-word-example = \bcat\b는 'cat'과 일치하지만 'category'와는 일치하지 않음
+regexHelp-anchors-nonWord = 단어 경계가 아님
+regexHelp-anchors-nonWord-example = \Bcat는 'category'와 일치하지만 'cat'과는 일치하지 않음
+regexHelp-groups = 그룹
+regexHelp-groups-description = 패턴의 일부를 하나로 묶음
+regexHelp-groups-capture = 캡처 그룹 - 역참조를 위해 일치 항목을 기억
+regexHelp-groups-capture-example = (abc)는 'abc'를 캡처해 $1로 사용할 수 있음
+regexHelp-groups-nonCapture = 비캡처 그룹 - 기억하지 않고 묶음
+regexHelp-groups-nonCapture-example = (?:abc)는 묶지만 캡처하지 않음
+regexHelp-groups-lookahead = 긍정 전방 탐색 - 뒤에 오면 일치
+regexHelp-groups-lookahead-example = a(?=b)는 뒤에 'b'가 올 때만 'a'와 일치
+regexHelp-groups-negLookahead = 부정 전방 탐색 - 뒤에 오지 않으면 일치
+regexHelp-groups-negLookahead-example = a(?!b)는 뒤에 'b'가 오지 않을 때만 'a'와 일치
+regexHelp-classes = 문자 클래스
+regexHelp-classes-description = 특정 문자 집합과 일치
+regexHelp-classes-set = 문자 집합 - 안에 있는 모든 문자와 일치
+regexHelp-classes-set-example = [abc]는 'a', 'b', 'c'와 일치
+regexHelp-classes-negSet = 부정 집합 - 안에 없는 모든 문자와 일치
+regexHelp-classes-negSet-example = [^abc]는 'a', 'b', 'c'를 제외한 모든 문자와 일치
+regexHelp-classes-range = 범위 - 범위 안의 모든 문자와 일치
+regexHelp-classes-range-example = [a-z]는 모든 소문자와 일치
+regexHelp-escapes = 이스케이프
+regexHelp-escapes-description = 특수 문자를 문자 그대로 일치
+regexHelp-escapes-dot = 마침표 그대로
+regexHelp-escapes-dot-example = \.는 '모든 문자'가 아니라 '.'와 일치
+regexHelp-escapes-star = 별표 그대로
+regexHelp-escapes-star-example = \*는 '0회 이상'이 아니라 '*'와 일치
+regexHelp-escapes-plus = 더하기 기호 그대로
+regexHelp-escapes-plus-example = \+는 '1회 이상'이 아니라 '+'와 일치
+regexHelp-escapes-backslash = 백슬래시 그대로
+regexHelp-escapes-backslash-example = \\는 백슬래시 하나와 일치
+regexHelp-escapes-tab = 탭 문자
+regexHelp-escapes-tab-example = \t는 탭과 일치
+regexHelp-escapes-newline = 줄바꿈 문자
+regexHelp-escapes-newline-example = \n은 줄바꿈과 일치
+regexHelp-flags = 플래그
+regexHelp-flags-description = 정규식의 동작을 바꿈
+regexHelp-flags-global = 전역 - 첫 번째뿐 아니라 모든 일치 항목을 찾음
+regexHelp-flags-global-example = /a/g는 'banana'의 모든 'a'와 일치
+regexHelp-flags-ignoreCase = 대소문자 무시 - 대소문자를 구분하지 않고 일치
+regexHelp-flags-ignoreCase-example = /hello/i는 'HELLO', 'Hello' 등과 일치
+regexHelp-flags-multiline = 여러 줄 - ^와 $가 줄 경계에서 일치
+regexHelp-flags-multiline-example = /^foo/m은 모든 줄의 시작에 있는 'foo'와 일치
+regexHelp-flags-dotAll = Dot all - 마침표가 줄바꿈에도 일치
+regexHelp-flags-dotAll-example = /.+/s는 여러 줄 텍스트 전체와 일치
+regexHelp-flags-performance = 성능 - 실행 시간 표시 (사용자 정의 플래그)
+regexHelp-flags-performance-example = /pattern/p는 실행 시간을 표시
+regexHelp-flags-diff = 차이 - 삭제된 텍스트는 취소선, 삽입된 텍스트는 밑줄로 표시 (사용자 정의 플래그)
+regexHelp-flags-diff-example = s/cat/dog/d는 취소선이 그어진 cat 뒤에 dog를 표시
+regexHelp-flags-occurrence = 순번 - n번째 일치 항목만 바꾸거나, g와 함께 n번째부터 모두 바꿈 (사용자 정의 플래그)
+regexHelp-flags-occurrence-example = s/a/o/2는 'banana'를 'banona'로, s/a/o/2g는 'banono'로 바꿈
 
 ## Health & Metrics
 health-title = 봇 상태
+health-status = 봇 상태: { $status }
 health-healthy = 정상
 health-degraded = 저하됨
 health-unhealthy = 비정상
+health-unknown = 알 수 없음
 health-workers = 워커: { $active }개 활성, { $idle }개 유휴
 health-queue = 대기열: { $pending }개 대기 중인 작업
 health-errorRate = 오류율: { $rate }%
+health-workersUnavailable = 워커 풀: 사용할 수 없음
+health-circuitBreakers = 서킷 브레이커:
+health-circuitClosed = 닫힘
+health-circuitOpen = 열림
+health-circuitHalfOpen = 반열림
+health-circuitRetry = { $seconds }초 후 재시도
 health-uptime = 가동 시간: { $uptime }
 
 metrics-title = 성능 지표
-metrics-cacheHitRate = 캐시 적중률: { $rate }%
+metrics-cacheEntries = 캐시: { $count }개 항목
+metrics-cacheDisabled = 캐시: 비활성화됨
+metrics-cacheHitRate = 캐시 적중률: { $rate }% ({ $hits }/{ $lookups }회 조회)
+metrics-cacheChurn = 캐시 제거: { $evictions }, 만료: { $expirations }
 metrics-avgProcessingTime = 평균 처리 시간: { $time }ms
 metrics-totalSubstitutions = 총 대체 횟수: { $count }
-metrics-regexCompilations = 정규식 컴파일 수: { $total } (캐시됨: { $cached })
+metrics-regexCompilations = 정규식 컴파일 수: { $total }
 
 ## General
 general-yes = 예
@@ -1,21 +1,33 @@
 # Polish translations
 
 ## Errors
-error-rateLimit = Przekroczono limit szybkości. Poczekaj { $seconds } sekund.
+error-rateLimit = { $seconds ->
+    [one] Przekroczono limit szybkości. Poczekaj { $seconds } sekundę.
+    [few] Przekroczono limit szybkości. Poczekaj { $seconds } sekundy.
+    [many] Przekroczono limit szybkości. Poczekaj { $seconds } sekund.
+   *[other] Przekroczono limit szybkości. Poczekaj { $seconds } sekundy.
+}
 error-invalidRegex = Nieprawidłowy wzorzec regex. Sprawdź składnię i spróbuj ponownie.
 error-telegramAPI = Coś poszło nie tak. Spróbuj ponownie.
+error-telegramRateLimit = Osiągnięto limit szybkości. Poczekaj chwilę przed ponowną próbą.
+error-telegramUnavailable = Telegram ma problemy. Spróbuj ponownie za chwilę.
 error-workerTimeout = Błąd przetwarzania. Spróbuj ponownie z prostszym wzorcem.
 error-circuitOpen = Usługa tymczasowo niedostępna. Spróbuj ponownie później.
 error-noTarget = Nie znaleziono pasującego celu w ostatnich wiadomościach.
 error-targetIsCommand = Nie można podstawiać na innym poleceniu sed.
 error-messageTooLong = Wynik jest zbyt długi ({ $length }/{ $max } znaków).
 error-chainTooLong = Zbyt wiele poleceń w łańcuchu (max { $max }).
+error-substitution = Błąd podczas podstawiania: { $error }
+error-unexpected = Wystąpił nieoczekiwany błąd. Spróbuj ponownie.
+error-replyOnly = W tym czacie odpowiedz na wiadomość, którą chcesz zmienić.
+error-flagsNotAllowed = Te flagi są wyłączone w tym czacie: { $flags }
 
 ## Commands
 command-start = Cześć! Jestem botem regex. Użyj s/find/replace/flags, aby zamienić tekst w wiadomościach. Tekst zastępczy może obejmować wiele linii lub używać sekwencji ucieczki jak `\n`. Możesz też łączyć wiele poleceń, jedno na linię.
 
     Specjalne flagi:
     - `p`: Pokaż czas wykonania
+    - `d`: Pokaż zmiany (usunięty tekst przekreślony)
     Użyj `\N` dla przechwyconych grup.
 
 command-privacy = Ten bot nie zbiera ani nie przetwarza danych użytkowników, poza krótkim historią wiadomości do wykonywania podstawień regex. Są one przechowywane w pamięciowej bazie danych SQL przez 48 godzin i nie mogą być w żaden sposób dostępne dla administratora bota.
@@ -33,40 +45,388 @@ command-language-list = Dostępne języki:
     Użyj /language set <kod> aby zmienić.
 command-language-setSuccess = Zmieniono język na { $language }
 command-language-setError = Nieprawidłowy kod języka. Użyj /language list, aby zobaczyć dostępne opcje.
+command-language-chatOverride = Ten czat używa języka { $language } dla wszystkich, zgodnie z ustawieniem administratorów.
+
+command-start-description = Wyświetl wiadomość powitalną
+command-privacy-description = Pokaż informacje o prywatności
+command-regexhelp-description = Pomoc dotycząca składni regex
+command-explain-description = Wyjaśnij wzorzec regex
+command-language-description = Zmień język bota
+command-health-description = Pokaż stan zdrowia bota
+command-metrics-description = Pokaż metryki wydajności
+command-chatsettings-description = Zmień ustawienia tego czatu
+command-test-description = Przetestuj regex na tekście
+command-undo-description = Cofnij ostatnią zmianę poprawki
+command-redo-description = Ponów cofniętą zmianę poprawki
+
+## Chat settings
+chatSettings-title = Ustawienia tego czatu:
+chatSettings-language = Język: { $language }
+chatSettings-languageUnset = nie ustawiono (każdy otrzymuje swój własny język)
+chatSettings-on = włączone
+chatSettings-off = wyłączone
+chatSettings-tips = Wskazówki optymalizacji: { $state }
+chatSettings-dangerWarnings = Ostrzeżenia o niebezpiecznych wzorcach: { $state }
+chatSettings-dangerPolicy = Niebezpieczne wzorce: { $policy }
+chatSettings-dangerPolicy-warn = ostrzegaj
+chatSettings-dangerPolicy-block = blokuj
+chatSettings-dangerPolicy-sandbox = piaskownica
+chatSettings-replyOnly = Tryb tylko odpowiedzi: { $state }
+chatSettings-maxChainLength = Maks. poleceń na wiadomość: { $count }
+chatSettings-allowedFlags = Dozwolone flagi: { $flags }
+chatSettings-noFlags = brak
+chatSettings-menuHint = Naciśnij przycisk poniżej, aby zmienić ustawienie.
+chatSettings-usage = Użycie:
+    /chatsettings - Pokaż ustawienia tego czatu
+    /chatsettings language <code> - Odpowiadaj wszystkim w tym języku
+    /chatsettings language reset - Odpowiadaj każdemu w jego własnym języku
+
+chatSettings-notAdmin = Tylko administratorzy czatu mogą zmieniać jego ustawienia.
+chatSettings-languageSet = Język czatu zmieniono na { $language }
+chatSettings-languageReset = Język czatu zresetowano. Każdy znów otrzymuje swój własny język.
 
 ## Substitution results
 substitution-result = Wynik: { $result }
 substitution-noMatch = Nie znaleziono dopasowania.
 substitution-multipleResults = Zastosowano { $count } podstawień
-substitution-performance = Wykonano { $count } podstawień w { $time }
+substitution-performance = { $count ->
+    [one] Wykonano { $count } podstawienie w { $time }
+    [few] Wykonano { $count } podstawienia w { $time }
+    [many] Wykonano { $count } podstawień w { $time }
+   *[other] Wykonano { $count } podstawienia w { $time }
+}
+
+## Corrections
+correction-notReply = Odpowiedz na jedną z moich poprawek, aby ją cofnąć lub ponowić.
+correction-nothingToUndo = Nie ma nic do cofnięcia.
+correction-nothingToRedo = Nie ma nic do ponowienia.
+
+## Inline mode
+inline-usage = Wpisz s/znajdź/zamień/ | tekst
+inline-resultTitle = Tekst po zamianie
+inline-errorTitle = Zamiana nie powiodła się
+inline-dangerTitle = Niebezpieczny wzorzec
+inline-emptyResult = (pusty wynik)
+
+## Regex testing
+regexTest-usage = Użycie: /test wzorzec/flagi [tekst]
+    Odpowiedz na wiadomość, aby ją przetestować, lub wpisz tekst po wzorcu.
+regexTest-matchCount = { $count ->
+    [one] { $count } dopasowanie
+    [few] { $count } dopasowania
+    [many] { $count } dopasowań
+   *[other] { $count } dopasowania
+}
+regexTest-noMatches = Brak dopasowań.
+regexTest-match = Dopasowanie { $number } na pozycji { $index }:
+regexTest-unmatched = niedopasowana
+regexTest-moreMatches = { $count ->
+    [one] …i jeszcze { $count } dopasowanie
+    [few] …i jeszcze { $count } dopasowania
+    [many] …i jeszcze { $count } dopasowań
+   *[other] …i jeszcze { $count } dopasowania
+}
+
+## Explain
+explain-usage = Podaj wzorzec do wyjaśnienia.
+
+    Użycie:
+    /explain wzorzec
+    /explain /wzorzec/flagi
+    /explain s/wzorzec/zamiana/flagi
+
+    Przykład: /explain s/(\w+)@(\w+)/$2: $1/gi
+explain-invalid = Nieprawidłowy wzorzec regex: { $error }
+
+    Sprawdź składnię i spróbuj ponownie.
+explain-pattern = Wzorzec:
+explain-breakdown = Rozbicie:
+explain-flags = Flagi:
+explain-replacement = Zamiana:
+explain-truncated = (Wyjaśnienie skrócone)
+explain-quoted = „{ $text }”
+explain-literal = Znak { $char }
+explain-literal-codePoint = Znak { $char } ({ $codePoint })
+explain-literal-escaped = Znak { $char } (poprzedzony ukośnikiem)
+explain-literalText = Tekst { $text }
+explain-anyCase = { $description }, dowolna wielkość liter
+explain-char-null = Znak pusty
+explain-char-backspace = Backspace
+explain-char-tab = Tabulator
+explain-char-newline = Nowa linia
+explain-char-verticalTab = Tabulator pionowy
+explain-char-formFeed = Wysunięcie strony
+explain-char-carriageReturn = Powrót karetki
+explain-char-space = Spacja
+explain-char-control = Znak sterujący { $codePoint }
+explain-empty = Nic (zawsze pasuje)
+explain-alternatives = Jedna z { $count } alternatyw
+explain-sequence = Wszystkie, po kolei
+explain-group-named = Nazwana grupa { $name } (grupa { $index })
+explain-group-capture = Grupa przechwytująca { $index }
+explain-group-nonCapturing = Grupa nieprzechwytująca
+explain-group-flagsOn = Grupa nieprzechwytująca z włączonymi flagami { $on }
+explain-group-flagsOff = Grupa nieprzechwytująca z wyłączonymi flagami { $off }
+explain-group-flagsOnOff = Grupa nieprzechwytująca z włączonymi flagami { $on } i wyłączonymi { $off }
+explain-lookahead = Pozytywny lookahead: jeśli dalej jest
+explain-lookahead-negated = Negatywny lookahead: jeśli dalej nie ma
+explain-lookbehind = Pozytywny lookbehind: jeśli wcześniej jest
+explain-lookbehind-negated = Negatywny lookbehind: jeśli wcześniej nie ma
+explain-quantifier-zeroOrMore = Zero lub więcej razy
+explain-quantifier-oneOrMore = Jeden lub więcej razy
+explain-quantifier-optional = Opcjonalnie (zero lub jeden raz)
+explain-quantifier-exactly = { $count ->
+    [one] Dokładnie { $count } raz
+   *[other] Dokładnie { $count } razy
+}
+explain-quantifier-atLeast = Co najmniej { $min } razy
+explain-quantifier-between = Od { $min } do { $max } razy
+explain-quantifier-greedy = { $quantifier }, jak najwięcej
+explain-quantifier-lazy = { $quantifier }, jak najmniej (leniwie)
+explain-class-digit = Dowolna cyfra (0-9)
+explain-class-nonDigit = Dowolny znak, który nie jest cyfrą
+explain-class-word = Dowolny znak słowa [a-zA-Z0-9_]
+explain-class-nonWord = Dowolny znak, który nie jest znakiem słowa
+explain-class-space = Dowolny biały znak
+explain-class-nonSpace = Dowolny znak, który nie jest białym znakiem
+explain-class-set = Jeden znak spośród
+explain-class-set-negated = Dowolny znak oprócz
+explain-class-intersection = Jeden znak należący do wszystkich tych zbiorów
+explain-class-intersection-negated = Dowolny znak, który nie należy do wszystkich tych zbiorów
+explain-class-subtraction = Jeden znak z pierwszego zbioru, ale nie z pozostałych
+explain-class-subtraction-negated = Dowolny znak oprócz tych z pierwszego zbioru, których nie ma w pozostałych
+explain-class-range = Dowolny znak od { $from } do { $to }
+explain-class-strings = Jeden z tekstów { $strings }
+explain-category-letter = Dowolna litera
+explain-category-letter-negated = Dowolny znak, który nie jest literą
+explain-category-uppercase = Dowolna wielka litera
+explain-category-uppercase-negated = Dowolny znak, który nie jest wielką literą
+explain-category-lowercase = Dowolna mała litera
+explain-category-lowercase-negated = Dowolny znak, który nie jest małą literą
+explain-category-titlecase = Dowolna litera tytułowa
+explain-category-titlecase-negated = Dowolny znak, który nie jest literą tytułową
+explain-category-mark = Dowolny znak łączący
+explain-category-mark-negated = Dowolny znak, który nie jest znakiem łączącym
+explain-category-number = Dowolna liczba
+explain-category-number-negated = Dowolny znak, który nie jest liczbą
+explain-category-digit = Dowolna cyfra dziesiętna
+explain-category-digit-negated = Dowolny znak, który nie jest cyfrą dziesiętną
+explain-category-punctuation = Dowolny znak interpunkcyjny
+explain-category-punctuation-negated = Dowolny znak, który nie jest znakiem interpunkcyjnym
+explain-category-symbol = Dowolny symbol
+explain-category-symbol-negated = Dowolny znak, który nie jest symbolem
+explain-category-currency = Dowolny symbol waluty
+explain-category-currency-negated = Dowolny znak, który nie jest symbolem waluty
+explain-category-separator = Dowolny separator
+explain-category-separator-negated = Dowolny znak, który nie jest separatorem
+explain-category-spaceSeparator = Dowolny separator odstępu
+explain-category-spaceSeparator-negated = Dowolny znak, który nie jest separatorem odstępu
+explain-category-other = Dowolny znak sterujący lub nieprzypisany
+explain-category-other-negated = Dowolny znak, który nie jest sterujący ani nieprzypisany
+explain-category-control = Dowolny znak sterujący
+explain-category-control-negated = Dowolny znak, który nie jest znakiem sterującym
+explain-property-script = Dowolny znak pisma { $script }
+explain-property-script-negated = Dowolny znak spoza pisma { $script }
+explain-property-value = Dowolny znak z { $name } = { $value }
+explain-property-value-negated = Dowolny znak bez { $name } = { $value }
+explain-property = Dowolny znak z właściwością Unicode { $name }
+explain-property-negated = Dowolny znak bez właściwości Unicode { $name }
+explain-dot = Dowolny znak oprócz nowej linii
+explain-dot-all = Dowolny znak
+explain-stringStart = Początek tekstu
+explain-stringEnd = Koniec tekstu
+explain-lineStart = Początek linii
+explain-lineEnd = Koniec linii
+explain-wordBoundary = Granica słowa
+explain-nonWordBoundary = Brak granicy słowa
+explain-backreference = Ten sam tekst, który dopasowała grupa { $group }
+explain-flag-indices = Indeksy: zapisuje, gdzie dopasowała się każda grupa
+explain-flag-global = Globalnie: znajduje wszystkie dopasowania, nie tylko pierwsze
+explain-flag-ignoreCase = Ignoruj wielkość liter
+explain-flag-multiline = Wielowierszowo: ^ i $ pasują w każdej linii
+explain-flag-dotAll = Dot all: . pasuje też do nowej linii
+explain-flag-unicode = Unicode: porównuje punkty kodowe i pozwala na sekwencje \p
+explain-flag-unicodeSets = Zbiory Unicode: jak u, plus operacje na zbiorach w klasach
+explain-flag-sticky = Sticky: każde dopasowanie musi zaczynać się tam, gdzie skończyło się poprzednie
+explain-flag-replaceAll = Globalnie: zastępuje wszystkie dopasowania, nie tylko pierwsze
+explain-flag-performance = Pokazuje, ile trwało zastępowanie
+explain-flag-diff = Pokazuje zmiany: usunięty tekst jest przekreślony
+explain-flag-occurrence = Zastępuje tylko dopasowanie nr { $occurrence }
+explain-flag-occurrenceOnward = Zastępuje dopasowanie nr { $occurrence } i wszystkie kolejne
+explain-flag-unknown = To nie flaga, zignorowano
+explain-flag-firstOnly = Bez g zastępowane jest tylko pierwsze dopasowanie
+explain-address = Adres:
+explain-address-line = Tylko wiersz { $line }
+explain-address-last = Tylko ostatni wiersz
+explain-address-regex = Tylko wiersze pasujące do { $pattern }
+explain-address-range = Zakres: { $start } – { $end }
+explain-address-part-line = wiersz { $line }
+explain-address-part-last = ostatni wiersz
+explain-address-part-regex = wiersz pasujący do { $pattern }
+explain-transliteration = Transliteracja:
+explain-transliteration-characters = Znaki:
+explain-transliteration-char = { $from } zmienia się w { $to }
+explain-replacement-empty = Nic: dopasowania są usuwane
+explain-replacement-group = Tekst grupy { $group }
+explain-replacement-groupThen = Tekst grupy { $group }, a potem { $rest }
+explain-replacement-noGroup = Znak { $text } (nie ma grupy { $group })
+explain-replacement-missingName = Nic (nie ma grupy { $name })
+explain-replacement-noNamedGroups = Znak { $text } (wzorzec nie ma nazwanych grup)
+explain-replacement-match = Całe dopasowanie
+explain-replacement-before = Tekst przed dopasowaniem
+explain-replacement-after = Tekst po dopasowaniu
 
 ## Tips
 tip-optimization = Wskazówka: { $suggestion }
 tip-useShorthand = Użyj { $shorthand } zamiast { $longform } (krótsze)
 tip-nonCapturing = Użyj (?:...) dla grup, których nie referencjesz
 tip-greedy = Rozważ użycie .*? zamiast .* (niechciwe)
+tip-whitespace = Użyj { $shorthand } zamiast { $longform } (obejmuje wszystkie białe znaki)
+tip-dotAll = Użyj . z flagą s zamiast { $longform } (bardziej idiomatyczne)
+tip-unnecessaryEscape = Usuń zbędne escapowanie, np. { $example } (czystszy wzorzec)
+tip-anchors = Dodaj kotwice ^ i/lub $ do nieograniczonych wzorców (może poprawić wydajność)
+
+## Dangerous pattern warnings
+danger-title = Uwaga: ten wzorzec może powodować problemy z wydajnością
+danger-pattern = Wzorzec: { $pattern }
+danger-riskScore = Poziom Ryzyka: { $score }/100
+danger-issuesFound = Znalezione problemy:
+danger-footer = Bot i tak wykona ten wzorzec, ale dla niektórych danych może działać wolno.
+danger-exponential = W { $subexpression } powtarzane części mogą dopasować ten sam tekst na wiele sposobów, więc nieudane dopasowanie trwa wykładniczo długo
+danger-exponential-suggestion = Spraw, by powtarzane części nie mogły dopasować tego samego tekstu, np. (a+)+ → a+
+danger-polynomial = { $subexpression } ma nakładające się powtórzenia, więc nieudane dopasowanie trwa wielomianowo długo (stopień { $degree })
+danger-polynomial-suggestion = Spraw, by sąsiednie powtórzenia dopasowywały różne znaki, lub zakotwicz wzorzec
+danger-unknown = Wzorzec jest zbyt złożony, by go sprawdzić, więc nieudane dopasowanie może trwać wykładniczo długo
+danger-unknown-suggestion = Skróć wzorzec lub podziel go na kilka poleceń
+danger-attack = Takie dane działają tym wolniej, im są dłuższe: { $example }
+danger-blocked = Zablokowano: ten wzorzec może działać wykładniczo długo, a ten czat nie uruchamia takich wzorców.
+danger-footerSandbox = Bot uruchamia ten wzorzec z limitem czasu { $seconds } s.
+danger-sandboxTimeout = Przerwano po { $seconds } s: ten czat uruchamia niebezpieczne wzorce z krótkim limitem czasu.
 
 ## Regex Help
 regexHelp-title = Pomoc Regex
 regexHelp-selectCategory = Wybierz kategorię, aby nauczyć się składni regex:
 regexHelp-back = Wstecz
 regexHelp-backToCategories = Powrót do Kategorii
+regexHelp-availableItems = Dostępne elementy:
+regexHelp-example = Przykład:
+regexHelp-categoryNotFound = Nie znaleziono kategorii
+regexHelp-itemNotFound = Nie znaleziono elementu
+regexHelp-tokens = Tokeny
+regexHelp-tokens-description = Specjalne klasy znaków pasujące do określonych rodzajów znaków
+regexHelp-tokens-digit = Pasuje do dowolnej cyfry (0-9)
+regexHelp-tokens-digit-example = \d pasuje do '5' w 'abc5def'
+regexHelp-tokens-nonDigit = Pasuje do dowolnego znaku, który nie jest cyfrą
+regexHelp-tokens-nonDigit-example = \D pasuje do 'a' w '123a456'
+regexHelp-tokens-word = Pasuje do dowolnego znaku słowa [a-zA-Z0-9_]
+regexHelp-tokens-word-example = \w pasuje do 'h' w 'hello'
+regexHelp-tokens-nonWord = Pasuje do dowolnego znaku, który nie jest znakiem słowa
+regexHelp-tokens-nonWord-example = \W pasuje do ' ' w 'hello world'
+regexHelp-tokens-space = Pasuje do dowolnego białego znaku (spacja, tabulator, nowa linia)
+regexHelp-tokens-space-example = \s pasuje do spacji w 'a b'
+regexHelp-tokens-nonSpace = Pasuje do dowolnego znaku, który nie jest białym znakiem
+regexHelp-tokens-nonSpace-example = \S pasuje do 'a' w ' a '
+regexHelp-tokens-dot = Pasuje do dowolnego znaku oprócz nowej linii
+regexHelp-tokens-dot-example = . pasuje do dowolnego znaku w 'abc'
+regexHelp-quantifiers = Kwantyfikatory
+regexHelp-quantifiers-description = Określają, ile razy wzorzec ma pasować
+regexHelp-quantifiers-star = Zero lub więcej razy
+regexHelp-quantifiers-star-example = a* pasuje do '', 'a' lub 'aaa'
+regexHelp-quantifiers-plus = Jeden lub więcej razy
+regexHelp-quantifiers-plus-example = a+ pasuje do 'a' lub 'aaa', ale nie do ''
+regexHelp-quantifiers-question = Zero lub jeden raz (opcjonalnie)
+regexHelp-quantifiers-question-example = a? pasuje do '' lub 'a'
+regexHelp-quantifiers-exact = Dokładnie n razy
+regexHelp-quantifiers-exact-example = a{"{"}3{"}"} pasuje dokładnie do 'aaa'
+regexHelp-quantifiers-min = Co najmniej n razy
+regexHelp-quantifiers-min-example = a{"{"}2,{"}"} pasuje do 'aa', 'aaa' itd.
+regexHelp-quantifiers-range = Od n do m razy
+regexHelp-quantifiers-range-example = a{"{"}2,4{"}"} pasuje do 'aa', 'aaa' lub 'aaaa'
+regexHelp-anchors = Kotwice
+regexHelp-anchors-description = Pasują do pozycji zamiast do znaków
+regexHelp-anchors-start = Początek tekstu
+regexHelp-anchors-start-example = ^hello pasuje do 'hello world', ale nie do 'say hello'
+regexHelp-anchors-end = Koniec tekstu
+regexHelp-anchors-end-example = world$ pasuje do 'hello world', ale nie do 'world peace'
+regexHelp-anchors-word = Granica słowa
+regexHelp-anchors-word-example = \bcat\b pasuje do 'cat', ale nie do 'category'
+regexHelp-anchors-nonWord = Brak granicy słowa
+regexHelp-anchors-nonWord-example = \Bcat pasuje do 'category', ale nie do 'cat'
+regexHelp-groups = Grupy
+regexHelp-groups-description = Łączą części wzorców w całość
+regexHelp-groups-capture = Grupa przechwytująca - zapamiętuje dopasowanie do odwołań
+regexHelp-groups-capture-example = (abc) przechwytuje 'abc' do użycia z $1
+regexHelp-groups-nonCapture = Grupa nieprzechwytująca - grupuje bez zapamiętywania
+regexHelp-groups-nonCapture-example = (?:abc) grupuje, ale nie przechwytuje
+regexHelp-groups-lookahead = Pozytywny lookahead - pasuje, jeśli dalej jest
+regexHelp-groups-lookahead-example = a(?=b) pasuje do 'a' tylko wtedy, gdy dalej jest 'b'
+regexHelp-groups-negLookahead = Negatywny lookahead - pasuje, jeśli dalej NIE ma
+regexHelp-groups-negLookahead-example = a(?!b) pasuje do 'a' tylko wtedy, gdy dalej NIE ma 'b'
+regexHelp-classes = Klasy znaków
+regexHelp-classes-description = Pasują do określonych zbiorów znaków
+regexHelp-classes-set = Zbiór znaków - pasuje do dowolnego znaku w środku
+regexHelp-classes-set-example = [abc] pasuje do 'a', 'b' lub 'c'
+regexHelp-classes-negSet = Zbiór zanegowany - pasuje do dowolnego znaku, którego NIE ma w środku
+regexHelp-classes-negSet-example = [^abc] pasuje do dowolnego znaku oprócz 'a', 'b', 'c'
+regexHelp-classes-range = Zakres - pasuje do dowolnego znaku z zakresu
+regexHelp-classes-range-example = [a-z] pasuje do dowolnej małej litery
+regexHelp-escapes = Sekwencje ucieczki
+regexHelp-escapes-description = Dopasowują znaki specjalne dosłownie
+regexHelp-escapes-dot = Dosłowna kropka
+regexHelp-escapes-dot-example = \. pasuje do '.', a nie do 'dowolnego znaku'
+regexHelp-escapes-star = Dosłowna gwiazdka
+regexHelp-escapes-star-example = \* pasuje do '*', a nie do 'zero lub więcej'
+regexHelp-escapes-plus = Dosłowny plus
+regexHelp-escapes-plus-example = \+ pasuje do '+', a nie do 'jeden lub więcej'
+regexHelp-escapes-backslash = Dosłowny ukośnik wsteczny
+regexHelp-escapes-backslash-example = \\ pasuje do pojedynczego ukośnika wstecznego
+regexHelp-escapes-tab = Znak tabulacji
+regexHelp-escapes-tab-example = \t pasuje do tabulatora
+regexHelp-escapes-newline = Znak nowej linii
+regexHelp-escapes-newline-example = \n pasuje do nowej linii
+regexHelp-flags = Flagi
+regexHelp-flags-description = Zmieniają działanie wyrażenia regularnego
+regexHelp-flags-global = Globalnie - znajduje wszystkie dopasowania, nie tylko pierwsze
+regexHelp-flags-global-example = /a/g pasuje do wszystkich 'a' w 'banana'
+regexHelp-flags-ignoreCase = Ignoruj wielkość liter - dopasowanie bez rozróżniania wielkości liter
+regexHelp-flags-ignoreCase-example = /hello/i pasuje do 'HELLO', 'Hello' itd.
+regexHelp-flags-multiline = Wielowierszowo - ^ i $ pasują na granicach linii
+regexHelp-flags-multiline-example = /^foo/m pasuje do 'foo' na początku każdej linii
+regexHelp-flags-dotAll = Dot all - kropka pasuje też do nowej linii
+regexHelp-flags-dotAll-example = /.+/s pasuje do całego wielowierszowego tekstu
+regexHelp-flags-performance = Wydajność - pokazuje czas wykonania (własna flaga)
+regexHelp-flags-performance-example = /pattern/p pokazuje czas wykonania
+regexHelp-flags-diff = Diff - pokazuje usunięty tekst przekreślony, a wstawiony podkreślony (własna flaga)
+regexHelp-flags-diff-example = s/cat/dog/d pokazuje przekreślone cat, a po nim dog
+regexHelp-flags-occurrence = Wystąpienie - zastępuje tylko n-te dopasowanie albo z g od n-tego wzwyż (własna flaga)
+regexHelp-flags-occurrence-example = s/a/o/2 zmienia 'banana' w 'banona', s/a/o/2g w 'banono'
 
 ## Health & Metrics
 health-title = Stan Zdrowia Bota
+health-status = Stan Zdrowia Bota: { $status }
 health-healthy = ZDROWY
 health-degraded = DEGRADOWANY
 health-unhealthy = NIEZDROWY
+health-unknown = NIEZNANY
 health-workers = Workerów: { $active } aktywnych, { $idle } bezczynnych
 health-queue = Kolejka: { $pending } oczekujących zadań
 health-errorRate = Wskaźnik Błędów: { $rate }%
+health-workersUnavailable = Pula workerów: Niedostępna
+health-circuitBreakers = Bezpieczniki (circuit breakers):
+health-circuitClosed = ZAMKNIĘTY
+health-circuitOpen = OTWARTY
+health-circuitHalfOpen = PÓŁOTWARTY
+health-circuitRetry = ponowna próba za { $seconds }s
 health-uptime = Czas Działania: { $uptime }
 
 metrics-title = Metryki Wydajności
-metrics-cacheHitRate = Wskaźnik Trafień Cache: { $rate }%
+metrics-cacheEntries = Cache: { $count } wpisów
+metrics-cacheDisabled = Cache: Wyłączony
+metrics-cacheHitRate = Wskaźnik Trafień Cache: { $rate }% ({ $hits }/{ $lookups } wyszukiwań)
+metrics-cacheChurn = Usunięcia z Cache: { $evictions }, Wygaśnięcia: { $expirations }
 metrics-avgProcessingTime = Średni Czas Przetwarzania: { $time }ms
 metrics-totalSubstitutions = Całkowita Liczba Podstawień: { $count }
-metrics-regexCompilations = Kompilacje Regex: { $total } (w cache: { $cached })
+metrics-regexCompilations = Kompilacje Regex: { $total }
 
 ## General
 general-yes = Tak
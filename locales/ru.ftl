@@ -1,21 +1,33 @@
 # Russian translations
 
 ## Errors
-error-rateLimit = Превышен лимит скорости. Пожалуйста, подождите { $seconds } секунд.
+error-rateLimit = { $seconds ->
+    [one] Превышен лимит скорости. Пожалуйста, подождите { $seconds } секунду.
+    [few] Превышен лимит скорости. Пожалуйста, подождите { $seconds } секунды.
+    [many] Превышен лимит скорости. Пожалуйста, подождите { $seconds } секунд.
+   *[other] Превышен лимит скорости. Пожалуйста, подождите { $seconds } секунды.
+}
 error-invalidRegex = Недопустимый шаблон regex. Проверьте синтаксис и попробуйте снова.
 error-telegramAPI = Что-то пошло не так. Пожалуйста, попробуйте снова.
+error-telegramRateLimit = Достигнут лимит скорости. Подождите немного, прежде чем повторить попытку.
+error-telegramUnavailable = У Telegram неполадки. Попробуйте снова через минуту.
 error-workerTimeout = Ошибка обработки. Попробуйте снова с более простым шаблоном.
 error-circuitOpen = Сервис временно недоступен. Пожалуйста, попробуйте позже.
 error-noTarget = Совпадающая цель не найдена в последних сообщениях.
 error-targetIsCommand = Невозможно заменить на другой sed-команде.
 error-messageTooLong = Результат слишком длинный ({ $length }/{ $max } символов).
 error-chainTooLong = Слишком много команд в цепочке (макс { $max }).
+error-substitution = Ошибка при замене: { $error }
+error-unexpected = Произошла непредвиденная ошибка. Пожалуйста, попробуйте снова.
+error-replyOnly = В этом чате ответьте на сообщение, которое хотите изменить.
+error-flagsNotAllowed = Эти флаги отключены в этом чате: { $flags }
 
 ## Commands
 command-start = Привет! Я бот regex. Используйте s/find/replace/flags для замены текста в сообщениях. Текст замены может занимать несколько строк или использовать escape-последовательности как `\n`. Вы также можете объединять несколько команд, по одной на строку.
 
     Специальные флаги:
     - `p`: Показать время выполнения
+    - `d`: Показать изменения (удалённый текст зачёркнут)
     Используйте `\N` для захваченных групп.
 
 command-privacy = Этот бот не собирает и не обрабатывает данные пользователей, кроме краткой истории сообщений для выполнения regex-замен. Они хранятся в базе данных SQL в памяти в течение 48 часов и не могут быть доступны администратору бота никаким образом.
@@ -33,40 +45,390 @@ command-language-list = Доступные языки:
     Используйте /language set <код> для изменения.
 command-language-setSuccess = Язык изменен на { $language }
 command-language-setError = Недопустимый код языка. Используйте /language list для просмотра доступных опций.
+command-language-chatOverride = В этом чате для всех используется { $language }, как настроили администраторы.
+
+command-start-description = Получить приветственное сообщение
+command-privacy-description = Показать информацию о конфиденциальности
+command-regexhelp-description = Справка по синтаксису regex
+command-explain-description = Объяснить шаблон regex
+command-language-description = Изменить язык бота
+command-health-description = Показать состояние бота
+command-metrics-description = Показать метрики производительности
+command-chatsettings-description = Изменить настройки этого чата
+command-test-description = Проверить регулярное выражение на тексте
+command-undo-description = Отменить последнее изменение исправления
+command-redo-description = Вернуть отменённое изменение исправления
+
+## Chat settings
+chatSettings-title = Настройки этого чата:
+chatSettings-language = Язык: { $language }
+chatSettings-languageUnset = не задан (каждый получает свой язык)
+chatSettings-on = вкл.
+chatSettings-off = выкл.
+chatSettings-tips = Советы по оптимизации: { $state }
+chatSettings-dangerWarnings = Предупреждения об опасных шаблонах: { $state }
+chatSettings-dangerPolicy = Опасные шаблоны: { $policy }
+chatSettings-dangerPolicy-warn = предупреждать
+chatSettings-dangerPolicy-block = блокировать
+chatSettings-dangerPolicy-sandbox = песочница
+chatSettings-replyOnly = Режим только ответов: { $state }
+chatSettings-maxChainLength = Макс. команд в сообщении: { $count }
+chatSettings-allowedFlags = Разрешённые флаги: { $flags }
+chatSettings-noFlags = нет
+chatSettings-menuHint = Нажмите кнопку ниже, чтобы изменить настройку.
+chatSettings-usage = Использование:
+    /chatsettings - Показать настройки этого чата
+    /chatsettings language <code> - Отвечать всем на этом языке
+    /chatsettings language reset - Отвечать каждому на его языке
+
+chatSettings-notAdmin = Только администраторы чата могут изменять его настройки.
+chatSettings-languageSet = Язык чата изменён на { $language }
+chatSettings-languageReset = Язык чата сброшен. Каждый снова получает свой язык.
 
 ## Substitution results
 substitution-result = Результат: { $result }
 substitution-noMatch = Совпадение не найдено.
 substitution-multipleResults = Применено { $count } замен
-substitution-performance = Выполнено { $count } замен за { $time }
+substitution-performance = { $count ->
+    [one] Выполнена { $count } замена за { $time }
+    [few] Выполнено { $count } замены за { $time }
+    [many] Выполнено { $count } замен за { $time }
+   *[other] Выполнено { $count } замены за { $time }
+}
+
+## Corrections
+correction-notReply = Ответьте на одно из моих исправлений, чтобы отменить или вернуть его.
+correction-nothingToUndo = Нечего отменять.
+correction-nothingToRedo = Нечего возвращать.
+
+## Inline mode
+inline-usage = Введите s/найти/заменить/ | текст
+inline-resultTitle = Текст после замены
+inline-errorTitle = Замена не удалась
+inline-dangerTitle = Опасный шаблон
+inline-emptyResult = (пустой результат)
+
+## Regex testing
+regexTest-usage = Использование: /test шаблон/флаги [текст]
+    Ответьте на сообщение, чтобы проверить его, или напишите текст после шаблона.
+regexTest-matchCount = { $count ->
+    [one] { $count } совпадение
+    [few] { $count } совпадения
+    [many] { $count } совпадений
+   *[other] { $count } совпадения
+}
+regexTest-noMatches = Совпадений нет.
+regexTest-match = Совпадение { $number } на позиции { $index }:
+regexTest-unmatched = не совпала
+regexTest-moreMatches = { $count ->
+    [one] …и ещё { $count } совпадение
+    [few] …и ещё { $count } совпадения
+    [many] …и ещё { $count } совпадений
+   *[other] …и ещё { $count } совпадения
+}
+
+## Explain
+explain-usage = Укажите шаблон для объяснения.
+
+    Использование:
+    /explain шаблон
+    /explain /шаблон/флаги
+    /explain s/шаблон/замена/флаги
+
+    Пример: /explain s/(\w+)@(\w+)/$2: $1/gi
+explain-invalid = Некорректный шаблон регулярного выражения: { $error }
+
+    Проверьте синтаксис и попробуйте снова.
+explain-pattern = Шаблон:
+explain-breakdown = Разбор:
+explain-flags = Флаги:
+explain-replacement = Замена:
+explain-truncated = (Объяснение сокращено)
+explain-quoted = «{ $text }»
+explain-literal = Символ { $char }
+explain-literal-codePoint = Символ { $char } ({ $codePoint })
+explain-literal-escaped = Символ { $char } (экранирован)
+explain-literalText = Текст { $text }
+explain-anyCase = { $description }, в любом регистре
+explain-char-null = Нулевой символ
+explain-char-backspace = Возврат на шаг
+explain-char-tab = Табуляция
+explain-char-newline = Перевод строки
+explain-char-verticalTab = Вертикальная табуляция
+explain-char-formFeed = Перевод страницы
+explain-char-carriageReturn = Возврат каретки
+explain-char-space = Пробел
+explain-char-control = Управляющий символ { $codePoint }
+explain-empty = Ничего (совпадает всегда)
+explain-alternatives = Одна из { $count } альтернатив
+explain-sequence = Всё это, по порядку
+explain-group-named = Именованная группа { $name } (группа { $index })
+explain-group-capture = Захватывающая группа { $index }
+explain-group-nonCapturing = Незахватывающая группа
+explain-group-flagsOn = Незахватывающая группа с включёнными флагами { $on }
+explain-group-flagsOff = Незахватывающая группа с выключенными флагами { $off }
+explain-group-flagsOnOff = Незахватывающая группа с включёнными флагами { $on } и выключенными { $off }
+explain-lookahead = Позитивная опережающая проверка: дальше идёт
+explain-lookahead-negated = Негативная опережающая проверка: дальше не идёт
+explain-lookbehind = Позитивная ретроспективная проверка: перед этим стоит
+explain-lookbehind-negated = Негативная ретроспективная проверка: перед этим не стоит
+explain-quantifier-zeroOrMore = Ноль или более раз
+explain-quantifier-oneOrMore = Один или более раз
+explain-quantifier-optional = Необязательно (ноль или один раз)
+explain-quantifier-exactly = { $count ->
+    [one] Ровно { $count } раз
+    [few] Ровно { $count } раза
+    [many] Ровно { $count } раз
+   *[other] Ровно { $count } раза
+}
+explain-quantifier-atLeast = Не менее { $min } раз
+explain-quantifier-between = От { $min } до { $max } раз
+explain-quantifier-greedy = { $quantifier }, как можно больше
+explain-quantifier-lazy = { $quantifier }, как можно меньше (ленивый)
+explain-class-digit = Любая цифра (0-9)
+explain-class-nonDigit = Любой символ, кроме цифр
+explain-class-word = Любой символ слова [a-zA-Z0-9_]
+explain-class-nonWord = Любой символ, кроме символов слова
+explain-class-space = Любой пробельный символ
+explain-class-nonSpace = Любой символ, кроме пробельных
+explain-class-set = Один символ из
+explain-class-set-negated = Любой символ, кроме
+explain-class-intersection = Один символ, входящий во все эти наборы
+explain-class-intersection-negated = Любой символ, не входящий во все эти наборы
+explain-class-subtraction = Один символ из первого набора, но не из остальных
+explain-class-subtraction-negated = Любой символ, кроме символов первого набора, которых нет в остальных
+explain-class-range = Любой символ от { $from } до { $to }
+explain-class-strings = Одна из строк { $strings }
+explain-category-letter = Любая буква
+explain-category-letter-negated = Любой символ, кроме букв
+explain-category-uppercase = Любая заглавная буква
+explain-category-uppercase-negated = Любой символ, кроме заглавных букв
+explain-category-lowercase = Любая строчная буква
+explain-category-lowercase-negated = Любой символ, кроме строчных букв
+explain-category-titlecase = Любая титульная буква
+explain-category-titlecase-negated = Любой символ, кроме титульных букв
+explain-category-mark = Любой комбинируемый знак
+explain-category-mark-negated = Любой символ, кроме комбинируемых знаков
+explain-category-number = Любое число
+explain-category-number-negated = Любой символ, кроме чисел
+explain-category-digit = Любая десятичная цифра
+explain-category-digit-negated = Любой символ, кроме десятичных цифр
+explain-category-punctuation = Любой знак препинания
+explain-category-punctuation-negated = Любой символ, кроме знаков препинания
+explain-category-symbol = Любой символ-знак
+explain-category-symbol-negated = Любой символ, кроме символов-знаков
+explain-category-currency = Любой символ валюты
+explain-category-currency-negated = Любой символ, кроме символов валют
+explain-category-separator = Любой разделитель
+explain-category-separator-negated = Любой символ, кроме разделителей
+explain-category-spaceSeparator = Любой пробельный разделитель
+explain-category-spaceSeparator-negated = Любой символ, кроме пробельных разделителей
+explain-category-other = Любой управляющий или неназначенный символ
+explain-category-other-negated = Любой символ, кроме управляющих и неназначенных
+explain-category-control = Любой управляющий символ
+explain-category-control-negated = Любой символ, кроме управляющих
+explain-property-script = Любой символ письменности { $script }
+explain-property-script-negated = Любой символ не из письменности { $script }
+explain-property-value = Любой символ с { $name } = { $value }
+explain-property-value-negated = Любой символ без { $name } = { $value }
+explain-property = Любой символ со свойством Unicode { $name }
+explain-property-negated = Любой символ без свойства Unicode { $name }
+explain-dot = Любой символ, кроме переводов строки
+explain-dot-all = Любой символ
+explain-stringStart = Начало текста
+explain-stringEnd = Конец текста
+explain-lineStart = Начало строки
+explain-lineEnd = Конец строки
+explain-wordBoundary = Граница слова
+explain-nonWordBoundary = Не граница слова
+explain-backreference = Тот же текст, что нашла группа { $group }
+explain-flag-indices = Индексы: запоминает, где совпала каждая группа
+explain-flag-global = Глобальный: находит все совпадения, а не только первое
+explain-flag-ignoreCase = Без учёта регистра
+explain-flag-multiline = Многострочный: ^ и $ совпадают в каждой строке
+explain-flag-dotAll = Dot all: . совпадает и с переводом строки
+explain-flag-unicode = Unicode: сравнивает по кодовым точкам и разрешает экранирование \p
+explain-flag-unicodeSets = Наборы Unicode: как u, плюс операции над наборами в классах
+explain-flag-sticky = Sticky: каждое совпадение начинается там, где закончилось предыдущее
+explain-flag-replaceAll = Глобальный: заменяет все совпадения, а не только первое
+explain-flag-performance = Показывает, сколько длилась замена
+explain-flag-diff = Показывает изменения: удалённый текст зачёркнут
+explain-flag-occurrence = Заменяет только совпадение № { $occurrence }
+explain-flag-occurrenceOnward = Заменяет совпадение № { $occurrence } и все следующие
+explain-flag-unknown = Не флаг, игнорируется
+explain-flag-firstOnly = Без g заменяется только первое совпадение
+explain-address = Адрес:
+explain-address-line = Только строка { $line }
+explain-address-last = Только последняя строка
+explain-address-regex = Только строки, совпадающие с { $pattern }
+explain-address-range = Диапазон: { $start } — { $end }
+explain-address-part-line = строка { $line }
+explain-address-part-last = последняя строка
+explain-address-part-regex = строка, совпадающая с { $pattern }
+explain-transliteration = Транслитерация:
+explain-transliteration-characters = Символы:
+explain-transliteration-char = { $from } заменяется на { $to }
+explain-replacement-empty = Ничего: совпадения удаляются
+explain-replacement-group = Текст группы { $group }
+explain-replacement-groupThen = Текст группы { $group }, затем { $rest }
+explain-replacement-noGroup = Символ { $text } (группы { $group } нет)
+explain-replacement-missingName = Ничего (группы { $name } нет)
+explain-replacement-noNamedGroups = Символ { $text } (в шаблоне нет именованных групп)
+explain-replacement-match = Всё совпадение
+explain-replacement-before = Текст перед совпадением
+explain-replacement-after = Текст после совпадения
 
 ## Tips
 tip-optimization = Подсказка: { $suggestion }
 tip-useShorthand = Используйте { $shorthand } вместо { $longform } (короче)
 tip-nonCapturing = Используйте (?:...) для групп, на которые вы не ссылаетесь
 tip-greedy = Рассмотрите использование .*? вместо .* (нежадный)
+tip-whitespace = Используйте { $shorthand } вместо { $longform } (включает все пробельные символы)
+tip-dotAll = Используйте . с флагом s вместо { $longform } (идиоматичнее)
+tip-unnecessaryEscape = Уберите лишнее экранирование, например { $example } (шаблон чище)
+tip-anchors = Добавьте якоря ^ и/или $ к неограниченным шаблонам (может ускорить работу)
+
+## Dangerous pattern warnings
+danger-title = Внимание: этот шаблон может вызвать проблемы с производительностью
+danger-pattern = Шаблон: { $pattern }
+danger-riskScore = Оценка Риска: { $score }/100
+danger-issuesFound = Найденные проблемы:
+danger-footer = Бот всё равно выполнит этот шаблон, но на некоторых входных данных он может работать медленно.
+danger-exponential = В { $subexpression } повторяющиеся части могут совпасть с одним и тем же текстом множеством способов, поэтому неудачный поиск занимает экспоненциальное время
+danger-exponential-suggestion = Сделайте так, чтобы повторяющиеся части не могли совпасть с одним и тем же текстом, например (a+)+ → a+
+danger-polynomial = В { $subexpression } повторения пересекаются, поэтому неудачный поиск занимает полиномиальное время степени { $degree }
+danger-polynomial-suggestion = Сделайте так, чтобы соседние повторения совпадали с разными символами, или добавьте якоря
+danger-unknown = Шаблон слишком сложен для проверки, поэтому неудачное сопоставление может занять экспоненциальное время
+danger-unknown-suggestion = Сократите шаблон или разбейте его на несколько команд
+danger-attack = Такие входные данные работают тем медленнее, чем они длиннее: { $example }
+danger-blocked = Заблокировано: этот шаблон может работать экспоненциально долго, а этот чат такие шаблоны не выполняет.
+danger-footerSandbox = Бот выполняет этот шаблон с ограничением времени { $seconds } с.
+danger-sandboxTimeout = Остановлено через { $seconds } с: этот чат выполняет опасные шаблоны с коротким ограничением времени.
 
 ## Regex Help
 regexHelp-title = Помощь по Regex
 regexHelp-selectCategory = Выберите категорию, чтобы изучить синтаксис regex:
 regexHelp-back = Назад
 regexHelp-backToCategories = Назад к Категориям
+regexHelp-availableItems = Доступные элементы:
+regexHelp-example = Пример:
+regexHelp-categoryNotFound = Категория не найдена
+regexHelp-itemNotFound = Элемент не найден
+regexHelp-tokens = Токены
+regexHelp-tokens-description = Специальные классы символов, которые совпадают с определёнными видами символов
+regexHelp-tokens-digit = Совпадает с любой цифрой (0-9)
+regexHelp-tokens-digit-example = \d совпадает с '5' в 'abc5def'
+regexHelp-tokens-nonDigit = Совпадает с любым символом, кроме цифр
+regexHelp-tokens-nonDigit-example = \D совпадает с 'a' в '123a456'
+regexHelp-tokens-word = Совпадает с любым символом слова [a-zA-Z0-9_]
+regexHelp-tokens-word-example = \w совпадает с 'h' в 'hello'
+regexHelp-tokens-nonWord = Совпадает с любым символом, кроме символов слова
+regexHelp-tokens-nonWord-example = \W совпадает с ' ' в 'hello world'
+regexHelp-tokens-space = Совпадает с любым пробельным символом (пробел, табуляция, перевод строки)
+regexHelp-tokens-space-example = \s совпадает с пробелом в 'a b'
+regexHelp-tokens-nonSpace = Совпадает с любым непробельным символом
+regexHelp-tokens-nonSpace-example = \S совпадает с 'a' в ' a '
+regexHelp-tokens-dot = Совпадает с любым символом, кроме перевода строки
+regexHelp-tokens-dot-example = . совпадает с любым символом в 'abc'
+regexHelp-quantifiers = Квантификаторы
+regexHelp-quantifiers-description = Задают, сколько раз должен совпасть шаблон
+regexHelp-quantifiers-star = Ноль или более раз
+regexHelp-quantifiers-star-example = a* совпадает с '', 'a' или 'aaa'
+regexHelp-quantifiers-plus = Один или более раз
+regexHelp-quantifiers-plus-example = a+ совпадает с 'a' или 'aaa', но не с ''
+regexHelp-quantifiers-question = Ноль или один раз (необязательно)
+regexHelp-quantifiers-question-example = a? совпадает с '' или 'a'
+regexHelp-quantifiers-exact = Ровно n раз
+regexHelp-quantifiers-exact-example = a{"{"}3{"}"} совпадает только с 'aaa'
+regexHelp-quantifiers-min = Не менее n раз
+regexHelp-quantifiers-min-example = a{"{"}2,{"}"} совпадает с 'aa', 'aaa' и т. д.
+regexHelp-quantifiers-range = От n до m раз
+regexHelp-quantifiers-range-example = a{"{"}2,4{"}"} совпадает с 'aa', 'aaa' или 'aaaa'
+regexHelp-anchors = Якоря
+regexHelp-anchors-description = Совпадают с позициями, а не с символами
+regexHelp-anchors-start = Начало текста
+regexHelp-anchors-start-example = ^hello совпадает с 'hello world', но не с 'say hello'
+regexHelp-anchors-end = Конец текста
+regexHelp-anchors-end-example = world$ совпадает с 'hello world', но не с 'world peace'
+regexHelp-anchors-word = Граница слова
+regexHelp-anchors-word-example = \bcat\b совпадает с 'cat', но не с 'category'
+regexHelp-anchors-nonWord = Не граница слова
+regexHelp-anchors-nonWord-example = \Bcat совпадает с 'category', но не с 'cat'
+regexHelp-groups = Группы
+regexHelp-groups-description = Объединяют части шаблона
+regexHelp-groups-capture = Захватывающая группа - запоминает совпадение для обратных ссылок
+regexHelp-groups-capture-example = (abc) захватывает 'abc' для использования через $1
+regexHelp-groups-nonCapture = Незахватывающая группа - группирует без запоминания
+regexHelp-groups-nonCapture-example = (?:abc) группирует, но не захватывает
+regexHelp-groups-lookahead = Позитивная опережающая проверка - совпадает, если дальше идёт
+regexHelp-groups-lookahead-example = a(?=b) совпадает с 'a', только если дальше идёт 'b'
+regexHelp-groups-negLookahead = Негативная опережающая проверка - совпадает, если дальше НЕ идёт
+regexHelp-groups-negLookahead-example = a(?!b) совпадает с 'a', только если дальше НЕ идёт 'b'
+regexHelp-classes = Классы символов
+regexHelp-classes-description = Совпадают с определёнными наборами символов
+regexHelp-classes-set = Набор символов - совпадает с любым символом внутри
+regexHelp-classes-set-example = [abc] совпадает с 'a', 'b' или 'c'
+regexHelp-classes-negSet = Инвертированный набор - совпадает с любым символом, которого НЕТ внутри
+regexHelp-classes-negSet-example = [^abc] совпадает с любым символом, кроме 'a', 'b', 'c'
+regexHelp-classes-range = Диапазон - совпадает с любым символом из диапазона
+regexHelp-classes-range-example = [a-z] совпадает с любой строчной буквой
+regexHelp-escapes = Экранирование
+regexHelp-escapes-description = Совпадают со специальными символами буквально
+regexHelp-escapes-dot = Буквальная точка
+regexHelp-escapes-dot-example = \. совпадает с '.', а не с 'любым символом'
+regexHelp-escapes-star = Буквальная звёздочка
+regexHelp-escapes-star-example = \* совпадает с '*', а не означает 'ноль или более'
+regexHelp-escapes-plus = Буквальный плюс
+regexHelp-escapes-plus-example = \+ совпадает с '+', а не означает 'один или более'
+regexHelp-escapes-backslash = Буквальная обратная косая черта
+regexHelp-escapes-backslash-example = \\ совпадает с одной обратной косой чертой
+regexHelp-escapes-tab = Символ табуляции
+regexHelp-escapes-tab-example = \t совпадает с табуляцией
+regexHelp-escapes-newline = Символ перевода строки
+regexHelp-escapes-newline-example = \n совпадает с переводом строки
+regexHelp-flags = Флаги
+regexHelp-flags-description = Меняют поведение регулярного выражения
+regexHelp-flags-global = Глобальный - находит все совпадения, а не только первое
+regexHelp-flags-global-example = /a/g совпадает со всеми 'a' в 'banana'
+regexHelp-flags-ignoreCase = Без учёта регистра - сравнение без учёта регистра
+regexHelp-flags-ignoreCase-example = /hello/i совпадает с 'HELLO', 'Hello' и т. д.
+regexHelp-flags-multiline = Многострочный - ^ и $ совпадают на границах строк
+regexHelp-flags-multiline-example = /^foo/m совпадает с 'foo' в начале любой строки
+regexHelp-flags-dotAll = Dot all - точка совпадает и с переводом строки
+regexHelp-flags-dotAll-example = /.+/s совпадает со всем многострочным текстом
+regexHelp-flags-performance = Производительность - показывает время выполнения (собственный флаг)
+regexHelp-flags-performance-example = /pattern/p показывает время выполнения
+regexHelp-flags-diff = Diff - показывает удалённый текст зачёркнутым, а вставленный подчёркнутым (собственный флаг)
+regexHelp-flags-diff-example = s/cat/dog/d показывает зачёркнутое cat, а за ним dog
+regexHelp-flags-occurrence = Вхождение - заменяет только n-е совпадение, а с g - начиная с n-го (собственный флаг)
+regexHelp-flags-occurrence-example = s/a/o/2 превращает 'banana' в 'banona', s/a/o/2g - в 'banono'
 
 ## Health & Metrics
 health-title = Состояние Бота
+health-status = Состояние Бота: { $status }
 health-healthy = ЗДОРОВ
 health-degraded = ДЕГРАДИРОВАН
 health-unhealthy = НЕЗДОРОВ
+health-unknown = НЕИЗВЕСТНО
 health-workers = Воркеры: { $active } активных, { $idle } неактивных
 health-queue = Очередь: { $pending } ожидающих задач
 health-errorRate = Уровень Ошибок: { $rate }%
+health-workersUnavailable = Пул воркеров: Недоступен
+health-circuitBreakers = Предохранители (circuit breakers):
+health-circuitClosed = ЗАКРЫТ
+health-circuitOpen = ОТКРЫТ
+health-circuitHalfOpen = ПОЛУОТКРЫТ
+health-circuitRetry = повтор через { $seconds } с
 health-uptime = Время Работы: { $uptime }
 
 metrics-title = Метрики Производительности
-metrics-cacheHitRate = Уровень Попаданий в Кэш: { $rate }%
+metrics-cacheEntries = Кэш: { $count } записей
+metrics-cacheDisabled = Кэш: Отключён
+metrics-cacheHitRate = Уровень Попаданий в Кэш: { $rate }% ({ $hits }/{ $lookups } обращений)
+metrics-cacheChurn = Вытеснения из Кэша: { $evictions }, Истечения: { $expirations }
 metrics-avgProcessingTime = Среднее Время Обработки: { $time }ms
 metrics-totalSubstitutions = Всего Замен: { $count }
-metrics-regexCompilations = Компиляции Regex: { $total } (в кэше: { $cached })
+metrics-regexCompilations = Компиляции Regex: { $total }
 
 ## General
 general-yes = Да
@@ -1,21 +1,31 @@
 # Swedish translations
 
 ## Errors
-error-rateLimit = Hastighetsgräns överskriden. Vänta { $seconds } sekunder.
+error-rateLimit = { $seconds ->
+    [one] Hastighetsgräns överskriden. Vänta { $seconds } sekund.
+   *[other] Hastighetsgräns överskriden. Vänta { $seconds } sekunder.
+}
 error-invalidRegex = Ogiltigt regex-mönster. Kontrollera din syntax och försök igen.
 error-telegramAPI = Något gick fel. Försök igen.
+error-telegramRateLimit = Hastighetsgränsen nådd. Vänta en stund innan du försöker igen.
+error-telegramUnavailable = Telegram har problem. Försök igen om en stund.
 error-workerTimeout = Bearbetningsfel. Försök igen med ett enklare mönster.
 error-circuitOpen = Tjänsten tillfälligt otillgänglig. Försök igen senare.
 error-noTarget = Ingen matchande mål hittades i senaste meddelanden.
 error-targetIsCommand = Kan inte ersätta på ett annat sed-kommando.
 error-messageTooLong = Resultatet är för långt ({ $length }/{ $max } tecken).
 error-chainTooLong = För många kommandon i kedjan (max { $max }).
+error-substitution = Fel vid ersättning: { $error }
+error-unexpected = Ett oväntat fel inträffade. Försök igen.
+error-replyOnly = I den här chatten, svara på meddelandet du vill ändra.
+error-flagsNotAllowed = Dessa flaggor är avstängda i den här chatten: { $flags }
 
 ## Commands
 command-start = Hej! Jag är en regex-bot. Använd s/find/replace/flags för att ersätta text i meddelanden. Ersättningstexten kan sträcka sig över flera rader eller använda escape-sekvenser som `\n`. Du kan också kedja flera kommandon, ett per rad.
 
     Specialflaggor:
     - `p`: Visa exekveringstid
+    - `d`: Visa ändringar (borttagen text överstruken)
     Använd `\N` för fångade grupper.
 
 command-privacy = Denna bot samlar inte in eller bearbetar några användardata, förutom en kort meddelandehistorik för att utföra regex-ersättningar. Dessa lagras i en SQL-databas i minnet i 48 timmar och kan inte nås av botens administratör på något sätt.
@@ -33,40 +43,382 @@ command-language-list = Tillgängliga språk:
     Använd /language set <kod> för att byta.
 command-language-setSuccess = Språk ändrat till { $language }
 command-language-setError = Ogiltig språkkod. Använd /language list för att se tillgängliga alternativ.
+command-language-chatOverride = Den här chatten använder { $language } för alla, enligt administratörernas inställning.
+
+command-start-description = Få ett välkomstmeddelande
+command-privacy-description = Visa integritetsinformation
+command-regexhelp-description = Få hjälp med regex-syntax
+command-explain-description = Förklara ett regex-mönster
+command-language-description = Ändra botens språk
+command-health-description = Visa botens hälsostatus
+command-metrics-description = Visa prestandamått
+command-chatsettings-description = Ändra inställningarna för den här chatten
+command-test-description = Testa ett regex mot en text
+command-undo-description = Ångra den senaste ändringen av en rättelse
+command-redo-description = Gör om en ångrad ändring av en rättelse
+
+## Chat settings
+chatSettings-title = Inställningar för den här chatten:
+chatSettings-language = Språk: { $language }
+chatSettings-languageUnset = inte angivet (alla får sitt eget språk)
+chatSettings-on = på
+chatSettings-off = av
+chatSettings-tips = Optimeringstips: { $state }
+chatSettings-dangerWarnings = Varningar för farliga mönster: { $state }
+chatSettings-dangerPolicy = Farliga mönster: { $policy }
+chatSettings-dangerPolicy-warn = varna
+chatSettings-dangerPolicy-block = blockera
+chatSettings-dangerPolicy-sandbox = sandlåda
+chatSettings-replyOnly = Endast svar-läge: { $state }
+chatSettings-maxChainLength = Max kommandon per meddelande: { $count }
+chatSettings-allowedFlags = Tillåtna flaggor: { $flags }
+chatSettings-noFlags = inga
+chatSettings-menuHint = Tryck på en knapp nedan för att ändra en inställning.
+chatSettings-usage = Användning:
+    /chatsettings - Visa inställningarna för den här chatten
+    /chatsettings language <code> - Svara alla på det här språket
+    /chatsettings language reset - Svara alla på deras eget språk
+
+chatSettings-notAdmin = Endast chattens administratörer kan ändra dess inställningar.
+chatSettings-languageSet = Chattens språk ändrat till { $language }
+chatSettings-languageReset = Chattens språk återställt. Alla får sitt eget språk igen.
 
 ## Substitution results
 substitution-result = Resultat: { $result }
 substitution-noMatch = Ingen matchning hittades.
 substitution-multipleResults = Tillämpade { $count } ersättningar
-substitution-performance = Utförde { $count } ersättningar på { $time }
+substitution-performance = { $count ->
+    [one] Utförde { $count } ersättning på { $time }
+   *[other] Utförde { $count } ersättningar på { $time }
+}
+
+## Corrections
+correction-notReply = Svara på en av mina rättelser för att ångra eller göra om den.
+correction-nothingToUndo = Det finns inget att ångra.
+correction-nothingToRedo = Det finns inget att göra om.
+
+## Inline mode
+inline-usage = Skriv s/sök/ersätt/ | text
+inline-resultTitle = Ersatt text
+inline-errorTitle = Ersättningen misslyckades
+inline-dangerTitle = Farligt mönster
+inline-emptyResult = (tomt resultat)
+
+## Regex testing
+regexTest-usage = Användning: /test mönster/flaggor [text]
+    Svara på ett meddelande för att testa det, eller skriv texten efter mönstret.
+regexTest-matchCount = { $count ->
+    [one] { $count } träff
+   *[other] { $count } träffar
+}
+regexTest-noMatches = Inga träffar.
+regexTest-match = Träff { $number } vid { $index }:
+regexTest-unmatched = ingen träff
+regexTest-moreMatches = { $count ->
+    [one] …och { $count } träff till
+   *[other] …och { $count } träffar till
+}
+
+## Explain
+explain-usage = Ange ett mönster att förklara.
+
+    Användning:
+    /explain mönster
+    /explain /mönster/flaggor
+    /explain s/mönster/ersättning/flaggor
+
+    Exempel: /explain s/(\w+)@(\w+)/$2: $1/gi
+explain-invalid = Ogiltigt regex-mönster: { $error }
+
+    Kontrollera syntaxen och försök igen.
+explain-pattern = Mönster:
+explain-breakdown = Uppdelning:
+explain-flags = Flaggor:
+explain-replacement = Ersättning:
+explain-truncated = (Förklaringen förkortad)
+explain-quoted = ”{ $text }”
+explain-literal = Tecknet { $char }
+explain-literal-codePoint = Tecknet { $char } ({ $codePoint })
+explain-literal-escaped = Tecknet { $char } (escapat)
+explain-literalText = Texten { $text }
+explain-anyCase = { $description }, oavsett skiftläge
+explain-char-null = Nolltecken
+explain-char-backspace = Backsteg
+explain-char-tab = Tabb
+explain-char-newline = Radbrytning
+explain-char-verticalTab = Vertikal tabb
+explain-char-formFeed = Sidmatning
+explain-char-carriageReturn = Vagnretur
+explain-char-space = Mellanslag
+explain-char-control = Styrtecken { $codePoint }
+explain-empty = Ingenting (matchar alltid)
+explain-alternatives = Ett av { $count } alternativ
+explain-sequence = Allt detta, i ordning
+explain-group-named = Namngiven grupp { $name } (grupp { $index })
+explain-group-capture = Fångande grupp { $index }
+explain-group-nonCapturing = Icke-fångande grupp
+explain-group-flagsOn = Icke-fångande grupp med flaggorna { $on } på
+explain-group-flagsOff = Icke-fångande grupp med flaggorna { $off } av
+explain-group-flagsOnOff = Icke-fångande grupp med flaggorna { $on } på, { $off } av
+explain-lookahead = Positiv lookahead: följs av
+explain-lookahead-negated = Negativ lookahead: följs inte av
+explain-lookbehind = Positiv lookbehind: föregås av
+explain-lookbehind-negated = Negativ lookbehind: föregås inte av
+explain-quantifier-zeroOrMore = Noll eller fler gånger
+explain-quantifier-oneOrMore = En eller fler gånger
+explain-quantifier-optional = Valfritt (noll eller en gång)
+explain-quantifier-exactly = { $count ->
+    [one] Exakt { $count } gång
+   *[other] Exakt { $count } gånger
+}
+explain-quantifier-atLeast = Minst { $min } gånger
+explain-quantifier-between = Mellan { $min } och { $max } gånger
+explain-quantifier-greedy = { $quantifier }, så många som möjligt
+explain-quantifier-lazy = { $quantifier }, så få som möjligt (lat)
+explain-class-digit = Vilken siffra som helst (0-9)
+explain-class-nonDigit = Vilket tecken som helst utom siffror
+explain-class-word = Vilket ordtecken som helst [a-zA-Z0-9_]
+explain-class-nonWord = Vilket tecken som helst utom ordtecken
+explain-class-space = Vilket blanktecken som helst
+explain-class-nonSpace = Vilket tecken som helst utom blanktecken
+explain-class-set = Ett tecken av
+explain-class-set-negated = Vilket tecken som helst utom
+explain-class-intersection = Ett tecken som finns i alla dessa mängder
+explain-class-intersection-negated = Vilket tecken som helst som inte finns i alla dessa mängder
+explain-class-subtraction = Ett tecken i den första mängden men inte i de andra
+explain-class-subtraction-negated = Vilket tecken som helst utom de i den första mängden som inte finns i de andra
+explain-class-range = Vilket tecken som helst från { $from } till { $to }
+explain-class-strings = En av strängarna { $strings }
+explain-category-letter = Vilken bokstav som helst
+explain-category-letter-negated = Vilket tecken som helst som inte är en bokstav
+explain-category-uppercase = Vilken versal som helst
+explain-category-uppercase-negated = Vilket tecken som helst som inte är en versal
+explain-category-lowercase = Vilken gemen som helst
+explain-category-lowercase-negated = Vilket tecken som helst som inte är en gemen
+explain-category-titlecase = Vilken titelbokstav som helst
+explain-category-titlecase-negated = Vilket tecken som helst som inte är en titelbokstav
+explain-category-mark = Vilket kombinerande tecken som helst
+explain-category-mark-negated = Vilket tecken som helst som inte är ett kombinerande tecken
+explain-category-number = Vilket tal som helst
+explain-category-number-negated = Vilket tecken som helst som inte är ett tal
+explain-category-digit = Vilken decimalsiffra som helst
+explain-category-digit-negated = Vilket tecken som helst som inte är en decimalsiffra
+explain-category-punctuation = Vilket skiljetecken som helst
+explain-category-punctuation-negated = Vilket tecken som helst som inte är ett skiljetecken
+explain-category-symbol = Vilken symbol som helst
+explain-category-symbol-negated = Vilket tecken som helst som inte är en symbol
+explain-category-currency = Vilken valutasymbol som helst
+explain-category-currency-negated = Vilket tecken som helst som inte är en valutasymbol
+explain-category-separator = Vilken avgränsare som helst
+explain-category-separator-negated = Vilket tecken som helst som inte är en avgränsare
+explain-category-spaceSeparator = Vilket mellanrum som helst
+explain-category-spaceSeparator-negated = Vilket tecken som helst som inte är ett mellanrum
+explain-category-other = Vilket styrtecken eller otilldelat tecken som helst
+explain-category-other-negated = Vilket tecken som helst som inte är ett styrtecken eller otilldelat
+explain-category-control = Vilket styrtecken som helst
+explain-category-control-negated = Vilket tecken som helst som inte är ett styrtecken
+explain-property-script = Vilket tecken som helst i skriftsystemet { $script }
+explain-property-script-negated = Vilket tecken som helst som inte hör till skriftsystemet { $script }
+explain-property-value = Vilket tecken som helst med { $name } = { $value }
+explain-property-value-negated = Vilket tecken som helst utan { $name } = { $value }
+explain-property = Vilket tecken som helst med Unicode-egenskapen { $name }
+explain-property-negated = Vilket tecken som helst utan Unicode-egenskapen { $name }
+explain-dot = Vilket tecken som helst utom radbrytningar
+explain-dot-all = Vilket tecken som helst
+explain-stringStart = Början av texten
+explain-stringEnd = Slutet av texten
+explain-lineStart = Början av en rad
+explain-lineEnd = Slutet av en rad
+explain-wordBoundary = Ordgräns
+explain-nonWordBoundary = Inte en ordgräns
+explain-backreference = Samma text som grupp { $group } matchade
+explain-flag-indices = Index: sparar var varje grupp matchade
+explain-flag-global = Global: hittar alla matchningar, inte bara den första
+explain-flag-ignoreCase = Ignorera skiftläge
+explain-flag-multiline = Flerrad: ^ och $ matchar vid varje rad
+explain-flag-dotAll = Dot all: . matchar även radbrytningar
+explain-flag-unicode = Unicode: matchar per kodpunkt och tillåter \p-escapes
+explain-flag-unicodeSets = Unicode-mängder: som u, plus mängdoperationer i klasser
+explain-flag-sticky = Sticky: varje matchning måste börja där den förra slutade
+explain-flag-replaceAll = Global: ersätter alla matchningar, inte bara den första
+explain-flag-performance = Visar hur lång tid ersättningen tog
+explain-flag-diff = Visar vad som ändrades: borttagen text är överstruken
+explain-flag-occurrence = Ersätter bara matchning { $occurrence }
+explain-flag-occurrenceOnward = Ersätter matchning { $occurrence } och alla efter den
+explain-flag-unknown = Ingen flagga, ignoreras
+explain-flag-firstOnly = Utan g ersätts bara den första matchningen
+explain-address = Adress:
+explain-address-line = Bara rad { $line }
+explain-address-last = Bara sista raden
+explain-address-regex = Bara rader som matchar { $pattern }
+explain-address-range = Från { $start } till { $end }
+explain-address-part-line = rad { $line }
+explain-address-part-last = sista raden
+explain-address-part-regex = en rad som matchar { $pattern }
+explain-transliteration = Translitterering:
+explain-transliteration-characters = Tecken:
+explain-transliteration-char = { $from } blir { $to }
+explain-replacement-empty = Ingenting: matchningarna tas bort
+explain-replacement-group = Texten i grupp { $group }
+explain-replacement-groupThen = Texten i grupp { $group }, sedan { $rest }
+explain-replacement-noGroup = Tecknet { $text } (det finns ingen grupp { $group })
+explain-replacement-missingName = Ingenting (det finns ingen grupp { $name })
+explain-replacement-noNamedGroups = Tecknet { $text } (mönstret har inga namngivna grupper)
+explain-replacement-match = Hela matchningen
+explain-replacement-before = Texten före matchningen
+explain-replacement-after = Texten efter matchningen
 
 ## Tips
 tip-optimization = Tips: { $suggestion }
 tip-useShorthand = Använd { $shorthand } istället för { $longform } (kortare)
 tip-nonCapturing = Använd (?:...) för grupper du inte refererar till
 tip-greedy = Överväg att använda .*? istället för .* (icke-girig)
+tip-whitespace = Använd { $shorthand } istället för { $longform } (matchar alla blanksteg)
+tip-dotAll = Använd . med s-flaggan istället för { $longform } (mer idiomatiskt)
+tip-unnecessaryEscape = Ta bort onödiga escape-tecken som { $example } (renare mönster)
+tip-anchors = Lägg till ankarna ^ och/eller $ i obegränsade mönster (kan förbättra prestandan)
+
+## Dangerous pattern warnings
+danger-title = Varning: Det här mönstret kan orsaka prestandaproblem
+danger-pattern = Mönster: { $pattern }
+danger-riskScore = Riskpoäng: { $score }/100
+danger-issuesFound = Hittade problem:
+danger-footer = Boten kör ändå mönstret, men det kan vara långsamt för vissa indata.
+danger-exponential = I { $subexpression } kan de upprepade delarna matcha samma text på många sätt, så en misslyckad matchning tar exponentiell tid
+danger-exponential-suggestion = Se till att de upprepade delarna inte kan matcha samma text, t.ex. (a+)+ → a+
+danger-polynomial = { $subexpression } har överlappande upprepningar, så en misslyckad matchning tar polynomisk tid av grad { $degree }
+danger-polynomial-suggestion = Låt intilliggande upprepningar matcha olika tecken, eller förankra mönstret
+danger-unknown = Mönstret är för komplext för att kontrolleras, så en misslyckad matchning kan ta exponentiell tid
+danger-unknown-suggestion = Korta ner mönstret eller dela upp det i flera kommandon
+danger-attack = Indata som detta blir långsammare ju längre de är: { $example }
+danger-blocked = Blockerat: det här mönstret kan ta exponentiell tid, och den här chatten kör inte sådana mönster.
+danger-footerSandbox = Boten kör mönstret med en tidsgräns på { $seconds } s.
+danger-sandboxTimeout = Stoppades efter { $seconds } s: den här chatten kör farliga mönster med en kort tidsgräns.
 
 ## Regex Help
 regexHelp-title = Regex-hjälp
 regexHelp-selectCategory = Välj en kategori för att lära dig regex-syntax:
 regexHelp-back = Tillbaka
 regexHelp-backToCategories = Tillbaka till Kategorier
+regexHelp-availableItems = Tillgängliga poster:
+regexHelp-example = Exempel:
+regexHelp-categoryNotFound = Kategorin hittades inte
+regexHelp-itemNotFound = Posten hittades inte
+regexHelp-tokens = Tokens
+regexHelp-tokens-description = Särskilda teckenklasser som matchar vissa sorters tecken
+regexHelp-tokens-digit = Matchar vilken siffra som helst (0-9)
+regexHelp-tokens-digit-example = \d matchar '5' i 'abc5def'
+regexHelp-tokens-nonDigit = Matchar vilket tecken som helst utom siffror
+regexHelp-tokens-nonDigit-example = \D matchar 'a' i '123a456'
+regexHelp-tokens-word = Matchar vilket ordtecken som helst [a-zA-Z0-9_]
+regexHelp-tokens-word-example = \w matchar 'h' i 'hello'
+regexHelp-tokens-nonWord = Matchar vilket tecken som helst utom ordtecken
+regexHelp-tokens-nonWord-example = \W matchar ' ' i 'hello world'
+regexHelp-tokens-space = Matchar vilket blanktecken som helst (mellanslag, tabb, radbrytning)
+regexHelp-tokens-space-example = \s matchar mellanslaget i 'a b'
+regexHelp-tokens-nonSpace = Matchar vilket tecken som helst utom blanktecken
+regexHelp-tokens-nonSpace-example = \S matchar 'a' i ' a '
+regexHelp-tokens-dot = Matchar vilket tecken som helst utom radbrytning
+regexHelp-tokens-dot-example = . matchar vilket tecken som helst i 'abc'
+regexHelp-quantifiers = Kvantifierare
+regexHelp-quantifiers-description = Anger hur många gånger ett mönster ska matcha
+regexHelp-quantifiers-star = Noll eller fler gånger
+regexHelp-quantifiers-star-example = a* matchar '', 'a' eller 'aaa'
+regexHelp-quantifiers-plus = En eller fler gånger
+regexHelp-quantifiers-plus-example = a+ matchar 'a' eller 'aaa' men inte ''
+regexHelp-quantifiers-question = Noll eller en gång (valfritt)
+regexHelp-quantifiers-question-example = a? matchar '' eller 'a'
+regexHelp-quantifiers-exact = Exakt n gånger
+regexHelp-quantifiers-exact-example = a{"{"}3{"}"} matchar exakt 'aaa'
+regexHelp-quantifiers-min = Minst n gånger
+regexHelp-quantifiers-min-example = a{"{"}2,{"}"} matchar 'aa', 'aaa' osv.
+regexHelp-quantifiers-range = Mellan n och m gånger
+regexHelp-quantifiers-range-example = a{"{"}2,4{"}"} matchar 'aa', 'aaa' eller 'aaaa'
+regexHelp-anchors = Ankare
+regexHelp-anchors-description = Matchar positioner i stället för tecken
+regexHelp-anchors-start = Början av texten
+regexHelp-anchors-start-example = ^hello matchar 'hello world' men inte 'say hello'
+regexHelp-anchors-end = Slutet av texten
+regexHelp-anchors-end-example = world$ matchar 'hello world' men inte 'world peace'
+regexHelp-anchors-word = Ordgräns
+regexHelp-anchors-word-example = \bcat\b matchar 'cat' men inte 'category'
+regexHelp-anchors-nonWord = Inte en ordgräns
+regexHelp-anchors-nonWord-example = \Bcat matchar 'category' men inte 'cat'
+regexHelp-groups = Grupper
+regexHelp-groups-description = Grupperar delar av mönster
+regexHelp-groups-capture = Fångande grupp - kommer ihåg matchningen för bakåtreferenser
+regexHelp-groups-capture-example = (abc) fångar 'abc' för användning med $1
+regexHelp-groups-nonCapture = Icke-fångande grupp - grupperar utan att komma ihåg
+regexHelp-groups-nonCapture-example = (?:abc) grupperar men fångar inte
+regexHelp-groups-lookahead = Positiv lookahead - matchar om följt av
+regexHelp-groups-lookahead-example = a(?=b) matchar 'a' bara om det följs av 'b'
+regexHelp-groups-negLookahead = Negativ lookahead - matchar om INTE följt av
+regexHelp-groups-negLookahead-example = a(?!b) matchar 'a' bara om det INTE följs av 'b'
+regexHelp-classes = Teckenklasser
+regexHelp-classes-description = Matchar bestämda mängder av tecken
+regexHelp-classes-set = Teckenmängd - matchar vilket tecken som helst i den
+regexHelp-classes-set-example = [abc] matchar 'a', 'b' eller 'c'
+regexHelp-classes-negSet = Negerad mängd - matchar vilket tecken som helst som INTE finns i den
+regexHelp-classes-negSet-example = [^abc] matchar vilket tecken som helst utom 'a', 'b', 'c'
+regexHelp-classes-range = Intervall - matchar vilket tecken som helst i intervallet
+regexHelp-classes-range-example = [a-z] matchar vilken gemen som helst
+regexHelp-escapes = Escapes
+regexHelp-escapes-description = Matchar specialtecken bokstavligt
+regexHelp-escapes-dot = Bokstavlig punkt
+regexHelp-escapes-dot-example = \. matchar '.' och inte 'vilket tecken som helst'
+regexHelp-escapes-star = Bokstavlig asterisk
+regexHelp-escapes-star-example = \* matchar '*' och inte 'noll eller fler'
+regexHelp-escapes-plus = Bokstavligt plus
+regexHelp-escapes-plus-example = \+ matchar '+' och inte 'en eller fler'
+regexHelp-escapes-backslash = Bokstavligt omvänt snedstreck
+regexHelp-escapes-backslash-example = \\ matchar ett enda omvänt snedstreck
+regexHelp-escapes-tab = Tabbtecken
+regexHelp-escapes-tab-example = \t matchar en tabb
+regexHelp-escapes-newline = Radbrytning
+regexHelp-escapes-newline-example = \n matchar en radbrytning
+regexHelp-flags = Flaggor
+regexHelp-flags-description = Ändrar hur regexen beter sig
+regexHelp-flags-global = Global - hittar alla matchningar, inte bara den första
+regexHelp-flags-global-example = /a/g matchar alla 'a' i 'banana'
+regexHelp-flags-ignoreCase = Ignorera skiftläge - matchning oavsett skiftläge
+regexHelp-flags-ignoreCase-example = /hello/i matchar 'HELLO', 'Hello' osv.
+regexHelp-flags-multiline = Flerrad - ^ och $ matchar vid radgränser
+regexHelp-flags-multiline-example = /^foo/m matchar 'foo' i början av varje rad
+regexHelp-flags-dotAll = Dot all - punkten matchar även radbrytningar
+regexHelp-flags-dotAll-example = /.+/s matchar hela texten över flera rader
+regexHelp-flags-performance = Prestanda - visar tidsåtgång (egen flagga)
+regexHelp-flags-performance-example = /pattern/p visar körtiden
+regexHelp-flags-diff = Diff - visar borttagen text överstruken och infogad text understruken (egen flagga)
+regexHelp-flags-diff-example = s/cat/dog/d visar cat överstruket, följt av dog
+regexHelp-flags-occurrence = Förekomst - ersätter bara den n:te matchningen, eller från den n:te och framåt med g (egen flagga)
+regexHelp-flags-occurrence-example = s/a/o/2 gör 'banana' till 'banona', s/a/o/2g till 'banono'
 
 ## Health & Metrics
 health-title = Bot Hälsostatus
+health-status = Bot Hälsostatus: { $status }
 health-healthy = FRISK
 health-degraded = FÖRSÄMRAD
 health-unhealthy = OFRISK
+health-unknown = OKÄND
 health-workers = Workers: { $active } aktiva, { $idle } inaktiva
 health-queue = Kö: { $pending } väntande uppgifter
 health-errorRate = Felfrekvens: { $rate }%
+health-workersUnavailable = Worker-pool: Inte tillgänglig
+health-circuitBreakers = Kretsbrytare:
+health-circuitClosed = STÄNGD
+health-circuitOpen = ÖPPEN
+health-circuitHalfOpen = HALVÖPPEN
+health-circuitRetry = nytt försök om { $seconds }s
 health-uptime = Drifttid: { $uptime }
 
 metrics-title = Prestandamått
-metrics-cacheHitRate = Cache-träffsats: { $rate }%
+metrics-cacheEntries = Cache: { $count } poster
+metrics-cacheDisabled = Cache: Inaktiverad
+metrics-cacheHitRate = Cache-träffsats: { $rate }% ({ $hits }/{ $lookups } uppslag)
+metrics-cacheChurn = Cache-utkastningar: { $evictions }, Utgångna: { $expirations }
 metrics-avgProcessingTime = Genomsnittlig Bearbetningstid: { $time }ms
 metrics-totalSubstitutions = Totala Ersättningar: { $count }
-metrics-regexCompilations = Regex-kompileringar: { $total } (i cache: { $cached })
+metrics-regexCompilations = Regex-kompileringar: { $total }
 
 ## General
 general-yes = Ja
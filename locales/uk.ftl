@@ -1,21 +1,33 @@
 # Ukrainian translations
 
 ## Errors
-error-rateLimit = Перевищено ліміт швидкості. Будь ласка, зачекайте { $seconds } секунд.
+error-rateLimit = { $seconds ->
+    [one] Перевищено ліміт швидкості. Будь ласка, зачекайте { $seconds } секунду.
+    [few] Перевищено ліміт швидкості. Будь ласка, зачекайте { $seconds } секунди.
+    [many] Перевищено ліміт швидкості. Будь ласка, зачекайте { $seconds } секунд.
+   *[other] Перевищено ліміт швидкості. Будь ласка, зачекайте { $seconds } секунди.
+}
 error-invalidRegex = Неприпустимий шаблон regex. Перевірте синтаксис і спробуйте знову.
 error-telegramAPI = Щось пішло не так. Будь ласка, спробуйте знову.
+error-telegramRateLimit = Досягнуто ліміту швидкості. Зачекайте трохи, перш ніж повторити спробу.
+error-telegramUnavailable = У Telegram проблеми. Спробуйте знову за хвилину.
 error-workerTimeout = Помилка обробки. Спробуйте знову з простішим шаблоном.
 error-circuitOpen = Сервіс тимчасово недоступний. Будь ласка, спробуйте пізніше.
 error-noTarget = Відповідна ціль не знайдена в останніх повідомленнях.
 error-targetIsCommand = Неможливо замінити на іншій sed-команді.
 error-messageTooLong = Результат занадто довгий ({ $length }/{ $max } символів).
 error-chainTooLong = Занадто багато команд у ланцюжку (макс { $max }).
+error-substitution = Помилка під час заміни: { $error }
+error-unexpected = Сталася неочікувана помилка. Будь ласка, спробуйте знову.
+error-replyOnly = У цьому чаті відповідайте на повідомлення, яке хочете змінити.
+error-flagsNotAllowed = Ці прапорці вимкнено в цьому чаті: { $flags }
 
 ## Commands
 command-start = Привіт! Я бот regex. Використовуйте s/find/replace/flags для заміни тексту в повідомленнях. Текст заміни може займати кілька рядків або використовувати escape-послідовності як `\n`. Ви також можете об'єднувати кілька команд, по одній на рядок.
 
     Спеціальні прапорці:
     - `p`: Показати час виконання
+    - `d`: Показати зміни (видалений текст закреслено)
     Використовуйте `\N` для захоплених груп.
 
 command-privacy = Цей бот не збирає і не обробляє дані користувачів, окрім короткої історії повідомлень для виконання regex-замін. Вони зберігаються в базі даних SQL у пам'яті протягом 48 годин і не можуть бути доступні адміністратору бота жодним чином.
@@ -33,40 +45,395 @@ command-language-list = Доступні мови:
     Використовуйте /language set <код> для зміни.
 command-language-setSuccess = Мову змінено на { $language }
 command-language-setError = Неприпустимий код мови. Використовуйте /language list для перегляду доступних опцій.
+command-language-chatOverride = У цьому чаті для всіх використовується { $language }, як налаштували адміністратори.
+
+command-start-description = Отримати вітальне повідомлення
+command-privacy-description = Показати інформацію про конфіденційність
+command-regexhelp-description = Довідка з синтаксису regex
+command-explain-description = Пояснити шаблон regex
+command-language-description = Змінити мову бота
+command-health-description = Показати стан бота
+command-metrics-description = Показати метрики продуктивності
+command-chatsettings-description = Змінити налаштування цього чату
+command-test-description = Перевірити регулярний вираз на тексті
+command-undo-description = Скасувати останню зміну виправлення
+command-redo-description = Повернути скасовану зміну виправлення
+
+## Chat settings
+chatSettings-title = Налаштування цього чату:
+chatSettings-language = Мова: { $language }
+chatSettings-languageUnset = не задано (кожен отримує свою мову)
+chatSettings-on = увімк.
+chatSettings-off = вимк.
+chatSettings-tips = Поради з оптимізації: { $state }
+chatSettings-dangerWarnings = Попередження про небезпечні шаблони: { $state }
+chatSettings-dangerPolicy = Небезпечні шаблони: { $policy }
+chatSettings-dangerPolicy-warn = попереджати
+chatSettings-dangerPolicy-block = блокувати
+chatSettings-dangerPolicy-sandbox = пісочниця
+chatSettings-replyOnly = Режим лише відповідей: { $state }
+chatSettings-maxChainLength = Макс. команд у повідомленні: { $count }
+chatSettings-allowedFlags = Дозволені прапорці: { $flags }
+chatSettings-noFlags = немає
+chatSettings-menuHint = Натисніть кнопку нижче, щоб змінити налаштування.
+chatSettings-usage = Використання:
+    /chatsettings - Показати налаштування цього чату
+    /chatsettings language <code> - Відповідати всім цією мовою
+    /chatsettings language reset - Відповідати кожному його мовою
+
+chatSettings-notAdmin = Лише адміністратори чату можуть змінювати його налаштування.
+chatSettings-languageSet = Мову чату змінено на { $language }
+chatSettings-languageReset = Мову чату скинуто. Кожен знову отримує свою мову.
 
 ## Substitution results
 substitution-result = Результат: { $result }
 substitution-noMatch = Відповідність не знайдено.
 substitution-multipleResults = Застосовано { $count } замін
-substitution-performance = Виконано { $count } замін за { $time }
+substitution-performance = { $count ->
+    [one] Виконано { $count } заміну за { $time }
+    [few] Виконано { $count } заміни за { $time }
+    [many] Виконано { $count } замін за { $time }
+   *[other] Виконано { $count } заміни за { $time }
+}
+
+## Corrections
+correction-notReply = Дайте відповідь на одне з моїх виправлень, щоб скасувати або повернути його.
+correction-nothingToUndo = Нічого скасовувати.
+correction-nothingToRedo = Нічого повертати.
+
+## Inline mode
+inline-usage = Введіть s/знайти/замінити/ | текст
+inline-resultTitle = Текст після заміни
+inline-errorTitle = Заміна не вдалася
+inline-dangerTitle = Небезпечний шаблон
+inline-emptyResult = (порожній результат)
+
+## Regex testing
+regexTest-usage = Використання: /test шаблон/прапорці [текст]
+    Відповідайте на повідомлення, щоб перевірити його, або напишіть текст після шаблону.
+regexTest-matchCount = { $count ->
+    [one] { $count } збіг
+    [few] { $count } збіги
+    [many] { $count } збігів
+   *[other] { $count } збігу
+}
+regexTest-noMatches = Збігів немає.
+regexTest-match = Збіг { $number } на позиції { $index }:
+regexTest-unmatched = не збіглася
+regexTest-moreMatches = { $count ->
+    [one] …і ще { $count } збіг
+    [few] …і ще { $count } збіги
+    [many] …і ще { $count } збігів
+   *[other] …і ще { $count } збігу
+}
+
+## Explain
+explain-usage = Вкажіть шаблон для пояснення.
+
+    Використання:
+    /explain шаблон
+    /explain /шаблон/прапорці
+    /explain s/шаблон/заміна/прапорці
+
+    Приклад: /explain s/(\w+)@(\w+)/$2: $1/gi
+explain-invalid = Некоректний шаблон регулярного виразу: { $error }
+
+    Перевірте синтаксис і спробуйте ще раз.
+explain-pattern = Шаблон:
+explain-breakdown = Розбір:
+explain-flags = Прапорці:
+explain-replacement = Заміна:
+explain-truncated = (Пояснення скорочено)
+explain-quoted = «{ $text }»
+explain-literal = Символ { $char }
+explain-literal-codePoint = Символ { $char } ({ $codePoint })
+explain-literal-escaped = Символ { $char } (екранований)
+explain-literalText = Текст { $text }
+explain-anyCase = { $description }, у будь-якому регістрі
+explain-char-null = Нульовий символ
+explain-char-backspace = Повернення на крок
+explain-char-tab = Табуляція
+explain-char-newline = Новий рядок
+explain-char-verticalTab = Вертикальна табуляція
+explain-char-formFeed = Переведення сторінки
+explain-char-carriageReturn = Повернення каретки
+explain-char-space = Пробіл
+explain-char-control = Керівний символ { $codePoint }
+explain-empty = Нічого (збігається завжди)
+explain-alternatives = Одна з { $count } альтернатив
+explain-sequence = Усе це, по черзі
+explain-group-named = Іменована група { $name } (група { $index })
+explain-group-capture = Група захоплення { $index }
+explain-group-nonCapturing = Група без захоплення
+explain-group-flagsOn = Група без захоплення з увімкненими прапорцями { $on }
+explain-group-flagsOff = Група без захоплення з вимкненими прапорцями { $off }
+explain-group-flagsOnOff = Група без захоплення з увімкненими прапорцями { $on } і вимкненими { $off }
+explain-lookahead = Позитивна випереджальна перевірка: далі йде
+explain-lookahead-negated = Негативна випереджальна перевірка: далі не йде
+explain-lookbehind = Позитивна ретроспективна перевірка: перед цим стоїть
+explain-lookbehind-negated = Негативна ретроспективна перевірка: перед цим не стоїть
+explain-quantifier-zeroOrMore = Нуль або більше разів
+explain-quantifier-oneOrMore = Один або більше разів
+explain-quantifier-optional = Необов'язково (нуль або один раз)
+explain-quantifier-exactly = { $count ->
+    [one] Рівно { $count } раз
+    [few] Рівно { $count } рази
+    [many] Рівно { $count } разів
+   *[other] Рівно { $count } рази
+}
+explain-quantifier-atLeast = { $min ->
+    [one] Щонайменше { $min } раз
+    [few] Щонайменше { $min } рази
+    [many] Щонайменше { $min } разів
+   *[other] Щонайменше { $min } рази
+}
+explain-quantifier-between = Від { $min } до { $max } разів
+explain-quantifier-greedy = { $quantifier }, якомога більше
+explain-quantifier-lazy = { $quantifier }, якомога менше (лінивий)
+explain-class-digit = Будь-яка цифра (0-9)
+explain-class-nonDigit = Будь-який символ, крім цифр
+explain-class-word = Будь-який символ слова [a-zA-Z0-9_]
+explain-class-nonWord = Будь-який символ, крім символів слова
+explain-class-space = Будь-який пробільний символ
+explain-class-nonSpace = Будь-який символ, крім пробільних
+explain-class-set = Один символ із
+explain-class-set-negated = Будь-який символ, крім
+explain-class-intersection = Один символ, що входить до всіх цих наборів
+explain-class-intersection-negated = Будь-який символ, що не входить до всіх цих наборів
+explain-class-subtraction = Один символ із першого набору, але не з інших
+explain-class-subtraction-negated = Будь-який символ, крім символів першого набору, яких немає в інших
+explain-class-range = Будь-який символ від { $from } до { $to }
+explain-class-strings = Один із рядків { $strings }
+explain-category-letter = Будь-яка літера
+explain-category-letter-negated = Будь-який символ, крім літер
+explain-category-uppercase = Будь-яка велика літера
+explain-category-uppercase-negated = Будь-який символ, крім великих літер
+explain-category-lowercase = Будь-яка мала літера
+explain-category-lowercase-negated = Будь-який символ, крім малих літер
+explain-category-titlecase = Будь-яка заголовна літера
+explain-category-titlecase-negated = Будь-який символ, крім заголовних літер
+explain-category-mark = Будь-який комбінований знак
+explain-category-mark-negated = Будь-який символ, крім комбінованих знаків
+explain-category-number = Будь-яке число
+explain-category-number-negated = Будь-який символ, крім чисел
+explain-category-digit = Будь-яка десяткова цифра
+explain-category-digit-negated = Будь-який символ, крім десяткових цифр
+explain-category-punctuation = Будь-який розділовий знак
+explain-category-punctuation-negated = Будь-який символ, крім розділових знаків
+explain-category-symbol = Будь-який символ-знак
+explain-category-symbol-negated = Будь-який символ, крім символів-знаків
+explain-category-currency = Будь-який символ валюти
+explain-category-currency-negated = Будь-який символ, крім символів валют
+explain-category-separator = Будь-який роздільник
+explain-category-separator-negated = Будь-який символ, крім роздільників
+explain-category-spaceSeparator = Будь-який пробільний роздільник
+explain-category-spaceSeparator-negated = Будь-який символ, крім пробільних роздільників
+explain-category-other = Будь-який керівний або непризначений символ
+explain-category-other-negated = Будь-який символ, крім керівних і непризначених
+explain-category-control = Будь-який керівний символ
+explain-category-control-negated = Будь-який символ, крім керівних
+explain-property-script = Будь-який символ писемності { $script }
+explain-property-script-negated = Будь-який символ не з писемності { $script }
+explain-property-value = Будь-який символ із { $name } = { $value }
+explain-property-value-negated = Будь-який символ без { $name } = { $value }
+explain-property = Будь-який символ із властивістю Unicode { $name }
+explain-property-negated = Будь-який символ без властивості Unicode { $name }
+explain-dot = Будь-який символ, крім переходів на новий рядок
+explain-dot-all = Будь-який символ
+explain-stringStart = Початок тексту
+explain-stringEnd = Кінець тексту
+explain-lineStart = Початок рядка
+explain-lineEnd = Кінець рядка
+explain-wordBoundary = Межа слова
+explain-nonWordBoundary = Не межа слова
+explain-backreference = Той самий текст, що знайшла група { $group }
+explain-flag-indices = Індекси: запам'ятовує, де збіглася кожна група
+explain-flag-global = Глобальний: знаходить усі збіги, а не лише перший
+explain-flag-ignoreCase = Без урахування регістру
+explain-flag-multiline = Багаторядковий: ^ і $ збігаються в кожному рядку
+explain-flag-dotAll = Dot all: . збігається і з переходом на новий рядок
+explain-flag-unicode = Unicode: порівнює за кодовими точками й дозволяє екранування \p
+explain-flag-unicodeSets = Набори Unicode: як u, плюс операції над наборами в класах
+explain-flag-sticky = Sticky: кожен збіг починається там, де закінчився попередній
+explain-flag-replaceAll = Глобальний: замінює всі збіги, а не лише перший
+explain-flag-performance = Показує, скільки тривала заміна
+explain-flag-diff = Показує зміни: видалений текст закреслено
+explain-flag-occurrence = Замінює лише збіг № { $occurrence }
+explain-flag-occurrenceOnward = Замінює збіг № { $occurrence } і всі наступні
+explain-flag-unknown = Не прапорець, ігнорується
+explain-flag-firstOnly = Без g замінюється лише перший збіг
+explain-address = Адреса:
+explain-address-line = Лише рядок { $line }
+explain-address-last = Лише останній рядок
+explain-address-regex = Лише рядки, що збігаються з { $pattern }
+explain-address-range = Діапазон: { $start } — { $end }
+explain-address-part-line = рядок { $line }
+explain-address-part-last = останній рядок
+explain-address-part-regex = рядок, що збігається з { $pattern }
+explain-transliteration = Транслітерація:
+explain-transliteration-characters = Символи:
+explain-transliteration-char = { $from } замінюється на { $to }
+explain-replacement-empty = Нічого: збіги видаляються
+explain-replacement-group = Текст групи { $group }
+explain-replacement-groupThen = Текст групи { $group }, потім { $rest }
+explain-replacement-noGroup = Символ { $text } (групи { $group } немає)
+explain-replacement-missingName = Нічого (групи { $name } немає)
+explain-replacement-noNamedGroups = Символ { $text } (у шаблоні немає іменованих груп)
+explain-replacement-match = Увесь збіг
+explain-replacement-before = Текст перед збігом
+explain-replacement-after = Текст після збігу
 
 ## Tips
 tip-optimization = Підказка: { $suggestion }
 tip-useShorthand = Використовуйте { $shorthand } замість { $longform } (коротше)
 tip-nonCapturing = Використовуйте (?:...) для груп, на які ви не посилаєтесь
 tip-greedy = Розгляньте використання .*? замість .* (нежадний)
+tip-whitespace = Використовуйте { $shorthand } замість { $longform } (охоплює всі пробільні символи)
+tip-dotAll = Використовуйте . з прапорцем s замість { $longform } (ідіоматичніше)
+tip-unnecessaryEscape = Приберіть зайве екранування, наприклад { $example } (чистіший шаблон)
+tip-anchors = Додайте якорі ^ та/або $ до необмежених шаблонів (може покращити продуктивність)
+
+## Dangerous pattern warnings
+danger-title = Увага: цей шаблон може спричинити проблеми з продуктивністю
+danger-pattern = Шаблон: { $pattern }
+danger-riskScore = Оцінка Ризику: { $score }/100
+danger-issuesFound = Знайдені проблеми:
+danger-footer = Бот усе одно виконає цей шаблон, але на деяких вхідних даних він може працювати повільно.
+danger-exponential = У { $subexpression } повторювані частини можуть збігтися з тим самим текстом багатьма способами, тому невдалий пошук займає експоненційний час
+danger-exponential-suggestion = Зробіть так, щоб повторювані частини не могли збігтися з тим самим текстом, наприклад (a+)+ → a+
+danger-polynomial = У { $subexpression } повторення перетинаються, тому невдалий пошук займає поліноміальний час степеня { $degree }
+danger-polynomial-suggestion = Зробіть так, щоб сусідні повторення збігалися з різними символами, або додайте якорі
+danger-unknown = Шаблон надто складний для перевірки, тож невдале зіставлення може тривати експоненційний час
+danger-unknown-suggestion = Скоротіть шаблон або розбийте його на кілька команд
+danger-attack = Такі вхідні дані працюють тим повільніше, чим вони довші: { $example }
+danger-blocked = Заблоковано: цей шаблон може працювати експоненційно довго, а цей чат такі шаблони не виконує.
+danger-footerSandbox = Бот виконує цей шаблон з обмеженням часу { $seconds } с.
+danger-sandboxTimeout = Зупинено через { $seconds } с: цей чат виконує небезпечні шаблони з коротким обмеженням часу.
 
 ## Regex Help
 regexHelp-title = Довідка Regex
 regexHelp-selectCategory = Виберіть категорію, щоб вивчити синтаксис regex:
 regexHelp-back = Назад
 regexHelp-backToCategories = Назад до Категорій
+regexHelp-availableItems = Доступні елементи:
+regexHelp-example = Приклад:
+regexHelp-categoryNotFound = Категорію не знайдено
+regexHelp-itemNotFound = Елемент не знайдено
+regexHelp-tokens = Токени
+regexHelp-tokens-description = Спеціальні класи символів, що збігаються з певними видами символів
+regexHelp-tokens-digit = Збігається з будь-якою цифрою (0-9)
+regexHelp-tokens-digit-example = \d збігається з '5' у 'abc5def'
+regexHelp-tokens-nonDigit = Збігається з будь-яким символом, крім цифр
+regexHelp-tokens-nonDigit-example = \D збігається з 'a' у '123a456'
+regexHelp-tokens-word = Збігається з будь-яким символом слова [a-zA-Z0-9_]
+regexHelp-tokens-word-example = \w збігається з 'h' у 'hello'
+regexHelp-tokens-nonWord = Збігається з будь-яким символом, крім символів слова
+regexHelp-tokens-nonWord-example = \W збігається з ' ' у 'hello world'
+regexHelp-tokens-space = Збігається з будь-яким пробільним символом (пробіл, табуляція, новий рядок)
+regexHelp-tokens-space-example = \s збігається з пробілом у 'a b'
+regexHelp-tokens-nonSpace = Збігається з будь-яким непробільним символом
+regexHelp-tokens-nonSpace-example = \S збігається з 'a' у ' a '
+regexHelp-tokens-dot = Збігається з будь-яким символом, крім нового рядка
+regexHelp-tokens-dot-example = . збігається з будь-яким символом у 'abc'
+regexHelp-quantifiers = Квантифікатори
+regexHelp-quantifiers-description = Визначають, скільки разів має збігтися шаблон
+regexHelp-quantifiers-star = Нуль або більше разів
+regexHelp-quantifiers-star-example = a* збігається з '', 'a' або 'aaa'
+regexHelp-quantifiers-plus = Один або більше разів
+regexHelp-quantifiers-plus-example = a+ збігається з 'a' або 'aaa', але не з ''
+regexHelp-quantifiers-question = Нуль або один раз (необов'язково)
+regexHelp-quantifiers-question-example = a? збігається з '' або 'a'
+regexHelp-quantifiers-exact = Рівно n разів
+regexHelp-quantifiers-exact-example = a{"{"}3{"}"} збігається лише з 'aaa'
+regexHelp-quantifiers-min = Щонайменше n разів
+regexHelp-quantifiers-min-example = a{"{"}2,{"}"} збігається з 'aa', 'aaa' тощо
+regexHelp-quantifiers-range = Від n до m разів
+regexHelp-quantifiers-range-example = a{"{"}2,4{"}"} збігається з 'aa', 'aaa' або 'aaaa'
+regexHelp-anchors = Якорі
+regexHelp-anchors-description = Збігаються з позиціями, а не з символами
+regexHelp-anchors-start = Початок тексту
+regexHelp-anchors-start-example = ^hello збігається з 'hello world', але не з 'say hello'
+regexHelp-anchors-end = Кінець тексту
+regexHelp-anchors-end-example = world$ збігається з 'hello world', але не з 'world peace'
+regexHelp-anchors-word = Межа слова
+regexHelp-anchors-word-example = \bcat\b збігається з 'cat', але не з 'category'
+regexHelp-anchors-nonWord = Не межа слова
+regexHelp-anchors-nonWord-example = \Bcat збігається з 'category', але не з 'cat'
+regexHelp-groups = Групи
+regexHelp-groups-description = Об'єднують частини шаблону
+regexHelp-groups-capture = Група захоплення - запам'ятовує збіг для зворотних посилань
+regexHelp-groups-capture-example = (abc) захоплює 'abc' для використання через $1
+regexHelp-groups-nonCapture = Група без захоплення - групує без запам'ятовування
+regexHelp-groups-nonCapture-example = (?:abc) групує, але не захоплює
+regexHelp-groups-lookahead = Позитивна випереджальна перевірка - збігається, якщо далі йде
+regexHelp-groups-lookahead-example = a(?=b) збігається з 'a', лише якщо далі йде 'b'
+regexHelp-groups-negLookahead = Негативна випереджальна перевірка - збігається, якщо далі НЕ йде
+regexHelp-groups-negLookahead-example = a(?!b) збігається з 'a', лише якщо далі НЕ йде 'b'
+regexHelp-classes = Класи символів
+regexHelp-classes-description = Збігаються з певними наборами символів
+regexHelp-classes-set = Набір символів - збігається з будь-яким символом усередині
+regexHelp-classes-set-example = [abc] збігається з 'a', 'b' або 'c'
+regexHelp-classes-negSet = Інвертований набір - збігається з будь-яким символом, якого НЕМАЄ всередині
+regexHelp-classes-negSet-example = [^abc] збігається з будь-яким символом, крім 'a', 'b', 'c'
+regexHelp-classes-range = Діапазон - збігається з будь-яким символом із діапазону
+regexHelp-classes-range-example = [a-z] збігається з будь-якою малою літерою
+regexHelp-escapes = Екранування
+regexHelp-escapes-description = Збігаються зі спеціальними символами буквально
+regexHelp-escapes-dot = Буквальна крапка
+regexHelp-escapes-dot-example = \. збігається з '.', а не з 'будь-яким символом'
+regexHelp-escapes-star = Буквальна зірочка
+regexHelp-escapes-star-example = \* збігається з '*', а не означає 'нуль або більше'
+regexHelp-escapes-plus = Буквальний плюс
+regexHelp-escapes-plus-example = \+ збігається з '+', а не означає 'один або більше'
+regexHelp-escapes-backslash = Буквальна зворотна коса риска
+regexHelp-escapes-backslash-example = \\ збігається з однією зворотною косою рискою
+regexHelp-escapes-tab = Символ табуляції
+regexHelp-escapes-tab-example = \t збігається з табуляцією
+regexHelp-escapes-newline = Символ нового рядка
+regexHelp-escapes-newline-example = \n збігається з новим рядком
+regexHelp-flags = Прапорці
+regexHelp-flags-description = Змінюють поведінку регулярного виразу
+regexHelp-flags-global = Глобальний - знаходить усі збіги, а не лише перший
+regexHelp-flags-global-example = /a/g збігається з усіма 'a' у 'banana'
+regexHelp-flags-ignoreCase = Без урахування регістру - порівняння без урахування регістру
+regexHelp-flags-ignoreCase-example = /hello/i збігається з 'HELLO', 'Hello' тощо
+regexHelp-flags-multiline = Багаторядковий - ^ і $ збігаються на межах рядків
+regexHelp-flags-multiline-example = /^foo/m збігається з 'foo' на початку будь-якого рядка
+regexHelp-flags-dotAll = Dot all - крапка збігається і з новим рядком
+regexHelp-flags-dotAll-example = /.+/s збігається з усім багаторядковим текстом
+regexHelp-flags-performance = Продуктивність - показує час виконання (власний прапорець)
+regexHelp-flags-performance-example = /pattern/p показує час виконання
+regexHelp-flags-diff = Diff - показує видалений текст закресленим, а вставлений підкресленим (власний прапорець)
+regexHelp-flags-diff-example = s/cat/dog/d показує закреслене cat, а за ним dog
+regexHelp-flags-occurrence = Входження - замінює лише n-й збіг, а з g - починаючи з n-го (власний прапорець)
+regexHelp-flags-occurrence-example = s/a/o/2 перетворює 'banana' на 'banona', s/a/o/2g - на 'banono'
 
 ## Health & Metrics
 health-title = Стан Бота
+health-status = Стан Бота: { $status }
 health-healthy = ЗДОРОВИЙ
 health-degraded = ДЕГРАДОВАНИЙ
 health-unhealthy = НЕЗДОРОВИЙ
+health-unknown = НЕВІДОМО
 health-workers = Воркери: { $active } активних, { $idle } неактивних
 health-queue = Черга: { $pending } очікуючих завдань
 health-errorRate = Рівень Помилок: { $rate }%
+health-workersUnavailable = Пул воркерів: Недоступний
+health-circuitBreakers = Запобіжники (circuit breakers):
+health-circuitClosed = ЗАКРИТИЙ
+health-circuitOpen = ВІДКРИТИЙ
+health-circuitHalfOpen = НАПІВВІДКРИТИЙ
+health-circuitRetry = повтор через { $seconds } с
 health-uptime = Час Роботи: { $uptime }
 
 metrics-title = Метрики Продуктивності
-metrics-cacheHitRate = Рівень Попадань у Кеш: { $rate }%
+metrics-cacheEntries = Кеш: { $count } записів
+metrics-cacheDisabled = Кеш: Вимкнено
+metrics-cacheHitRate = Рівень Попадань у Кеш: { $rate }% ({ $hits }/{ $lookups } звернень)
+metrics-cacheChurn = Витіснення з Кешу: { $evictions }, Закінчення терміну: { $expirations }
 metrics-avgProcessingTime = Середній Час Обробки: { $time }ms
 metrics-totalSubstitutions = Всього Замін: { $count }
-metrics-regexCompilations = Компіляції Regex: { $total } (у кеші: { $cached })
+metrics-regexCompilations = Компіляції Regex: { $total }
 
 ## General
 general-yes = Так
@@ -4,18 +4,25 @@
 error-rateLimit = 超出速率限制。请等待 { $seconds } 秒。
 error-invalidRegex = 无效的正则表达式模式。请检查语法并重试。
 error-telegramAPI = 出了点问题。请重试。
+error-telegramRateLimit = 已达到速率限制。请稍候再试。
+error-telegramUnavailable = Telegram 出现问题。请稍后重试。
 error-workerTimeout = 处理错误。请使用更简单的模式重试。
 error-circuitOpen = 服务暂时不可用。请稍后重试。
 error-noTarget = 在最近的消息中找不到匹配的目标。
 error-targetIsCommand = 无法在其他 sed 命令上替换。
 error-messageTooLong = 结果太长（{ $length }/{ $max } 个字符）。
 error-chainTooLong = 链中的命令太多（最多 { $max } 个）。
+error-substitution = 替换时出错：{ $error }
+error-unexpected = 发生意外错误。请重试。
+error-replyOnly = 在此聊天中，请回复你想修改的消息。
+error-flagsNotAllowed = 此聊天中已关闭以下标志：{ $flags }
 
 ## Commands
 command-start = 你好！我是一个正则表达式机器人。使用 s/find/replace/flags 来替换消息中的文本。替换文本可以跨多行，或使用转义序列如 `\n`。您还可以将多个命令链接在一起，每行一个。
 
     特殊标志：
     - `p`: 显示执行时间
+    - `d`: 显示改动（删除的文本加删除线）
     使用 `\N` 表示捕获组。
 
 command-privacy = 除了用于执行正则表达式替换的短消息历史记录外，此机器人不会收集或处理任何用户数据。这些数据在内存中的 SQL 数据库中存储 48 小时，机器人管理员无法以任何方式访问。
@@ -33,6 +40,45 @@ command-language-list = 可用语言：
     使用 /language set <代码> 进行更改。
 command-language-setSuccess = 语言已更改为 { $language }
 command-language-setError = 无效的语言代码。使用 /language list 查看可用选项。
+command-language-chatOverride = 此聊天由管理员设置为对所有人使用{ $language }。
+
+command-start-description = 获取欢迎消息
+command-privacy-description = 显示隐私信息
+command-regexhelp-description = 获取正则表达式语法帮助
+command-explain-description = 解释正则表达式模式
+command-language-description = 更改机器人语言
+command-health-description = 显示机器人健康状态
+command-metrics-description = 显示性能指标
+command-chatsettings-description = 更改此聊天的设置
+command-test-description = 用文本测试正则表达式
+command-undo-description = 撤销修正的最后一次更改
+command-redo-description = 重做已撤销的修正更改
+
+## Chat settings
+chatSettings-title = 此聊天的设置：
+chatSettings-language = 语言：{ $language }
+chatSettings-languageUnset = 未设置（每个人使用自己的语言）
+chatSettings-on = 开
+chatSettings-off = 关
+chatSettings-tips = 优化提示：{ $state }
+chatSettings-dangerWarnings = 危险模式警告：{ $state }
+chatSettings-dangerPolicy = 危险模式：{ $policy }
+chatSettings-dangerPolicy-warn = 警告
+chatSettings-dangerPolicy-block = 阻止
+chatSettings-dangerPolicy-sandbox = 沙箱
+chatSettings-replyOnly = 仅回复模式：{ $state }
+chatSettings-maxChainLength = 每条消息最多命令数：{ $count }
+chatSettings-allowedFlags = 允许的标志：{ $flags }
+chatSettings-noFlags = 无
+chatSettings-menuHint = 点击下方按钮更改设置。
+chatSettings-usage = 用法：
+    /chatsettings - 显示此聊天的设置
+    /chatsettings language <code> - 用此语言回复所有人
+    /chatsettings language reset - 用每个人自己的语言回复
+
+chatSettings-notAdmin = 只有聊天管理员才能更改此聊天的设置。
+chatSettings-languageSet = 聊天语言已更改为{ $language }
+chatSettings-languageReset = 聊天语言已重置。每个人将再次使用自己的语言。
 
 ## Substitution results
 substitution-result = 结果：{ $result }
@@ -40,33 +86,324 @@ substitution-noMatch = 未找到匹配。
 substitution-multipleResults = 应用了 { $count } 次替换
 substitution-performance = 在 { $time } 内执行了 { $count } 次替换
 
+## Corrections
+correction-notReply = 请回复我的某条修正来撤销或重做。
+correction-nothingToUndo = 没有可撤销的内容。
+correction-nothingToRedo = 没有可重做的内容。
+
+## Inline mode
+inline-usage = 输入 s/查找/替换/ | 文本
+inline-resultTitle = 替换后的文本
+inline-errorTitle = 替换失败
+inline-dangerTitle = 危险模式
+inline-emptyResult = （空结果）
+
+## Regex testing
+regexTest-usage = 用法：/test 模式/标志 [文本]
+    回复一条消息来测试它，或在模式后写上文本。
+regexTest-matchCount = { $count } 个匹配
+regexTest-noMatches = 没有匹配。
+regexTest-match = 匹配 { $number }（位置 { $index }）：
+regexTest-unmatched = 未匹配
+regexTest-moreMatches = ……还有 { $count } 个匹配
+
+## Explain
+explain-usage = 请提供要解释的模式。
+
+    用法:
+    /explain 模式
+    /explain /模式/标志
+    /explain s/模式/替换/标志
+
+    示例: /explain s/(\w+)@(\w+)/$2: $1/gi
+explain-invalid = 无效的正则表达式模式: { $error }
+
+    请检查语法后重试。
+explain-pattern = 模式:
+explain-breakdown = 分解:
+explain-flags = 标志:
+explain-replacement = 替换:
+explain-truncated = (解释已截断)
+explain-quoted = “{ $text }”
+explain-literal = 字符 { $char }
+explain-literal-codePoint = 字符 { $char }（{ $codePoint }）
+explain-literal-escaped = 字符 { $char }（已转义）
+explain-literalText = 文本 { $text }
+explain-anyCase = { $description }，不区分大小写
+explain-char-null = 空字符
+explain-char-backspace = 退格
+explain-char-tab = 制表符
+explain-char-newline = 换行符
+explain-char-verticalTab = 垂直制表符
+explain-char-formFeed = 换页符
+explain-char-carriageReturn = 回车符
+explain-char-space = 空格
+explain-char-control = 控制字符 { $codePoint }
+explain-empty = 空（总是匹配）
+explain-alternatives = { $count } 个选项之一
+explain-sequence = 以下全部，按顺序
+explain-group-named = 命名捕获组 { $name }（第 { $index } 组）
+explain-group-capture = 捕获组 { $index }
+explain-group-nonCapturing = 非捕获组
+explain-group-flagsOn = 开启标志 { $on } 的非捕获组
+explain-group-flagsOff = 关闭标志 { $off } 的非捕获组
+explain-group-flagsOnOff = 开启标志 { $on }、关闭标志 { $off } 的非捕获组
+explain-lookahead = 正向先行断言：后面紧跟
+explain-lookahead-negated = 负向先行断言：后面不紧跟
+explain-lookbehind = 正向后行断言：前面紧挨
+explain-lookbehind-negated = 负向后行断言：前面不紧挨
+explain-quantifier-zeroOrMore = 零次或多次
+explain-quantifier-oneOrMore = 一次或多次
+explain-quantifier-optional = 可选（零次或一次）
+explain-quantifier-exactly = 恰好 { $count } 次
+explain-quantifier-atLeast = 至少 { $min } 次
+explain-quantifier-between = { $min } 到 { $max } 次
+explain-quantifier-greedy = { $quantifier }，尽可能多
+explain-quantifier-lazy = { $quantifier }，尽可能少（惰性）
+explain-class-digit = 任意数字（0-9）
+explain-class-nonDigit = 任意非数字字符
+explain-class-word = 任意单词字符 [a-zA-Z0-9_]
+explain-class-nonWord = 任意非单词字符
+explain-class-space = 任意空白字符
+explain-class-nonSpace = 任意非空白字符
+explain-class-set = 以下之一
+explain-class-set-negated = 除以下之外的任意字符
+explain-class-intersection = 同时属于所有这些集合的一个字符
+explain-class-intersection-negated = 不同时属于所有这些集合的任意字符
+explain-class-subtraction = 属于第一个集合但不属于其他集合的一个字符
+explain-class-subtraction-negated = 除只属于第一个集合的字符之外的任意字符
+explain-class-range = 从 { $from } 到 { $to } 的任意字符
+explain-class-strings = 字符串 { $strings } 之一
+explain-category-letter = 任意字母
+explain-category-letter-negated = 任意非字母字符
+explain-category-uppercase = 任意大写字母
+explain-category-uppercase-negated = 任意非大写字母的字符
+explain-category-lowercase = 任意小写字母
+explain-category-lowercase-negated = 任意非小写字母的字符
+explain-category-titlecase = 任意首字母大写字母
+explain-category-titlecase-negated = 任意非首字母大写字母的字符
+explain-category-mark = 任意组合标记
+explain-category-mark-negated = 任意非组合标记的字符
+explain-category-number = 任意数字类字符
+explain-category-number-negated = 任意非数字类字符
+explain-category-digit = 任意十进制数字
+explain-category-digit-negated = 任意非十进制数字的字符
+explain-category-punctuation = 任意标点符号
+explain-category-punctuation-negated = 任意非标点符号的字符
+explain-category-symbol = 任意符号
+explain-category-symbol-negated = 任意非符号的字符
+explain-category-currency = 任意货币符号
+explain-category-currency-negated = 任意非货币符号的字符
+explain-category-separator = 任意分隔符
+explain-category-separator-negated = 任意非分隔符的字符
+explain-category-spaceSeparator = 任意空格分隔符
+explain-category-spaceSeparator-negated = 任意非空格分隔符的字符
+explain-category-other = 任意控制字符或未分配字符
+explain-category-other-negated = 任意既非控制字符也非未分配字符的字符
+explain-category-control = 任意控制字符
+explain-category-control-negated = 任意非控制字符
+explain-property-script = { $script } 文字中的任意字符
+explain-property-script-negated = 不属于 { $script } 文字的任意字符
+explain-property-value = { $name } = { $value } 的任意字符
+explain-property-value-negated = 不满足 { $name } = { $value } 的任意字符
+explain-property = 具有 Unicode 属性 { $name } 的任意字符
+explain-property-negated = 不具有 Unicode 属性 { $name } 的任意字符
+explain-dot = 除换行符之外的任意字符
+explain-dot-all = 任意字符
+explain-stringStart = 字符串开头
+explain-stringEnd = 字符串结尾
+explain-lineStart = 行首
+explain-lineEnd = 行尾
+explain-wordBoundary = 单词边界
+explain-nonWordBoundary = 非单词边界
+explain-backreference = 与第 { $group } 组匹配的文本相同
+explain-flag-indices = 索引：记录每个组的匹配位置
+explain-flag-global = 全局：查找所有匹配，而不只是第一个
+explain-flag-ignoreCase = 忽略大小写
+explain-flag-multiline = 多行：^ 和 $ 在每一行匹配
+explain-flag-dotAll = Dot all：. 也匹配换行符
+explain-flag-unicode = Unicode：按码位匹配，并允许 \p 转义
+explain-flag-unicodeSets = Unicode 集合：同 u，并可在字符类中使用集合运算
+explain-flag-sticky = 粘性：每次匹配必须从上一次匹配结束处开始
+explain-flag-replaceAll = 全局：替换所有匹配，而不只是第一个
+explain-flag-performance = 显示替换耗时
+explain-flag-diff = 显示改动：删除的文本带删除线
+explain-flag-occurrence = 只替换第 { $occurrence } 个匹配
+explain-flag-occurrenceOnward = 替换第 { $occurrence } 个及之后的所有匹配
+explain-flag-unknown = 不是标志，已忽略
+explain-flag-firstOnly = 没有 g 时只替换第一个匹配
+explain-address = 地址:
+explain-address-line = 仅第 { $line } 行
+explain-address-last = 仅最后一行
+explain-address-regex = 仅匹配 { $pattern } 的行
+explain-address-range = 从{ $start }到{ $end }
+explain-address-part-line = 第 { $line } 行
+explain-address-part-last = 最后一行
+explain-address-part-regex = 匹配 { $pattern } 的行
+explain-transliteration = 字符转换:
+explain-transliteration-characters = 字符:
+explain-transliteration-char = { $from } 替换为 { $to }
+explain-replacement-empty = 空：匹配内容将被删除
+explain-replacement-group = 第 { $group } 组的文本
+explain-replacement-groupThen = 第 { $group } 组的文本，然后是 { $rest }
+explain-replacement-noGroup = 字符 { $text }（没有第 { $group } 组）
+explain-replacement-missingName = 空（没有组 { $name }）
+explain-replacement-noNamedGroups = 字符 { $text }（该模式没有命名组）
+explain-replacement-match = 整个匹配
+explain-replacement-before = 匹配之前的文本
+explain-replacement-after = 匹配之后的文本
+
 ## Tips
 tip-optimization = 提示：{ $suggestion }
 tip-useShorthand = 使用 { $shorthand } 代替 { $longform }（更短）
 tip-nonCapturing = 对不引用的组使用 (?:...)
 tip-greedy = 考虑使用 .*? 代替 .*（非贪婪）
+tip-whitespace = 使用 { $shorthand } 代替 { $longform }（匹配所有空白字符）
+tip-dotAll = 使用带 s 标志的 . 代替 { $longform }（更符合习惯）
+tip-unnecessaryEscape = 删除不必要的转义，例如 { $example }（模式更简洁）
+tip-anchors = 为无边界的模式添加 ^ 和/或 $ 锚点（可提升性能）
+
+## Dangerous pattern warnings
+danger-title = 警告：此模式可能导致性能问题
+danger-pattern = 模式：{ $pattern }
+danger-riskScore = 风险评分：{ $score }/100
+danger-issuesFound = 发现的问题：
+danger-footer = 机器人仍会执行此模式，但在某些输入上可能很慢。
+danger-exponential = { $subexpression } 中的重复部分可以用多种方式匹配同一段文本，因此匹配失败需要指数级时间
+danger-exponential-suggestion = 让重复部分无法匹配同一段文本，例如 (a+)+ → a+
+danger-polynomial = { $subexpression } 包含相互重叠的重复，因此匹配失败需要 { $degree } 次多项式时间
+danger-polynomial-suggestion = 让相邻的重复匹配不同的字符，或为模式添加锚点
+danger-unknown = 该模式过于复杂，无法检查，匹配失败可能需要指数级时间
+danger-unknown-suggestion = 缩短模式，或将其拆分为多条命令
+danger-attack = 此类输入越长越慢：{ $example }
+danger-blocked = 已阻止：此模式可能需要指数级时间，而此聊天不运行此类模式。
+danger-footerSandbox = 机器人会以 { $seconds } 秒的时间限制运行此模式。
+danger-sandboxTimeout = 已在 { $seconds } 秒后停止：此聊天以较短的时间限制运行危险模式。
 
 ## Regex Help
 regexHelp-title = 正则表达式帮助
 regexHelp-selectCategory = 选择一个类别来学习正则表达式语法：
 regexHelp-back = 返回
 regexHelp-backToCategories = 返回类别
+regexHelp-availableItems = 可用条目：
+regexHelp-example = 示例：
+regexHelp-categoryNotFound = 未找到类别
+regexHelp-itemNotFound = 未找到条目
+regexHelp-tokens = 标记
+regexHelp-tokens-description = 匹配特定类型字符的特殊字符类
+regexHelp-tokens-digit = 匹配任意数字（0-9）
+regexHelp-tokens-digit-example = \d 匹配 'abc5def' 中的 '5'
+regexHelp-tokens-nonDigit = 匹配任意非数字字符
+regexHelp-tokens-nonDigit-example = \D 匹配 '123a456' 中的 'a'
+regexHelp-tokens-word = 匹配任意单词字符 [a-zA-Z0-9_]
+regexHelp-tokens-word-example = \w 匹配 'hello' 中的 'h'
+regexHelp-tokens-nonWord = 匹配任意非单词字符
+regexHelp-tokens-nonWord-example = \W 匹配 'hello world' 中的 ' '
+regexHelp-tokens-space = 匹配任意空白字符（空格、制表符、换行符）
+regexHelp-tokens-space-example = \s 匹配 'a b' 中的空格
+regexHelp-tokens-nonSpace = 匹配任意非空白字符
+regexHelp-tokens-nonSpace-example = \S 匹配 ' a ' 中的 'a'
+regexHelp-tokens-dot = 匹配除换行符之外的任意字符
+regexHelp-tokens-dot-example = . 匹配 'abc' 中的任意字符
+regexHelp-quantifiers = 量词
+regexHelp-quantifiers-description = 指定模式应匹配的次数
+regexHelp-quantifiers-star = 零次或多次
+regexHelp-quantifiers-star-example = a* 匹配 ''、'a' 或 'aaa'
+regexHelp-quantifiers-plus = 一次或多次
+regexHelp-quantifiers-plus-example = a+ 匹配 'a' 或 'aaa'，但不匹配 ''
+regexHelp-quantifiers-question = 零次或一次（可选）
+regexHelp-quantifiers-question-example = a? 匹配 '' 或 'a'
+regexHelp-quantifiers-exact = 恰好 n 次
+regexHelp-quantifiers-exact-example = a{"{"}3{"}"} 只匹配 'aaa'
+regexHelp-quantifiers-min = 至少 n 次
+regexHelp-quantifiers-min-example = a{"{"}2,{"}"} 匹配 'aa'、'aaa' 等
+regexHelp-quantifiers-range = n 到 m 次
+regexHelp-quantifiers-range-example = a{"{"}2,4{"}"} 匹配 'aa'、'aaa' 或 'aaaa'
+regexHelp-anchors = 锚点
+regexHelp-anchors-description = 匹配位置而不是字符
+regexHelp-anchors-start = 字符串开头
+regexHelp-anchors-start-example = ^hello 匹配 'hello world'，但不匹配 'say hello'
+regexHelp-anchors-end = 字符串结尾
+regexHelp-anchors-end-example = world$ 匹配 'hello world'，但不匹配 'world peace'
+regexHelp-anchors-word = 单词边界
+regexHelp-anchors-word-example = \bcat\b 匹配 'cat'，但不匹配 'category'
+regexHelp-anchors-nonWord = 非单词边界
+regexHelp-anchors-nonWord-example = \Bcat 匹配 'category'，但不匹配 'cat'
+regexHelp-groups = 分组
+regexHelp-groups-description = 将模式的各部分组合在一起
+regexHelp-groups-capture = 捕获组 - 记住匹配内容以供反向引用
+regexHelp-groups-capture-example = (abc) 捕获 'abc'，可通过 $1 使用
+regexHelp-groups-nonCapture = 非捕获组 - 只分组不记忆
+regexHelp-groups-nonCapture-example = (?:abc) 分组但不捕获
+regexHelp-groups-lookahead = 正向先行断言 - 后面紧跟时匹配
+regexHelp-groups-lookahead-example = a(?=b) 仅在后面紧跟 'b' 时匹配 'a'
+regexHelp-groups-negLookahead = 负向先行断言 - 后面不紧跟时匹配
+regexHelp-groups-negLookahead-example = a(?!b) 仅在后面不紧跟 'b' 时匹配 'a'
+regexHelp-classes = 字符类
+regexHelp-classes-description = 匹配特定的字符集合
+regexHelp-classes-set = 字符集 - 匹配其中任意字符
+regexHelp-classes-set-example = [abc] 匹配 'a'、'b' 或 'c'
+regexHelp-classes-negSet = 否定字符集 - 匹配不在其中的任意字符
+regexHelp-classes-negSet-example = [^abc] 匹配除 'a'、'b'、'c' 之外的任意字符
+regexHelp-classes-range = 范围 - 匹配范围内的任意字符
+regexHelp-classes-range-example = [a-z] 匹配任意小写字母
+regexHelp-escapes = 转义
+regexHelp-escapes-description = 按字面匹配特殊字符
+regexHelp-escapes-dot = 字面句点
+regexHelp-escapes-dot-example = \. 匹配 '.'，而不是“任意字符”
+regexHelp-escapes-star = 字面星号
+regexHelp-escapes-star-example = \* 匹配 '*'，而不是“零次或多次”
+regexHelp-escapes-plus = 字面加号
+regexHelp-escapes-plus-example = \+ 匹配 '+'，而不是“一次或多次”
+regexHelp-escapes-backslash = 字面反斜杠
+regexHelp-escapes-backslash-example = \\ 匹配单个反斜杠
+regexHelp-escapes-tab = 制表符
+regexHelp-escapes-tab-example = \t 匹配制表符
+regexHelp-escapes-newline = 换行符
+regexHelp-escapes-newline-example = \n 匹配换行符
+regexHelp-flags = 标志
+regexHelp-flags-description = 改变正则表达式的行为
+regexHelp-flags-global = 全局 - 查找所有匹配，而不只是第一个
+regexHelp-flags-global-example = /a/g 匹配 'banana' 中所有的 'a'
+regexHelp-flags-ignoreCase = 忽略大小写 - 不区分大小写匹配
+regexHelp-flags-ignoreCase-example = /hello/i 匹配 'HELLO'、'Hello' 等
+regexHelp-flags-multiline = 多行 - ^ 和 $ 匹配行边界
+regexHelp-flags-multiline-example = /^foo/m 匹配任意行首的 'foo'
+regexHelp-flags-dotAll = Dot all - 句点也匹配换行符
+regexHelp-flags-dotAll-example = /.+/s 匹配整个多行文本
+regexHelp-flags-performance = 性能 - 显示耗时（自定义标志）
+regexHelp-flags-performance-example = /pattern/p 显示执行时间
+regexHelp-flags-diff = 差异 - 删除的文本显示删除线，插入的文本显示下划线（自定义标志）
+regexHelp-flags-diff-example = s/cat/dog/d 显示带删除线的 cat，后面跟着 dog
+regexHelp-flags-occurrence = 第 N 次 - 只替换第 N 个匹配，加 g 则从第 N 个起全部替换（自定义标志）
+regexHelp-flags-occurrence-example = s/a/o/2 把 'banana' 变成 'banona'，s/a/o/2g 变成 'banono'
 
 ## Health & Metrics
 health-title = 机器人健康状态
+health-status = 机器人健康状态：{ $status }
 health-healthy = 健康
 health-degraded = 降级
 health-unhealthy = 不健康
+health-unknown = 未知
 health-workers = 工作进程：{ $active } 个活跃，{ $idle } 个空闲
 health-queue = 队列：{ $pending } 个待处理任务
 health-errorRate = 错误率：{ $rate }%
+health-workersUnavailable = 工作线程池：不可用
+health-circuitBreakers = 熔断器：
+health-circuitClosed = 关闭
+health-circuitOpen = 打开
+health-circuitHalfOpen = 半开
+health-circuitRetry = { $seconds } 秒后重试
 health-uptime = 运行时间：{ $uptime }
 
 metrics-title = 性能指标
-metrics-cacheHitRate = 缓存命中率：{ $rate }%
+metrics-cacheEntries = 缓存：{ $count } 个条目
+metrics-cacheDisabled = 缓存：已禁用
+metrics-cacheHitRate = 缓存命中率：{ $rate }%（{ $hits }/{ $lookups } 次查找）
+metrics-cacheChurn = 缓存淘汰：{ $evictions }，过期：{ $expirations }
 metrics-avgProcessingTime = 平均处理时间：{ $time }ms
 metrics-totalSubstitutions = 总替换次数：{ $count }
-metrics-regexCompilations = 正则表达式编译次数：{ $total }（已缓存：{ $cached }）
+metrics-regexCompilations = 正则表达式编译次数：{ $total }
 
 ## General
 general-yes = 是
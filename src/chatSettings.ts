@@ -0,0 +1,253 @@
+/**
+ * Per-chat settings for regexYbot
+ *
+ * Settings are stored through DatabaseService and loaded for every update, so
+ * the chat language is known before i18n negotiates the locale. Admins change
+ * them with /chatsettings and its inline keyboard menu.
+ */
+
+import { InlineKeyboard, type MiddlewareFn } from "grammy";
+import { Logger } from "./logger";
+import { CONFIG } from "./config";
+import type { DatabaseService } from "./database";
+import { getLanguageInfo, type MyContext, type TranslateFn } from "./i18n";
+import type { ChatSettings, DangerPolicy } from "./types";
+
+const logger = new Logger("ChatSettings");
+
+/**
+ * Flag letters a chat can allow or disallow (occurrence numbers always work)
+ */
+export const SED_FLAGS = "gimsuypd";
+
+/**
+ * Policies for dangerous patterns, in menu order
+ */
+export const DANGER_POLICIES: DangerPolicy[] = ["warn", "block", "sandbox"];
+
+/**
+ * Chat settings with every default filled in
+ */
+export interface ResolvedChatSettings {
+	tips: boolean;
+	dangerWarnings: boolean;
+	dangerPolicy: DangerPolicy;
+	replyOnly: boolean;
+	maxChainLength: number;
+	allowedFlags: string;
+}
+
+/**
+ * On/off settings that can be toggled from the menu
+ */
+type ToggleSetting = "tips" | "dangerWarnings" | "replyOnly";
+
+const TOGGLE_SETTINGS: { key: ToggleSetting; icon: string }[] = [
+	{ key: "tips", icon: "💡" },
+	{ key: "dangerWarnings", icon: "⚠️" },
+	{ key: "replyOnly", icon: "↩️" },
+];
+
+/**
+ * Fill in the defaults for settings a chat never changed
+ */
+export function resolveChatSettings(
+	settings: ChatSettings,
+): ResolvedChatSettings {
+	return {
+		tips: settings.tips ?? true,
+		dangerWarnings: settings.dangerWarnings ?? true,
+		dangerPolicy: settings.dangerPolicy ?? CONFIG.DANGER_POLICY,
+		replyOnly: settings.replyOnly ?? false,
+		// The global limit still applies if it was lowered after the chat chose
+		maxChainLength: Math.min(
+			settings.maxChainLength ?? CONFIG.MAX_CHAIN_LENGTH,
+			CONFIG.MAX_CHAIN_LENGTH,
+		),
+		allowedFlags: settings.allowedFlags ?? SED_FLAGS,
+	};
+}
+
+/**
+ * Get the flag letters of a sed command that the chat doesn't allow
+ */
+export function getDisallowedFlags(
+	flags: string,
+	settings: ResolvedChatSettings,
+): string[] {
+	const used = new Set(flags.toLowerCase());
+	return [...SED_FLAGS].filter(
+		(flag) => used.has(flag) && !settings.allowedFlags.includes(flag),
+	);
+}
+
+/**
+ * Middleware that loads the settings of the current chat into ctx.chatSettings
+ *
+ * Falls back to the defaults when the database can't be read, so a storage
+ * problem never stops the bot from answering.
+ */
+export function chatSettingsMiddleware(
+	dbService: DatabaseService,
+): MiddlewareFn<MyContext> {
+	return async (ctx, next) => {
+		ctx.chatSettings = {};
+		if (ctx.chat) {
+			try {
+				ctx.chatSettings = await dbService.getChatSettings(ctx.chat.id);
+			} catch (error) {
+				logger.error(
+					`Failed to load settings of chat ${ctx.chat.id}: ${error}`,
+				);
+			}
+		}
+		await next();
+	};
+}
+
+/**
+ * Check whether the sender may change the settings of the current chat
+ *
+ * Anyone may in a private chat. In groups only the owner and administrators
+ * may, including administrators posting anonymously as the group.
+ */
+export async function canChangeChatSettings(ctx: MyContext): Promise<boolean> {
+	if (!ctx.chat || !ctx.from) return false;
+	if (ctx.chat.type === "private") return true;
+	if (ctx.message?.sender_chat?.id === ctx.chat.id) return true;
+
+	const member = await ctx.getChatMember(ctx.from.id);
+	return member.status === "creator" || member.status === "administrator";
+}
+
+/**
+ * Format one on/off setting, shared by the settings text and its button
+ */
+function formatToggle(
+	key: ToggleSetting,
+	enabled: boolean,
+	t: TranslateFn,
+): string {
+	return t(`chatSettings-${key}`, {
+		state: t(enabled ? "chatSettings-on" : "chatSettings-off"),
+	});
+}
+
+/**
+ * Format the settings of a chat for display
+ */
+export function formatChatSettings(
+	settings: ChatSettings,
+	t: TranslateFn,
+): string {
+	const resolved = resolveChatSettings(settings);
+	const language = settings.language
+		? (getLanguageInfo(settings.language)?.nativeName ?? settings.language)
+		: t("chatSettings-languageUnset");
+
+	const lines = [
+		t("chatSettings-title"),
+		"",
+		`🌐 ${t("chatSettings-language", { language })}`,
+		...TOGGLE_SETTINGS.map(
+			({ key, icon }) => `${icon} ${formatToggle(key, resolved[key], t)}`,
+		),
+		`🛡️ ${t("chatSettings-dangerPolicy", {
+			policy: t(`chatSettings-dangerPolicy-${resolved.dangerPolicy}`),
+		})}`,
+		`🔗 ${t("chatSettings-maxChainLength", { count: resolved.maxChainLength })}`,
+		`🚩 ${t("chatSettings-allowedFlags", {
+			flags: resolved.allowedFlags || t("chatSettings-noFlags"),
+		})}`,
+		"",
+		t("chatSettings-menuHint"),
+	];
+	return lines.join("\n");
+}
+
+/**
+ * Create the settings menu keyboard
+ *
+ * Buttons carry "chatsettings:<action>" callback data, see applySettingsAction.
+ */
+export function createChatSettingsKeyboard(
+	settings: ChatSettings,
+	t: TranslateFn,
+): InlineKeyboard {
+	const resolved = resolveChatSettings(settings);
+	const keyboard = new InlineKeyboard();
+
+	for (const { key, icon } of TOGGLE_SETTINGS) {
+		const label = `${icon} ${formatToggle(key, resolved[key], t)}`;
+		keyboard.text(label, `chatsettings:toggle:${key}`).row();
+	}
+
+	for (const policy of DANGER_POLICIES) {
+		const label = `${resolved.dangerPolicy === policy ? "🔘" : "⚪"} ${t(`chatSettings-dangerPolicy-${policy}`)}`;
+		keyboard.text(label, `chatsettings:policy:${policy}`);
+	}
+	keyboard.row();
+
+	const chainLabel = `🔗 ${resolved.maxChainLength}`;
+	keyboard
+		.text("➖", "chatsettings:chain:dec")
+		.text(chainLabel, "chatsettings:chain:show")
+		.text("➕", "chatsettings:chain:inc")
+		.row();
+
+	for (const flag of SED_FLAGS) {
+		const label = `${resolved.allowedFlags.includes(flag) ? "✅" : "⬜"} ${flag}`;
+		keyboard.text(label, `chatsettings:flag:${flag}`);
+	}
+
+	return keyboard;
+}
+
+/**
+ * Work out the change a settings menu button makes
+ *
+ * @param settings - The chat's current settings
+ * @param action - Callback data without the "chatsettings:" prefix
+ * @returns The settings to store, or null if the button changes nothing
+ */
+export function applySettingsAction(
+	settings: ChatSettings,
+	action: string,
+): Partial<ChatSettings> | null {
+	const resolved = resolveChatSettings(settings);
+	const [type, value] = action.split(":");
+
+	if (type === "toggle") {
+		const toggle = TOGGLE_SETTINGS.find(({ key }) => key === value);
+		return toggle ? { [toggle.key]: !resolved[toggle.key] } : null;
+	}
+
+	if (type === "policy") {
+		const policy = DANGER_POLICIES.find((candidate) => candidate === value);
+		if (!policy || policy === resolved.dangerPolicy) return null;
+		return { dangerPolicy: policy };
+	}
+
+	if (type === "chain") {
+		const step = value === "inc" ? 1 : value === "dec" ? -1 : 0;
+		const length = resolved.maxChainLength + step;
+		if (step === 0 || length < 1 || length > CONFIG.MAX_CHAIN_LENGTH) {
+			return null;
+		}
+		return { maxChainLength: length };
+	}
+
+	if (type === "flag" && value && SED_FLAGS.includes(value)) {
+		const allowed = new Set(resolved.allowedFlags);
+		if (allowed.has(value)) {
+			allowed.delete(value);
+		} else {
+			allowed.add(value);
+		}
+		return {
+			allowedFlags: [...SED_FLAGS].filter((flag) => allowed.has(flag)).join(""),
+		};
+	}
+
+	return null;
+}
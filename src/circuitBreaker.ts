@@ -7,13 +7,30 @@
 import { CircuitBreakerError } from "./errors";
 import { Logger } from "./logger";
 
-interface CircuitBreakerOptions {
+export interface CircuitBreakerOptions {
 	/** Number of failures before opening circuit */
 	failureThreshold: number;
 	/** Time in ms before attempting reset (HALF_OPEN) */
 	resetTimeoutMs: number;
 	/** Success threshold in HALF_OPEN to close circuit */
 	successThreshold: number;
+	/**
+	 * Decides whether an error counts against the service. Errors caused by
+	 * the request itself (e.g. an invalid regex) should not open the circuit.
+	 * Defaults to counting every error.
+	 */
+	isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * Snapshot of a circuit breaker for health reporting
+ */
+export interface CircuitBreakerStats {
+	name: string;
+	state: string;
+	failures: number;
+	/** When an open circuit allows the next attempt (ms since epoch) */
+	openUntil: number | null;
 }
 
 enum CircuitState {
@@ -28,15 +45,18 @@ export class CircuitBreaker {
 	private successes = 0;
 	private nextAttempt = 0;
 	private readonly logger: Logger;
+	private readonly options: CircuitBreakerOptions;
 
 	constructor(
 		private readonly name: string,
-		private readonly options: CircuitBreakerOptions = {
+		options: Partial<CircuitBreakerOptions> = {},
+	) {
+		this.options = {
 			failureThreshold: 5,
 			resetTimeoutMs: 30000,
 			successThreshold: 2,
-		},
-	) {
+			...options,
+		};
 		this.logger = new Logger(`CircuitBreaker:${name}`);
 	}
 
@@ -58,7 +78,12 @@ export class CircuitBreaker {
 			this.onSuccess();
 			return result;
 		} catch (error) {
-			this.onFailure();
+			if (this.options.isFailure?.(error) ?? true) {
+				this.onFailure();
+			} else {
+				// The service answered, so this still counts as a success
+				this.onSuccess();
+			}
 			throw error;
 		}
 	}
@@ -111,6 +136,25 @@ export class CircuitBreaker {
 		return this.failures;
 	}
 
+	/**
+	 * Get the breaker name
+	 */
+	getName(): string {
+		return this.name;
+	}
+
+	/**
+	 * Get a snapshot of the breaker for /health and monitoring
+	 */
+	getStats(): CircuitBreakerStats {
+		return {
+			name: this.name,
+			state: this.state,
+			failures: this.failures,
+			openUntil: this.state === CircuitState.OPEN ? this.nextAttempt : null,
+		};
+	}
+
 	/**
 	 * Manually reset the circuit (for testing/emergencies)
 	 */
@@ -6,6 +6,9 @@
  * Use console.warn for validation warnings during config loading.
  */
 
+import { randomBytes } from "node:crypto";
+import type { DangerPolicy } from "./types";
+
 // Log levels in order of severity
 const VALID_LOG_LEVELS = [
 	"none",
@@ -17,6 +20,12 @@ const VALID_LOG_LEVELS = [
 ] as const;
 type LogLevel = (typeof VALID_LOG_LEVELS)[number];
 
+const VALID_DANGER_POLICIES: readonly DangerPolicy[] = [
+	"warn",
+	"block",
+	"sandbox",
+];
+
 /**
  * Configuration interface defining all available options.
  */
@@ -57,19 +66,35 @@ export interface BotConfig {
 	readonly MAX_CHAIN_LENGTH: number;
 	readonly MAX_MESSAGE_LENGTH: number;
 
+	// Dangerous Patterns
+	readonly DANGER_POLICY: DangerPolicy;
+	readonly DANGER_SANDBOX_TIMEOUT_MS: number;
+
 	// Database / History
+	readonly DATABASE_PATH: string;
 	readonly CLEANUP_INTERVAL_MS: number;
 	readonly MAX_HISTORY_PER_CHAT: number;
 	readonly HISTORY_QUERY_LIMIT: number;
+	readonly HISTORY_INCLUDE_BOT_REPLIES: boolean;
 
 	// Retry Configuration
 	readonly RETRY_MAX_RETRIES: number;
 	readonly RETRY_MAX_DELAY_MS: number;
 
+	// Webhook (long polling is used when WEBHOOK_URL is empty)
+	readonly WEBHOOK_URL: string;
+	readonly WEBHOOK_PATH: string;
+	readonly WEBHOOK_HOST: string;
+	readonly WEBHOOK_PORT: number;
+	readonly WEBHOOK_SECRET: string;
+
 	// Healthcheck
 	readonly ENABLE_FILE_HEALTHCHECK: boolean;
 	readonly LIVENESS_FILE: string;
 	readonly LIVENESS_INTERVAL_MS: number;
+	readonly HEALTH_SERVER_ENABLED: boolean;
+	readonly HEALTH_SERVER_HOST: string;
+	readonly HEALTH_SERVER_PORT: number;
 }
 
 /**
@@ -134,6 +159,31 @@ function parseStringEnv(key: string, defaultValue: string): string {
 	return raw.trim();
 }
 
+/**
+ * Helper function to parse the webhook secret token.
+ * Telegram only accepts 1-256 characters from A-Z, a-z, 0-9, _ and -.
+ * A random secret is generated when none is configured.
+ */
+function parseWebhookSecret(): string {
+	const raw = parseStringEnv("WEBHOOK_SECRET", "");
+	if (raw && /^[A-Za-z0-9_-]{1,256}$/.test(raw)) return raw;
+
+	if (raw) {
+		console.warn(
+			"[Config]: Invalid WEBHOOK_SECRET (allowed: 1-256 of A-Z, a-z, 0-9, _ and -). Generating a random secret.",
+		);
+	}
+	return randomBytes(32).toString("hex");
+}
+
+/**
+ * Helper function to parse the local webhook path, always starting with "/".
+ */
+function parseWebhookPath(): string {
+	const raw = parseStringEnv("WEBHOOK_PATH", "/webhook");
+	return raw.startsWith("/") ? raw : `/${raw}`;
+}
+
 /**
  * Helper function to parse and validate log level.
  */
@@ -154,6 +204,23 @@ function parseLogLevel(): LogLevel {
 	return process.env.NODE_ENV === "production" ? "info" : "debug";
 }
 
+/**
+ * Helper function to parse the default dangerous pattern policy.
+ */
+function parseDangerPolicy(): DangerPolicy {
+	const raw = process.env.DANGER_POLICY?.toLowerCase();
+	if (!raw) return "warn";
+
+	if (VALID_DANGER_POLICIES.includes(raw as DangerPolicy)) {
+		return raw as DangerPolicy;
+	}
+
+	console.warn(
+		`[Config]: Invalid DANGER_POLICY: "${raw}". Valid policies: ${VALID_DANGER_POLICIES.join(", ")}. Using default: warn`,
+	);
+	return "warn";
+}
+
 /**
  * Helper function to parse NODE_ENV.
  */
@@ -256,7 +323,17 @@ function loadConfig(): BotConfig {
 		MAX_CHAIN_LENGTH: parseIntEnv("MAX_CHAIN_LENGTH", 5, 1, 50),
 		MAX_MESSAGE_LENGTH: parseIntEnv("MAX_MESSAGE_LENGTH", 4096, 100, 10000),
 
+		// Dangerous Patterns
+		DANGER_POLICY: parseDangerPolicy(),
+		DANGER_SANDBOX_TIMEOUT_MS: parseIntEnv(
+			"DANGER_SANDBOX_TIMEOUT_MS",
+			2000,
+			100,
+			60 * 1000,
+		),
+
 		// Database / History
+		DATABASE_PATH: parseStringEnv("DATABASE_PATH", ":memory:"),
 		CLEANUP_INTERVAL_MS: parseIntEnv(
 			"CLEANUP_INTERVAL_MS",
 			48 * 60 * 60 * 1000,
@@ -265,11 +342,22 @@ function loadConfig(): BotConfig {
 		),
 		MAX_HISTORY_PER_CHAT: parseIntEnv("MAX_HISTORY_PER_CHAT", 20, 5, 200),
 		HISTORY_QUERY_LIMIT: parseIntEnv("HISTORY_QUERY_LIMIT", 10, 1, 100),
+		HISTORY_INCLUDE_BOT_REPLIES: parseBoolEnv(
+			"HISTORY_INCLUDE_BOT_REPLIES",
+			true,
+		),
 
 		// Retry Configuration
 		RETRY_MAX_RETRIES: parseIntEnv("RETRY_MAX_RETRIES", 3, 0, 10),
 		RETRY_MAX_DELAY_MS: parseIntEnv("RETRY_MAX_DELAY_MS", 30000, 1000, 300000),
 
+		// Webhook
+		WEBHOOK_URL: parseStringEnv("WEBHOOK_URL", ""),
+		WEBHOOK_PATH: parseWebhookPath(),
+		WEBHOOK_HOST: parseStringEnv("WEBHOOK_HOST", "0.0.0.0"),
+		WEBHOOK_PORT: parseIntEnv("WEBHOOK_PORT", 8080, 1, 65535),
+		WEBHOOK_SECRET: parseWebhookSecret(),
+
 		// Healthcheck
 		ENABLE_FILE_HEALTHCHECK: parseBoolEnv("ENABLE_FILE_HEALTHCHECK", false),
 		LIVENESS_FILE: parseStringEnv("LIVENESS_FILE", "/tmp/bot-alive"),
@@ -279,6 +367,9 @@ function loadConfig(): BotConfig {
 			5000,
 			300000,
 		),
+		HEALTH_SERVER_ENABLED: parseBoolEnv("HEALTH_SERVER_ENABLED", false),
+		HEALTH_SERVER_HOST: parseStringEnv("HEALTH_SERVER_HOST", "0.0.0.0"),
+		HEALTH_SERVER_PORT: parseIntEnv("HEALTH_SERVER_PORT", 9090, 1, 65535),
 	};
 
 	// Log configuration summary (only in non-production to avoid leaking sensitive data)
@@ -3,6 +3,15 @@
  *
  * Detects patterns that could cause catastrophic backtracking or ReDoS
  */
+import type { TranslateFn } from "./i18n";
+import {
+	MessageBuilder,
+	formatted,
+	translateFormatted,
+	type FormattedText,
+} from "./messageBuilder";
+import { analyzeRedos, buildAttackString, type RedosAnalysis } from "./redos";
+import type { DangerPolicy } from "./types";
 
 /**
  * Represents a detected dangerous pattern
@@ -12,6 +21,8 @@ export interface DangerousPatternResult {
 	pattern: string;
 	issues: PatternIssue[];
 	complexityScore: number; // 0-100
+	/** The backtracking analysis the issues come from */
+	analysis: RedosAnalysis;
 }
 
 /**
@@ -22,249 +33,219 @@ export interface PatternIssue {
 	description: string;
 	severity: "low" | "medium" | "high";
 	suggestion?: string;
+	/** Values for the issue's localized description, strings shown as code */
+	variables?: Record<string, string | number>;
 }
 
+/**
+ * Message keys for the description and suggestion of each issue type
+ */
+const ISSUE_MESSAGE_KEYS: Record<
+	string,
+	{ description: string; suggestion: string }
+> = {
+	exponential_backtracking: {
+		description: "danger-exponential",
+		suggestion: "danger-exponential-suggestion",
+	},
+	polynomial_backtracking: {
+		description: "danger-polynomial",
+		suggestion: "danger-polynomial-suggestion",
+	},
+	unknown_backtracking: {
+		description: "danger-unknown",
+		suggestion: "danger-unknown-suggestion",
+	},
+};
+
+/**
+ * How many times the attack string repeats its pump in warnings, enough
+ * to take noticeable time without flooding the message
+ */
+const ATTACK_EXAMPLE_REPETITIONS = 10;
+
 /**
  * Detect dangerous patterns in a regex
+ *
+ * @param flags - Regex flags, which change what the pattern matches
  */
 export function detectDangerousPattern(
 	pattern: string,
+	flags = "",
 ): DangerousPatternResult {
+	const analysis = analyzeRedos(pattern, flags);
 	const issues: PatternIssue[] = [];
 	let complexityScore = 0;
+	const subexpression = analysis.culprit?.source ?? pattern;
 
-	// Check for nested quantifiers (e.g., (a+)+, (a*)*)
-	const nestedQuantifierMatch = checkNestedQuantifiers(pattern);
-	if (nestedQuantifierMatch) {
-		issues.push(nestedQuantifierMatch);
-		complexityScore += 40;
-	}
-
-	// Check for quantified alternation (e.g., (a|b)+)
-	const alternationMatch = checkQuantifiedAlternation(pattern);
-	if (alternationMatch) {
-		issues.push(alternationMatch);
-		complexityScore += 30;
-	}
-
-	// Check for multiple wildcards
-	const wildcardMatch = checkMultipleWildcards(pattern);
-	if (wildcardMatch) {
-		issues.push(wildcardMatch);
-		complexityScore += 25;
-	}
-
-	// Check for overlapping character classes with quantifiers
-	const overlappingMatch = checkOverlappingPatterns(pattern);
-	if (overlappingMatch) {
-		issues.push(overlappingMatch);
-		complexityScore += 20;
-	}
-
-	// Check for excessive quantifiers
-	const excessiveMatch = checkExcessiveQuantifiers(pattern);
-	if (excessiveMatch) {
-		issues.push(excessiveMatch);
-		complexityScore += 15;
-	}
-
-	// Check for polynomial-time patterns (less severe)
-	const polynomialMatch = checkPolynomialPatterns(pattern);
-	if (polynomialMatch) {
-		issues.push(polynomialMatch);
-		complexityScore += 10;
+	if (analysis.complexity === "exponential") {
+		issues.push({
+			type: "exponential_backtracking",
+			description: `In ${subexpression} the repeated parts can match the same text in many ways, so a failing match takes exponential time`,
+			severity: "high",
+			suggestion:
+				"Make the repeated parts unable to match the same text, e.g. (a+)+ → a+",
+			variables: { subexpression },
+		});
+		complexityScore = 100;
+	} else if (analysis.complexity === "polynomial") {
+		const degree = analysis.degree ?? 2;
+		issues.push({
+			type: "polynomial_backtracking",
+			description: `${subexpression} has overlapping repetitions, so a failing match takes polynomial time of degree ${degree}`,
+			severity: "medium",
+			suggestion:
+				"Make neighbouring repetitions match different characters, or anchor the pattern",
+			variables: { degree, subexpression },
+		});
+		complexityScore = Math.min(20 + 15 * degree, 80);
+	} else if (analysis.complexity === "unknown") {
+		// Too large to check, so it is treated like the worst case
+		issues.push({
+			type: "unknown_backtracking",
+			description:
+				"The pattern is too complex to check, so a failing match may take exponential time",
+			severity: "high",
+			suggestion: "Shorten the pattern, or split it into several commands",
+		});
+		complexityScore = 100;
 	}
 
 	return {
 		detected: issues.length > 0,
 		pattern,
 		issues,
-		complexityScore: Math.min(complexityScore, 100),
+		complexityScore,
+		analysis,
 	};
 }
 
 /**
- * Check for nested quantifiers like (a+)+, (a*)*, (a+)*
+ * Format some text as inline code
  */
-function checkNestedQuantifiers(pattern: string): PatternIssue | null {
-	// Pattern: group followed by quantifier, where group contains quantified element
-	const nestedQuantifierRegex = /\([^)]*[*+][^)]*\)[*+?]/;
-
-	if (nestedQuantifierRegex.test(pattern)) {
-		// More specific check - look for actual nested quantification
-		const specificNested =
-			/\([^)]*\+[^)]*\)\+|\([^)]*\*[^)]*\)\*|\([^)]*\+[^)]*\)\*/;
-
-		if (specificNested.test(pattern)) {
-			return {
-				type: "nested_quantifiers",
-				description:
-					"Nested quantifiers (e.g., (a+)+) can cause exponential execution time",
-				severity: "high",
-				suggestion:
-					"Consider using atomic groups (?>...) or possessive quantifiers (++ or *+)",
-			};
-		}
-	}
-
-	return null;
+function code(text: string): FormattedText {
+	return formatted(text, { type: "code" });
 }
 
 /**
- * Check for quantified alternation like (a|b)+, (foo|bar)*
+ * Append the issues of a result, each with its suggestion
  */
-function checkQuantifiedAlternation(pattern: string): PatternIssue | null {
-	// Pattern: alternation inside group, followed by quantifier
-	const quantifiedAltRegex = /\([^)]*\|[^)]*\)[*+?]/;
-
-	if (quantifiedAltRegex.test(pattern)) {
-		return {
-			type: "quantified_alternation",
-			description:
-				"Quantified alternation (e.g., (a|b)+) can cause exponential backtracking on failure",
-			severity: "high",
-			suggestion:
-				"Consider using non-capturing groups or restructuring the pattern",
-		};
+function addIssues(
+	message: MessageBuilder,
+	result: DangerousPatternResult,
+	t: TranslateFn,
+): void {
+	for (const issue of result.issues) {
+		const severityEmoji =
+			issue.severity === "high"
+				? "🔴"
+				: issue.severity === "medium"
+					? "🟡"
+					: "🟢";
+		const keys = ISSUE_MESSAGE_KEYS[issue.type];
+		const variables = Object.fromEntries(
+			Object.entries(issue.variables ?? {}).map(([name, value]) => [
+				name,
+				typeof value === "string" ? code(value) : value,
+			]),
+		);
+		message
+			.add(`\n${severityEmoji} `)
+			.add(
+				keys
+					? translateFormatted(t, keys.description, variables)
+					: issue.description,
+			);
+		if (issue.suggestion) {
+			message.add(`\n   💡 ${keys ? t(keys.suggestion) : issue.suggestion}`);
+		}
 	}
-
-	return null;
 }
 
 /**
- * Check for multiple wildcards in sequence
+ * Format a warning message for dangerous patterns
+ *
+ * @param sandboxTimeoutMs - Time limit the pattern runs with, if sandboxed
+ * @returns The warning, with empty text if nothing was detected
  */
-function checkMultipleWildcards(pattern: string): PatternIssue | null {
-	// Pattern: multiple .* or .+ in sequence
-	const multipleWildcardsRegex = /(\.\*[^)]*\.\*|\.\+[^)]*\.\+)/;
-
-	if (multipleWildcardsRegex.test(pattern)) {
-		return {
-			type: "multiple_wildcards",
-			description:
-				"Multiple wildcards (e.g., .*.*) can cause polynomial or exponential backtracking",
-			severity: "medium",
-			suggestion: "Consider using more specific patterns or anchors (^, $)",
-		};
+export function formatDangerousPatternWarning(
+	result: DangerousPatternResult,
+	t: TranslateFn,
+	sandboxTimeoutMs?: number,
+): FormattedText {
+	const message = new MessageBuilder();
+	if (!result.detected) {
+		return message.build();
 	}
 
-	return null;
-}
-
-/**
- * Check for overlapping character classes with quantifiers
- */
-function checkOverlappingPatterns(pattern: string): PatternIssue | null {
-	// Pattern: similar character classes with quantifiers that can overlap
-	const overlappingRegex = /(\[\w+\]|\\w|\.)[*+]\s*(\[\w+\]|\\w|\.)[*+]/;
-
-	if (overlappingRegex.test(pattern)) {
-		return {
-			type: "overlapping_patterns",
-			description:
-				"Overlapping character classes with quantifiers can cause backtracking",
-			severity: "medium",
-			suggestion: "Make character classes mutually exclusive or add anchors",
-		};
+	message
+		.add(`⚠️ ${t("danger-title")}\n\n`)
+		.add(
+			translateFormatted(t, "danger-pattern", {
+				pattern: code(result.pattern),
+			}),
+		)
+		.add(`\n${t("danger-riskScore", { score: result.complexityScore })}\n`)
+		.add(`\n${t("danger-issuesFound")}`);
+	addIssues(message, result, t);
+
+	const { attack } = result.analysis;
+	if (attack) {
+		const example = buildAttackString(attack, ATTACK_EXAMPLE_REPETITIONS);
+		message.add("\n\n").add(
+			translateFormatted(t, "danger-attack", {
+				example: code(JSON.stringify(example)),
+			}),
+		);
 	}
 
-	return null;
-}
-
-/**
- * Check for excessive quantifier usage
- */
-function checkExcessiveQuantifiers(pattern: string): PatternIssue | null {
-	// Count quantifiers
-	const quantifierMatches = pattern.match(/[*+?]|\{\d+,?\d*\}/g);
-
-	if (quantifierMatches && quantifierMatches.length >= 4) {
-		return {
-			type: "excessive_quantifiers",
-			description: `Pattern contains ${quantifierMatches.length} quantifiers, which may impact performance`,
-			severity: "low",
-			suggestion:
-				"Consider simplifying the pattern or using specific character classes",
-		};
-	}
+	const footer =
+		sandboxTimeoutMs === undefined
+			? t("danger-footer")
+			: t("danger-footerSandbox", { seconds: sandboxTimeoutMs / 1000 });
+	message.add(`\n\n${footer}`);
 
-	return null;
+	return message.build();
 }
 
 /**
- * Check for polynomial-time patterns (less severe but worth noting)
+ * Check whether a chat's policy refuses to run a pattern
+ *
+ * Only high-severity issues are refused; the others still run with a warning.
  */
-function checkPolynomialPatterns(pattern: string): PatternIssue | null {
-	// Pattern with unbounded repetition and optional components
-	const polynomialRegex = /\(.*\*.*\?.*\)|\(.*\?.*\*.*\)/;
-
-	if (polynomialRegex.test(pattern)) {
-		return {
-			type: "polynomial_complexity",
-			description: "Pattern may have polynomial complexity on certain inputs",
-			severity: "low",
-			suggestion: "Consider using possessive quantifiers or atomic groups",
-		};
-	}
-
-	return null;
+export function isBlockedByPolicy(
+	result: DangerousPatternResult,
+	policy: DangerPolicy,
+): boolean {
+	return (
+		policy === "block" &&
+		result.issues.some((issue) => issue.severity === "high")
+	);
 }
 
 /**
- * Format a warning message for dangerous patterns
+ * Format the message for a pattern the chat's policy refused to run
  */
-export function formatDangerousPatternWarning(
+export function formatDangerousPatternBlocked(
 	result: DangerousPatternResult,
-): string {
-	if (!result.detected) {
-		return "";
-	}
-
-	const lines: string[] = [];
-
-	lines.push("⚠️ Warning: This pattern may cause performance issues\n");
-	lines.push(`Pattern: \`${result.pattern}\``);
-	lines.push(`Risk Score: ${result.complexityScore}/100\n`);
-
-	lines.push("Issues found:");
-	for (const issue of result.issues) {
-		const severityEmoji =
-			issue.severity === "high"
-				? "🔴"
-				: issue.severity === "medium"
-					? "🟡"
-					: "🟢";
-		lines.push(`${severityEmoji} ${issue.description}`);
-		if (issue.suggestion) {
-			lines.push(`   💡 ${issue.suggestion}`);
-		}
-	}
-
-	lines.push(
-		"\nThe bot will still execute this pattern, but it may be slow on certain inputs.",
+	t: TranslateFn,
+): FormattedText {
+	const message = new MessageBuilder().add(`🚫 ${t("danger-blocked")}\n\n`).add(
+		translateFormatted(t, "danger-pattern", {
+			pattern: code(result.pattern),
+		}),
 	);
-
-	return lines.join("\n");
+	addIssues(message, result, t);
+	return message.build();
 }
 
 /**
  * Quick check if a pattern is safe (for simple cases)
  */
 export function isSimplePattern(pattern: string): boolean {
-	// Simple patterns don't need checking
-	// - Literal strings
-	// - Simple character classes without quantifiers
-	// - Anchored patterns with limited complexity
-
-	if (pattern.length < 5) return true;
-
-	// Check for any quantifiers
-	if (!/[*+?]|\{/.test(pattern)) return true;
-
-	// Check for complex group structures
-	if (/\([^)]*\|/.test(pattern)) return false;
-
-	return false;
+	// Backtracking needs something repeated, so patterns without any
+	// quantifier can't be slow
+	return !/[*+?]|\{/.test(pattern);
 }
 
 /**
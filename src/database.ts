@@ -1,12 +1,51 @@
 import { sql, SQL } from "bun";
+import type { MessageEntity } from "grammy/types";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
 import { CONFIG } from "./config";
 import { Logger } from "./logger";
-import { SED_PATTERN, getRegexFlags } from "./utils";
+import { RegexError } from "./errors";
+import { getCachedRegex, getRegexFlags, isSedCommand } from "./utils";
 import type { MyContext } from "./i18n";
+import type { FormattedText } from "./messageBuilder";
+import type {
+	ChatSettings,
+	CorrectionVersion,
+	ParsedSedCommand,
+} from "./types";
 
 const logger = new Logger("Database");
-const { CLEANUP_INTERVAL_MS, MAX_HISTORY_PER_CHAT, HISTORY_QUERY_LIMIT } =
-	CONFIG;
+const {
+	CLEANUP_INTERVAL_MS,
+	MAX_HISTORY_PER_CHAT,
+	HISTORY_QUERY_LIMIT,
+	HISTORY_INCLUDE_BOT_REPLIES,
+} = CONFIG;
+
+/**
+ * Opens the SQLite database used by the bot
+ *
+ * ":memory:" keeps everything in RAM (lost on restart). Any other value is
+ * treated as a file path; missing parent directories are created.
+ *
+ * @param path - Database file path or ":memory:"
+ * @returns The SQLite database instance
+ */
+export function openDatabase(path: string): SQL {
+	if (path === ":memory:") {
+		return new SQL({ adapter: "sqlite", filename: ":memory:" });
+	}
+	mkdirSync(dirname(path), { recursive: true });
+	return new SQL({ adapter: "sqlite", filename: path });
+}
+
+/**
+ * Formats a date the same way SQLite's CURRENT_TIMESTAMP does
+ * (UTC, "YYYY-MM-DD HH:MM:SS") so timestamps compare correctly as strings.
+ */
+function toSqliteTimestamp(date: Date): string {
+	return date.toISOString().slice(0, 19).replace("T", " ");
+}
 
 /**
  * Service class for managing database operations
@@ -18,16 +57,24 @@ export class DatabaseService {
 	/** SQLite database instance */
 	private db: SQL;
 
+	/** Whether the history search can pick the bot's own corrections */
+	private includeBotReplies: boolean;
+
 	/**
 	 * Creates a new DatabaseService instance
 	 * @param database - The SQLite database instance to use
+	 * @param includeBotReplies - Search bot corrections in history (defaults to HISTORY_INCLUDE_BOT_REPLIES)
 	 */
-	constructor(database: SQL) {
+	constructor(
+		database: SQL,
+		includeBotReplies: boolean = HISTORY_INCLUDE_BOT_REPLIES,
+	) {
 		this.db = database;
+		this.includeBotReplies = includeBotReplies;
 	}
 
 	/**
-	 * Cleans up old entries from message history and bot replies tables
+	 * Cleans up old entries from message history, bot replies and correction versions
 	 *
 	 * Removes entries older than CLEANUP_INTERVAL_MS (default 48 hours).
 	 * Should be called periodically to prevent memory bloat.
@@ -35,11 +82,15 @@ export class DatabaseService {
 	 * @returns Promise that resolves when cleanup is complete
 	 */
 	async cleanupOldEntries(): Promise<void> {
-		const cutoffTime = new Date(Date.now() - CLEANUP_INTERVAL_MS).toISOString();
+		const cutoffTime = toSqliteTimestamp(
+			new Date(Date.now() - CLEANUP_INTERVAL_MS),
+		);
 		const historyResult = await this
 			.db`DELETE FROM message_history WHERE timestamp < ${cutoffTime}`;
 		const repliesResult = await this
 			.db`DELETE FROM bot_replies WHERE timestamp < ${cutoffTime}`;
+		await this
+			.db`DELETE FROM correction_versions WHERE timestamp < ${cutoffTime}`;
 		if (historyResult.count > 0 || repliesResult.count > 0) {
 			logger.info(
 				`Cleaned up ${historyResult.count} history entries and ${repliesResult.count} reply mappings.`,
@@ -51,19 +102,21 @@ export class DatabaseService {
 	 * Stores a message in the history table
 	 *
 	 * If the chat has reached MAX_HISTORY_PER_CHAT, oldest entries are removed.
-	 * Messages matching SED_PATTERN (sed commands) are not stored.
+	 * Sed commands (with any delimiter) are not stored.
 	 *
 	 * @param chatId - The Telegram chat ID
 	 * @param messageId - The Telegram message ID
 	 * @param text - The message text content
+	 * @param entities - Formatting entities of the text, if any
 	 * @returns Promise that resolves when storage is complete
 	 */
 	async storeMessageInHistory(
 		chatId: number,
 		messageId: number,
 		text: string | undefined,
+		entities?: MessageEntity[],
 	): Promise<void> {
-		if (text && SED_PATTERN.test(text)) return;
+		if (text && isSedCommand(text)) return;
 		const [{ count }] = await this
 			.db`SELECT COUNT(*) as count FROM message_history WHERE chat_id = ${chatId}`;
 		if (count >= MAX_HISTORY_PER_CHAT) {
@@ -71,58 +124,107 @@ export class DatabaseService {
 				.db`DELETE FROM message_history WHERE chat_id = ${chatId} AND message_id IN (SELECT message_id FROM message_history WHERE chat_id = ${chatId} ORDER BY timestamp ASC LIMIT ${count - MAX_HISTORY_PER_CHAT + 1})`;
 		}
 		await this
-			.db`INSERT OR REPLACE INTO message_history (chat_id, message_id, text) VALUES (${chatId}, ${messageId}, ${text ?? ""})`;
+			.db`INSERT OR REPLACE INTO message_history (chat_id, message_id, text, entities) VALUES (${chatId}, ${messageId}, ${text ?? ""}, ${serializeEntities(entities)})`;
 	}
 
+	/**
+	 * Stores a bot correction in the history table
+	 *
+	 * Only the corrected text is stored, so a later command can refine it,
+	 * linked to the message it corrects.
+	 *
+	 * @param chatId - The Telegram chat ID
+	 * @param messageId - The bot reply's message ID
+	 * @param text - The corrected text
+	 * @param entities - Formatting entities of the text, if any
+	 * @param sourceMessageId - The message the reply corrects
+	 * @returns Promise that resolves when storage is complete
+	 */
 	async storeBotReplyInHistory(
 		chatId: number,
 		messageId: number,
 		text: string | undefined,
+		entities: MessageEntity[] | undefined,
+		sourceMessageId: number,
 	): Promise<void> {
 		await this
-			.db`INSERT OR REPLACE INTO message_history (chat_id, message_id, text) VALUES (${chatId}, ${messageId}, ${text ?? ""})`;
+			.db`INSERT OR REPLACE INTO message_history (chat_id, message_id, text, entities, source_message_id) VALUES (${chatId}, ${messageId}, ${text ?? ""}, ${serializeEntities(entities)}, ${sourceMessageId})`;
 	}
 
 	/**
 	 * Finds a target message for sed substitution
 	 *
 	 * First checks for a reply-to message, then searches through
-	 * recent history for a message matching the regex pattern.
+	 * recent history for a message matching the regex pattern. A reply to a
+	 * bot correction targets the stored corrected text rather than the reply
+	 * as shown, so corrections can be refined step by step.
 	 *
 	 * @param ctx - The Telegram bot context
-	 * @param match - The regex match array from the sed command
+	 * @param command - The parsed sed command
 	 * @param excludeMessageId - Optional message ID to exclude from search (for edits)
-	 * @returns Object containing target message text and ID, or empty object if not found
+	 * @param matchTarget - Decides which history message the command applies
+	 *   to, instead of matching on this thread (e.g. to run a risky pattern
+	 *   in the worker pool)
+	 * @returns Object containing target message text, entities and ID, or empty object if not found
+	 * @throws RegexError if the history is searched with an invalid pattern
 	 */
 	async findTargetMessage(
 		ctx: MyContext,
-		match: RegExpMatchArray,
+		command: ParsedSedCommand,
 		excludeMessageId?: number,
-	): Promise<{ targetMsgText?: string; targetMsgId?: number }> {
-		if (ctx.msg?.reply_to_message) {
+		matchTarget?: (text: string) => boolean | Promise<boolean>,
+	): Promise<{
+		targetMsgText?: string;
+		targetMsgEntities?: MessageEntity[];
+		targetMsgId?: number;
+	}> {
+		const replyTo = ctx.msg?.reply_to_message;
+		const chatId = ctx.chat?.id;
+		if (replyTo && chatId !== undefined) {
+			const [correction] = await this
+				.db`SELECT text, entities FROM message_history WHERE chat_id = ${chatId} AND message_id = ${replyTo.message_id} AND source_message_id IS NOT NULL`;
+			if (correction) {
+				logger.debug("Found target in a replied-to bot correction.");
+				return {
+					targetMsgText: correction.text,
+					targetMsgEntities: parseEntities(correction.entities),
+					targetMsgId: replyTo.message_id,
+				};
+			}
+		}
+		if (replyTo) {
 			logger.debug("Found target in reply_to_message.");
 			return {
-				targetMsgText:
-					ctx.msg.reply_to_message.text || ctx.msg.reply_to_message.caption,
-				targetMsgId: ctx.msg.reply_to_message.message_id,
+				targetMsgText: replyTo.text || replyTo.caption,
+				targetMsgEntities: replyTo.entities ?? replyTo.caption_entities,
+				targetMsgId: replyTo.message_id,
 			};
 		}
-		const chatId = ctx.chat?.id;
 		if (chatId === undefined) return {};
-		const fr = match[1].replace(/\\\//g, "/");
-		const regex = new RegExp(fr, getRegexFlags(match[3]).flags);
+		const matches = matchTarget ?? createTargetMatcher(command);
 		const rows = await this
-			.db`SELECT message_id, text FROM message_history WHERE chat_id = ${chatId} ${excludeMessageId ? sql`AND message_id != ${excludeMessageId}` : sql``} ORDER BY timestamp DESC LIMIT ${HISTORY_QUERY_LIMIT}`;
+			.db`SELECT message_id, text, entities FROM message_history WHERE chat_id = ${chatId} ${excludeMessageId ? sql`AND message_id != ${excludeMessageId}` : sql``} ${this.includeBotReplies ? sql`` : sql`AND source_message_id IS NULL`} ORDER BY timestamp DESC LIMIT ${HISTORY_QUERY_LIMIT}`;
 		for (const row of rows) {
-			if (row.text && regex.test(row.text)) {
+			if (row.text && (await matches(row.text))) {
 				logger.debug(`Found target in history (msg_id: ${row.message_id}).`);
-				return { targetMsgText: row.text, targetMsgId: row.message_id };
+				return {
+					targetMsgText: row.text,
+					targetMsgEntities: parseEntities(row.entities),
+					targetMsgId: row.message_id,
+				};
 			}
 		}
 		logger.debug("No matching target found in history.");
 		return {};
 	}
 
+	/**
+	 * Check that the database answers queries (used by readiness probes)
+	 */
+	async ping(): Promise<void> {
+		await this.db`SELECT 1`;
+	}
+
 	async storeBotReplyMapping(
 		targetMessageId: number,
 		chatId: number,
@@ -142,6 +244,105 @@ export class DatabaseService {
 		)[0]?.bot_message_id;
 	}
 
+	/**
+	 * Find the message a bot reply corrects
+	 *
+	 * @param botMessageId - The ID of the bot's reply
+	 * @param chatId - The Telegram chat ID
+	 * @returns The target message ID, or undefined if it isn't a correction
+	 */
+	async getBotReplyTarget(
+		botMessageId: number,
+		chatId: number,
+	): Promise<number | undefined> {
+		return (
+			await this
+				.db`SELECT target_message_id FROM bot_replies WHERE bot_message_id = ${botMessageId} AND chat_id = ${chatId}`
+		)[0]?.target_message_id;
+	}
+
+	/**
+	 * Record a result shown for a target as its newest version
+	 *
+	 * Versions that were undone are dropped, as a new result replaces them
+	 * like typing after an undo does in an editor.
+	 *
+	 * @param message - The reply as shown
+	 * @param result - The corrected text alone (defaults to the reply)
+	 */
+	async recordCorrectionVersion(
+		chatId: number,
+		targetMessageId: number,
+		message: FormattedText,
+		result: FormattedText = message,
+	): Promise<void> {
+		await this
+			.db`DELETE FROM correction_versions WHERE chat_id = ${chatId} AND target_message_id = ${targetMessageId} AND undone = 1`;
+		await this.db`
+			INSERT INTO correction_versions (chat_id, target_message_id, version, text, entities, result_text, result_entities)
+			SELECT ${chatId}, ${targetMessageId}, COALESCE(MAX(version), 0) + 1, ${message.text}, ${serializeEntities(message.entities)}, ${result.text}, ${serializeEntities(result.entities)}
+			FROM correction_versions
+			WHERE chat_id = ${chatId} AND target_message_id = ${targetMessageId}
+		`;
+	}
+
+	/**
+	 * Find the version of a target's result that undo or redo would show
+	 *
+	 * The current version is the newest one not undone. Undo goes back to the
+	 * one before it, redo forward to the oldest undone one. Nothing changes
+	 * until setCurrentCorrectionVersion is called.
+	 *
+	 * @returns The version, or undefined if there is nothing to undo or redo
+	 */
+	async findCorrectionVersion(
+		chatId: number,
+		targetMessageId: number,
+		direction: "undo" | "redo",
+	): Promise<CorrectionVersion | undefined> {
+		const [row] =
+			direction === "undo"
+				? await this.db`
+					SELECT version, text, entities, result_text, result_entities FROM correction_versions
+					WHERE chat_id = ${chatId} AND target_message_id = ${targetMessageId}
+						AND version < (
+							SELECT MAX(version) FROM correction_versions
+							WHERE chat_id = ${chatId} AND target_message_id = ${targetMessageId} AND undone = 0
+						)
+					ORDER BY version DESC LIMIT 1
+				`
+				: await this.db`
+					SELECT version, text, entities, result_text, result_entities FROM correction_versions
+					WHERE chat_id = ${chatId} AND target_message_id = ${targetMessageId} AND undone = 1
+					ORDER BY version ASC LIMIT 1
+				`;
+		if (!row) return undefined;
+		// Versions recorded before the corrected text was kept show it alone
+		const entities = parseEntities(row.entities) ?? [];
+		return {
+			version: row.version,
+			text: row.text,
+			entities,
+			resultText: row.result_text ?? row.text,
+			resultEntities:
+				row.result_text === null
+					? entities
+					: (parseEntities(row.result_entities) ?? []),
+		};
+	}
+
+	/**
+	 * Make a version the current result of a target, marking later ones undone
+	 */
+	async setCurrentCorrectionVersion(
+		chatId: number,
+		targetMessageId: number,
+		version: number,
+	): Promise<void> {
+		await this
+			.db`UPDATE correction_versions SET undone = (version > ${version}) WHERE chat_id = ${chatId} AND target_message_id = ${targetMessageId}`;
+	}
+
 	async findMessagesInHistory(
 		chatId: number,
 	): Promise<Array<{ message_id: number; text: string | null }>> {
@@ -162,5 +363,117 @@ export class DatabaseService {
 
 	async deleteAllReplies(chatId: number): Promise<void> {
 		await this.db`DELETE FROM bot_replies WHERE chat_id = ${chatId}`;
+		await this.db`DELETE FROM correction_versions WHERE chat_id = ${chatId}`;
+	}
+
+	/**
+	 * Get the settings of a chat (empty if its admins never changed any)
+	 */
+	async getChatSettings(chatId: number): Promise<ChatSettings> {
+		const [row] = await this
+			.db`SELECT * FROM chat_settings WHERE chat_id = ${chatId}`;
+		return {
+			language: row?.language ?? undefined,
+			tips: toOptionalBoolean(row?.tips),
+			dangerWarnings: toOptionalBoolean(row?.danger_warnings),
+			dangerPolicy: row?.danger_policy ?? undefined,
+			replyOnly: toOptionalBoolean(row?.reply_only),
+			maxChainLength: row?.max_chain_length ?? undefined,
+			allowedFlags: row?.allowed_flags ?? undefined,
+		};
+	}
+
+	/**
+	 * Change some settings of a chat, keeping the others
+	 *
+	 * @param chatId - The Telegram chat ID
+	 * @param changes - Settings to change; an undefined value resets it
+	 * @returns The chat's settings after the change
+	 */
+	async updateChatSettings(
+		chatId: number,
+		changes: Partial<ChatSettings>,
+	): Promise<ChatSettings> {
+		const settings = { ...(await this.getChatSettings(chatId)), ...changes };
+		await this.db`
+			INSERT INTO chat_settings (
+				chat_id, language, tips, danger_warnings, danger_policy,
+				reply_only, max_chain_length, allowed_flags
+			)
+			VALUES (
+				${chatId},
+				${settings.language ?? null},
+				${toSqliteBoolean(settings.tips)},
+				${toSqliteBoolean(settings.dangerWarnings)},
+				${settings.dangerPolicy ?? null},
+				${toSqliteBoolean(settings.replyOnly)},
+				${settings.maxChainLength ?? null},
+				${settings.allowedFlags ?? null}
+			)
+			ON CONFLICT (chat_id) DO UPDATE SET
+				language = excluded.language,
+				tips = excluded.tips,
+				danger_warnings = excluded.danger_warnings,
+				danger_policy = excluded.danger_policy,
+				reply_only = excluded.reply_only,
+				max_chain_length = excluded.max_chain_length,
+				allowed_flags = excluded.allowed_flags,
+				updated_at = CURRENT_TIMESTAMP
+		`;
+		return settings;
+	}
+}
+
+// SQLite has no boolean type; NULL stands for "not set"
+function toSqliteBoolean(value: boolean | undefined): number | null {
+	return value === undefined ? null : Number(value);
+}
+
+function toOptionalBoolean(
+	value: number | null | undefined,
+): boolean | undefined {
+	return value === null || value === undefined ? undefined : value === 1;
+}
+
+// Plain messages have no entities and store NULL
+function serializeEntities(
+	entities: MessageEntity[] | undefined,
+): string | null {
+	return entities && entities.length > 0 ? JSON.stringify(entities) : null;
+}
+
+function parseEntities(
+	value: string | null | undefined,
+): MessageEntity[] | undefined {
+	return value ? (JSON.parse(value) as MessageEntity[]) : undefined;
+}
+
+/**
+ * Build a predicate deciding whether a history message can be a target
+ *
+ * Substitutions need the pattern to match; transliterations need the text to
+ * contain at least one of the source characters.
+ *
+ * @throws RegexError if the pattern doesn't compile
+ */
+function createTargetMatcher(
+	command: ParsedSedCommand,
+): (text: string) => boolean {
+	if (command.command === "y") {
+		const sourceChars = new Set(command.source);
+		return (text) => [...text].some((char) => sourceChars.has(char));
+	}
+	// Without g/y a cached regex keeps no lastIndex state between rows
+	const flags = getRegexFlags(command.flags).flags.replace(/[gy]/g, "");
+	let regex: RegExp;
+	try {
+		regex = getCachedRegex(command.pattern, flags);
+	} catch (error) {
+		throw new RegexError(
+			command.pattern,
+			flags,
+			error instanceof Error ? error : undefined,
+		);
 	}
+	return (text) => regex.test(text);
 }
@@ -0,0 +1,155 @@
+/**
+ * Word-level diff of a substitution
+ *
+ * Compares the text before and after a chain of commands so the d flag can
+ * show what changed, with removed text struck through.
+ */
+import {
+	MessageBuilder,
+	formatted,
+	type FormattedText,
+} from "./messageBuilder";
+
+/**
+ * A run of text that both versions share, or that only one of them has
+ */
+export interface DiffSegment {
+	type: "equal" | "removed" | "inserted";
+	text: string;
+}
+
+/**
+ * Largest table of token pairs compared; bigger changes are shown as one
+ * removal and one insertion instead of a detailed diff
+ */
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Words, runs of whitespace, and single other characters
+const TOKEN_PATTERN = /[\p{L}\p{N}\p{M}_]+|\s+|[^]/gu;
+
+function tokenize(text: string): string[] {
+	return text.match(TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * Diff two texts word by word
+ *
+ * Finds a longest common subsequence of tokens, after setting aside the
+ * common start and end. Adjacent segments of the same type are merged, and
+ * within a change the removal comes before the insertion.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+	const a = tokenize(before);
+	const b = tokenize(after);
+
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const segments: DiffSegment[] = [];
+	const push = (type: DiffSegment["type"], text: string) => {
+		if (!text) return;
+		const last = segments[segments.length - 1];
+		if (last?.type === type) {
+			last.text += text;
+		} else {
+			segments.push({ type, text });
+		}
+	};
+
+	push("equal", a.slice(0, prefix).join(""));
+	const middleA = a.slice(prefix, a.length - suffix);
+	const middleB = b.slice(prefix, b.length - suffix);
+	for (const segment of diffTokens(middleA, middleB)) {
+		push(segment.type, segment.text);
+	}
+	push("equal", a.slice(a.length - suffix).join(""));
+	return segments;
+}
+
+/**
+ * Diff two token lists with a longest common subsequence table
+ */
+function diffTokens(a: string[], b: string[]): DiffSegment[] {
+	if (
+		a.length === 0 ||
+		b.length === 0 ||
+		a.length * b.length > MAX_DIFF_CELLS
+	) {
+		return [
+			{ type: "removed", text: a.join("") },
+			{ type: "inserted", text: b.join("") },
+		];
+	}
+
+	// lengths[i * width + j]: LCS length of a[i..] and b[j..]
+	const width = b.length + 1;
+	const lengths = new Uint32Array((a.length + 1) * width);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i * width + j] =
+				a[i] === b[j]
+					? lengths[(i + 1) * width + j + 1] + 1
+					: Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+		}
+	}
+
+	const segments: DiffSegment[] = [];
+	let removed = "";
+	let inserted = "";
+	const flush = () => {
+		segments.push(
+			{ type: "removed", text: removed },
+			{ type: "inserted", text: inserted },
+		);
+		removed = "";
+		inserted = "";
+	};
+
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			flush();
+			segments.push({ type: "equal", text: a[i] });
+			i++;
+			j++;
+		} else if (
+			j >= b.length ||
+			(i < a.length &&
+				lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+		) {
+			removed += a[i++];
+		} else {
+			inserted += b[j++];
+		}
+	}
+	flush();
+	return segments;
+}
+
+/**
+ * Render a diff: removed text struck through, inserted text bold and underlined
+ */
+export function formatDiff(segments: DiffSegment[]): FormattedText {
+	const message = new MessageBuilder();
+	for (const segment of segments) {
+		if (segment.type === "removed") {
+			message.strikethrough(segment.text);
+		} else if (segment.type === "inserted") {
+			message.bold(formatted(segment.text, { type: "underline" }));
+		} else {
+			message.add(segment.text);
+		}
+	}
+	return message.build();
+}
@@ -0,0 +1,125 @@
+/**
+ * Message entity helpers
+ *
+ * Telegram describes formatting as entities: spans of the text given by an
+ * offset and length in UTF-16 code units. These helpers move the formatting
+ * of a message along with its text as substitutions change it.
+ */
+import type { MessageEntity } from "grammy/types";
+import type { TextEdit } from "./types";
+
+/**
+ * Entity types that carry formatting chosen by the sender
+ *
+ * Mentions, hashtags, links written out as text and the like are detected by
+ * Telegram in the text itself, so they are found again in the result and
+ * must not be carried over onto text that may no longer be a link.
+ */
+const FORMATTING_ENTITY_TYPES = new Set<MessageEntity["type"]>([
+	"bold",
+	"italic",
+	"underline",
+	"strikethrough",
+	"spoiler",
+	"blockquote",
+	"expandable_blockquote",
+	"code",
+	"pre",
+	"text_link",
+	"text_mention",
+	"custom_emoji",
+]);
+
+/**
+ * Keep only the entities that format the text
+ */
+export function formattingEntities(
+	entities: readonly MessageEntity[] | undefined,
+): MessageEntity[] {
+	return (entities ?? []).filter((entity) =>
+		FORMATTING_ENTITY_TYPES.has(entity.type),
+	);
+}
+
+/**
+ * Move a position of the input to the output of a command
+ *
+ * Positions in unchanged text move with it. A position inside a replaced
+ * span snaps to the replacement's edge on the entity's side, so an entity
+ * only covers a replacement when the whole replaced text was inside it.
+ *
+ * @param side - Whether the position starts or ends an entity
+ */
+function mapPosition(
+	position: number,
+	edits: readonly TextEdit[],
+	side: "start" | "end",
+): number {
+	let shift = 0;
+	for (const edit of edits) {
+		// Text inserted at the position joins the entity on either side
+		const after =
+			side === "start"
+				? edit.start >= position
+				: edit.start > position ||
+					(edit.start === position && edit.end > position);
+		if (after) break;
+		if (edit.end > position) {
+			return side === "start"
+				? edit.start + shift + edit.length
+				: edit.start + shift;
+		}
+		shift += edit.length - (edit.end - edit.start);
+	}
+	return position + shift;
+}
+
+/**
+ * Move entities through the edits of a command
+ *
+ * Entities whose text was replaced entirely disappear. A custom emoji is
+ * only kept while its emoji is untouched, as it can't stand for other text.
+ *
+ * @param edits - Replaced spans of the input, in order and not overlapping
+ */
+export function remapEntities(
+	entities: readonly MessageEntity[],
+	edits: readonly TextEdit[],
+): MessageEntity[] {
+	if (edits.length === 0) return [...entities];
+	const remapped: MessageEntity[] = [];
+	for (const entity of entities) {
+		const end = entity.offset + entity.length;
+		if (entity.type === "custom_emoji") {
+			if (edits.some((edit) => edit.start < end && edit.end > entity.offset)) {
+				continue;
+			}
+			// Mapped like an end so text inserted before it stays outside
+			const offset = mapPosition(entity.offset, edits, "end");
+			remapped.push({ ...entity, offset });
+			continue;
+		}
+		const newStart = mapPosition(entity.offset, edits, "start");
+		const newEnd = mapPosition(end, edits, "end");
+		if (newEnd > newStart) {
+			remapped.push({ ...entity, offset: newStart, length: newEnd - newStart });
+		}
+	}
+	return remapped;
+}
+
+/**
+ * Cut entities down to the first `length` characters of their text
+ */
+export function truncateEntities(
+	entities: readonly MessageEntity[],
+	length: number,
+): MessageEntity[] {
+	return entities
+		.filter((entity) => entity.offset < length)
+		.map((entity) =>
+			entity.offset + entity.length > length
+				? { ...entity, length: length - entity.offset }
+				: entity,
+		);
+}
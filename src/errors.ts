@@ -3,6 +3,8 @@
  *
  * Provides granular error types with context and user-friendly messages
  */
+import { GrammyError, HttpError } from "grammy";
+import type { TranslateFn } from "./i18n";
 
 /**
  * Base error class for all bot errors
@@ -28,9 +30,10 @@ export class BotError extends Error {
 
 	/**
 	 * Get user-friendly error message
+	 * @param t - Translate function of the user's locale (usually ctx.t)
 	 */
-	getUserMessage(): string {
-		return this.message;
+	getUserMessage(t: TranslateFn): string {
+		return `❌ ${t("error-unexpected")}`;
 	}
 }
 
@@ -53,8 +56,8 @@ export class RegexError extends BotError {
 		this.flags = flags;
 	}
 
-	getUserMessage(): string {
-		return `❌ Invalid regex pattern. Check your syntax and try again.`;
+	getUserMessage(t: TranslateFn): string {
+		return `❌ ${t("error-invalidRegex")}`;
 	}
 }
 
@@ -84,14 +87,14 @@ export class TelegramAPIError extends BotError {
 		this.retryable = retryable;
 	}
 
-	getUserMessage(): string {
+	getUserMessage(t: TranslateFn): string {
 		if (this.statusCode === 429) {
-			return "⏳ Rate limit hit. Please wait a moment before trying again.";
+			return `⏳ ${t("error-telegramRateLimit")}`;
 		}
 		if (this.statusCode && this.statusCode >= 500) {
-			return "🔧 Telegram is having issues. Please try again in a moment.";
+			return `🔧 ${t("error-telegramUnavailable")}`;
 		}
-		return "❌ Something went wrong. Please try again.";
+		return `❌ ${t("error-telegramAPI")}`;
 	}
 }
 
@@ -114,9 +117,9 @@ export class RateLimitError extends BotError {
 		this.retryAfter = retryAfter;
 	}
 
-	getUserMessage(): string {
+	getUserMessage(t: TranslateFn): string {
 		const seconds = Math.ceil(this.retryAfter / 1000);
-		return `⏳ You're sending commands too fast. Please wait ${seconds} second${seconds !== 1 ? "s" : ""}.`;
+		return `⏳ ${t("error-rateLimit", { seconds })}`;
 	}
 }
 
@@ -139,8 +142,8 @@ export class WorkerError extends BotError {
 		this.workerId = workerId;
 	}
 
-	getUserMessage(): string {
-		return "🔧 Processing error. Please try again with a simpler pattern.";
+	getUserMessage(t: TranslateFn): string {
+		return `🔧 ${t("error-workerTimeout")}`;
 	}
 }
 
@@ -163,8 +166,8 @@ export class CircuitBreakerError extends BotError {
 		this.openUntil = openUntil;
 	}
 
-	getUserMessage(): string {
-		return "🔧 Service temporarily unavailable. Please try again later.";
+	getUserMessage(t: TranslateFn): string {
+		return `🔧 ${t("error-circuitOpen")}`;
 	}
 }
 
@@ -196,3 +199,16 @@ export function isCircuitBreakerError(
 ): error is CircuitBreakerError {
 	return error instanceof CircuitBreakerError;
 }
+
+/**
+ * Whether a failed Telegram API call points at Telegram itself being
+ * unavailable (network failure, rate limiting or a server error) rather than
+ * at a problem with the request, such as a deleted message
+ */
+export function isTelegramOutage(error: unknown): boolean {
+	if (error instanceof HttpError) return true;
+	if (error instanceof GrammyError) {
+		return error.error_code === 429 || error.error_code >= 500;
+	}
+	return false;
+}
@@ -1,325 +1,894 @@
 /**
  * Regex pattern explanation module
  *
- * Parses regex patterns and generates human-readable explanations
+ * Parses regex patterns into an AST (see regexParser.ts) and renders it as a
+ * nested, indented explanation tree, with descriptions from the locales.
  */
 
-import { escapeForMarkdownV2AndBackslashes } from "./utils";
+import type { TranslateFn } from "./i18n";
+import { CONFIG } from "./config";
+import { getRegexFlags, parseSedCommand } from "./utils";
+import { describeAddress } from "./sedEngine";
+import type { SedAddress, SedAddressPart } from "./types";
+import { MessageBuilder, type FormattedText } from "./messageBuilder";
+import {
+	parseRegex,
+	RegexSyntaxError,
+	type CharacterClassNode,
+	type CharacterNode,
+	type ClassItem,
+	type GroupNode,
+	type QuantifierNode,
+	type RegexAST,
+	type RegexNode,
+	type UnicodePropertyNode,
+} from "./regexParser";
 
 /**
- * Token representing a part of a regex pattern
+ * One line of the explanation tree
  */
-interface RegexToken {
-	type:
-		| "anchor"
-		| "quantifier"
-		| "group"
-		| "charclass"
-		| "token"
-		| "literal"
-		| "escape";
-	value: string;
+export interface ExplanationLine {
+	depth: number;
+	/** Source text the line explains */
+	source: string;
 	description: string;
 }
 
 /**
- * Parse a regex pattern into tokens
+ * Flags that change what parts of a pattern mean
  */
-export function parsePattern(pattern: string): RegexToken[] {
-	const tokens: RegexToken[] = [];
-	let i = 0;
-
-	while (i < pattern.length) {
-		const char = pattern[i];
-
-		// Check for anchors
-		if (char === "^" && i === 0) {
-			tokens.push({
-				type: "anchor",
-				value: "^",
-				description: "Start of string",
-			});
-			i++;
-			continue;
-		}
+interface ExplainOptions {
+	ignoreCase: boolean;
+	multiline: boolean;
+	dotAll: boolean;
+}
+
+// Longest pattern shown in the header, and longest source shown per line
+const MAX_PATTERN_DISPLAY_LENGTH = 200;
+const MAX_SOURCE_DISPLAY_LENGTH = 40;
+
+const CHARACTER_NAMES: Record<number, string> = {
+	0x00: "explain-char-null",
+	0x08: "explain-char-backspace",
+	0x09: "explain-char-tab",
+	0x0a: "explain-char-newline",
+	0x0b: "explain-char-verticalTab",
+	0x0c: "explain-char-formFeed",
+	0x0d: "explain-char-carriageReturn",
+	0x20: "explain-char-space",
+};
+
+const CLASS_ESCAPE_DESCRIPTIONS = {
+	digit: ["explain-class-digit", "explain-class-nonDigit"],
+	word: ["explain-class-word", "explain-class-nonWord"],
+	space: ["explain-class-space", "explain-class-nonSpace"],
+} as const;
+
+// General categories people actually write, by short and long name
+const UNICODE_CATEGORIES: Record<string, string> = {
+	L: "explain-category-letter",
+	Letter: "explain-category-letter",
+	Lu: "explain-category-uppercase",
+	Uppercase_Letter: "explain-category-uppercase",
+	Ll: "explain-category-lowercase",
+	Lowercase_Letter: "explain-category-lowercase",
+	Lt: "explain-category-titlecase",
+	M: "explain-category-mark",
+	Mark: "explain-category-mark",
+	N: "explain-category-number",
+	Number: "explain-category-number",
+	Nd: "explain-category-digit",
+	Decimal_Number: "explain-category-digit",
+	P: "explain-category-punctuation",
+	Punctuation: "explain-category-punctuation",
+	S: "explain-category-symbol",
+	Symbol: "explain-category-symbol",
+	Sc: "explain-category-currency",
+	Z: "explain-category-separator",
+	Separator: "explain-category-separator",
+	Zs: "explain-category-spaceSeparator",
+	C: "explain-category-other",
+	Cc: "explain-category-control",
+};
+
+const REGEX_FLAG_DESCRIPTIONS: Record<string, string> = {
+	d: "explain-flag-indices",
+	g: "explain-flag-global",
+	i: "explain-flag-ignoreCase",
+	m: "explain-flag-multiline",
+	s: "explain-flag-dotAll",
+	u: "explain-flag-unicode",
+	v: "explain-flag-unicodeSets",
+	y: "explain-flag-sticky",
+};
+
+// Sed flags are read apart from regex literal flags: "g" replaces every
+// match and "d" asks for a diff rather than match indices
+const SED_FLAG_DESCRIPTIONS: Record<string, string> = {
+	g: "explain-flag-replaceAll",
+	i: "explain-flag-ignoreCase",
+	m: "explain-flag-multiline",
+	s: "explain-flag-dotAll",
+	u: "explain-flag-unicode",
+	y: "explain-flag-sticky",
+	p: "explain-flag-performance",
+	d: "explain-flag-diff",
+};
+
+const REPLACEMENT_SPECIALS: Record<string, string> = {
+	"$&": "explain-replacement-match",
+	"$`": "explain-replacement-before",
+	"$'": "explain-replacement-after",
+};
+
+/**
+ * Format a code point as U+XXXX
+ */
+function formatCodePoint(codePoint: number): string {
+	return `U+${codePoint.toString(16).toUpperCase().padStart(4, "0")}`;
+}
+
+/**
+ * Check whether a character is shown as itself rather than by name
+ */
+function isPrintable(codePoint: number): boolean {
+	return codePoint > 0x20 && codePoint !== 0x7f;
+}
+
+/**
+ * Quote text from the pattern or replacement
+ */
+function quote(text: string, t: TranslateFn): string {
+	return t("explain-quoted", { text });
+}
 
-		if (char === "$" && i === pattern.length - 1) {
-			tokens.push({
-				type: "anchor",
-				value: "$",
-				description: "End of string",
+/**
+ * Describe a character without saying how it was written
+ */
+function describeCodePoint(codePoint: number, t: TranslateFn): string {
+	if (isPrintable(codePoint)) return quote(String.fromCodePoint(codePoint), t);
+	const name = CHARACTER_NAMES[codePoint];
+	return name
+		? t(name)
+		: t("explain-char-control", { codePoint: formatCodePoint(codePoint) });
+}
+
+/**
+ * Check whether a character is a letter whose case the i flag ignores
+ */
+function hasCase(codePoint: number): boolean {
+	const char = String.fromCodePoint(codePoint);
+	return char.toLowerCase() !== char.toUpperCase();
+}
+
+function describeCharacter(
+	node: CharacterNode,
+	source: string,
+	options: ExplainOptions,
+	t: TranslateFn,
+): string {
+	let description = describeCodePoint(node.codePoint, t);
+	if (isPrintable(node.codePoint)) {
+		// Say which code point a numeric escape stands for
+		if (/^\\[xu0-7]/.test(source)) {
+			description = t("explain-literal-codePoint", {
+				char: description,
+				codePoint: formatCodePoint(node.codePoint),
 			});
-			i++;
-			continue;
+		} else if (source.length === 2 && source.startsWith("\\")) {
+			description = t("explain-literal-escaped", { char: description });
+		} else {
+			description = t("explain-literal", { char: description });
 		}
+	}
+	if (options.ignoreCase && hasCase(node.codePoint)) {
+		description = t("explain-anyCase", { description });
+	}
+	return description;
+}
 
-		// Check for escaped characters
-		if (char === "\\" && i + 1 < pattern.length) {
-			const nextChar = pattern[i + 1];
-			const escapeToken = parseEscape(nextChar);
-			if (escapeToken) {
-				tokens.push(escapeToken);
-				i += 2;
-				continue;
-			}
+function describeUnicodeProperty(
+	node: UnicodePropertyNode,
+	t: TranslateFn,
+): string {
+	const { name, value, negated } = node;
+	if (value !== undefined) {
+		if (/^(Script|sc|Script_Extensions|scx)$/.test(name)) {
+			const script = value.replace(/_/g, " ");
+			return negated
+				? t("explain-property-script-negated", { script })
+				: t("explain-property-script", { script });
 		}
+		return negated
+			? t("explain-property-value-negated", { name, value })
+			: t("explain-property-value", { name, value });
+	}
 
-		// Check for groups
-		if (char === "(") {
-			const groupEnd = findMatchingParen(pattern, i);
-			if (groupEnd > i) {
-				const groupContent = pattern.slice(i, groupEnd + 1);
-				const groupToken = parseGroup(groupContent);
-				tokens.push(groupToken);
-				i = groupEnd + 1;
-				continue;
+	// Every category key has a "-negated" counterpart
+	const category = UNICODE_CATEGORIES[name];
+	if (category) return t(negated ? `${category}-negated` : category);
+	return negated
+		? t("explain-property-negated", { name })
+		: t("explain-property", { name });
+}
+
+function describeQuantifier(node: QuantifierNode, t: TranslateFn): string {
+	const { min, max } = node;
+	let quantifier: string;
+	if (min === 0 && max === Infinity) {
+		quantifier = t("explain-quantifier-zeroOrMore");
+	} else if (min === 1 && max === Infinity) {
+		quantifier = t("explain-quantifier-oneOrMore");
+	} else if (min === 0 && max === 1) {
+		quantifier = t("explain-quantifier-optional");
+	} else if (min === max) {
+		return t("explain-quantifier-exactly", { count: min });
+	} else if (max === Infinity) {
+		quantifier = t("explain-quantifier-atLeast", { min });
+	} else {
+		quantifier = t("explain-quantifier-between", { min, max });
+	}
+	return node.greedy
+		? t("explain-quantifier-greedy", { quantifier })
+		: t("explain-quantifier-lazy", { quantifier });
+}
+
+function describeClass(node: CharacterClassNode, t: TranslateFn): string {
+	if (node.operation === "intersection") {
+		return t(
+			node.negated
+				? "explain-class-intersection-negated"
+				: "explain-class-intersection",
+		);
+	}
+	if (node.operation === "subtraction") {
+		return t(
+			node.negated
+				? "explain-class-subtraction-negated"
+				: "explain-class-subtraction",
+		);
+	}
+	return t(node.negated ? "explain-class-set-negated" : "explain-class-set");
+}
+
+function describeGroup(node: GroupNode, t: TranslateFn): string {
+	if (node.name) {
+		return t("explain-group-named", {
+			name: quote(node.name, t),
+			index: String(node.index),
+		});
+	}
+	if (node.capturing) {
+		return t("explain-group-capture", { index: String(node.index) });
+	}
+	const { add, remove } = node.modifiers ?? {};
+	if (add && remove) {
+		return t("explain-group-flagsOnOff", { on: add, off: remove });
+	}
+	if (add) return t("explain-group-flagsOn", { on: add });
+	if (remove) return t("explain-group-flagsOff", { off: remove });
+	return t("explain-group-nonCapturing");
+}
+
+function describeNode(
+	node: RegexNode | ClassItem,
+	source: string,
+	options: ExplainOptions,
+	t: TranslateFn,
+): string {
+	switch (node.type) {
+		case "empty":
+			return t("explain-empty");
+		case "disjunction":
+			return t("explain-alternatives", { count: node.alternatives.length });
+		case "sequence":
+			return t("explain-sequence");
+		case "group":
+			return describeGroup(node, t);
+		case "lookaround":
+			if (node.direction === "ahead") {
+				return t(
+					node.negated ? "explain-lookahead-negated" : "explain-lookahead",
+				);
 			}
-		}
+			return t(
+				node.negated ? "explain-lookbehind-negated" : "explain-lookbehind",
+			);
+		case "quantifier":
+			return describeQuantifier(node, t);
+		case "character":
+			return describeCharacter(node, source, options, t);
+		case "classEscape":
+			return t(CLASS_ESCAPE_DESCRIPTIONS[node.kind][node.negated ? 1 : 0]);
+		case "unicodeProperty":
+			return describeUnicodeProperty(node, t);
+		case "dot":
+			return t(options.dotAll ? "explain-dot-all" : "explain-dot");
+		case "assertion":
+			switch (node.kind) {
+				case "start":
+					return t(
+						options.multiline ? "explain-lineStart" : "explain-stringStart",
+					);
+				case "end":
+					return t(options.multiline ? "explain-lineEnd" : "explain-stringEnd");
+				case "wordBoundary":
+					return t("explain-wordBoundary");
+				case "nonWordBoundary":
+					return t("explain-nonWordBoundary");
+			}
+			break;
+		case "backreference":
+			return t("explain-backreference", {
+				group: typeof node.ref === "number" ? node.ref : quote(node.ref, t),
+			});
+		case "characterClass":
+			return describeClass(node, t);
+		case "classRange":
+			return t("explain-class-range", {
+				from: describeCodePoint(node.from.codePoint, t),
+				to: describeCodePoint(node.to.codePoint, t),
+			});
+		case "classStrings":
+			return t("explain-class-strings", {
+				strings: node.strings.map((s) => quote(s, t)).join(", "),
+			});
+	}
+	return "";
+}
+
+/**
+ * Get the nodes shown nested under a node
+ *
+ * Sequences directly inside a group, lookaround or quantifier are unwrapped,
+ * so "(abc)" doesn't get an extra level for "abc".
+ */
+function getNestedNodes(
+	node: RegexNode | ClassItem,
+): (RegexNode | ClassItem)[] {
+	const unwrap = (body: RegexNode) =>
+		body.type === "sequence" ? body.elements : [body];
+
+	switch (node.type) {
+		case "disjunction":
+			return node.alternatives;
+		case "sequence":
+			return node.elements;
+		case "group":
+		case "lookaround":
+		case "quantifier":
+			return unwrap(node.body);
+		case "characterClass":
+			return node.items;
+		default:
+			return [];
+	}
+}
+
+/**
+ * Check whether a node is a plain printable character that can be merged with
+ * its neighbours into one "Literal text" line
+ */
+function isPlainCharacter(
+	node: RegexNode | ClassItem,
+	pattern: string,
+): node is CharacterNode {
+	return (
+		node.type === "character" &&
+		isPrintable(node.codePoint) &&
+		!/^\\[xuc0-9]/.test(pattern.slice(node.start, node.end))
+	);
+}
 
-		// Check for character classes
-		if (char === "[") {
-			const classEnd = pattern.indexOf("]", i);
-			if (classEnd > i) {
-				const classContent = pattern.slice(i, classEnd + 1);
-				const classToken = parseCharClass(classContent);
-				tokens.push(classToken);
-				i = classEnd + 1;
+/**
+ * Describe consecutive plain characters as one line of literal text
+ */
+function describeLiteralText(
+	run: CharacterNode[],
+	depth: number,
+	pattern: string,
+	options: ExplainOptions,
+	t: TranslateFn,
+): ExplanationLine {
+	const text = run.map((c) => String.fromCodePoint(c.codePoint)).join("");
+	const description = t("explain-literalText", { text: quote(text, t) });
+	const ignoreCase =
+		options.ignoreCase && run.some((c) => hasCase(c.codePoint));
+	return {
+		depth,
+		source: pattern.slice(run[0].start, run[run.length - 1].end),
+		description: ignoreCase
+			? t("explain-anyCase", { description })
+			: description,
+	};
+}
+
+/**
+ * Flatten an AST into explanation lines, depth-first
+ */
+function collectLines(
+	nodes: (RegexNode | ClassItem)[],
+	depth: number,
+	pattern: string,
+	options: ExplainOptions,
+	t: TranslateFn,
+	lines: ExplanationLine[],
+	inClass = false,
+): void {
+	for (let i = 0; i < nodes.length; i++) {
+		const node = nodes[i];
+
+		// Merge runs of literal characters outside classes
+		if (!inClass && isPlainCharacter(node, pattern)) {
+			let end = i;
+			while (
+				end + 1 < nodes.length &&
+				isPlainCharacter(nodes[end + 1], pattern)
+			) {
+				end++;
+			}
+			if (end > i) {
+				const run = nodes.slice(i, end + 1) as CharacterNode[];
+				lines.push(describeLiteralText(run, depth, pattern, options, t));
+				i = end;
 				continue;
 			}
 		}
 
-		// Check for quantifiers on the previous token
-		if (isQuantifier(char) && tokens.length > 0) {
-			const quantifierDesc = getQuantifierDescription(char);
-			tokens.push({
-				type: "quantifier",
-				value: char,
-				description: quantifierDesc,
-			});
-			i++;
+		// An alternative like "cat" in "cat|dog" is one line, not a sequence
+		if (
+			node.type === "sequence" &&
+			node.elements.every((element) => isPlainCharacter(element, pattern))
+		) {
+			const run = node.elements as CharacterNode[];
+			lines.push(describeLiteralText(run, depth, pattern, options, t));
 			continue;
 		}
 
-		// Check for curly brace quantifiers
-		if (char === "{" && i + 1 < pattern.length) {
-			const braceEnd = pattern.indexOf("}", i);
-			if (braceEnd > i) {
-				const quantifier = pattern.slice(i, braceEnd + 1);
-				tokens.push({
-					type: "quantifier",
-					value: quantifier,
-					description: getCurlyQuantifierDescription(quantifier),
-				});
-				i = braceEnd + 1;
-				continue;
-			}
-		}
-
-		// Default: literal character
-		tokens.push({
-			type: "literal",
-			value: char,
-			description: `Literal "${char}"`,
+		const source = pattern.slice(node.start, node.end);
+		lines.push({
+			depth,
+			source,
+			description: describeNode(node, source, options, t),
 		});
-		i++;
+		collectLines(
+			getNestedNodes(node),
+			depth + 1,
+			pattern,
+			options,
+			t,
+			lines,
+			inClass || node.type === "characterClass",
+		);
 	}
-
-	return tokens;
 }
 
 /**
- * Parse an escaped character
+ * Explain a parsed pattern as a list of tree lines
  */
-function parseEscape(char: string): RegexToken | null {
-	const escapeMap: Record<string, { value: string; desc: string }> = {
-		d: { value: "\\d", desc: "Any digit (0-9)" },
-		D: { value: "\\D", desc: "Any non-digit" },
-		w: { value: "\\w", desc: "Any word character [a-zA-Z0-9_]" },
-		W: { value: "\\W", desc: "Any non-word character" },
-		s: { value: "\\s", desc: "Any whitespace" },
-		S: { value: "\\S", desc: "Any non-whitespace" },
-		t: { value: "\\t", desc: "Tab character" },
-		n: { value: "\\n", desc: "Newline character" },
-		r: { value: "\\r", desc: "Carriage return" },
-		b: { value: "\\b", desc: "Word boundary" },
-		B: { value: "\\B", desc: "Non-word boundary" },
+function explainAST(ast: RegexAST, t: TranslateFn): ExplanationLine[] {
+	const options: ExplainOptions = {
+		ignoreCase: ast.flags.includes("i"),
+		multiline: ast.flags.includes("m"),
+		dotAll: ast.flags.includes("s"),
 	};
 
-	if (escapeMap[char]) {
-		return {
-			type: "escape",
-			value: escapeMap[char].value,
-			description: escapeMap[char].desc,
-		};
-	}
+	const lines: ExplanationLine[] = [];
+	const top = ast.root.type === "sequence" ? ast.root.elements : [ast.root];
+	collectLines(top, 0, ast.pattern, options, t, lines);
+	return lines;
+}
 
-	// For other escaped characters, it's a literal
-	return {
-		type: "escape",
-		value: `\\${char}`,
-		description: `Literal "${char}" (escaped)`,
-	};
+/**
+ * Explain a pattern as a list of tree lines
+ *
+ * @param flags - Regex flags; they decide the grammar (u, v) and the meaning
+ *   of ".", "^", "$" and letters (s, m, i)
+ * @throws RegexSyntaxError if the pattern can't be parsed
+ */
+export function explainPatternLines(
+	pattern: string,
+	flags: string,
+	t: TranslateFn,
+): ExplanationLine[] {
+	return explainAST(parseRegex(pattern, flags), t);
 }
 
 /**
- * Parse a group
+ * Explain the flags of a /pattern/flags literal or a sed command
+ *
+ * Sed flags may also hold "p", "d" and an occurrence number, and are
+ * case-insensitive like in sed commands.
  */
-function parseGroup(content: string): RegexToken {
-	// Check for non-capturing group
-	if (content.startsWith("(?:")) {
-		return {
-			type: "group",
-			value: content,
-			description: "Non-capturing group",
-		};
+export function explainFlagLines(
+	flags: string,
+	isSed: boolean,
+	t: TranslateFn,
+): ExplanationLine[] {
+	const lines: ExplanationLine[] = [];
+	const seen = new Set<string>();
+	const descriptions = isSed ? SED_FLAG_DESCRIPTIONS : REGEX_FLAG_DESCRIPTIONS;
+	const { flags: regexFlags, occurrence } = isSed
+		? getRegexFlags(flags)
+		: { flags, occurrence: undefined };
+
+	for (const token of flags.match(/\d+|[^]/g) ?? []) {
+		const flag = isSed ? token.toLowerCase() : token;
+		if (seen.has(flag)) continue;
+		seen.add(flag);
+
+		let description: string;
+		if (isSed && /^\d+$/.test(flag)) {
+			description = regexFlags.includes("g")
+				? t("explain-flag-occurrenceOnward", { occurrence: occurrence ?? 0 })
+				: t("explain-flag-occurrence", { occurrence: occurrence ?? 0 });
+		} else if (Object.hasOwn(descriptions, flag)) {
+			description = t(descriptions[flag]);
+		} else {
+			description = t("explain-flag-unknown");
+		}
+		lines.push({ depth: 0, source: token, description });
 	}
 
-	// Check for lookahead
-	if (content.startsWith("(?=")) {
-		return {
-			type: "group",
-			value: content,
-			description: "Positive lookahead",
-		};
+	if (isSed && !regexFlags.includes("g") && !occurrence) {
+		lines.push({
+			depth: 0,
+			source: "",
+			description: t("explain-flag-firstOnly"),
+		});
 	}
+	return lines;
+}
 
-	// Check for negative lookahead
-	if (content.startsWith("(?!")) {
-		return {
-			type: "group",
-			value: content,
-			description: "Negative lookahead",
-		};
+/**
+ * Describe a "$n" or "$nn" group reference the way expandReplacement reads it
+ */
+function describeGroupReference(
+	digits: string,
+	groupCount: number,
+	t: TranslateFn,
+): string {
+	const describe = (group: number, rest: string) =>
+		rest
+			? t("explain-replacement-groupThen", {
+					group: String(group),
+					rest: quote(rest, t),
+				})
+			: t("explain-replacement-group", { group: String(group) });
+
+	const twoDigit = parseInt(digits.slice(0, 2), 10);
+	if (digits.length >= 2 && twoDigit >= 1 && twoDigit <= groupCount) {
+		return describe(twoDigit, digits.slice(2));
 	}
+	const oneDigit = parseInt(digits[0], 10);
+	if (oneDigit >= 1 && oneDigit <= groupCount) {
+		return describe(oneDigit, digits.slice(1));
+	}
+	return t("explain-replacement-noGroup", {
+		text: quote(`$${digits}`, t),
+		group: digits,
+	});
+}
 
-	// Regular capturing group
-	return {
-		type: "group",
-		value: content,
-		description: "Capture group",
+/**
+ * Explain a sed replacement string token by token
+ *
+ * Covers what the bot substitutes: "$1", "$<name>", "$&", "$`", "$'", "$$",
+ * sed style "\1" and the "\n" and "\t" escapes.
+ *
+ * @param ast - The parsed pattern, for its groups
+ */
+export function explainReplacementLines(
+	replacement: string,
+	ast: RegexAST,
+	t: TranslateFn,
+): ExplanationLine[] {
+	if (replacement === "") {
+		return [
+			{
+				depth: 0,
+				source: "",
+				description: t("explain-replacement-empty"),
+			},
+		];
+	}
+
+	const lines: ExplanationLine[] = [];
+	const addLiteral = (text: string) => {
+		if (!text) return;
+		lines.push({
+			depth: 0,
+			source: text,
+			description:
+				[...text].length === 1
+					? t("explain-literal", { char: quote(text, t) })
+					: t("explain-literalText", { text: quote(text, t) }),
+		});
 	};
+
+	let position = 0;
+	for (const token of replacement.matchAll(
+		/\\(\d+)|\\([nt])|\$(?:\$|&|`|'|(\d\d?)|<([^>]*)>)/g,
+	)) {
+		addLiteral(replacement.slice(position, token.index));
+		position = token.index + token[0].length;
+
+		const [source, sedDigits, escape, digits, name] = token;
+		let description: string;
+		if (sedDigits !== undefined) {
+			description = describeGroupReference(sedDigits, ast.groupCount, t);
+		} else if (escape !== undefined) {
+			description = t(
+				escape === "n" ? "explain-char-newline" : "explain-char-tab",
+			);
+		} else if (digits !== undefined) {
+			description = describeGroupReference(digits, ast.groupCount, t);
+		} else if (name !== undefined) {
+			if (ast.groupNames.includes(name)) {
+				description = t("explain-replacement-group", {
+					group: quote(name, t),
+				});
+			} else if (ast.groupNames.length > 0) {
+				description = t("explain-replacement-missingName", {
+					name: quote(name, t),
+				});
+			} else {
+				description = t("explain-replacement-noNamedGroups", {
+					text: quote(source, t),
+				});
+			}
+		} else if (source === "$$") {
+			description = t("explain-literal", { char: quote("$", t) });
+		} else {
+			description = t(REPLACEMENT_SPECIALS[source]);
+		}
+		lines.push({ depth: 0, source, description });
+	}
+	addLiteral(replacement.slice(position));
+
+	return lines;
 }
 
 /**
- * Parse a character class
+ * Explain which lines a sed address limits a command to
  */
-function parseCharClass(content: string): RegexToken {
-	// Check for negated class
-	if (content.startsWith("[^")) {
-		return {
-			type: "charclass",
-			value: content,
-			description: `Negated character class: ${content.slice(2, -1)}`,
-		};
+export function explainAddressLines(
+	address: SedAddress,
+	t: TranslateFn,
+): ExplanationLine[] {
+	const { start, end } = address;
+	const source = describeAddress(address);
+	if (end) {
+		const describePart = (part: SedAddressPart) =>
+			part.type === "line"
+				? t("explain-address-part-line", { line: String(part.line) })
+				: part.type === "last"
+					? t("explain-address-part-last")
+					: t("explain-address-part-regex", {
+							pattern: quote(part.pattern, t),
+						});
+		return [
+			{
+				depth: 0,
+				source,
+				description: t("explain-address-range", {
+					start: describePart(start),
+					end: describePart(end),
+				}),
+			},
+		];
 	}
 
-	return {
-		type: "charclass",
-		value: content,
-		description: `Character class: ${content.slice(1, -1)}`,
-	};
+	const description =
+		start.type === "line"
+			? t("explain-address-line", { line: String(start.line) })
+			: start.type === "last"
+				? t("explain-address-last")
+				: t("explain-address-regex", { pattern: quote(start.pattern, t) });
+	return [{ depth: 0, source, description }];
 }
 
 /**
- * Check if a character is a quantifier
+ * Explain a sed transliteration character by character
+ *
+ * A character listed twice keeps its first mapping, like the y command does.
  */
-function isQuantifier(char: string): boolean {
-	return ["*", "+", "?"].includes(char);
+export function explainTransliterationLines(
+	source: string,
+	target: string,
+	t: TranslateFn,
+): ExplanationLine[] {
+	const to = [...target];
+	const seen = new Set<string>();
+	const lines: ExplanationLine[] = [];
+	[...source].forEach((char, i) => {
+		if (seen.has(char)) return;
+		seen.add(char);
+		lines.push({
+			depth: 0,
+			source: "",
+			description: t("explain-transliteration-char", {
+				from: describeCodePoint(char.codePointAt(0)!, t),
+				to: describeCodePoint(to[i].codePointAt(0)!, t),
+			}),
+		});
+	});
+	return lines;
 }
 
 /**
- * Get description for a simple quantifier
+ * What /explain was asked about
  */
-function getQuantifierDescription(char: string): string {
-	switch (char) {
-		case "*":
-			return "Zero or more times";
-		case "+":
-			return "One or more times";
-		case "?":
-			return "Zero or one time (optional)";
-		default:
-			return "Unknown quantifier";
-	}
+export interface ExplainInput {
+	/** The regex, or the characters a transliteration replaces */
+	pattern: string;
+	/** Flags as written, undefined for a bare pattern */
+	flags?: string;
+	/** Set for sed substitutions */
+	replacement?: string;
+	/** Set for sed transliterations ("y/abc/xyz/") */
+	target?: string;
+	/** Lines a sed command is limited to */
+	address?: SedAddress;
 }
 
 /**
- * Get description for curly brace quantifier
+ * Read the argument of /explain: a sed substitution ("s/re/repl/flags") or
+ * transliteration ("y/abc/xyz/"), a regex literal ("/re/flags") or else a
+ * bare pattern
  */
-function getCurlyQuantifierDescription(quantifier: string): string {
-	const content = quantifier.slice(1, -1);
+export function parseExplainInput(input: string): ExplainInput {
+	const trimmed = input.trim();
 
-	if (content.includes(",")) {
-		const [min, max] = content.split(",");
-		if (max) {
-			return `Between ${min} and ${max} times`;
-		}
-		return `At least ${min} times`;
+	const command = parseSedCommand(trimmed);
+	const address = command?.address && { address: command.address };
+	if (command?.command === "y") {
+		return { pattern: command.source, target: command.target, ...address };
+	}
+	if (command?.command === "s") {
+		return {
+			pattern: command.pattern,
+			flags: command.flags,
+			replacement: command.replacement,
+			...address,
+		};
 	}
 
-	return `Exactly ${content} times`;
+	// Patterns like "/usr/bin" stay bare, since "bin" aren't valid flags
+	const literal = trimmed.match(/^\/((?:\\[^]|[^\\/])+)\/([a-z]*)$/);
+	if (literal && /^(?!.*(.).*\1)[dgimsuyv]*$/.test(literal[2])) {
+		return { pattern: literal[1], flags: literal[2] };
+	}
+
+	return { pattern: trimmed };
 }
 
 /**
- * Find matching closing parenthesis
+ * Shorten text for display
  */
-function findMatchingParen(pattern: string, start: number): number {
-	let depth = 1;
-	let i = start + 1;
-
-	while (i < pattern.length && depth > 0) {
-		if (pattern[i] === "(") depth++;
-		if (pattern[i] === ")") depth--;
-		if (pattern[i] === "\\" && i + 1 < pattern.length) i++; // Skip escaped chars
-		i++;
-	}
-
-	return depth === 0 ? i - 1 : -1;
+function truncate(value: string, maxLength: number): string {
+	return value.length > maxLength ? `${value.slice(0, maxLength)}…` : value;
 }
 
 /**
- * Generate explanation for a regex pattern
+ * Generate an explanation for a pattern, regex literal or sed command
+ *
+ * A bare pattern that is valid with the u flag is read with it, so "\p{L}"
+ * and "\u{1F600}" are explained the way people mean them. Otherwise the
+ * given flags decide, like they do when the pattern runs.
  */
-export function explainPattern(pattern: string): string {
-	if (!pattern || pattern.trim() === "") {
-		return "Please provide a pattern to explain.\n\nUsage: /explain <pattern>\n\nExample: /explain \\d{3}-\\d{2}-\\d{4}";
+export function explainPattern(input: string, t: TranslateFn): FormattedText {
+	const plain = (text: string): FormattedText => ({ text, entities: [] });
+	if (!input || input.trim() === "") {
+		return plain(t("explain-usage"));
 	}
 
-	// Validate pattern
-	try {
-		new RegExp(pattern);
-	} catch (e) {
-		return `Invalid regex pattern: ${e instanceof Error ? e.message : String(e)}\n\nPlease check your syntax and try again.`;
-	}
-
-	// Truncate very long patterns
-	const maxLength = 200;
-	const isTruncated = pattern.length > maxLength;
-	const displayPattern = isTruncated
-		? pattern.slice(0, maxLength) + "..."
-		: pattern;
+	const { pattern, flags, replacement, target, address } =
+		parseExplainInput(input);
+	const isSed = replacement !== undefined;
 
-	const tokens = parsePattern(
-		isTruncated ? pattern.slice(0, maxLength) : pattern,
-	);
+	const heading = (key: string, value?: string) => {
+		const builder = new MessageBuilder().add("\n\n").bold(t(key));
+		if (value) {
+			builder.add(" ").code(truncate(value, MAX_PATTERN_DISPLAY_LENGTH));
+		}
+		return builder.build();
+	};
+	const formatLine = (line: ExplanationLine) => {
+		const builder = new MessageBuilder().add(
+			`\n${"    ".repeat(line.depth)}• `,
+		);
+		// Empty alternatives and the like have no source to show
+		if (line.source) {
+			builder.code(truncate(line.source, MAX_SOURCE_DISPLAY_LENGTH)).add(" ");
+		}
+		return builder.add(line.description).build();
+	};
 
-	if (tokens.length === 0) {
-		return "No tokens found in pattern.";
+	// Short sections first, so a long breakdown can't push them out
+	const entries: FormattedText[] = [];
+	if (address) {
+		entries.push(
+			heading("explain-address"),
+			...explainAddressLines(address, t).map(formatLine),
+		);
 	}
 
-	// Build explanation
-	let explanation = `Pattern: ${escapeForMarkdownV2AndBackslashes(displayPattern)}\n\n`;
-	explanation += "Breakdown:\n";
+	let explanation: MessageBuilder;
+	if (target !== undefined) {
+		entries.push(
+			heading("explain-transliteration-characters"),
+			...explainTransliterationLines(pattern, target, t).map(formatLine),
+		);
+		explanation = new MessageBuilder()
+			.bold(t("explain-transliteration"))
+			.add(" ")
+			.code(truncate(pattern, MAX_PATTERN_DISPLAY_LENGTH))
+			.add(" → ")
+			.code(truncate(target, MAX_PATTERN_DISPLAY_LENGTH));
+	} else {
+		const invalid = (e: unknown) =>
+			plain(
+				t("explain-invalid", {
+					error: e instanceof Error ? e.message : String(e),
+				}),
+			);
+
+		let regexFlags = isSed ? getRegexFlags(flags).flags : (flags ?? "");
+		try {
+			new RegExp(pattern, regexFlags);
+			if (flags === undefined) {
+				try {
+					new RegExp(pattern, "u");
+					regexFlags = "u";
+				} catch {
+					// Only valid without u, keep the legacy grammar
+				}
+			}
+		} catch (e) {
+			return invalid(e);
+		}
 
-	for (const token of tokens) {
-		const value = escapeForMarkdownV2AndBackslashes(token.value);
-		const desc = escapeForMarkdownV2AndBackslashes(token.description);
-		explanation += `• ${value}: ${desc}\n`;
+		let ast: RegexAST;
+		try {
+			ast = parseRegex(pattern, regexFlags);
+		} catch (e) {
+			if (!(e instanceof RegexSyntaxError)) throw e;
+			return invalid(e);
+		}
+
+		if (flags) {
+			entries.push(
+				heading("explain-flags", flags),
+				...explainFlagLines(flags, isSed, t).map(formatLine),
+			);
+		}
+		if (isSed) {
+			entries.push(
+				heading("explain-replacement", replacement),
+				...explainReplacementLines(replacement, ast, t).map(formatLine),
+			);
+		}
+		entries.push(
+			heading("explain-breakdown"),
+			...explainAST(ast, t).map(formatLine),
+		);
+
+		explanation = new MessageBuilder()
+			.bold(t("explain-pattern"))
+			.add(" ")
+			.code(truncate(pattern, MAX_PATTERN_DISPLAY_LENGTH));
 	}
 
-	if (isTruncated) {
-		explanation += "\n(Pattern truncated for readability)";
+	// Leave room for the truncation note
+	const limit = CONFIG.MAX_MESSAGE_LENGTH - 100;
+	for (const entry of entries) {
+		if (explanation.length + entry.text.length > limit) {
+			explanation.add("\n\n").italic(t("explain-truncated"));
+			break;
+		}
+		explanation.add(entry);
 	}
 
-	return explanation;
+	return explanation.build();
 }
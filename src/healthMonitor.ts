@@ -15,6 +15,22 @@ export interface HealthMetrics {
 	status: HealthStatus;
 }
 
+/**
+ * Cumulative task duration histogram (Prometheus style)
+ */
+export interface DurationHistogram {
+	/** Upper bounds in milliseconds with the number of tasks at or below each */
+	buckets: { le: number; count: number }[];
+	/** Sum of all recorded durations in milliseconds */
+	sum: number;
+	count: number;
+}
+
+// Histogram bucket upper bounds in milliseconds
+export const DURATION_BUCKETS_MS = [
+	5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000,
+];
+
 export interface HealthCheckConfig {
 	enabled: boolean;
 	intervalMs: number;
@@ -27,11 +43,14 @@ export interface HealthCheckConfig {
  * HealthMonitor - Internal health monitoring for worker pools
  *
  * Tracks pool statistics and determines health status without external infrastructure.
- * All metrics are kept in-memory, no persistence or HTTP endpoints.
+ * All metrics are kept in-memory; the optional HealthServer exposes them over HTTP.
  */
 export class HealthMonitor {
 	private config: HealthCheckConfig;
 	private taskDurations: number[] = [];
+	private durationBucketCounts: number[] = DURATION_BUCKETS_MS.map(() => 0);
+	private durationSum = 0;
+	private durationCount = 0;
 	private errorCount = 0;
 	private successCount = 0;
 	private lastStatus: HealthStatus = "healthy";
@@ -58,6 +77,14 @@ export class HealthMonitor {
 		this.successCount++;
 		this.taskDurations.push(durationMs);
 
+		// Histogram covers all tasks since startup
+		this.durationSum += durationMs;
+		this.durationCount++;
+		const bucket = DURATION_BUCKETS_MS.findIndex((le) => durationMs <= le);
+		if (bucket !== -1) {
+			this.durationBucketCounts[bucket]++;
+		}
+
 		// Keep only last 100 measurements
 		if (this.taskDurations.length > 100) {
 			this.taskDurations.shift();
@@ -136,6 +163,18 @@ export class HealthMonitor {
 		return this.lastStatus;
 	}
 
+	/**
+	 * Get the task duration histogram
+	 */
+	getDurationHistogram(): DurationHistogram {
+		let cumulative = 0;
+		const buckets = DURATION_BUCKETS_MS.map((le, i) => {
+			cumulative += this.durationBucketCounts[i];
+			return { le, count: cumulative };
+		});
+		return { buckets, sum: this.durationSum, count: this.durationCount };
+	}
+
 	/**
 	 * Stop health monitoring
 	 */
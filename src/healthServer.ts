@@ -0,0 +1,242 @@
+/**
+ * HTTP health and readiness endpoints
+ *
+ * Optional embedded server for orchestrators (Docker, Kubernetes, ...):
+ * - GET /healthz - liveness, answers as long as the event loop is running
+ * - GET /readyz  - readiness, combines worker pool health, database
+ *                  reachability and Telegram connectivity
+ * - GET /metrics - Prometheus metrics (when a renderer is provided)
+ *
+ * Healthy and degraded states answer 200 so traffic keeps flowing while
+ * degraded; unhealthy answers 503.
+ */
+
+import type { Server } from "bun";
+import { Logger } from "./logger";
+import type { HealthStatus } from "./healthMonitor";
+import { PROMETHEUS_CONTENT_TYPE } from "./prometheus";
+
+const logger = new Logger("HealthServer");
+
+/**
+ * Result of a single readiness check
+ */
+export interface CheckResult {
+	status: HealthStatus;
+	error?: string;
+	details?: Record<string, unknown>;
+}
+
+/**
+ * Readiness report returned by /readyz
+ */
+export interface ReadinessReport {
+	status: HealthStatus;
+	checks: Record<string, CheckResult>;
+}
+
+/**
+ * Probes used to build the readiness report
+ */
+export interface HealthServerDependencies {
+	/** Worker pool health (from WorkerPool.getStats().health) */
+	getWorkerPoolHealth: () => CheckResult;
+	/** Throws when the database is unreachable */
+	pingDatabase: () => Promise<void>;
+	/** Throws when the Telegram API is unreachable */
+	pingTelegram: () => Promise<void>;
+	/** Reports unhealthy while the bot is shutting down */
+	isShuttingDown?: () => boolean;
+	/** Renders Prometheus metrics; /metrics is disabled when omitted */
+	getMetricsText?: () => string;
+}
+
+/**
+ * Health server options
+ */
+export interface HealthServerOptions {
+	host: string;
+	port: number;
+	/** How long a Telegram connectivity result is reused (ms) */
+	telegramCheckCacheMs?: number;
+	/** Maximum time a single check may take (ms) */
+	checkTimeoutMs?: number;
+}
+
+const STATUS_SEVERITY: Record<HealthStatus, number> = {
+	healthy: 0,
+	degraded: 1,
+	unhealthy: 2,
+};
+
+/**
+ * Embedded HTTP server exposing liveness and readiness probes
+ */
+export class HealthServer {
+	private server: Server<undefined> | null = null;
+	private readonly startTime = Date.now();
+	private telegramCheck: { result: CheckResult; checkedAt: number } | null =
+		null;
+	private readonly telegramCheckCacheMs: number;
+	private readonly checkTimeoutMs: number;
+
+	constructor(
+		private deps: HealthServerDependencies,
+		private options: HealthServerOptions,
+	) {
+		this.telegramCheckCacheMs = options.telegramCheckCacheMs ?? 30000;
+		this.checkTimeoutMs = options.checkTimeoutMs ?? 5000;
+	}
+
+	/**
+	 * Start listening
+	 */
+	start(): void {
+		this.server = Bun.serve({
+			hostname: this.options.host,
+			port: this.options.port,
+			fetch: (request) => this.handleRequest(request),
+		});
+		logger.info(
+			`Health server listening on ${this.options.host}:${this.server.port}`,
+		);
+	}
+
+	/**
+	 * Stop listening
+	 */
+	async stop(): Promise<void> {
+		if (!this.server) return;
+		await this.server.stop();
+		this.server = null;
+		logger.info("Health server stopped.");
+	}
+
+	/**
+	 * Port the server is bound to (useful when configured with port 0)
+	 */
+	get port(): number | undefined {
+		return this.server?.port;
+	}
+
+	/**
+	 * Route a request to the matching endpoint
+	 */
+	async handleRequest(request: Request): Promise<Response> {
+		const { pathname } = new URL(request.url);
+		if (request.method !== "GET" && request.method !== "HEAD") {
+			return new Response("Method Not Allowed", { status: 405 });
+		}
+
+		switch (pathname) {
+			case "/healthz":
+				return Response.json({
+					status: "ok",
+					uptimeMs: Date.now() - this.startTime,
+				});
+			case "/readyz": {
+				const report = await this.checkReadiness();
+				return Response.json(report, {
+					status: report.status === "unhealthy" ? 503 : 200,
+				});
+			}
+			case "/metrics":
+				if (!this.deps.getMetricsText) {
+					return new Response("Not Found", { status: 404 });
+				}
+				return new Response(this.deps.getMetricsText(), {
+					headers: { "Content-Type": PROMETHEUS_CONTENT_TYPE },
+				});
+			default:
+				return new Response("Not Found", { status: 404 });
+		}
+	}
+
+	/**
+	 * Run all readiness checks and combine them into one status
+	 */
+	async checkReadiness(): Promise<ReadinessReport> {
+		if (this.deps.isShuttingDown?.()) {
+			return {
+				status: "unhealthy",
+				checks: {
+					shutdown: { status: "unhealthy", error: "Shutting down" },
+				},
+			};
+		}
+
+		const [workerPool, database, telegram] = await Promise.all([
+			this.runCheck(async () => this.deps.getWorkerPoolHealth()),
+			this.runCheck(async () => {
+				await this.deps.pingDatabase();
+				return { status: "healthy" };
+			}),
+			this.checkTelegram(),
+		]);
+
+		const checks = { workerPool, database, telegram };
+		const status = Object.values(checks).reduce<HealthStatus>(
+			(worst, check) =>
+				STATUS_SEVERITY[check.status] > STATUS_SEVERITY[worst]
+					? check.status
+					: worst,
+			"healthy",
+		);
+
+		if (status !== "healthy") {
+			logger.debug(`Readiness check: ${status} ${JSON.stringify(checks)}`);
+		}
+		return { status, checks };
+	}
+
+	/**
+	 * Check Telegram connectivity, reusing recent results to avoid hitting
+	 * the API on every probe
+	 */
+	private async checkTelegram(): Promise<CheckResult> {
+		const now = Date.now();
+		if (
+			this.telegramCheck &&
+			now - this.telegramCheck.checkedAt < this.telegramCheckCacheMs
+		) {
+			return this.telegramCheck.result;
+		}
+
+		const result = await this.runCheck(async () => {
+			await this.deps.pingTelegram();
+			return { status: "healthy" };
+		});
+		this.telegramCheck = { result, checkedAt: now };
+		return result;
+	}
+
+	/**
+	 * Run a check with a timeout, turning failures into an unhealthy result
+	 */
+	private async runCheck(
+		check: () => Promise<CheckResult>,
+	): Promise<CheckResult> {
+		let timeout: NodeJS.Timeout | undefined;
+		try {
+			return await Promise.race([
+				check(),
+				new Promise<never>((_, reject) => {
+					timeout = setTimeout(
+						() =>
+							reject(
+								new Error(`Check timed out after ${this.checkTimeoutMs}ms`),
+							),
+						this.checkTimeoutMs,
+					);
+				}),
+			]);
+		} catch (error) {
+			return {
+				status: "unhealthy",
+				error: error instanceof Error ? error.message : String(error),
+			};
+		} finally {
+			clearTimeout(timeout);
+		}
+	}
+}
@@ -1,7 +1,20 @@
 declare let self: Worker;
 import { Logger } from "./logger";
 import { performance } from "perf_hooks";
-import { TaskMessage, ResultMessage } from "./types"; // Import from types.ts
+import {
+	TaskMessage,
+	ResultMessage,
+	CommandResult,
+	MatchTaskMessage,
+	WorkerTask,
+} from "./types"; // Import from types.ts
+import {
+	applyCommandWithEdits,
+	describeCommand,
+	findMatches,
+} from "./sedEngine";
+import { remapEntities } from "./entities";
+import { trackRegexCacheActivity } from "./utils";
 
 function processTask(task: TaskMessage, logger: Logger): ResultMessage {
 	logger.debug(
@@ -9,34 +22,99 @@ function processTask(task: TaskMessage, logger: Logger): ResultMessage {
 	);
 	const { initialText, commands, includePerformance } = task;
 	const startTime = includePerformance ? performance.now() : undefined;
+	const commandResults: CommandResult[] = [];
 	let currentText = initialText;
+	let currentEntities = task.entities;
 
-	try {
-		// We're now only processing a single command
-		const cmd = commands[0];
-		logger.debug(`Applying: /${cmd.pattern}/${cmd.flags}/${cmd.replacement}/`);
-		const regex = new RegExp(cmd.pattern, cmd.flags);
-		currentText = currentText.replace(regex, cmd.replacement);
-
-		let performanceMs: number | null = null;
-		if (includePerformance && startTime !== undefined) {
-			performanceMs = performance.now() - startTime;
+	// Run the whole chain here so a single task (and timeout) covers it
+	for (let i = 0; i < commands.length; i++) {
+		const cmd = commands[i];
+		const commandStart = includePerformance ? performance.now() : undefined;
+		try {
+			logger.debug(`Applying #${i + 1}: ${describeCommand(cmd)}`);
+			const { text, edits } = applyCommandWithEdits(currentText, cmd);
+			currentText = text;
+			if (currentEntities) {
+				currentEntities = remapEntities(currentEntities, edits);
+			}
+			commandResults.push({
+				success: true,
+				durationMs:
+					commandStart !== undefined
+						? performance.now() - commandStart
+						: undefined,
+			});
+		} catch (error: unknown) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+			logger.error(`ERROR during command #${i + 1}: ${errorMessage}`);
+			commandResults.push({ success: false, error: errorMessage });
+			return {
+				result: currentText,
+				performanceMs: null,
+				error: errorMessage,
+				commandResults,
+				failedCommandIndex: i,
+			};
 		}
+	}
+
+	let performanceMs: number | null = null;
+	if (includePerformance && startTime !== undefined) {
+		performanceMs = performance.now() - startTime;
+	}
 
-		logger.debug(`Task successful. Result length: ${currentText.length}`);
-		return { result: currentText, performanceMs };
+	logger.debug(`Task successful. Result length: ${currentText.length}`);
+	return {
+		result: currentText,
+		performanceMs,
+		commandResults,
+		entities: currentEntities,
+	};
+}
+
+function processMatchTask(
+	task: MatchTaskMessage,
+	logger: Logger,
+): ResultMessage {
+	logger.debug(`Finding matches of /${task.pattern}/${task.flags}`);
+	const startTime = performance.now();
+	try {
+		const { matches, count } = findMatches(
+			task.text,
+			task.pattern,
+			task.flags,
+			task.maxMatches,
+		);
+		return {
+			result: task.text,
+			performanceMs: performance.now() - startTime,
+			matches,
+			matchCount: count,
+		};
 	} catch (error: unknown) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
-		logger.error(`ERROR during processing: ${errorMessage}`);
-		return { result: "", performanceMs: null, error: errorMessage };
+		logger.error(`ERROR while matching: ${errorMessage}`);
+		// Reported like the first command of a chain failing
+		return {
+			result: task.text,
+			performanceMs: null,
+			error: errorMessage,
+			failedCommandIndex: 0,
+		};
 	}
 }
 
-self.onmessage = (event: MessageEvent<TaskMessage>) => {
+self.onmessage = (event: MessageEvent<WorkerTask>) => {
 	const logger = new Logger("HellSpawn");
 	logger.debug("Received message from main thread.");
 	const task = event.data;
-	const result = processTask(task, logger);
+	// Each worker has its own regex cache; report its activity with the result
+	const { result, activity } = trackRegexCacheActivity(() =>
+		task.type === "match"
+			? processMatchTask(task, logger)
+			: processTask(task, logger),
+	);
 	logger.debug("Posting result back to main thread.");
-	self.postMessage(result);
+	self.postMessage({ ...result, regexCache: activity } satisfies ResultMessage);
 };
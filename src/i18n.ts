@@ -7,17 +7,33 @@
 import { I18n, type I18nFlavor } from "@grammyjs/i18n";
 import type { Context, SessionFlavor } from "grammy";
 import type { CommandsFlavor } from "@grammyjs/commands";
+import type { ChatSettings } from "./types";
 
-// Session data interface
+// Session data interface (one session per user)
 export interface SessionData {
 	__language_code?: string;
 }
 
-// Context type with i18n and session support
+// Settings of the current chat, loaded before i18n runs
+export interface ChatSettingsFlavor {
+	chatSettings: ChatSettings;
+}
+
+// Context type with i18n, session and chat settings support
 export type MyContext = Context &
 	CommandsFlavor &
 	I18nFlavor &
-	SessionFlavor<SessionData>;
+	SessionFlavor<SessionData> &
+	ChatSettingsFlavor;
+
+/**
+ * Looks up a message by key, like ctx.t
+ * Passed to formatters and errors so they can render user-facing text
+ */
+export type TranslateFn = (
+	key: string,
+	variables?: Record<string, string | number>,
+) => string;
 
 /**
  * Available language codes
@@ -67,9 +83,22 @@ export const AVAILABLE_LANGUAGES: Language[] = [
 export const i18n = new I18n<MyContext>({
 	defaultLocale: "en",
 	useSession: true, // Store user language preference in session
+	// A chat language set by the admins wins over the user's own preference,
+	// which wins over the language of their Telegram client
+	localeNegotiator: (ctx) => ctx.chatSettings?.language,
 	directory: "locales", // Load .ftl files from locales/
+	// Results and patterns are copied back into chats, so keep the output free
+	// of invisible bidi isolation marks around placeables
+	fluentBundleOptions: { useIsolating: false },
 });
 
+/**
+ * Get a translate function for a fixed locale (outside of an update context)
+ */
+export function translatorFor(locale: string): TranslateFn {
+	return (key, variables) => i18n.t(locale, key, variables);
+}
+
 /**
  * Get language info by code
  */
@@ -1,18 +1,36 @@
 import { CommandGroup, commands } from "@grammyjs/commands";
 import { run } from "@grammyjs/runner";
-import { SQL } from "bun";
 import { writeFileSync } from "node:fs";
+import type { SQL } from "bun";
 import { Bot, GrammyError, session } from "grammy";
+import type { MessageEntity } from "grammy/types";
 import { autoRetry } from "@grammyjs/auto-retry";
 import { CONFIG } from "./config";
 import { Logger, withCorrelation } from "./logger";
-import { SED_PATTERN } from "./utils";
-import { DatabaseService } from "./database";
+import { DatabaseService, openDatabase } from "./database";
+import { runMigrations } from "./migrations";
+import {
+	applySettingsAction,
+	canChangeChatSettings,
+	chatSettingsMiddleware,
+	createChatSettingsKeyboard,
+	formatChatSettings,
+} from "./chatSettings";
 import { WorkerPool } from "./workerPool";
-import { parseSedCommands, SedHandler } from "./sed";
+import {
+	findSedCommands,
+	parseInlineQuery,
+	parseSedCommands,
+	SedHandler,
+} from "./sed";
 import { join } from "node:path";
 import { fileURLToPath } from "node:url";
-import { TelegramAPIError } from "./errors";
+import {
+	CircuitBreakerError,
+	TelegramAPIError,
+	isTelegramOutage,
+} from "./errors";
+import { CircuitBreaker } from "./circuitBreaker";
 import {
 	createCategoryKeyboard,
 	createItemKeyboard,
@@ -21,6 +39,7 @@ import {
 	getMainHelpMessage,
 } from "./regexhelp";
 import {
+	AVAILABLE_LANGUAGES,
 	i18n,
 	MyContext,
 	getLanguageInfo,
@@ -28,7 +47,18 @@ import {
 	isSupportedLanguage,
 } from "./i18n";
 import { explainPattern } from "./explain";
-import { getMetrics, formatHealthStatus, formatMetrics } from "./metrics";
+import type { FormattedText } from "./messageBuilder";
+import { parseTestArguments } from "./regexTest";
+import {
+	getMetrics,
+	formatHealthStatus,
+	formatMetrics,
+	recordRateLimitRejection,
+	recordTelegramError,
+} from "./metrics";
+import { WebhookServer } from "./webhook";
+import { HealthServer } from "./healthServer";
+import { formatPrometheusMetrics } from "./prometheus";
 
 // --- Configuration ---
 const {
@@ -47,6 +77,15 @@ const {
 	LIVENESS_INTERVAL_MS,
 	RATE_LIMIT_ENABLED,
 	RATE_LIMIT_COMMANDS_PER_MINUTE,
+	DATABASE_PATH,
+	WEBHOOK_URL,
+	WEBHOOK_PATH,
+	WEBHOOK_HOST,
+	WEBHOOK_PORT,
+	WEBHOOK_SECRET,
+	HEALTH_SERVER_ENABLED,
+	HEALTH_SERVER_HOST,
+	HEALTH_SERVER_PORT,
 } = CONFIG;
 
 // --- Bot Initialization ---
@@ -54,6 +93,21 @@ const logger = new Logger("Main");
 logger.info("Initializing bot...");
 const bot = new Bot<MyContext>(TOKEN, { client: { apiRoot: BASE_URL } });
 
+// --- Telegram API Error Metrics ---
+// Installed before autoRetry so every failed attempt is counted
+bot.api.config.use(async (prev, method, payload, signal) => {
+	try {
+		const response = await prev(method, payload, signal);
+		if (!response.ok) {
+			recordTelegramError(response.error_code);
+		}
+		return response;
+	} catch (error) {
+		recordTelegramError("network");
+		throw error;
+	}
+});
+
 // --- Rate Limiting & Retry Configuration ---
 bot.api.config.use(
 	autoRetry({
@@ -64,12 +118,35 @@ bot.api.config.use(
 
 bot.use(commands());
 
+// --- Database Setup ---
+if (DATABASE_PATH === ":memory:") {
+	logger.info("Initializing in-memory database...");
+} else {
+	logger.info(`Opening database file ${DATABASE_PATH}...`);
+}
+let db: SQL;
+try {
+	db = openDatabase(DATABASE_PATH);
+	await runMigrations(db);
+	logger.info("Database setup complete.");
+} catch (error) {
+	logger.fatal(`${error}\nDatabase setup failed. Exiting.`);
+	process.exit(1);
+}
+
+const dbService = new DatabaseService(db);
+// Drop anything that expired while the bot was offline (file-backed databases)
+await dbService.cleanupOldEntries();
+
 // --- Session & i18n Setup ---
 bot.use(
 	session({
 		initial: () => ({}),
+		// Language preferences belong to the user, chats get their own settings
+		getSessionKey: (ctx) => ctx.from?.id.toString(),
 	}),
 );
+bot.use(chatSettingsMiddleware(dbService));
 bot.use(i18n);
 
 // --- Rate Limiting ---
@@ -111,8 +188,10 @@ if (RATE_LIMIT_ENABLED) {
 			return next();
 		}
 
-		// Parse text for sed commands
+		// Parse text for sed commands. Inline queries run a worker task on every
+		// keystroke, so they are limited like messages.
 		const text =
+			ctx.inlineQuery?.query ||
 			ctx.message?.text ||
 			ctx.message?.caption ||
 			ctx.editedMessage?.text ||
@@ -122,7 +201,9 @@ if (RATE_LIMIT_ENABLED) {
 		}
 
 		// Count sed commands in message
-		const commands = parseSedCommands(text);
+		const commands = ctx.inlineQuery
+			? (parseInlineQuery(text)?.commands ?? [])
+			: findSedCommands(text);
 		if (commands.length === 0) {
 			// Not a sed command, don't rate limit
 			return next();
@@ -204,7 +285,17 @@ if (RATE_LIMIT_ENABLED) {
 		if (userData.count + cost > RATE_LIMIT_COMMANDS_PER_MINUTE) {
 			const remaining = Math.ceil((userData.resetTime - now) / 1000);
 			logger.debug(`User ${userId} rate limited. Retry after ${remaining}s`);
-			await ctx.reply(ctx.t("errors.rateLimit", { seconds: remaining }));
+			recordRateLimitRejection();
+			const message = ctx.t("error-rateLimit", { seconds: remaining });
+			if (ctx.inlineQuery) {
+				await ctx.answerInlineQuery([], {
+					button: { text: message, start_parameter: "ratelimit" },
+					cache_time: 0,
+					is_personal: true,
+				});
+			} else {
+				await ctx.reply(message);
+			}
 			return; // Don't process the command
 		}
 
@@ -239,44 +330,6 @@ if (RATE_LIMIT_ENABLED) {
 	});
 }
 
-// --- Database Setup ---
-logger.info("Initializing in-memory database...");
-const db = new SQL("sqlite://:memory:");
-
-logger.info("Creating database tables...");
-try {
-	await db`
-    CREATE TABLE IF NOT EXISTS message_history (
-      chat_id INTEGER NOT NULL,
-      message_id INTEGER NOT NULL,
-      text TEXT,
-      timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-      PRIMARY KEY (chat_id, message_id)
-    )
-  `;
-	await db`
-    CREATE TABLE IF NOT EXISTS bot_replies (
-      target_message_id INTEGER NOT NULL,
-      chat_id INTEGER NOT NULL,
-      bot_message_id INTEGER NOT NULL,
-      timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-      PRIMARY KEY (target_message_id, chat_id)
-    )
-  `;
-	await db`CREATE INDEX IF NOT EXISTS idx_bot_replies_timestamp ON bot_replies(timestamp)`;
-	await db`CREATE INDEX IF NOT EXISTS idx_message_history_timestamp ON message_history(timestamp)`;
-	// Additional indexes for performance
-	await db`CREATE INDEX IF NOT EXISTS idx_message_history_chat_id ON message_history(chat_id)`;
-	await db`CREATE INDEX IF NOT EXISTS idx_bot_replies_chat_id ON bot_replies(chat_id)`;
-	await db`CREATE INDEX IF NOT EXISTS idx_bot_replies_target ON bot_replies(target_message_id)`;
-	logger.info("Database setup complete.");
-} catch (error) {
-	logger.fatal(`${error}\nDatabase setup failed. Exiting.`);
-	process.exit(1);
-}
-
-const dbService = new DatabaseService(db);
-
 // --- Worker Pool Setup ---
 const __filename = fileURLToPath(import.meta.url);
 const workerScriptPath = join(__filename, "..", "hellspawn.ts");
@@ -295,12 +348,19 @@ const workerPool = new WorkerPool({
 logger.info("Using WorkerPool with dynamic scaling");
 
 // --- Sed Handler Setup ---
+// Opens after repeated outages so replies fail fast instead of piling up retries
+const telegramBreaker = new CircuitBreaker("telegram", {
+	isFailure: isTelegramOutage,
+});
+
 async function sendOrEditReply(
 	ctx: MyContext,
 	targetMsgId: number,
-	messageText: string,
+	message: FormattedText,
+	result: FormattedText,
 	isEdit: boolean = false,
 ): Promise<void> {
+	const { text: messageText, entities } = message;
 	logger.debug(`Attempting to ${isEdit ? "edit" : "send"} a reply.`);
 	try {
 		if (isEdit) {
@@ -310,11 +370,13 @@ async function sendOrEditReply(
 			);
 			if (previousBotReplyId) {
 				try {
-					await ctx.api.editMessageText(
-						ctx.chat!.id,
-						previousBotReplyId,
-						messageText,
-						{ parse_mode: "MarkdownV2" },
+					await telegramBreaker.execute(() =>
+						ctx.api.editMessageText(
+							ctx.chat!.id,
+							previousBotReplyId,
+							messageText,
+							{ entities },
+						),
 					);
 					await dbService.storeBotReplyMapping(
 						targetMsgId,
@@ -324,11 +386,20 @@ async function sendOrEditReply(
 					await dbService.storeBotReplyInHistory(
 						ctx.chat!.id,
 						previousBotReplyId,
-						messageText,
+						result.text,
+						result.entities,
+						targetMsgId,
+					);
+					await dbService.recordCorrectionVersion(
+						ctx.chat!.id,
+						targetMsgId,
+						message,
+						result,
 					);
 					logger.debug("Successfully edited reply.");
 					return;
 				} catch (e) {
+					if (e instanceof CircuitBreakerError) throw e;
 					if (
 						e instanceof GrammyError &&
 						e.description.includes("message is not modified")
@@ -340,10 +411,12 @@ async function sendOrEditReply(
 				}
 			}
 		}
-		const sentMsg = await ctx.api.sendMessage(ctx.chat!.id, messageText, {
-			reply_parameters: { message_id: targetMsgId },
-			parse_mode: "MarkdownV2",
-		});
+		const sentMsg = await telegramBreaker.execute(() =>
+			ctx.api.sendMessage(ctx.chat!.id, messageText, {
+				reply_parameters: { message_id: targetMsgId },
+				entities,
+			}),
+		);
 		await dbService.storeBotReplyMapping(
 			targetMsgId,
 			ctx.chat!.id,
@@ -352,10 +425,24 @@ async function sendOrEditReply(
 		await dbService.storeBotReplyInHistory(
 			ctx.chat!.id,
 			sentMsg.message_id,
-			messageText,
+			result.text,
+			result.entities,
+			targetMsgId,
+		);
+		await dbService.recordCorrectionVersion(
+			ctx.chat!.id,
+			targetMsgId,
+			message,
+			result,
 		);
 		logger.debug("Successfully sent new reply.");
 	} catch (error) {
+		// Telegram is unreachable, so there is no way to tell the user
+		if (error instanceof CircuitBreakerError) {
+			logger.warn(`Dropping reply: ${error.message}`);
+			return;
+		}
+
 		// Convert to TelegramAPIError for consistent handling
 		const telegramError =
 			error instanceof GrammyError
@@ -372,7 +459,7 @@ async function sendOrEditReply(
 		// Only show user message for non-retryable errors
 		if (!telegramError.retryable) {
 			try {
-				await ctx.reply(telegramError.getUserMessage());
+				await ctx.reply(telegramError.getUserMessage(ctx.t));
 			} catch {
 				// Ignore reply errors
 			}
@@ -380,7 +467,82 @@ async function sendOrEditReply(
 	}
 }
 
-const sedHandler = new SedHandler({ workerPool, sendOrEditReply });
+/**
+ * Step a bot correction back or forward through the results it showed
+ *
+ * The command has to reply to the correction; the bot reply is edited to
+ * show the previous or next result of its target.
+ */
+async function restoreCorrection(
+	ctx: MyContext,
+	direction: "undo" | "redo",
+): Promise<void> {
+	const chatId = ctx.chat!.id;
+	const replyTo = ctx.msg?.reply_to_message;
+	const targetMsgId =
+		replyTo?.from?.id === ctx.me.id
+			? await dbService.getBotReplyTarget(replyTo.message_id, chatId)
+			: undefined;
+	if (!replyTo || targetMsgId === undefined) {
+		await ctx.reply(ctx.t("correction-notReply"));
+		return;
+	}
+
+	const version = await dbService.findCorrectionVersion(
+		chatId,
+		targetMsgId,
+		direction,
+	);
+	if (!version) {
+		await ctx.reply(
+			ctx.t(
+				direction === "undo"
+					? "correction-nothingToUndo"
+					: "correction-nothingToRedo",
+			),
+		);
+		return;
+	}
+
+	try {
+		await telegramBreaker.execute(() =>
+			ctx.api.editMessageText(chatId, replyTo.message_id, version.text, {
+				entities: version.entities,
+			}),
+		);
+	} catch (e) {
+		if (
+			!(e instanceof GrammyError) ||
+			!e.description.includes("message is not modified")
+		) {
+			logger.error(`${e}\nError restoring a correction`);
+			if (!(e instanceof CircuitBreakerError)) {
+				await ctx.reply(ctx.t("error-telegramAPI")).catch(() => {});
+			}
+			return;
+		}
+	}
+	await dbService.setCurrentCorrectionVersion(
+		chatId,
+		targetMsgId,
+		version.version,
+	);
+	await dbService.storeBotReplyInHistory(
+		chatId,
+		replyTo.message_id,
+		version.resultText,
+		version.resultEntities,
+		targetMsgId,
+	);
+	logger.debug(`Restored correction version ${version.version}.`);
+}
+
+const sedHandler = new SedHandler({
+	workerPool,
+	sendOrEditReply,
+	telegramBreaker,
+	findTargetMessage: (...args) => dbService.findTargetMessage(...args),
+});
 
 // --- Bot Logic ---
 async function handleTextMessage(
@@ -388,71 +550,78 @@ async function handleTextMessage(
 	messageText: string | undefined,
 	messageId: number,
 	isEdit: boolean,
+	entities?: MessageEntity[],
 ): Promise<void> {
 	if (!ctx.message && !ctx.editedMessage) return;
 
 	const text = messageText;
 	if (text && !text.startsWith("/") && ctx.chat) {
-		await dbService.storeMessageInHistory(ctx.chat.id, messageId, text);
+		await dbService.storeMessageInHistory(
+			ctx.chat.id,
+			messageId,
+			text,
+			entities,
+		);
 	}
 
-	if (text?.includes("s/")) {
+	if (text) {
 		const sedCommands = parseSedCommands(text);
-		logger.debug(`Found ${sedCommands.length} sed command(s).`);
 		if (sedCommands.length === 0) return;
-		const firstMatch = sedCommands[0].match(SED_PATTERN);
-		if (!firstMatch) return;
-		const { targetMsgText, targetMsgId } = await dbService.findTargetMessage(
-			ctx,
-			firstMatch,
-			isEdit ? messageId : undefined,
-		);
-		if (targetMsgText && targetMsgId && !SED_PATTERN.test(targetMsgText)) {
-			logger.debug(
-				`Found valid target. Proceeding with handleSedCommand (isEdit: ${isEdit}).`,
-			);
-			await sedHandler.handleSedCommand(
-				ctx,
-				sedCommands,
-				targetMsgText,
-				targetMsgId,
-				isEdit,
-			);
-		} else if (!targetMsgText || !targetMsgId) {
-			logger.info("No target found for sed command.");
-			if (!isEdit) {
-				await ctx
-					.reply("Could not find a matching message to substitute.")
-					.catch((err) => logger.error(err));
-			}
-		} else {
-			logger.debug("Target message is a sed command, ignoring.");
-		}
+		logger.debug(`Found ${sedCommands.length} sed command(s).`);
+		await sedHandler.handleSedMessage(ctx, sedCommands, messageId, isEdit);
 	}
 }
 
 // --- Command Group ---
 const myCommands = new CommandGroup<MyContext>();
 myCommands.command("privacy", "Show privacy information", async (ctx) => {
-	await ctx.reply(ctx.t("commands.privacy"));
+	await ctx.reply(ctx.t("command-privacy"));
 });
 myCommands.command("start", "Get a greeting message", async (ctx) => {
-	await ctx.reply(ctx.t("commands.start"), { parse_mode: "Markdown" });
+	await ctx.reply(ctx.t("command-start"), { parse_mode: "Markdown" });
 });
 
 myCommands.command("regexhelp", "Get help with regex syntax", async (ctx) => {
-	await ctx.reply(getMainHelpMessage(), {
-		parse_mode: "MarkdownV2",
-		reply_markup: createCategoryKeyboard(),
+	const help = getMainHelpMessage(ctx.t);
+	await ctx.reply(help.text, {
+		entities: help.entities,
+		reply_markup: createCategoryKeyboard(ctx.t),
 	});
 });
 
 myCommands.command("explain", "Explain a regex pattern", async (ctx) => {
 	const pattern = ctx.match.trim();
-	const explanation = explainPattern(pattern);
-	await ctx.reply(explanation, { parse_mode: "MarkdownV2" });
+	const explanation = explainPattern(pattern, ctx.t);
+	await ctx.reply(explanation.text, { entities: explanation.entities });
 });
 
+myCommands.command("test", "Test a regex against some text", async (ctx) => {
+	const args = parseTestArguments(ctx.match);
+	const replyTo = ctx.msg.reply_to_message;
+	const text = args?.text ?? replyTo?.text ?? replyTo?.caption;
+	if (!args || !text) {
+		await ctx.reply(ctx.t("regexTest-usage"));
+		return;
+	}
+	await sedHandler.handleTestCommand(ctx, args.pattern, args.flags, text);
+});
+
+myCommands.command(
+	"undo",
+	"Undo the last change to a correction",
+	async (ctx) => {
+		await restoreCorrection(ctx, "undo");
+	},
+);
+
+myCommands.command(
+	"redo",
+	"Redo an undone change to a correction",
+	async (ctx) => {
+		await restoreCorrection(ctx, "redo");
+	},
+);
+
 myCommands.command("language", "Change bot language", async (ctx) => {
 	const args = ctx.match.trim().split(/\s+/);
 	const subcommand = args[0]?.toLowerCase();
@@ -499,11 +668,17 @@ myCommands.command("language", "Change bot language", async (ctx) => {
 
 		await ctx.i18n.setLocale(langCode);
 		const langInfo = getLanguageInfo(langCode);
-		await ctx.reply(
-			ctx.t("command-language-setSuccess", {
-				language: langInfo?.nativeName || langCode,
-			}),
-		);
+		let message = ctx.t("command-language-setSuccess", {
+			language: langInfo?.nativeName || langCode,
+		});
+		// The preference is stored, but this chat keeps answering in its language
+		const chatLanguage = ctx.chatSettings.language;
+		if (chatLanguage && chatLanguage !== langCode) {
+			message += `\n\n${ctx.t("command-language-chatOverride", {
+				language: getLanguageInfo(chatLanguage)?.nativeName || chatLanguage,
+			})}`;
+		}
+		await ctx.reply(message);
 		return;
 	}
 
@@ -511,18 +686,104 @@ myCommands.command("language", "Change bot language", async (ctx) => {
 	await ctx.reply(ctx.t("command-language-usage"));
 });
 
+myCommands.command(
+	"chatsettings",
+	"Change settings for this chat",
+	async (ctx) => {
+		if (!(await canChangeChatSettings(ctx))) {
+			await ctx.reply(ctx.t("chatSettings-notAdmin"));
+			return;
+		}
+
+		const args = ctx.match.trim().split(/\s+/);
+		const setting = args[0]?.toLowerCase();
+
+		if (!setting) {
+			await ctx.reply(formatChatSettings(ctx.chatSettings, ctx.t), {
+				reply_markup: createChatSettingsKeyboard(ctx.chatSettings, ctx.t),
+			});
+			return;
+		}
+
+		if (setting === "language" && args[1]) {
+			const value = args[1].toLowerCase();
+			if (value !== "reset" && !isSupportedLanguage(value)) {
+				await ctx.reply(ctx.t("command-language-setError"));
+				return;
+			}
+
+			ctx.chatSettings = await dbService.updateChatSettings(ctx.chat.id, {
+				language: value === "reset" ? undefined : value,
+			});
+			// Answer in the language the chat uses from now on
+			await ctx.i18n.renegotiateLocale();
+			await ctx.reply(
+				value === "reset"
+					? ctx.t("chatSettings-languageReset")
+					: ctx.t("chatSettings-languageSet", {
+							language: getLanguageInfo(value)?.nativeName || value,
+						}),
+			);
+			return;
+		}
+
+		await ctx.reply(ctx.t("chatSettings-usage"));
+	},
+);
+
 myCommands.command("health", "Show bot health status", async (ctx) => {
-	const metrics = getMetrics(workerPool);
-	await ctx.reply(formatHealthStatus(metrics));
+	const metrics = getMetrics(workerPool, [telegramBreaker]);
+	const status = formatHealthStatus(metrics, ctx.t);
+	await ctx.reply(status.text, { entities: status.entities });
 });
 
 myCommands.command("metrics", "Show performance metrics", async (ctx) => {
 	const metrics = getMetrics(workerPool);
-	await ctx.reply(formatMetrics(metrics));
+	const message = formatMetrics(metrics, ctx.t);
+	await ctx.reply(message.text, { entities: message.entities });
 });
 
+// Translate the command menu for every language but the default (English)
+for (const command of myCommands.commands) {
+	for (const { code } of AVAILABLE_LANGUAGES) {
+		if (code === "en") continue;
+		command.localize(
+			code,
+			command.stringName,
+			i18n.t(code, `command-${command.stringName}-description`),
+		);
+	}
+}
+
 bot.use(myCommands);
 
+// --- Callback Query Handler for Chat Settings ---
+bot.callbackQuery(/^chatsettings:/, async (ctx) => {
+	try {
+		if (!ctx.chat || !(await canChangeChatSettings(ctx))) {
+			await ctx.answerCallbackQuery(ctx.t("chatSettings-notAdmin"));
+			return;
+		}
+
+		const action = ctx.callbackQuery.data.slice("chatsettings:".length);
+		const changes = applySettingsAction(ctx.chatSettings, action);
+		if (changes) {
+			ctx.chatSettings = await dbService.updateChatSettings(
+				ctx.chat.id,
+				changes,
+			);
+			await ctx.editMessageText(formatChatSettings(ctx.chatSettings, ctx.t), {
+				reply_markup: createChatSettingsKeyboard(ctx.chatSettings, ctx.t),
+			});
+		}
+
+		await ctx.answerCallbackQuery();
+	} catch (error) {
+		logger.error(`Chat settings callback error: ${error}`);
+		await ctx.answerCallbackQuery(ctx.t("error-unexpected"));
+	}
+});
+
 // --- Callback Query Handler for Regex Help ---
 bot.on("callback_query:data", async (ctx) => {
 	const data = ctx.callbackQuery.data;
@@ -537,41 +798,42 @@ bot.on("callback_query:data", async (ctx) => {
 	try {
 		if (action === "back") {
 			// Show main help menu
-			await ctx.editMessageText(getMainHelpMessage(), {
-				parse_mode: "MarkdownV2",
-				reply_markup: createCategoryKeyboard(),
+			const help = getMainHelpMessage(ctx.t);
+			await ctx.editMessageText(help.text, {
+				entities: help.entities,
+				reply_markup: createCategoryKeyboard(ctx.t),
 			});
 		} else if (action === "category" && parts[2]) {
 			// Show category items
 			const categoryKey = parts[2];
-			const helpText = formatCategoryHelp(categoryKey);
+			const helpText = formatCategoryHelp(categoryKey, ctx.t);
 			if (!helpText) {
-				await ctx.answerCallbackQuery("Category not found");
+				await ctx.answerCallbackQuery(ctx.t("regexHelp-categoryNotFound"));
 				return;
 			}
-			await ctx.editMessageText(helpText, {
-				parse_mode: "MarkdownV2",
-				reply_markup: createItemKeyboard(categoryKey),
+			await ctx.editMessageText(helpText.text, {
+				entities: helpText.entities,
+				reply_markup: createItemKeyboard(categoryKey, ctx.t),
 			});
 		} else if (action === "item" && parts[2] && parts[3]) {
 			// Show item details
 			const categoryKey = parts[2];
 			const itemKey = parts[3];
-			const helpText = formatItemHelp(categoryKey, itemKey);
+			const helpText = formatItemHelp(categoryKey, itemKey, ctx.t);
 			if (!helpText) {
-				await ctx.answerCallbackQuery("Item not found");
+				await ctx.answerCallbackQuery(ctx.t("regexHelp-itemNotFound"));
 				return;
 			}
-			await ctx.editMessageText(helpText, {
-				parse_mode: "MarkdownV2",
-				reply_markup: createItemKeyboard(categoryKey),
+			await ctx.editMessageText(helpText.text, {
+				entities: helpText.entities,
+				reply_markup: createItemKeyboard(categoryKey, ctx.t),
 			});
 		}
 
 		await ctx.answerCallbackQuery();
 	} catch (error) {
 		logger.error(`RegexHelp callback error: ${error}`);
-		await ctx.answerCallbackQuery("An error occurred");
+		await ctx.answerCallbackQuery(ctx.t("error-unexpected"));
 	}
 });
 
@@ -586,10 +848,18 @@ bot.on("message", async (ctx) => {
 			ctx.message.text || ctx.message.caption,
 			ctx.message.message_id,
 			false,
+			ctx.message.entities ?? ctx.message.caption_entities,
 		);
 	});
 });
 
+bot.on("inline_query", async (ctx) => {
+	await withCorrelation(async () => {
+		logger.debug(`Received inline query: ${ctx.inlineQuery.query}`);
+		await sedHandler.handleInlineQuery(ctx);
+	});
+});
+
 bot.on("edited_message", async (ctx) => {
 	await withCorrelation(async () => {
 		logger.debug(
@@ -600,11 +870,23 @@ bot.on("edited_message", async (ctx) => {
 			ctx.editedMessage.text || ctx.editedMessage.caption,
 			ctx.editedMessage.message_id,
 			true,
+			ctx.editedMessage.entities ?? ctx.editedMessage.caption_entities,
 		);
 	});
 });
 
 // --- Global Error Handlers ---
+// Errors thrown while handling an update, from polling and the webhook alike
+bot.catch(async ({ error, ctx }) => {
+	logger.error(`${error}\nError while handling update ${ctx.update.update_id}`);
+	if (!ctx.chat) return;
+	try {
+		await ctx.reply(ctx.t("error-unexpected"));
+	} catch (replyError) {
+		logger.error(`Could not report the error to the chat: ${replyError}`);
+	}
+});
+
 process.on(
 	"unhandledRejection",
 	(reason: unknown, promise: Promise<unknown>) => {
@@ -619,6 +901,8 @@ process.on("uncaughtException", (error: Error) => {
 // --- Graceful Shutdown ---
 let isShuttingDown = false;
 let healthcheckInterval: NodeJS.Timeout | null = null;
+let webhookServer: WebhookServer | null = null;
+let healthServer: HealthServer | null = null;
 
 async function gracefulShutdown(signal: string): Promise<void> {
 	if (isShuttingDown) {
@@ -640,7 +924,7 @@ async function gracefulShutdown(signal: string): Promise<void> {
 		// Stop accepting new updates from Telegram
 		logger.info("Stopping bot from accepting new updates...");
 		await Promise.race([
-			bot.stop(),
+			webhookServer ? webhookServer.stop() : bot.stop(),
 			new Promise((_, reject) =>
 				setTimeout(() => reject(new Error("bot.stop() timeout")), 5000),
 			),
@@ -661,6 +945,15 @@ async function gracefulShutdown(signal: string): Promise<void> {
 			workerPool.shutdown();
 		}
 
+		// Stop answering probes once everything else is down
+		if (healthServer) {
+			await healthServer.stop();
+		}
+
+		// Close the database so file-backed storage is flushed to disk
+		logger.info("Closing database...");
+		await db.close();
+
 		logger.info("Graceful shutdown complete.");
 		process.exit(0);
 	} catch (error) {
@@ -685,6 +978,33 @@ if (ENABLE_FILE_HEALTHCHECK) {
 	}, LIVENESS_INTERVAL_MS);
 }
 
+// --- HTTP Health Endpoints ---
+if (HEALTH_SERVER_ENABLED) {
+	healthServer = new HealthServer(
+		{
+			getWorkerPoolHealth: () => {
+				const { health } = workerPool.getStats();
+				return {
+					status: health.status,
+					details: {
+						totalWorkers: health.totalWorkers,
+						queuedTasks: health.queuedTasks,
+						errorRate: health.errorRate,
+					},
+				};
+			},
+			pingDatabase: () => dbService.ping(),
+			pingTelegram: async () => {
+				await bot.api.getMe();
+			},
+			isShuttingDown: () => isShuttingDown,
+			getMetricsText: () => formatPrometheusMetrics(workerPool),
+		},
+		{ host: HEALTH_SERVER_HOST, port: HEALTH_SERVER_PORT },
+	);
+	healthServer.start();
+}
+
 // --- Final Setup ---
 myCommands
 	.setCommands(bot)
@@ -694,5 +1014,28 @@ bot.use(async (_, next) => {
 	await next();
 	await dbService.cleanupOldEntries();
 });
-run(bot);
+if (WEBHOOK_URL) {
+	logger.info("Starting in webhook mode...");
+	webhookServer = new WebhookServer(bot, {
+		url: WEBHOOK_URL,
+		path: WEBHOOK_PATH,
+		host: WEBHOOK_HOST,
+		port: WEBHOOK_PORT,
+		secretToken: WEBHOOK_SECRET,
+	});
+	try {
+		await webhookServer.start();
+	} catch (error) {
+		logger.fatal(`Failed to start webhook: ${error}`);
+		process.exit(1);
+	}
+} else {
+	// A webhook left over from webhook mode would make getUpdates fail
+	try {
+		await bot.api.deleteWebhook();
+	} catch (error) {
+		logger.warn(`Could not delete the webhook, polling may fail: ${error}`);
+	}
+	run(bot);
+}
 logger.info("Bot started with hellspawn worker pool and custom logger!");
@@ -14,6 +14,10 @@ export class LRUCache<K, V> {
 	private cache: Map<K, CacheEntry<V>>;
 	private maxSize: number;
 	private defaultTTL: number | null;
+	private hits = 0;
+	private misses = 0;
+	private evictions = 0;
+	private expirations = 0;
 
 	/**
 	 * @param maxSize - Maximum number of items in cache
@@ -33,15 +37,19 @@ export class LRUCache<K, V> {
 	get(key: K): V | undefined {
 		const entry = this.cache.get(key);
 		if (entry === undefined) {
+			this.misses++;
 			return undefined;
 		}
 
 		// Check if expired
 		if (entry.expiresAt !== null && Date.now() > entry.expiresAt) {
 			this.cache.delete(key);
+			this.misses++;
+			this.expirations++;
 			return undefined;
 		}
 
+		this.hits++;
 		// Move to end (most recently used)
 		this.cache.delete(key);
 		this.cache.set(key, entry);
@@ -72,6 +80,7 @@ export class LRUCache<K, V> {
 			const firstKey = this.cache.keys().next().value;
 			if (firstKey !== undefined) {
 				this.cache.delete(firstKey);
+				this.evictions++;
 			}
 		}
 	}
@@ -88,6 +97,7 @@ export class LRUCache<K, V> {
 		// Check if expired
 		if (entry.expiresAt !== null && Date.now() > entry.expiresAt) {
 			this.cache.delete(key);
+			this.expirations++;
 			return false;
 		}
 
@@ -103,16 +113,30 @@ export class LRUCache<K, V> {
 
 	/**
 	 * Get cache statistics
+	 *
+	 * Counters are cumulative since creation. A lookup of an expired entry
+	 * counts as both a miss and an expiration.
 	 */
 	getStats(): {
 		size: number;
 		maxSize: number;
 		defaultTTL: number | null;
+		hits: number;
+		misses: number;
+		evictions: number;
+		expirations: number;
+		hitRate: number;
 	} {
+		const lookups = this.hits + this.misses;
 		return {
 			size: this.cache.size,
 			maxSize: this.maxSize,
 			defaultTTL: this.defaultTTL,
+			hits: this.hits,
+			misses: this.misses,
+			evictions: this.evictions,
+			expirations: this.expirations,
+			hitRate: lookups > 0 ? this.hits / lookups : 0,
 		};
 	}
 
@@ -136,6 +160,7 @@ export class LRUCache<K, V> {
 				removed++;
 			}
 		}
+		this.expirations += removed;
 		return removed;
 	}
 }
@@ -0,0 +1,148 @@
+/**
+ * Entity-based message builder
+ *
+ * Builds message text together with its formatting entities, so nothing has
+ * to be escaped for a parse mode. A pattern or message text with characters
+ * like `*` or `_` can't break the formatting, or the request, this way.
+ */
+import type { MessageEntity } from "grammy/types";
+import type { TranslateFn } from "./i18n";
+
+/**
+ * Text with the entities that format it, ready to be sent
+ */
+export interface FormattedText {
+	text: string;
+	entities: MessageEntity[];
+}
+
+/**
+ * Text to append: plain, or already formatted
+ */
+export type Content = string | FormattedText;
+
+// An entity without its position, which the builder fills in
+type EntityDetails = MessageEntity extends infer E
+	? E extends MessageEntity
+		? Omit<E, "offset" | "length">
+		: never
+	: never;
+
+/**
+ * Appends text and formatting to a message, keeping entity offsets in step
+ *
+ * Offsets count UTF-16 code units like Telegram does, which is what string
+ * lengths are in JavaScript.
+ */
+export class MessageBuilder {
+	private text = "";
+	private entities: MessageEntity[] = [];
+
+	/** Length of the text so far */
+	get length(): number {
+		return this.text.length;
+	}
+
+	/**
+	 * Append plain text, or formatted text with its entities
+	 */
+	add(content: Content): this {
+		if (typeof content === "string") {
+			this.text += content;
+			return this;
+		}
+		const offset = this.text.length;
+		this.text += content.text;
+		for (const entity of content.entities) {
+			this.entities.push({ ...entity, offset: entity.offset + offset });
+		}
+		return this;
+	}
+
+	bold(content: Content): this {
+		return this.format(content, { type: "bold" });
+	}
+
+	italic(content: Content): this {
+		return this.format(content, { type: "italic" });
+	}
+
+	underline(content: Content): this {
+		return this.format(content, { type: "underline" });
+	}
+
+	strikethrough(content: Content): this {
+		return this.format(content, { type: "strikethrough" });
+	}
+
+	/** Append inline monospace text, which can't hold other formatting */
+	code(content: string): this {
+		return this.format(content, { type: "code" });
+	}
+
+	/**
+	 * Append content covered by an entity
+	 *
+	 * The entity goes before the ones inside the content, as Telegram wants
+	 * nested entities listed from the outside in.
+	 */
+	format(content: Content, entity: EntityDetails): this {
+		const offset = this.text.length;
+		const index = this.entities.length;
+		this.add(content);
+		const length = this.text.length - offset;
+		if (length > 0) {
+			this.entities.splice(index, 0, {
+				...entity,
+				offset,
+				length,
+			} as MessageEntity);
+		}
+		return this;
+	}
+
+	build(): FormattedText {
+		return { text: this.text, entities: [...this.entities] };
+	}
+}
+
+/**
+ * Format some text with a single entity
+ */
+export function formatted(
+	content: Content,
+	entity: EntityDetails,
+): FormattedText {
+	return new MessageBuilder().format(content, entity).build();
+}
+
+/**
+ * Translate a message whose variables may carry formatting
+ *
+ * Formatted variables are passed to the translation as placeholder characters
+ * from the private use area, then swapped for the formatted text. Numbers and
+ * plain strings are passed as they are, so they can still select plurals.
+ */
+export function translateFormatted(
+	t: TranslateFn,
+	key: string,
+	variables: Record<string, string | number | FormattedText>,
+): FormattedText {
+	const placeholders = new Map<string, FormattedText>();
+	const plain: Record<string, string | number> = {};
+	for (const [name, value] of Object.entries(variables)) {
+		if (typeof value === "object") {
+			const placeholder = String.fromCharCode(0xe000 + placeholders.size);
+			placeholders.set(placeholder, value);
+			plain[name] = placeholder;
+		} else {
+			plain[name] = value;
+		}
+	}
+
+	const builder = new MessageBuilder();
+	for (const part of t(key, plain).split(/([\ue000-\uf8ff])/)) {
+		builder.add(placeholders.get(part) ?? part);
+	}
+	return builder.build();
+}
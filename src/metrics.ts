@@ -5,11 +5,20 @@
  */
 
 import { getRegexCacheStats } from "./utils";
+import type { RegexCacheActivity } from "./types";
 import type { WorkerPool } from "./workerPool";
+import type { CircuitBreaker, CircuitBreakerStats } from "./circuitBreaker";
+import type { TranslateFn } from "./i18n";
+import { MessageBuilder, type FormattedText } from "./messageBuilder";
 
 // Simple in-memory metrics (resets on restart)
 let totalSubstitutions = 0;
 let totalRegexCompilations = 0;
+let totalRateLimitRejections = 0;
+let totalDangerousPatternsBlocked = 0;
+// Regex cache activity reported by workers (each has its own cache)
+const workerCacheTotals = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+const telegramErrorsByCode = new Map<string, number>();
 const botStartTime = Date.now();
 
 /**
@@ -20,23 +29,73 @@ export function recordSubstitution(): void {
 }
 
 /**
- * Record a regex compilation
+ * Record regex compilations
  */
-export function recordRegexCompilation(): void {
-	totalRegexCompilations++;
+export function recordRegexCompilation(count = 1): void {
+	totalRegexCompilations += count;
+}
+
+/**
+ * Record the regex cache activity of one worker task
+ */
+export function recordRegexCacheActivity(activity: RegexCacheActivity): void {
+	workerCacheTotals.hits += activity.hits;
+	workerCacheTotals.misses += activity.misses;
+	workerCacheTotals.evictions += activity.evictions;
+	workerCacheTotals.expirations += activity.expirations;
+	recordRegexCompilation(activity.compilations);
+}
+
+/**
+ * Record a command rejected by the rate limiter
+ */
+export function recordRateLimitRejection(): void {
+	totalRateLimitRejections++;
+}
+
+/**
+ * Record a command refused because its pattern was too dangerous to run
+ */
+export function recordDangerousPatternBlocked(): void {
+	totalDangerousPatternsBlocked++;
+}
+
+/**
+ * Record a failed Telegram API call
+ * @param code - Telegram error code, or "network" for transport failures
+ */
+export function recordTelegramError(code: number | string): void {
+	const key = String(code);
+	telegramErrorsByCode.set(key, (telegramErrorsByCode.get(key) ?? 0) + 1);
 }
 
 /**
  * Get current metrics
+ * @param circuitBreakers - Breakers to report besides the worker pool's own
  */
-export function getMetrics(workerPool?: WorkerPool): MetricsData {
+export function getMetrics(
+	workerPool?: WorkerPool,
+	circuitBreakers: CircuitBreaker[] = [],
+): MetricsData {
+	// Combine the main thread cache (history search) with worker caches
 	const cacheStats = getRegexCacheStats();
 	const workerStats = workerPool?.getStats();
+	const cacheHits = cacheStats.hits + workerCacheTotals.hits;
+	const cacheMisses = cacheStats.misses + workerCacheTotals.misses;
 
 	return {
 		totalSubstitutions,
-		totalRegexCompilations,
-		cachedRegexes: cacheStats.size,
+		totalRegexCompilations: totalRegexCompilations + cacheStats.compilations,
+		totalRateLimitRejections,
+		totalDangerousPatternsBlocked,
+		telegramErrors: Object.fromEntries(telegramErrorsByCode),
+		cacheHits,
+		cacheMisses,
+		cacheEvictions: cacheStats.evictions + workerCacheTotals.evictions,
+		cacheExpirations: cacheStats.expirations + workerCacheTotals.expirations,
+		cacheHitRate:
+			cacheHits + cacheMisses > 0 ? cacheHits / (cacheHits + cacheMisses) : 0,
+		cachedRegexes: cacheStats.size + (workerPool?.getRegexCacheSize() ?? 0),
 		cacheMaxSize: cacheStats.maxSize,
 		cacheEnabled: cacheStats.enabled,
 		uptime: Date.now() - botStartTime,
@@ -46,10 +105,15 @@ export function getMetrics(workerPool?: WorkerPool): MetricsData {
 					idleWorkers: workerStats.idleWorkers,
 					busyWorkers: workerStats.busyWorkers,
 					queuedTasks: workerStats.queuedTasks,
+					pendingTasks: workerStats.pendingTasks,
 					healthStatus: workerStats.health.status,
 					errorRate: (workerStats.health.errorRate * 100).toFixed(1),
 				}
 			: null,
+		circuitBreakers: [
+			...(workerPool ? [workerPool.getCircuitBreakerStats()] : []),
+			...circuitBreakers.map((breaker) => breaker.getStats()),
+		],
 	};
 }
 
@@ -71,59 +135,111 @@ export function formatUptime(ms: number): string {
 	return `${minutes}m ${seconds % 60}s`;
 }
 
+// Message keys for health and circuit breaker states
+const HEALTH_STATUS_KEYS: Record<string, string> = {
+	healthy: "health-healthy",
+	degraded: "health-degraded",
+	unhealthy: "health-unhealthy",
+};
+const CIRCUIT_STATE_KEYS: Record<string, string> = {
+	CLOSED: "health-circuitClosed",
+	OPEN: "health-circuitOpen",
+	HALF_OPEN: "health-circuitHalfOpen",
+};
+
 /**
  * Format health status output
  */
-export function formatHealthStatus(metrics: MetricsData): string {
+export function formatHealthStatus(
+	metrics: MetricsData,
+	t: TranslateFn,
+): FormattedText {
 	const lines: string[] = [];
 
-	lines.push(
-		`Bot Health Status: ${metrics.workerStats?.healthStatus.toUpperCase() ?? "UNKNOWN"}\n`,
-	);
+	const statusKey =
+		HEALTH_STATUS_KEYS[metrics.workerStats?.healthStatus ?? ""] ??
+		"health-unknown";
+	const title = t("health-status", { status: t(statusKey) });
 
 	if (metrics.workerStats) {
 		lines.push(
-			`Workers: ${metrics.workerStats.busyWorkers} active, ${metrics.workerStats.idleWorkers} idle`,
+			t("health-workers", {
+				active: metrics.workerStats.busyWorkers,
+				idle: metrics.workerStats.idleWorkers,
+			}),
 		);
-		lines.push(`Queue: ${metrics.workerStats.queuedTasks} pending tasks`);
-		lines.push(`Error Rate: ${metrics.workerStats.errorRate}%`);
+		lines.push(t("health-queue", { pending: metrics.workerStats.queuedTasks }));
+		lines.push(t("health-errorRate", { rate: metrics.workerStats.errorRate }));
 	} else {
-		lines.push("Worker pool: Not available");
+		lines.push(t("health-workersUnavailable"));
+	}
+
+	if (metrics.circuitBreakers.length > 0) {
+		lines.push(t("health-circuitBreakers"));
+		for (const breaker of metrics.circuitBreakers) {
+			const state = CIRCUIT_STATE_KEYS[breaker.state]
+				? t(CIRCUIT_STATE_KEYS[breaker.state])
+				: breaker.state;
+			const retry =
+				breaker.openUntil !== null
+					? ` (${t("health-circuitRetry", {
+							seconds: Math.max(
+								0,
+								Math.ceil((breaker.openUntil - Date.now()) / 1000),
+							),
+						})})`
+					: "";
+			lines.push(`  ${breaker.name}: ${state}${retry}`);
+		}
 	}
 
-	lines.push(`Uptime: ${formatUptime(metrics.uptime)}`);
+	lines.push(t("health-uptime", { uptime: formatUptime(metrics.uptime) }));
 
-	return lines.join("\n");
+	return new MessageBuilder()
+		.bold(title)
+		.add(`\n\n${lines.join("\n")}`)
+		.build();
 }
 
 /**
  * Format metrics output
  */
-export function formatMetrics(metrics: MetricsData): string {
+export function formatMetrics(
+	metrics: MetricsData,
+	t: TranslateFn,
+): FormattedText {
 	const lines: string[] = [];
 
-	lines.push("Performance Metrics:\n");
-
 	if (metrics.cacheEnabled) {
-		const hitRate =
-			metrics.cachedRegexes > 0
-				? ((metrics.cachedRegexes / metrics.cacheMaxSize) * 100).toFixed(0)
-				: "0";
+		lines.push(t("metrics-cacheEntries", { count: metrics.cachedRegexes }));
+		lines.push(
+			t("metrics-cacheHitRate", {
+				rate: (metrics.cacheHitRate * 100).toFixed(0),
+				hits: metrics.cacheHits,
+				lookups: metrics.cacheHits + metrics.cacheMisses,
+			}),
+		);
 		lines.push(
-			`Cache: ${metrics.cachedRegexes}/${metrics.cacheMaxSize} entries (${hitRate}% full)`,
+			t("metrics-cacheChurn", {
+				evictions: metrics.cacheEvictions,
+				expirations: metrics.cacheExpirations,
+			}),
 		);
 	} else {
-		lines.push("Cache: Disabled");
+		lines.push(t("metrics-cacheDisabled"));
 	}
 
 	lines.push(
-		`Total Substitutions: ${metrics.totalSubstitutions.toLocaleString()}`,
+		t("metrics-totalSubstitutions", { count: metrics.totalSubstitutions }),
 	);
 	lines.push(
-		`Regex Compilations: ${metrics.totalRegexCompilations.toLocaleString()}`,
+		t("metrics-regexCompilations", { total: metrics.totalRegexCompilations }),
 	);
 
-	return lines.join("\n");
+	return new MessageBuilder()
+		.bold(t("metrics-title"))
+		.add(`\n\n${lines.join("\n")}`)
+		.build();
 }
 
 /**
@@ -132,6 +248,15 @@ export function formatMetrics(metrics: MetricsData): string {
 export interface MetricsData {
 	totalSubstitutions: number;
 	totalRegexCompilations: number;
+	totalRateLimitRejections: number;
+	totalDangerousPatternsBlocked: number;
+	telegramErrors: Record<string, number>;
+	cacheHits: number;
+	cacheMisses: number;
+	cacheEvictions: number;
+	cacheExpirations: number;
+	/** Hits divided by lookups (0-1) */
+	cacheHitRate: number;
 	cachedRegexes: number;
 	cacheMaxSize: number;
 	cacheEnabled: boolean;
@@ -141,7 +266,9 @@ export interface MetricsData {
 		idleWorkers: number;
 		busyWorkers: number;
 		queuedTasks: number;
+		pendingTasks: number;
 		healthStatus: string;
 		errorRate: string;
 	} | null;
+	circuitBreakers: CircuitBreakerStats[];
 }
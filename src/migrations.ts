@@ -0,0 +1,191 @@
+/**
+ * Versioned schema migrations for regexYbot
+ *
+ * Each migration runs exactly once, inside a transaction, and is recorded in
+ * the schema_migrations table. New schema changes must be appended as a new
+ * migration with the next version number - never edit an applied one.
+ */
+
+import type { SQL } from "bun";
+import { Logger } from "./logger";
+
+const logger = new Logger("Migrations");
+
+/**
+ * A single schema migration step
+ */
+export interface Migration {
+	/** Monotonically increasing schema version */
+	version: number;
+	/** Short human-readable name, used for logging */
+	name: string;
+	/** Applies the migration using the given (transaction-scoped) connection */
+	up: (db: SQL) => Promise<void>;
+}
+
+/**
+ * All known migrations, ordered by version
+ */
+export const MIGRATIONS: Migration[] = [
+	{
+		version: 1,
+		name: "initial_schema",
+		up: async (db) => {
+			await db`
+				CREATE TABLE IF NOT EXISTS message_history (
+					chat_id INTEGER NOT NULL,
+					message_id INTEGER NOT NULL,
+					text TEXT,
+					timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+					PRIMARY KEY (chat_id, message_id)
+				)
+			`;
+			await db`
+				CREATE TABLE IF NOT EXISTS bot_replies (
+					target_message_id INTEGER NOT NULL,
+					chat_id INTEGER NOT NULL,
+					bot_message_id INTEGER NOT NULL,
+					timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+					PRIMARY KEY (target_message_id, chat_id)
+				)
+			`;
+			await db`CREATE INDEX IF NOT EXISTS idx_bot_replies_timestamp ON bot_replies(timestamp)`;
+			await db`CREATE INDEX IF NOT EXISTS idx_message_history_timestamp ON message_history(timestamp)`;
+			await db`CREATE INDEX IF NOT EXISTS idx_message_history_chat_id ON message_history(chat_id)`;
+			await db`CREATE INDEX IF NOT EXISTS idx_bot_replies_chat_id ON bot_replies(chat_id)`;
+			await db`CREATE INDEX IF NOT EXISTS idx_bot_replies_target ON bot_replies(target_message_id)`;
+		},
+	},
+	{
+		version: 2,
+		name: "chat_settings",
+		up: async (db) => {
+			await db`
+				CREATE TABLE IF NOT EXISTS chat_settings (
+					chat_id INTEGER PRIMARY KEY,
+					language TEXT,
+					updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+				)
+			`;
+		},
+	},
+	{
+		version: 3,
+		name: "chat_feature_settings",
+		up: async (db) => {
+			// NULL keeps the default, so existing chats are unaffected
+			await db`ALTER TABLE chat_settings ADD COLUMN tips INTEGER`;
+			await db`ALTER TABLE chat_settings ADD COLUMN danger_warnings INTEGER`;
+			await db`ALTER TABLE chat_settings ADD COLUMN reply_only INTEGER`;
+			await db`ALTER TABLE chat_settings ADD COLUMN max_chain_length INTEGER`;
+			await db`ALTER TABLE chat_settings ADD COLUMN allowed_flags TEXT`;
+		},
+	},
+	{
+		version: 4,
+		name: "chat_danger_policy",
+		up: async (db) => {
+			await db`ALTER TABLE chat_settings ADD COLUMN danger_policy TEXT`;
+		},
+	},
+	{
+		version: 5,
+		name: "message_entities",
+		up: async (db) => {
+			// Formatting of the text as JSON, NULL for plain messages
+			await db`ALTER TABLE message_history ADD COLUMN entities TEXT`;
+		},
+	},
+	{
+		version: 6,
+		name: "correction_versions",
+		up: async (db) => {
+			// Every result the bot showed for a target; undone versions can be redone
+			await db`
+				CREATE TABLE IF NOT EXISTS correction_versions (
+					chat_id INTEGER NOT NULL,
+					target_message_id INTEGER NOT NULL,
+					version INTEGER NOT NULL,
+					text TEXT NOT NULL,
+					entities TEXT,
+					undone INTEGER NOT NULL DEFAULT 0,
+					timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+					PRIMARY KEY (chat_id, target_message_id, version)
+				)
+			`;
+			await db`CREATE INDEX IF NOT EXISTS idx_correction_versions_timestamp ON correction_versions(timestamp)`;
+		},
+	},
+	{
+		version: 7,
+		name: "chained_corrections",
+		up: async (db) => {
+			// For bot replies, the message they correct; NULL for user messages
+			await db`ALTER TABLE message_history ADD COLUMN source_message_id INTEGER`;
+			// The corrected text itself, without a diff or timing around it
+			await db`ALTER TABLE correction_versions ADD COLUMN result_text TEXT`;
+			await db`ALTER TABLE correction_versions ADD COLUMN result_entities TEXT`;
+		},
+	},
+];
+
+/**
+ * Get the currently applied schema version (0 for a fresh database)
+ */
+export async function getSchemaVersion(db: SQL): Promise<number> {
+	await ensureMigrationsTable(db);
+	const [{ version }] = await db`
+		SELECT COALESCE(MAX(version), 0) as version FROM schema_migrations
+	`;
+	return version;
+}
+
+/**
+ * Apply all pending migrations in order
+ *
+ * @param db - The SQLite database instance
+ * @param migrations - Migrations to apply (defaults to MIGRATIONS)
+ * @returns Number of migrations applied
+ */
+export async function runMigrations(
+	db: SQL,
+	migrations: Migration[] = MIGRATIONS,
+): Promise<number> {
+	const currentVersion = await getSchemaVersion(db);
+	const pending = migrations
+		.filter((m) => m.version > currentVersion)
+		.sort((a, b) => a.version - b.version);
+
+	if (pending.length === 0) {
+		logger.debug(`Database schema is up to date (version ${currentVersion}).`);
+		return 0;
+	}
+
+	for (const migration of pending) {
+		logger.info(
+			`Applying migration ${migration.version} (${migration.name})...`,
+		);
+		await db.begin(async (tx) => {
+			await migration.up(tx);
+			await tx`
+				INSERT INTO schema_migrations (version, name)
+				VALUES (${migration.version}, ${migration.name})
+			`;
+		});
+	}
+
+	logger.info(
+		`Database schema migrated from version ${currentVersion} to ${pending[pending.length - 1].version}.`,
+	);
+	return pending.length;
+}
+
+async function ensureMigrationsTable(db: SQL): Promise<void> {
+	await db`
+		CREATE TABLE IF NOT EXISTS schema_migrations (
+			version INTEGER PRIMARY KEY,
+			name TEXT NOT NULL,
+			applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+		)
+	`;
+}
@@ -6,6 +6,7 @@
  */
 
 import { Logger } from "./logger";
+import type { TranslateFn } from "./i18n";
 
 const _logger = new Logger("OptimizationTips");
 
@@ -17,6 +18,9 @@ export interface OptimizationTip {
 	suggestion: string;
 	reason: string;
 	severity: "minor" | "moderate" | "significant";
+	/** Message key and variables used to show the tip to users */
+	messageKey: string;
+	messageArgs?: Record<string, string>;
 }
 
 /**
@@ -55,6 +59,8 @@ export function analyzePatternForTips(pattern: string): OptimizationTip[] {
 			suggestion: "\\d",
 			reason: "shorter and more readable",
 			severity: "minor",
+			messageKey: "tip-useShorthand",
+			messageArgs: { shorthand: "\\d", longform: "[0-9]" },
 		});
 	}
 
@@ -65,6 +71,8 @@ export function analyzePatternForTips(pattern: string): OptimizationTip[] {
 			suggestion: "\\w",
 			reason: "shorter and more readable",
 			severity: "minor",
+			messageKey: "tip-useShorthand",
+			messageArgs: { shorthand: "\\w", longform: "[a-zA-Z0-9_]" },
 		});
 	}
 
@@ -75,6 +83,8 @@ export function analyzePatternForTips(pattern: string): OptimizationTip[] {
 			suggestion: "\\s",
 			reason: "includes all whitespace characters",
 			severity: "moderate",
+			messageKey: "tip-whitespace",
+			messageArgs: { shorthand: "\\s", longform: "[ \\t]" },
 		});
 	}
 
@@ -86,6 +96,7 @@ export function analyzePatternForTips(pattern: string): OptimizationTip[] {
 			suggestion: "(?: ) for non-capturing",
 			reason: "faster if you don't need backreferences",
 			severity: "moderate",
+			messageKey: "tip-nonCapturing",
 		});
 	}
 
@@ -96,21 +107,25 @@ export function analyzePatternForTips(pattern: string): OptimizationTip[] {
 			suggestion: ". with s flag",
 			reason: "more idiomatic and clear",
 			severity: "minor",
+			messageKey: "tip-dotAll",
+			messageArgs: { longform: "[\\s\\S]" },
 		});
 	}
 
 	// Check for unnecessary escaping
 	const unnecessaryEscapes = pattern.match(/\\[a-zA-Z0-9]/g);
 	if (unnecessaryEscapes) {
-		const hasUnnecessary = unnecessaryEscapes.some(
+		const unnecessary = unnecessaryEscapes.find(
 			(e) => !/\\[nrtdwDsWbB]/.test(e),
 		);
-		if (hasUnnecessary) {
+		if (unnecessary) {
 			tips.push({
 				pattern: "\\X escaping",
 				suggestion: "remove unnecessary escapes",
 				reason: "cleaner pattern",
 				severity: "minor",
+				messageKey: "tip-unnecessaryEscape",
+				messageArgs: { example: unnecessary },
 			});
 		}
 	}
@@ -123,6 +138,7 @@ export function analyzePatternForTips(pattern: string): OptimizationTip[] {
 			suggestion: ".*?",
 			reason: "lazy quantifier can be faster for large texts",
 			severity: "moderate",
+			messageKey: "tip-greedy",
 		});
 	}
 
@@ -138,6 +154,7 @@ export function analyzePatternForTips(pattern: string): OptimizationTip[] {
 			suggestion: "add ^ and/or $ anchors",
 			reason: "can improve performance",
 			severity: "moderate",
+			messageKey: "tip-anchors",
 		});
 	}
 
@@ -147,8 +164,10 @@ export function analyzePatternForTips(pattern: string): OptimizationTip[] {
 /**
  * Format a tip message
  */
-export function formatTip(tip: OptimizationTip): string {
-	return `💡 Tip: ${tip.pattern} → ${tip.suggestion} (${tip.reason})`;
+export function formatTip(tip: OptimizationTip, t: TranslateFn): string {
+	return `💡 ${t("tip-optimization", {
+		suggestion: t(tip.messageKey, tip.messageArgs),
+	})}`;
 }
 
 /**
@@ -211,10 +230,11 @@ export async function sendTransientTip(
 			deleteMessage: (chatId: number, messageId: number) => Promise<true>;
 		};
 		chat?: { id: number };
+		t: TranslateFn;
 	},
 	tip: OptimizationTip,
 ): Promise<void> {
-	const formattedTip = formatTip(tip);
+	const formattedTip = formatTip(tip, ctx.t);
 
 	try {
 		const sentMessage = await ctx.reply(formattedTip);
@@ -0,0 +1,190 @@
+/**
+ * Prometheus exporter for regexYbot
+ *
+ * Renders the in-memory metrics in the Prometheus text exposition format
+ * (version 0.0.4), served on /metrics by the health server.
+ */
+
+import { getMetrics } from "./metrics";
+import type { HealthStatus } from "./healthMonitor";
+import type { WorkerPool } from "./workerPool";
+
+export const PROMETHEUS_CONTENT_TYPE =
+	"text/plain; version=0.0.4; charset=utf-8";
+
+const PREFIX = "regexybot";
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+interface Sample {
+	/** Suffix appended to the metric name (e.g. "_bucket") */
+	suffix?: string;
+	labels?: Record<string, string>;
+	value: number;
+}
+
+const HEALTH_STATUS_VALUES: Record<HealthStatus, number> = {
+	healthy: 0,
+	degraded: 1,
+	unhealthy: 2,
+};
+
+/**
+ * Escape a label value (backslash, double quote and newline)
+ */
+function escapeLabelValue(value: string): string {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number): string {
+	if (value === Infinity) return "+Inf";
+	if (value === -Infinity) return "-Inf";
+	return String(value);
+}
+
+/**
+ * Render one metric family with its HELP and TYPE lines
+ */
+function formatMetric(
+	name: string,
+	type: MetricType,
+	help: string,
+	samples: Sample[],
+): string {
+	const fullName = `${PREFIX}_${name}`;
+	const lines = [`# HELP ${fullName} ${help}`, `# TYPE ${fullName} ${type}`];
+	for (const { suffix = "", labels, value } of samples) {
+		const labelText = labels
+			? `{${Object.entries(labels)
+					.map(([key, val]) => `${key}="${escapeLabelValue(val)}"`)
+					.join(",")}}`
+			: "";
+		lines.push(`${fullName}${suffix}${labelText} ${formatValue(value)}`);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Render all bot metrics in Prometheus text format
+ */
+export function formatPrometheusMetrics(workerPool?: WorkerPool): string {
+	const metrics = getMetrics(workerPool);
+	const families: string[] = [
+		formatMetric(
+			"substitutions_total",
+			"counter",
+			"Successful sed command chains.",
+			[{ value: metrics.totalSubstitutions }],
+		),
+		formatMetric(
+			"regex_compilations_total",
+			"counter",
+			"Regex patterns compiled.",
+			[{ value: metrics.totalRegexCompilations }],
+		),
+		formatMetric(
+			"regex_cache_hits_total",
+			"counter",
+			"Regex cache lookups that found a compiled pattern.",
+			[{ value: metrics.cacheHits }],
+		),
+		formatMetric(
+			"regex_cache_misses_total",
+			"counter",
+			"Regex cache lookups that had to compile the pattern.",
+			[{ value: metrics.cacheMisses }],
+		),
+		formatMetric(
+			"regex_cache_evictions_total",
+			"counter",
+			"Regexes evicted from the cache to stay within its size limit.",
+			[{ value: metrics.cacheEvictions }],
+		),
+		formatMetric(
+			"regex_cache_expirations_total",
+			"counter",
+			"Regexes removed from the cache after their TTL expired.",
+			[{ value: metrics.cacheExpirations }],
+		),
+		formatMetric("regex_cache_entries", "gauge", "Compiled regexes cached.", [
+			{ value: metrics.cachedRegexes },
+		]),
+		formatMetric(
+			"rate_limit_rejections_total",
+			"counter",
+			"Messages rejected by the per-user rate limiter.",
+			[{ value: metrics.totalRateLimitRejections }],
+		),
+		formatMetric(
+			"dangerous_patterns_blocked_total",
+			"counter",
+			"Commands refused because the chat's policy blocks their pattern.",
+			[{ value: metrics.totalDangerousPatternsBlocked }],
+		),
+		formatMetric(
+			"telegram_api_errors_total",
+			"counter",
+			"Failed Telegram API calls by error code.",
+			Object.entries(metrics.telegramErrors).map(([code, value]) => ({
+				labels: { code },
+				value,
+			})),
+		),
+		formatMetric("uptime_seconds", "gauge", "Seconds since the bot started.", [
+			{ value: Math.floor(metrics.uptime / 1000) },
+		]),
+	];
+
+	if (workerPool) {
+		const stats = workerPool.getStats();
+		const histogram = workerPool.getTaskDurationHistogram();
+		families.push(
+			formatMetric("worker_pool_workers", "gauge", "Workers by state.", [
+				{ labels: { state: "busy" }, value: stats.busyWorkers },
+				{ labels: { state: "idle" }, value: stats.idleWorkers },
+			]),
+			formatMetric(
+				"worker_pool_queued_tasks",
+				"gauge",
+				"Tasks waiting for a worker.",
+				[{ value: stats.queuedTasks }],
+			),
+			formatMetric(
+				"worker_pool_error_rate",
+				"gauge",
+				"Share of failed worker tasks (0-1).",
+				[{ value: stats.health.errorRate }],
+			),
+			formatMetric(
+				"worker_pool_health",
+				"gauge",
+				"Worker pool health (0 = healthy, 1 = degraded, 2 = unhealthy).",
+				[{ value: HEALTH_STATUS_VALUES[stats.health.status] }],
+			),
+			formatMetric(
+				"worker_task_duration_seconds",
+				"histogram",
+				"Duration of successful worker tasks.",
+				[
+					...histogram.buckets.map(({ le, count }) => ({
+						suffix: "_bucket",
+						labels: { le: String(le / 1000) },
+						value: count,
+					})),
+					{
+						suffix: "_bucket",
+						labels: { le: "+Inf" },
+						value: histogram.count,
+					},
+					{ suffix: "_sum", value: histogram.sum / 1000 },
+					{ suffix: "_count", value: histogram.count },
+				],
+			),
+		);
+	}
+
+	return families.join("\n\n") + "\n";
+}
@@ -0,0 +1,1086 @@
+/**
+ * Regex denial of service (ReDoS) analysis
+ *
+ * Builds a Glushkov automaton from the parsed pattern and looks for the two
+ * kinds of ambiguity that make backtracking matchers slow (Weideman et al.,
+ * "Analyzing Matching Time Behavior of Backtracking Regular Expression
+ * Matchers by Using Ambiguity of NFA"):
+ *
+ * - EDA (exponential degree of ambiguity): a state loops back to itself along
+ *   two different paths reading the same word, as in (a|a)* or (a+)+
+ * - IDA (infinite degree of ambiguity): a looping state reaches a different
+ *   looping state, all on the same word, as in \d+\d+ (polynomial)
+ *
+ * Lookarounds, backreferences and \b are treated as matching the empty
+ * string, so the automaton may accept more than the pattern does. A search
+ * tries every start position, so unless the pattern is anchored the
+ * automaton starts with a lazy loop over any character, like [^]*?.
+ */
+
+import {
+	parseRegex,
+	getChildren,
+	RegexSyntaxError,
+	type CharacterClassNode,
+	type ClassItem,
+	type QuantifierNode,
+	type RegexNode,
+	type Span,
+	type UnicodePropertyNode,
+} from "./regexParser";
+
+/**
+ * How matching time grows with the input length on a failing match;
+ * "unknown" for patterns too large to analyze
+ */
+export type BacktrackingComplexity =
+	"safe" | "polynomial" | "exponential" | "unknown";
+
+/**
+ * Input that makes a pattern slow: prefix + pump repeated + suffix
+ */
+export interface AttackString {
+	prefix: string;
+	pump: string;
+	suffix: string;
+}
+
+/**
+ * Result of analyzing a pattern
+ */
+export interface RedosAnalysis {
+	complexity: BacktrackingComplexity;
+	/** Exponent of the input length, for polynomial patterns */
+	degree?: number;
+	/** The sub-expression that makes the pattern slow */
+	culprit?: Span & { source: string };
+	attack?: AttackString;
+}
+
+// Automata beyond these sizes are not analyzed. Padding a pattern past them
+// must not make it look safe, so they are reported as unknown.
+const MAX_STATES = 300;
+const MAX_WORK = 500_000;
+
+// Bounded repetitions up to this are expanded, larger ones count as unbounded
+const MAX_EXPANDED_REPEAT = 10;
+
+// Pseudo characters for the start and end of the input, matched by ^ and $
+const BOS = -2;
+const EOS = -1;
+
+/**
+ * Sorted, disjoint, inclusive code point ranges
+ */
+type CharSet = [number, number][];
+
+const DIGIT: CharSet = [[0x30, 0x39]];
+const WORD: CharSet = [
+	[0x30, 0x39],
+	[0x41, 0x5a],
+	[0x5f, 0x5f],
+	[0x61, 0x7a],
+];
+const SPACE: CharSet = [
+	[0x09, 0x0d],
+	[0x20, 0x20],
+	[0xa0, 0xa0],
+	[0x1680, 0x1680],
+	[0x2000, 0x200a],
+	[0x2028, 0x2029],
+	[0x202f, 0x202f],
+	[0x205f, 0x205f],
+	[0x3000, 0x3000],
+	[0xfeff, 0xfeff],
+];
+const LINE_TERMINATORS: CharSet = [
+	[0x0a, 0x0a],
+	[0x0d, 0x0d],
+	[0x2028, 0x2029],
+];
+
+// Characters tried first when an attack string needs one from a set
+const PREFERRED_SAMPLES = "a0 !_-.xA";
+
+// Thrown when an automaton is too big to analyze
+class AnalysisLimitError extends Error {}
+
+function normalize(ranges: CharSet): CharSet {
+	const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+	const result: CharSet = [];
+	for (const [lo, hi] of sorted) {
+		const last = result[result.length - 1];
+		if (last && lo <= last[1] + 1) {
+			last[1] = Math.max(last[1], hi);
+		} else {
+			result.push([lo, hi]);
+		}
+	}
+	return result;
+}
+
+function intersect(a: CharSet, b: CharSet): CharSet {
+	const result: CharSet = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		const lo = Math.max(a[i][0], b[j][0]);
+		const hi = Math.min(a[i][1], b[j][1]);
+		if (lo <= hi) result.push([lo, hi]);
+		if (a[i][1] < b[j][1]) i++;
+		else j++;
+	}
+	return result;
+}
+
+/**
+ * Get the characters up to max that are not in a set
+ */
+function complement(set: CharSet, max: number): CharSet {
+	const result: CharSet = [];
+	let next = 0;
+	for (const [lo, hi] of set) {
+		if (hi < 0) continue;
+		if (lo > next) result.push([next, Math.min(lo - 1, max)]);
+		next = Math.max(next, hi + 1);
+		if (next > max) return result;
+	}
+	result.push([next, max]);
+	return result;
+}
+
+function contains(set: CharSet, codePoint: number): boolean {
+	return set.some(([lo, hi]) => lo <= codePoint && codePoint <= hi);
+}
+
+/**
+ * Pick a character from a set, preferring ones that are easy to read
+ */
+function sample(set: CharSet): number {
+	for (const char of PREFERRED_SAMPLES) {
+		const codePoint = char.codePointAt(0)!;
+		if (contains(set, codePoint)) return codePoint;
+	}
+	for (const [lo, hi] of set) {
+		if (hi >= 0x21 && lo <= 0x7e) return Math.max(lo, 0x21);
+	}
+	for (const [lo, hi] of set) {
+		if (hi >= 0xa1) return Math.max(lo, 0xa1);
+	}
+	return set[0][0];
+}
+
+/**
+ * Add the other case of every character, for the i flag
+ *
+ * ASCII letters are mapped as ranges; other characters only in small ranges,
+ * which covers the classes people write without scanning all of Unicode.
+ */
+function addCaseVariants(set: CharSet): CharSet {
+	const extra: CharSet = [];
+	for (const [lo, hi] of set) {
+		for (const [from, to] of [
+			[0x41, 0x61],
+			[0x61, 0x41],
+		]) {
+			const start = Math.max(lo, from);
+			const end = Math.min(hi, from + 25);
+			if (start <= end) extra.push([start - from + to, end - from + to]);
+		}
+		if (hi - lo > 256) continue;
+		for (let codePoint = Math.max(lo, 0); codePoint <= hi; codePoint++) {
+			const char = String.fromCodePoint(codePoint);
+			for (const variant of [char.toLowerCase(), char.toUpperCase()]) {
+				if ([...variant].length !== 1) continue;
+				const variantCodePoint = variant.codePointAt(0)!;
+				extra.push([variantCodePoint, variantCodePoint]);
+			}
+		}
+	}
+	return normalize([...set, ...extra]);
+}
+
+// Unicode property sets, computed once per property from the BMP
+const propertyCache = new Map<string, CharSet>();
+
+function getPropertySet(node: UnicodePropertyNode): CharSet {
+	const key =
+		node.value === undefined ? node.name : `${node.name}=${node.value}`;
+	let set = propertyCache.get(key);
+	if (!set) {
+		const regex = new RegExp(`^\\p{${key}}$`, "u");
+		set = [];
+		for (let codePoint = 0; codePoint <= 0xffff; codePoint++) {
+			if (!regex.test(String.fromCharCode(codePoint))) continue;
+			const last = set[set.length - 1];
+			if (last && last[1] === codePoint - 1) last[1] = codePoint;
+			else set.push([codePoint, codePoint]);
+		}
+		propertyCache.set(key, set);
+	}
+	return set;
+}
+
+/**
+ * Glushkov construction result for one sub-expression
+ */
+interface Fragment {
+	nullable: boolean;
+	first: number[];
+	last: number[];
+}
+
+/**
+ * Glushkov automaton: state 0 is the initial state, every other state is a
+ * position (a character set in the pattern). Entering a state reads one
+ * character of its set.
+ */
+interface Automaton {
+	sets: CharSet[];
+	/** Source span of the pattern part each state comes from */
+	spans: Span[];
+	/** Transitions with their multiplicity; parallel edges mean ambiguity */
+	transitions: Map<number, number>[];
+	accepting: Set<number>;
+	/** The state skipping ahead to the next start position, if any */
+	search?: number;
+}
+
+/**
+ * Build the automaton of a pattern
+ */
+class AutomatonBuilder {
+	private readonly sets: CharSet[] = [[]];
+	private readonly spans: Span[] = [{ start: 0, end: 0 }];
+	private readonly transitions: Map<number, number>[] = [new Map()];
+	private readonly maxCodePoint: number;
+	private readonly ignoreCase: boolean;
+	private readonly multiline: boolean;
+	private readonly dotAll: boolean;
+	private readonly sticky: boolean;
+
+	constructor(flags: string) {
+		this.maxCodePoint = /[uv]/.test(flags) ? 0x10ffff : 0xffff;
+		this.ignoreCase = flags.includes("i");
+		this.multiline = flags.includes("m");
+		this.dotAll = flags.includes("s");
+		this.sticky = flags.includes("y");
+	}
+
+	build(root: RegexNode): Automaton {
+		const fragment = this.fragment(root);
+		this.connect([0], fragment.first);
+		const accepting = new Set(fragment.last);
+		if (fragment.nullable) accepting.add(0);
+
+		// Only a ^ on every path (or the y flag) pins the start position
+		const anchored =
+			this.sticky ||
+			(!fragment.nullable &&
+				fragment.first.every((state) => this.sets[state][0]?.[0] === BOS));
+		let search: number | undefined;
+		if (!anchored) {
+			search = this.position([[0, this.maxCodePoint]], { start: 0, end: 0 })
+				.first[0];
+			this.connect([0, search], [search, ...fragment.first]);
+			if (fragment.nullable) accepting.add(search);
+		}
+
+		return {
+			sets: this.sets,
+			spans: this.spans,
+			transitions: this.transitions,
+			accepting,
+			search,
+		};
+	}
+
+	private connect(from: number[], to: number[]): void {
+		for (const source of from) {
+			const targets = this.transitions[source];
+			for (const target of to) {
+				targets.set(target, (targets.get(target) ?? 0) + 1);
+			}
+		}
+	}
+
+	private position(set: CharSet, span: Span): Fragment {
+		if (this.sets.length > MAX_STATES) throw new AnalysisLimitError();
+		const state = this.sets.length;
+		this.sets.push(this.ignoreCase ? addCaseVariants(set) : set);
+		this.spans.push({ start: span.start, end: span.end });
+		this.transitions.push(new Map());
+		return { nullable: false, first: [state], last: [state] };
+	}
+
+	private empty(): Fragment {
+		return { nullable: true, first: [], last: [] };
+	}
+
+	private concat(a: Fragment, b: Fragment): Fragment {
+		this.connect(a.last, b.first);
+		return {
+			nullable: a.nullable && b.nullable,
+			first: a.nullable ? [...a.first, ...b.first] : a.first,
+			last: b.nullable ? [...a.last, ...b.last] : b.last,
+		};
+	}
+
+	private fragment(node: RegexNode): Fragment {
+		switch (node.type) {
+			case "empty":
+			case "lookaround":
+			case "backreference":
+				return this.empty();
+			case "assertion":
+				if (node.kind === "start" && !this.multiline) {
+					return this.position([[BOS, BOS]], node);
+				}
+				if (node.kind === "end" && !this.multiline) {
+					return this.position([[EOS, EOS]], node);
+				}
+				return this.empty();
+			case "group":
+				return this.fragment(node.body);
+			case "sequence":
+				return node.elements
+					.map((element) => this.fragment(element))
+					.reduce((a, b) => this.concat(a, b));
+			case "disjunction": {
+				const alternatives = node.alternatives.map((a) => this.fragment(a));
+				return {
+					nullable: alternatives.some((a) => a.nullable),
+					first: alternatives.flatMap((a) => a.first),
+					last: alternatives.flatMap((a) => a.last),
+				};
+			}
+			case "quantifier":
+				return this.repeat(node);
+			default:
+				return this.position(this.charSet(node), node);
+		}
+	}
+
+	/**
+	 * Expand a quantifier: required copies, then a loop or optional copies
+	 */
+	private repeat(node: QuantifierNode): Fragment {
+		const unbounded = isLoop(node);
+		const required = Math.min(node.min, MAX_EXPANDED_REPEAT);
+		let result = this.empty();
+
+		const copies = unbounded ? Math.max(required - 1, 0) : required;
+		for (let i = 0; i < copies; i++) {
+			result = this.concat(result, this.fragment(node.body));
+		}
+
+		if (unbounded) {
+			const loop = this.fragment(node.body);
+			this.connect(loop.last, loop.first);
+			if (required === 0) loop.nullable = true;
+			return this.concat(result, loop);
+		}
+
+		for (let i = node.min; i < node.max; i++) {
+			const optional = this.fragment(node.body);
+			result = this.concat(result, { ...optional, nullable: true });
+		}
+		return result;
+	}
+
+	private charSet(node: RegexNode | ClassItem): CharSet {
+		const max = this.maxCodePoint;
+		switch (node.type) {
+			case "character":
+				return [[node.codePoint, node.codePoint]];
+			case "dot":
+				return this.dotAll ? [[0, max]] : complement(LINE_TERMINATORS, max);
+			case "classEscape": {
+				const set = { digit: DIGIT, word: WORD, space: SPACE }[node.kind];
+				return node.negated ? complement(set, max) : set;
+			}
+			case "unicodeProperty": {
+				const set = getPropertySet(node);
+				return node.negated ? complement(set, max) : set;
+			}
+			case "classRange":
+				return [[node.from.codePoint, node.to.codePoint]];
+			case "classStrings":
+				// Approximated by the first character of each string
+				return normalize(
+					node.strings
+						.filter((s) => s.length > 0)
+						.map((s) => [s.codePointAt(0)!, s.codePointAt(0)!]),
+				);
+			case "characterClass":
+				return this.classSet(node);
+			default:
+				return [];
+		}
+	}
+
+	private classSet(node: CharacterClassNode): CharSet {
+		const sets = node.items.map((item) => this.charSet(item));
+		let set: CharSet;
+		if (node.operation === "intersection") {
+			set = sets.reduce(intersect);
+		} else if (node.operation === "subtraction") {
+			set = sets
+				.slice(1)
+				.reduce(
+					(a, b) => intersect(a, complement(b, this.maxCodePoint)),
+					sets[0],
+				);
+		} else {
+			set = normalize(sets.flat());
+		}
+		return node.negated ? complement(set, this.maxCodePoint) : set;
+	}
+}
+
+/**
+ * Check whether a quantifier makes a loop in the automaton
+ */
+function isLoop(node: QuantifierNode): boolean {
+	return node.max > MAX_EXPANDED_REPEAT;
+}
+
+/**
+ * Find the strongly connected components of a graph (Tarjan, iterative)
+ *
+ * @returns The component index of every node
+ */
+function findComponents(
+	nodes: Iterable<number>,
+	successors: (node: number) => number[],
+): Map<number, number> {
+	const index = new Map<number, number>();
+	const lowLink = new Map<number, number>();
+	const component = new Map<number, number>();
+	const stack: number[] = [];
+	const onStack = new Set<number>();
+	let counter = 0;
+	let components = 0;
+
+	for (const root of nodes) {
+		if (index.has(root)) continue;
+		const work: { node: number; next: number }[] = [{ node: root, next: 0 }];
+		index.set(root, counter);
+		lowLink.set(root, counter++);
+		stack.push(root);
+		onStack.add(root);
+
+		while (work.length > 0) {
+			const frame = work[work.length - 1];
+			const edges = successors(frame.node);
+			if (frame.next < edges.length) {
+				const target = edges[frame.next++];
+				if (!index.has(target)) {
+					index.set(target, counter);
+					lowLink.set(target, counter++);
+					stack.push(target);
+					onStack.add(target);
+					work.push({ node: target, next: 0 });
+				} else if (onStack.has(target)) {
+					lowLink.set(
+						frame.node,
+						Math.min(lowLink.get(frame.node)!, index.get(target)!),
+					);
+				}
+				continue;
+			}
+
+			work.pop();
+			const parent = work[work.length - 1];
+			if (parent) {
+				lowLink.set(
+					parent.node,
+					Math.min(lowLink.get(parent.node)!, lowLink.get(frame.node)!),
+				);
+			}
+			if (lowLink.get(frame.node) === index.get(frame.node)) {
+				let member: number;
+				do {
+					member = stack.pop()!;
+					onStack.delete(member);
+					component.set(member, components);
+				} while (member !== frame.node);
+				components++;
+			}
+		}
+	}
+
+	return component;
+}
+
+/**
+ * Find a shortest path between nodes, staying inside an allowed set
+ *
+ * @returns The nodes along the path, including both ends
+ */
+function findPath(
+	from: number,
+	to: (node: number) => boolean,
+	successors: (node: number) => number[],
+	allowed?: (node: number) => boolean,
+): number[] | null {
+	const previous = new Map<number, number>([[from, from]]);
+	const queue = [from];
+	for (let i = 0; i < queue.length; i++) {
+		const node = queue[i];
+		for (const next of successors(node)) {
+			if (allowed && !allowed(next)) continue;
+			if (to(next)) {
+				const path = [next, node];
+				for (let step = node; step !== from;) {
+					step = previous.get(step)!;
+					path.push(step);
+				}
+				return path.reverse();
+			}
+			if (previous.has(next)) continue;
+			previous.set(next, node);
+			queue.push(next);
+		}
+	}
+	return null;
+}
+
+/**
+ * Looks for ambiguity in an automaton and builds attack strings for it
+ */
+class AmbiguityAnalyzer {
+	private work = 0;
+	private readonly size: number;
+	private readonly successors: number[][];
+	private readonly overlapping: Uint8Array;
+	private readonly looping: boolean[];
+	private readonly components: Map<number, number>;
+
+	constructor(private readonly automaton: Automaton) {
+		this.size = automaton.sets.length;
+		this.overlapping = new Uint8Array(this.size * this.size);
+		this.successors = automaton.transitions.map((targets) => [
+			...targets.keys(),
+		]);
+		this.components = findComponents(
+			this.successors.keys(),
+			(state) => this.successors[state],
+		);
+		this.looping = this.successors.map((targets, state) =>
+			targets.some(
+				(target) => this.components.get(target) === this.components.get(state),
+			),
+		);
+	}
+
+	private spend(amount = 1): void {
+		this.work += amount;
+		if (this.work > MAX_WORK) throw new AnalysisLimitError();
+	}
+
+	/**
+	 * Get the characters both states can read
+	 */
+	private common(a: number, b: number): CharSet {
+		return intersect(this.automaton.sets[a], this.automaton.sets[b]);
+	}
+
+	/**
+	 * Check whether two states share a character (cached, 1 = no, 2 = yes)
+	 */
+	private overlaps(a: number, b: number): boolean {
+		const key = a * this.size + b;
+		if (this.overlapping[key] === 0) {
+			const value = this.common(a, b).length > 0 ? 2 : 1;
+			this.overlapping[key] = value;
+			this.overlapping[b * this.size + a] = value;
+		}
+		return this.overlapping[key] === 2;
+	}
+
+	/**
+	 * Get the strongly connected component a state belongs to
+	 */
+	componentOf(state: number): number {
+		return this.components.get(state)!;
+	}
+
+	/**
+	 * Find a state that can loop back to itself in two different ways
+	 *
+	 * Works on the product automaton: a component that holds a pair (q, q)
+	 * and a pair (p, r) with p ≠ r (or two parallel edges between pairs
+	 * (p, p)) means two runs leave q and meet again on the same word.
+	 *
+	 * @returns The looping state with the word read around the loop, and
+	 *   the states the two runs pass
+	 */
+	findExponential(): { state: number; pump: number[]; states: number[] }[] {
+		const n = this.size;
+		const edges = new Map<number, number[]>();
+		const parallel = new Set<string>();
+		const queue: number[] = [];
+		for (let state = 1; state < n; state++) {
+			if (!this.looping[state]) continue;
+			queue.push(state * n + state);
+			edges.set(state * n + state, []);
+		}
+
+		for (let i = 0; i < queue.length; i++) {
+			const node = queue[i];
+			const p = Math.floor(node / n);
+			const q = node % n;
+			const targets = edges.get(node)!;
+			for (const p2 of this.successors[p]) {
+				for (const q2 of this.successors[q]) {
+					this.spend();
+					if (!this.overlaps(p2, q2)) continue;
+					const target = p2 * n + q2;
+					targets.push(target);
+					if (
+						p === q &&
+						p2 === q2 &&
+						this.automaton.transitions[p].get(p2)! > 1
+					) {
+						parallel.add(`${node}:${target}`);
+					}
+					if (!edges.has(target)) {
+						edges.set(target, []);
+						queue.push(target);
+					}
+				}
+			}
+		}
+
+		const successors = (node: number) => edges.get(node) ?? [];
+		const components = findComponents(edges.keys(), successors);
+		const members = new Map<number, number[]>();
+		for (const [node, component] of components) {
+			const nodes = members.get(component);
+			if (nodes) nodes.push(node);
+			else members.set(component, [node]);
+		}
+
+		const found: { state: number; pump: number[]; states: number[] }[] = [];
+		for (const nodes of members.values()) {
+			const component = components.get(nodes[0]);
+			const inside = (node: number) => components.get(node) === component;
+			const diagonal = nodes.find((node) => Math.floor(node / n) === node % n);
+			if (diagonal === undefined) continue;
+
+			let cycle: number[] | null = null;
+			const split = nodes.find((node) => Math.floor(node / n) !== node % n);
+			if (split !== undefined) {
+				const there = findPath(
+					diagonal,
+					(node) => node === split,
+					successors,
+					inside,
+				);
+				const back = findPath(
+					split,
+					(node) => node === diagonal,
+					successors,
+					inside,
+				);
+				if (there && back) cycle = [...there, ...back.slice(1)];
+			} else {
+				for (const key of parallel) {
+					const [from, to] = key.split(":").map(Number);
+					if (!inside(from) || !inside(to)) continue;
+					const there =
+						from === diagonal
+							? [diagonal]
+							: findPath(diagonal, (node) => node === from, successors, inside);
+					const back =
+						to === diagonal
+							? [diagonal]
+							: findPath(to, (node) => node === diagonal, successors, inside);
+					if (there && back) cycle = [...there, ...back];
+					break;
+				}
+			}
+			if (!cycle) continue;
+
+			const pump = cycle
+				.slice(1)
+				.map((node) => sample(this.common(Math.floor(node / n), node % n)));
+			const states = cycle.flatMap((node) => [Math.floor(node / n), node % n]);
+			found.push({ state: diagonal % n, pump, states });
+		}
+		return found;
+	}
+
+	/**
+	 * Find pairs of looping states p ≠ q where p loops, moves to q and q
+	 * loops, all on the same word (checked on the triple product automaton)
+	 *
+	 * Only one pair is kept per pair of components, since any other pair
+	 * in them describes the same two loops.
+	 *
+	 * @returns Each pair with a word it loops on
+	 */
+	findPolynomial(): { from: number; to: number; pump: number[] }[] {
+		const n = this.size;
+		const found: { from: number; to: number; pump: number[] }[] = [];
+		const done = new Set<number>();
+
+		for (let p = 1; p < n; p++) {
+			if (!this.looping[p]) continue;
+			const reachable = new Set<number>();
+			this.collectReachable(p, reachable);
+
+			for (let q = 1; q < n; q++) {
+				if (
+					q === p ||
+					!this.looping[q] ||
+					!reachable.has(q) ||
+					this.componentOf(p) === this.componentOf(q) ||
+					done.has(this.componentOf(p) * n + this.componentOf(q))
+				) {
+					continue;
+				}
+
+				// The first and last runs come back to where they started, so
+				// they never leave the component of p and q respectively
+				const first = this.componentOf(p);
+				const last = this.componentOf(q);
+				const key = (a: number, b: number, c: number) => (a * n + b) * n + c;
+				const decode = (node: number) => [
+					Math.floor(node / (n * n)),
+					Math.floor(node / n) % n,
+					node % n,
+				];
+				const path = findPath(
+					key(p, p, q),
+					(node) => node === key(p, q, q),
+					(node) => {
+						const [a, b, c] = decode(node);
+						const next: number[] = [];
+						for (const a2 of this.successors[a]) {
+							if (this.componentOf(a2) !== first) continue;
+							for (const b2 of this.successors[b]) {
+								if (!this.overlaps(a2, b2)) continue;
+								for (const c2 of this.successors[c]) {
+									this.spend();
+									if (
+										this.componentOf(c2) !== last ||
+										!this.overlaps(a2, c2) ||
+										!this.overlaps(b2, c2)
+									) {
+										continue;
+									}
+									if (
+										a2 === b2 ||
+										b2 === c2 ||
+										a2 === c2 ||
+										intersect(this.common(a2, b2), this.automaton.sets[c2])
+											.length > 0
+									) {
+										next.push(key(a2, b2, c2));
+									}
+								}
+							}
+						}
+						return next;
+					},
+				);
+				if (!path) continue;
+
+				const pump = path.slice(1).map((node) => {
+					const [a, b, c] = decode(node);
+					return sample(intersect(this.common(a, b), this.automaton.sets[c]));
+				});
+				found.push({ from: p, to: q, pump });
+				done.add(this.componentOf(p) * n + this.componentOf(q));
+			}
+		}
+		return found;
+	}
+
+	private collectReachable(from: number, reachable: Set<number>): void {
+		const queue = [from];
+		for (let i = 0; i < queue.length; i++) {
+			for (const next of this.successors[queue[i]]) {
+				this.spend();
+				if (reachable.has(next)) continue;
+				reachable.add(next);
+				queue.push(next);
+			}
+		}
+	}
+
+	/**
+	 * Get a shortest word leading from the initial state into a state
+	 */
+	wordTo(state: number): number[] {
+		// Skipping ahead needs no input: the search starts there anyway
+		if (state === 0 || state === this.automaton.search) return [];
+		const path =
+			findPath(
+				0,
+				(node) => node === state,
+				(node) => this.successors[node],
+			) ?? [];
+		return path.slice(1).map((node) => sample(this.automaton.sets[node]));
+	}
+
+	/**
+	 * Check whether a search would find a match in the input
+	 *
+	 * Simulates the automaton from every start position, like RegExp.test.
+	 *
+	 * @param startsBefore - Only count matches starting before this
+	 *   position, as later ones are found after the slow part was tried
+	 */
+	matches(input: number[], startsBefore = Infinity): boolean {
+		// Markers in the input come from paths through ^ and $
+		const symbols = [BOS, ...input.filter((c) => c >= 0), EOS];
+		let active = new Set<number>();
+		for (const [index, symbol] of symbols.entries()) {
+			// Both the start marker and the first character are at position 0
+			if (Math.max(index - 1, 0) < startsBefore) active.add(0);
+			if ([...active].some((state) => this.automaton.accepting.has(state))) {
+				return true;
+			}
+			const next = new Set<number>();
+			for (const state of active) {
+				for (const target of this.successors[state]) {
+					this.spend();
+					// Start positions are tried one by one above instead
+					if (target === this.automaton.search) continue;
+					if (contains(this.automaton.sets[target], symbol)) next.add(target);
+				}
+			}
+			active = next;
+		}
+		return [...active].some((state) => this.automaton.accepting.has(state));
+	}
+
+	/**
+	 * Find an ending that makes every match starting in the pumped part
+	 * fail, which forces the matcher to try every way of reading it
+	 */
+	findSuffix(prefix: number[], pump: number[]): number[] | null {
+		const unused = complement(
+			normalize(
+				this.automaton.sets
+					.filter((_, state) => state !== this.automaton.search)
+					.flat(),
+			),
+			0x10ffff,
+		);
+		const candidates: number[][] = [[]];
+		if (unused.length > 0) candidates.push([sample(unused)]);
+		for (const char of "!\n 0a_A") candidates.push([char.codePointAt(0)!]);
+
+		for (const suffix of candidates) {
+			const fails = [1, 3].every((repetitions) => {
+				const pumped = [
+					...prefix,
+					...Array.from({ length: repetitions }, () => pump).flat(),
+				];
+				return !this.matches(
+					[...pumped, ...suffix],
+					pumped.filter((c) => c >= 0).length,
+				);
+			});
+			if (fails) return suffix;
+		}
+		return null;
+	}
+}
+
+/**
+ * Turn code points into a string, leaving out the start and end markers
+ */
+function toText(codePoints: number[]): string {
+	return String.fromCodePoint(...codePoints.filter((c) => c >= 0));
+}
+
+/**
+ * Collect the quantifiers that loop, innermost last
+ */
+function collectQuantifiers(
+	node: RegexNode,
+	quantifiers: QuantifierNode[],
+): void {
+	if (node.type === "quantifier") quantifiers.push(node);
+	for (const child of getChildren(node)) collectQuantifiers(child, quantifiers);
+}
+
+/**
+ * Find the smallest loop around all the given spans
+ */
+function findEnclosingLoop(loops: QuantifierNode[], spans: Span[]): Span {
+	const start = Math.min(...spans.map((span) => span.start));
+	const end = Math.max(...spans.map((span) => span.end));
+	const enclosing = loops
+		.filter((loop) => loop.start <= start && end <= loop.end)
+		.sort((a, b) => a.end - a.start - (b.end - b.start))[0];
+	return enclosing ?? { start, end };
+}
+
+/**
+ * Widen a loop to the loops that directly repeat it, like (a+)+ around a+
+ */
+function findNestingLoop(loops: QuantifierNode[], loop: Span): Span {
+	let current = loop;
+	for (;;) {
+		const parent = loops.find((candidate) => {
+			let body = candidate.body;
+			while (body.type === "group") body = body.body;
+			return body.start === current.start && body.end === current.end;
+		});
+		if (!parent) return current;
+		current = parent;
+	}
+}
+
+/**
+ * Analyze how a pattern's matching time can grow on a failing match
+ *
+ * Patterns that can't be parsed are reported as safe, as they never run.
+ * Patterns too large to analyze are reported as unknown.
+ *
+ * @param flags - Regex flags, which change what the pattern matches
+ */
+export function analyzeRedos(pattern: string, flags = ""): RedosAnalysis {
+	try {
+		return analyze(pattern, flags);
+	} catch (error) {
+		if (error instanceof AnalysisLimitError) {
+			return { complexity: "unknown" };
+		}
+		// Invalid patterns are reported by the worker when they run
+		if (error instanceof RegexSyntaxError || error instanceof SyntaxError) {
+			return { complexity: "safe" };
+		}
+		throw error;
+	}
+}
+
+function analyze(pattern: string, flags: string): RedosAnalysis {
+	const ast = parseRegex(pattern, flags);
+	const automaton = new AutomatonBuilder(flags).build(ast.root);
+	const analyzer = new AmbiguityAnalyzer(automaton);
+	const quantifiers: QuantifierNode[] = [];
+	collectQuantifiers(ast.root, quantifiers);
+	const loops = quantifiers.filter(isLoop);
+
+	const culprit = (span: Span) => ({
+		start: span.start,
+		end: span.end,
+		source: pattern.slice(span.start, span.end),
+	});
+
+	for (const { state, pump, states } of analyzer.findExponential()) {
+		const prefix = analyzer.wordTo(state);
+		const suffix = analyzer.findSuffix(prefix, pump);
+		if (!suffix) continue;
+		const spans = states
+			.filter((s) => s > 0 && s !== automaton.search)
+			.map((s) => automaton.spans[s]);
+		return {
+			complexity: "exponential",
+			culprit: culprit(findNestingLoop(loops, findEnclosingLoop(loops, spans))),
+			attack: {
+				prefix: toText(prefix),
+				pump: toText(pump),
+				suffix: toText(suffix),
+			},
+		};
+	}
+
+	const pairs = analyzer
+		.findPolynomial()
+		.map((pair) => {
+			const prefix = analyzer.wordTo(pair.from);
+			return {
+				...pair,
+				prefix,
+				suffix: analyzer.findSuffix(prefix, pair.pump),
+			};
+		})
+		.filter((pair) => pair.suffix !== null);
+	if (pairs.length === 0) return { complexity: "safe" };
+
+	// Chains of loops L1 → L2 → ... → Lk multiply: time grows like n^k
+	const from = (pair: (typeof pairs)[number]) =>
+		analyzer.componentOf(pair.from);
+	const to = (pair: (typeof pairs)[number]) => analyzer.componentOf(pair.to);
+	const chainLengths = new Map<number, number>();
+	const chainLength = (component: number, visiting: Set<number>): number => {
+		const known = chainLengths.get(component);
+		if (known !== undefined) return known;
+		visiting.add(component);
+		let length = 1;
+		for (const pair of pairs) {
+			if (from(pair) !== component || visiting.has(to(pair))) continue;
+			length = Math.max(length, 1 + chainLength(to(pair), visiting));
+		}
+		visiting.delete(component);
+		chainLengths.set(component, length);
+		return length;
+	};
+
+	let worst = pairs[0];
+	let degree = 0;
+	for (const pair of pairs) {
+		const length = 1 + chainLength(to(pair), new Set([from(pair)]));
+		if (length > degree) [worst, degree] = [pair, length];
+	}
+
+	// Point at every loop along the longest chain
+	const chain = [worst.from, worst.to];
+	for (let pair = worst; chainLength(to(pair), new Set()) > 1;) {
+		const remaining = chainLength(to(pair), new Set()) - 1;
+		const next = pairs.find(
+			(candidate) =>
+				from(candidate) === to(pair) &&
+				chainLength(to(candidate), new Set()) === remaining,
+		);
+		if (!next) break;
+		pair = next;
+		chain.push(pair.to);
+	}
+	const spans = chain
+		.filter((state) => state !== automaton.search)
+		.map((state) => findEnclosingLoop(loops, [automaton.spans[state]]));
+	let span = findEnclosingLoop([], spans);
+
+	// Expanded copies of a bounded repeat share their source, so point at
+	// the repeat instead
+	if (new Set(spans.map(({ start, end }) => `${start}:${end}`)).size === 1) {
+		span = findEnclosingLoop(
+			quantifiers.filter(
+				(quantifier) =>
+					quantifier.max > 1 &&
+					quantifier.end - quantifier.start > span.end - span.start,
+			),
+			[span],
+		);
+	}
+
+	return {
+		complexity: "polynomial",
+		degree,
+		culprit: culprit(span),
+		attack: {
+			prefix: toText(worst.prefix),
+			pump: toText(worst.pump),
+			suffix: toText(worst.suffix!),
+		},
+	};
+}
+
+/**
+ * Build the input an attack describes
+ */
+export function buildAttackString(
+	attack: AttackString,
+	repetitions: number,
+): string {
+	return attack.prefix + attack.pump.repeat(repetitions) + attack.suffix;
+}
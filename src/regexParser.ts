@@ -0,0 +1,785 @@
+/**
+ * ECMAScript regular expression parser
+ *
+ * Builds an abstract syntax tree with source spans, used by /explain and the
+ * pattern analyses. Follows the ECMAScript grammar, including the Annex B
+ * extensions that apply without the u and v flags (e.g. "\8" or a lone "{"
+ * being literal characters).
+ */
+
+/**
+ * Position of a node in the pattern: pattern.slice(start, end) is its source
+ */
+export interface Span {
+	start: number;
+	end: number;
+}
+
+/** Matches the empty string, e.g. an empty alternative in "a|" */
+export interface EmptyNode extends Span {
+	type: "empty";
+}
+
+/** Alternatives separated by "|" */
+export interface DisjunctionNode extends Span {
+	type: "disjunction";
+	alternatives: RegexNode[];
+}
+
+/** Terms matched one after the other */
+export interface SequenceNode extends Span {
+	type: "sequence";
+	elements: RegexNode[];
+}
+
+/** "(...)", "(?<name>...)", "(?:...)" or a modifier group like "(?i:...)" */
+export interface GroupNode extends Span {
+	type: "group";
+	capturing: boolean;
+	/** Capture group number, counted from 1 */
+	index?: number;
+	name?: string;
+	/** Flags switched on and off inside the group ("(?i-m:...)") */
+	modifiers?: { add: string; remove: string };
+	body: RegexNode;
+}
+
+/** "(?=...)", "(?!...)", "(?<=...)" or "(?<!...)" */
+export interface LookaroundNode extends Span {
+	type: "lookaround";
+	direction: "ahead" | "behind";
+	negated: boolean;
+	body: RegexNode;
+}
+
+/** "*", "+", "?", "{n}", "{n,}" or "{n,m}", optionally followed by "?" */
+export interface QuantifierNode extends Span {
+	type: "quantifier";
+	min: number;
+	/** Infinity when unbounded */
+	max: number;
+	greedy: boolean;
+	body: RegexNode;
+}
+
+/** A single character, written literally or as an escape */
+export interface CharacterNode extends Span {
+	type: "character";
+	codePoint: number;
+}
+
+/** "\d", "\w", "\s" and their negations */
+export interface ClassEscapeNode extends Span {
+	type: "classEscape";
+	kind: "digit" | "word" | "space";
+	negated: boolean;
+}
+
+/** "\p{...}" or "\P{...}" (u and v flags only) */
+export interface UnicodePropertyNode extends Span {
+	type: "unicodeProperty";
+	/** Property name, e.g. "Script" in "\p{Script=Greek}" or "L" in "\p{L}" */
+	name: string;
+	value?: string;
+	negated: boolean;
+}
+
+/** "." */
+export interface DotNode extends Span {
+	type: "dot";
+}
+
+/** "^", "$", "\b" or "\B" */
+export interface AssertionNode extends Span {
+	type: "assertion";
+	kind: "start" | "end" | "wordBoundary" | "nonWordBoundary";
+}
+
+/** "\1" or "\k<name>" */
+export interface BackreferenceNode extends Span {
+	type: "backreference";
+	ref: number | string;
+}
+
+/** "[...]" or "[^...]" */
+export interface CharacterClassNode extends Span {
+	type: "characterClass";
+	negated: boolean;
+	/** How items combine; intersection and subtraction need the v flag */
+	operation: "union" | "intersection" | "subtraction";
+	items: ClassItem[];
+}
+
+/** "a-z" inside a character class */
+export interface ClassRangeNode extends Span {
+	type: "classRange";
+	from: CharacterNode;
+	to: CharacterNode;
+}
+
+/** "\q{abc|def}" inside a character class (v flag only) */
+export interface ClassStringsNode extends Span {
+	type: "classStrings";
+	strings: string[];
+}
+
+export type ClassItem =
+	| CharacterNode
+	| ClassRangeNode
+	| ClassEscapeNode
+	| UnicodePropertyNode
+	| CharacterClassNode
+	| ClassStringsNode;
+
+export type RegexNode =
+	| EmptyNode
+	| DisjunctionNode
+	| SequenceNode
+	| GroupNode
+	| LookaroundNode
+	| QuantifierNode
+	| CharacterNode
+	| ClassEscapeNode
+	| UnicodePropertyNode
+	| DotNode
+	| AssertionNode
+	| BackreferenceNode
+	| CharacterClassNode;
+
+/**
+ * A parsed pattern
+ */
+export interface RegexAST {
+	pattern: string;
+	flags: string;
+	root: RegexNode;
+	/** Number of capture groups */
+	groupCount: number;
+	groupNames: string[];
+}
+
+/**
+ * Thrown for patterns the parser can't read
+ */
+export class RegexSyntaxError extends Error {
+	constructor(
+		message: string,
+		public readonly position: number,
+	) {
+		super(`${message} at position ${position}`);
+		this.name = "RegexSyntaxError";
+	}
+}
+
+const CLASS_ESCAPES: Record<string, ClassEscapeNode["kind"]> = {
+	d: "digit",
+	w: "word",
+	s: "space",
+};
+
+const CONTROL_ESCAPES: Record<string, number> = {
+	t: 0x09,
+	n: 0x0a,
+	v: 0x0b,
+	f: 0x0c,
+	r: 0x0d,
+};
+
+// Characters that must be escaped to be literal in v-mode classes when doubled
+const CLASS_SET_RESERVED_DOUBLES = "&!#$%*+,.:;<=>?@^`~";
+
+/**
+ * Count capture groups and collect group names without parsing
+ *
+ * Needed up front because "\N" is a backreference only if there are at least
+ * N groups, wherever they are in the pattern.
+ */
+function scanGroups(pattern: string): { count: number; names: string[] } {
+	let count = 0;
+	const names: string[] = [];
+	let inClass = false;
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "\\") {
+			i++;
+		} else if (inClass) {
+			if (char === "]") inClass = false;
+		} else if (char === "[") {
+			inClass = true;
+		} else if (char === "(") {
+			if (pattern[i + 1] !== "?") {
+				count++;
+			} else if (
+				pattern[i + 2] === "<" &&
+				pattern[i + 3] !== "=" &&
+				pattern[i + 3] !== "!"
+			) {
+				count++;
+				const end = pattern.indexOf(">", i);
+				if (end > i) names.push(pattern.slice(i + 3, end));
+			}
+		}
+	}
+
+	return { count, names };
+}
+
+/**
+ * Recursive descent parser over a single pattern
+ */
+class Parser {
+	private pos = 0;
+	private groupIndex = 0;
+	private readonly unicode: boolean;
+	private readonly unicodeSets: boolean;
+
+	constructor(
+		private readonly pattern: string,
+		flags: string,
+		private readonly groups: { count: number; names: string[] },
+	) {
+		this.unicodeSets = flags.includes("v");
+		this.unicode = this.unicodeSets || flags.includes("u");
+	}
+
+	parse(): RegexNode {
+		const root = this.parseDisjunction();
+		if (this.pos < this.pattern.length) {
+			throw this.error(
+				this.peek() === ")" ? "Unmatched ')'" : "Unexpected character",
+			);
+		}
+		return root;
+	}
+
+	private error(message: string, position = this.pos): RegexSyntaxError {
+		return new RegexSyntaxError(message, position);
+	}
+
+	private peek(offset = 0): string | undefined {
+		return this.pattern[this.pos + offset];
+	}
+
+	private lookingAt(text: string): boolean {
+		return this.pattern.startsWith(text, this.pos);
+	}
+
+	private expect(text: string): void {
+		if (!this.lookingAt(text)) throw this.error(`Expected '${text}'`);
+		this.pos += text.length;
+	}
+
+	/**
+	 * Read one source character: a code point with u/v, a code unit otherwise
+	 */
+	private readCodePoint(): number {
+		const codePoint = this.unicode
+			? this.pattern.codePointAt(this.pos)!
+			: this.pattern.charCodeAt(this.pos);
+		this.pos += codePoint > 0xffff ? 2 : 1;
+		return codePoint;
+	}
+
+	private parseDisjunction(): RegexNode {
+		const start = this.pos;
+		const alternatives = [this.parseAlternative()];
+		while (this.peek() === "|") {
+			this.pos++;
+			alternatives.push(this.parseAlternative());
+		}
+		if (alternatives.length === 1) return alternatives[0];
+		return { type: "disjunction", alternatives, start, end: this.pos };
+	}
+
+	private parseAlternative(): RegexNode {
+		const start = this.pos;
+		const elements: RegexNode[] = [];
+		while (
+			this.pos < this.pattern.length &&
+			this.peek() !== "|" &&
+			this.peek() !== ")"
+		) {
+			elements.push(this.parseTerm());
+		}
+		if (elements.length === 0) return { type: "empty", start, end: start };
+		if (elements.length === 1) return elements[0];
+		return { type: "sequence", elements, start, end: this.pos };
+	}
+
+	private parseTerm(): RegexNode {
+		const start = this.pos;
+		const char = this.peek();
+
+		if (char === "^" || char === "$") {
+			this.pos++;
+			return {
+				type: "assertion",
+				kind: char === "^" ? "start" : "end",
+				start,
+				end: this.pos,
+			};
+		}
+		if (this.lookingAt("\\b") || this.lookingAt("\\B")) {
+			this.pos += 2;
+			return {
+				type: "assertion",
+				kind:
+					char === "\\" && this.pattern[start + 1] === "b"
+						? "wordBoundary"
+						: "nonWordBoundary",
+				start,
+				end: this.pos,
+			};
+		}
+
+		const lookaround = this.parseLookaround();
+		if (lookaround) {
+			// Only lookaheads may be quantified, and only without u/v (Annex B)
+			return lookaround.direction === "ahead" && !this.unicode
+				? this.parseQuantifier(lookaround)
+				: lookaround;
+		}
+
+		return this.parseQuantifier(this.parseAtom());
+	}
+
+	private parseLookaround(): LookaroundNode | null {
+		const start = this.pos;
+		const prefixes: [string, LookaroundNode["direction"], boolean][] = [
+			["(?=", "ahead", false],
+			["(?!", "ahead", true],
+			["(?<=", "behind", false],
+			["(?<!", "behind", true],
+		];
+		for (const [prefix, direction, negated] of prefixes) {
+			if (!this.lookingAt(prefix)) continue;
+			this.pos += prefix.length;
+			const body = this.parseDisjunction();
+			this.expect(")");
+			return {
+				type: "lookaround",
+				direction,
+				negated,
+				body,
+				start,
+				end: this.pos,
+			};
+		}
+		return null;
+	}
+
+	/**
+	 * Wrap an atom in a quantifier if one follows it
+	 */
+	private parseQuantifier(atom: RegexNode): RegexNode {
+		const start = this.pos;
+		let min: number;
+		let max: number;
+		const char = this.peek();
+
+		if (char === "*") {
+			[min, max] = [0, Infinity];
+			this.pos++;
+		} else if (char === "+") {
+			[min, max] = [1, Infinity];
+			this.pos++;
+		} else if (char === "?") {
+			[min, max] = [0, 1];
+			this.pos++;
+		} else if (char === "{") {
+			const bounds = this.pattern
+				.slice(this.pos)
+				.match(/^\{(\d+)(?:(,)(\d*))?\}/);
+			if (!bounds) return atom;
+			min = Number(bounds[1]);
+			max = bounds[2] ? (bounds[3] ? Number(bounds[3]) : Infinity) : min;
+			if (max < min) throw this.error("Numbers out of order in quantifier");
+			this.pos += bounds[0].length;
+		} else {
+			return atom;
+		}
+
+		if (atom.type === "assertion" || atom.type === "empty") {
+			throw this.error("Nothing to repeat", start);
+		}
+
+		const greedy = this.peek() !== "?";
+		if (!greedy) this.pos++;
+		return {
+			type: "quantifier",
+			min,
+			max,
+			greedy,
+			body: atom,
+			start: atom.start,
+			end: this.pos,
+		};
+	}
+
+	private parseAtom(): RegexNode {
+		const start = this.pos;
+		const char = this.peek()!;
+
+		switch (char) {
+			case ".":
+				this.pos++;
+				return { type: "dot", start, end: this.pos };
+			case "(":
+				return this.parseGroup();
+			case "[":
+				return this.parseClass();
+			case "\\":
+				return this.parseAtomEscape();
+			case "*":
+			case "+":
+			case "?":
+				throw this.error("Nothing to repeat");
+			case "{":
+				// A brace is only literal when it can't start a quantifier (Annex B)
+				if (this.unicode || /^\{\d+(,\d*)?\}/.test(this.pattern.slice(start))) {
+					throw this.error("Nothing to repeat");
+				}
+				break;
+			case "}":
+			case "]":
+				if (this.unicode) throw this.error("Lone quantifier brackets");
+				break;
+		}
+
+		return {
+			type: "character",
+			codePoint: this.readCodePoint(),
+			start,
+			end: this.pos,
+		};
+	}
+
+	private parseGroup(): GroupNode {
+		const start = this.pos;
+		this.pos++;
+
+		if (this.lookingAt("?:")) {
+			this.pos += 2;
+			return this.finishGroup(start, { capturing: false });
+		}
+
+		const modifiers = this.pattern
+			.slice(this.pos)
+			.match(/^\?([ims]*)(?:-([ims]*))?:/);
+		if (modifiers) {
+			this.pos += modifiers[0].length;
+			return this.finishGroup(start, {
+				capturing: false,
+				modifiers: { add: modifiers[1], remove: modifiers[2] ?? "" },
+			});
+		}
+
+		const index = ++this.groupIndex;
+		if (this.lookingAt("?<")) {
+			const end = this.pattern.indexOf(">", this.pos);
+			if (end < 0) throw this.error("Invalid capture group name");
+			const name = this.pattern.slice(this.pos + 2, end);
+			this.pos = end + 1;
+			return this.finishGroup(start, { capturing: true, index, name });
+		}
+		if (this.peek() === "?") throw this.error("Invalid group");
+
+		return this.finishGroup(start, { capturing: true, index });
+	}
+
+	private finishGroup(
+		start: number,
+		group: Omit<GroupNode, "type" | "body" | "start" | "end">,
+	): GroupNode {
+		const body = this.parseDisjunction();
+		if (this.peek() !== ")") throw this.error("Unterminated group", start);
+		this.pos++;
+		return { type: "group", ...group, body, start, end: this.pos };
+	}
+
+	private parseAtomEscape(): RegexNode {
+		const start = this.pos;
+		const next = this.peek(1);
+		if (next === undefined) throw this.error("\\ at end of pattern");
+
+		// Backreferences by number, if there are that many groups
+		const digits = this.pattern.slice(this.pos + 1).match(/^[1-9]\d*/);
+		if (digits && Number(digits[0]) <= this.groups.count) {
+			this.pos += 1 + digits[0].length;
+			return {
+				type: "backreference",
+				ref: Number(digits[0]),
+				start,
+				end: this.pos,
+			};
+		}
+
+		// "\k<name>" is a named backreference once the pattern has named groups
+		if (next === "k" && (this.unicode || this.groups.names.length > 0)) {
+			const name = this.pattern.slice(this.pos).match(/^\\k<([^>]+)>/);
+			if (!name) throw this.error("Invalid named reference");
+			this.pos += name[0].length;
+			return { type: "backreference", ref: name[1], start, end: this.pos };
+		}
+
+		return this.parseCharacterEscape(false);
+	}
+
+	/**
+	 * Parse an escape that stands for a character or a set of characters
+	 *
+	 * @param inClass - Whether the escape is inside a character class
+	 */
+	private parseCharacterEscape(
+		inClass: boolean,
+	): CharacterNode | ClassEscapeNode | UnicodePropertyNode {
+		const start = this.pos;
+		this.pos++;
+		const char = this.peek()!;
+		const lower = char.toLowerCase();
+
+		if (CLASS_ESCAPES[lower]) {
+			this.pos++;
+			return {
+				type: "classEscape",
+				kind: CLASS_ESCAPES[lower],
+				negated: char !== lower,
+				start,
+				end: this.pos,
+			};
+		}
+
+		if (lower === "p" && this.unicode) {
+			const property = this.pattern
+				.slice(this.pos)
+				.match(/^[pP]\{([A-Za-z_]+)(?:=([A-Za-z0-9_]+))?\}/);
+			if (!property) throw this.error("Invalid property name", start);
+			this.pos += property[0].length;
+			return {
+				type: "unicodeProperty",
+				name: property[1],
+				value: property[2],
+				negated: char === "P",
+				start,
+				end: this.pos,
+			};
+		}
+
+		const character = (codePoint: number): CharacterNode => ({
+			type: "character",
+			codePoint,
+			start,
+			end: this.pos,
+		});
+
+		if (char in CONTROL_ESCAPES) {
+			this.pos++;
+			return character(CONTROL_ESCAPES[char]);
+		}
+
+		// "\b" is a backspace inside a class
+		if (char === "b" && inClass) {
+			this.pos++;
+			return character(0x08);
+		}
+
+		if (char === "c" && /[A-Za-z]/.test(this.peek(1) ?? "")) {
+			this.pos += 2;
+			return character(this.pattern.charCodeAt(this.pos - 1) % 32);
+		}
+
+		if (char === "0" && !/\d/.test(this.peek(1) ?? "")) {
+			this.pos++;
+			return character(0);
+		}
+
+		// Legacy octal escapes, e.g. "\012" (no u/v flag)
+		const octal =
+			!this.unicode &&
+			this.pattern.slice(this.pos).match(/^[0-3]?[0-7]{1,2}|^[0-7]/);
+		if (octal) {
+			this.pos += octal[0].length;
+			return character(parseInt(octal[0], 8));
+		}
+
+		const hex = this.pattern.slice(this.pos).match(/^x([0-9a-fA-F]{2})/);
+		if (hex) {
+			this.pos += hex[0].length;
+			return character(parseInt(hex[1], 16));
+		}
+
+		const braced =
+			this.unicode &&
+			this.pattern.slice(this.pos).match(/^u\{([0-9a-fA-F]+)\}/);
+		if (braced) {
+			this.pos += braced[0].length;
+			return character(parseInt(braced[1], 16));
+		}
+
+		const unicodeEscape = this.pattern
+			.slice(this.pos)
+			.match(/^u([0-9a-fA-F]{4})/);
+		if (unicodeEscape) {
+			this.pos += unicodeEscape[0].length;
+			const lead = parseInt(unicodeEscape[1], 16);
+			// With u/v, an escaped surrogate pair is one character
+			const trail =
+				this.unicode && lead >= 0xd800 && lead <= 0xdbff
+					? this.pattern.slice(this.pos).match(/^\\u(d[c-f][0-9a-f]{2})/i)
+					: null;
+			if (trail) {
+				this.pos += trail[0].length;
+				const low = parseInt(trail[1], 16);
+				return character((lead - 0xd800) * 0x400 + (low - 0xdc00) + 0x10000);
+			}
+			return character(lead);
+		}
+
+		// Identity escape: the character itself, e.g. "\." or "\/"
+		return character(this.readCodePoint());
+	}
+
+	private parseClass(): CharacterClassNode {
+		const start = this.pos;
+		this.pos++;
+		const negated = this.peek() === "^";
+		if (negated) this.pos++;
+
+		const items: ClassItem[] = [];
+		let operation: CharacterClassNode["operation"] = "union";
+
+		while (this.peek() !== "]") {
+			if (this.pos >= this.pattern.length) {
+				throw this.error("Unterminated character class", start);
+			}
+
+			if (this.unicodeSets && (this.lookingAt("&&") || this.lookingAt("--"))) {
+				const next = this.lookingAt("&&") ? "intersection" : "subtraction";
+				if (
+					items.length === 0 ||
+					(operation !== "union" && operation !== next)
+				) {
+					throw this.error("Invalid set operation in character class");
+				}
+				operation = next;
+				this.pos += 2;
+				continue;
+			}
+
+			const item = this.parseClassAtom();
+			if (
+				item.type === "character" &&
+				this.peek() === "-" &&
+				this.peek(1) !== "]" &&
+				this.peek(1) !== undefined &&
+				!(this.unicodeSets && this.peek(1) === "-")
+			) {
+				const dash = this.pos;
+				this.pos++;
+				const to = this.parseClassAtom();
+				if (to.type === "character") {
+					if (to.codePoint < item.codePoint) {
+						throw this.error("Range out of order in character class", dash);
+					}
+					items.push({
+						type: "classRange",
+						from: item,
+						to,
+						start: item.start,
+						end: to.end,
+					});
+					continue;
+				}
+				if (this.unicode) throw this.error("Invalid character class", dash);
+				// Without u/v, "\d-z" is "\d", "-" and "z" (Annex B)
+				items.push(
+					item,
+					{ type: "character", codePoint: 0x2d, start: dash, end: dash + 1 },
+					to,
+				);
+				continue;
+			}
+			items.push(item);
+		}
+
+		this.pos++;
+		return {
+			type: "characterClass",
+			negated,
+			operation,
+			items,
+			start,
+			end: this.pos,
+		};
+	}
+
+	private parseClassAtom(): ClassItem {
+		const start = this.pos;
+		if (this.unicodeSets && this.peek() === "[") return this.parseClass();
+		if (this.unicodeSets && this.lookingAt("\\q{")) {
+			const end = this.pattern.indexOf("}", this.pos);
+			if (end < 0) throw this.error("Invalid class string disjunction");
+			const strings = this.pattern.slice(this.pos + 3, end).split("|");
+			this.pos = end + 1;
+			return { type: "classStrings", strings, start, end: this.pos };
+		}
+		if (this.peek() === "\\") {
+			if (this.peek(1) === "-") {
+				this.pos += 2;
+				return { type: "character", codePoint: 0x2d, start, end: this.pos };
+			}
+			return this.parseCharacterEscape(true);
+		}
+		if (
+			this.unicodeSets &&
+			CLASS_SET_RESERVED_DOUBLES.includes(this.peek()!) &&
+			this.peek(1) === this.peek()
+		) {
+			throw this.error("Invalid set operation in character class");
+		}
+		return {
+			type: "character",
+			codePoint: this.readCodePoint(),
+			start,
+			end: this.pos,
+		};
+	}
+}
+
+/**
+ * Parse a regular expression pattern into an AST
+ *
+ * @param pattern - The pattern source, without delimiters
+ * @param flags - Regex flags; u and v switch to the stricter unicode grammar
+ * @throws RegexSyntaxError if the pattern can't be parsed
+ */
+export function parseRegex(pattern: string, flags = ""): RegexAST {
+	const groups = scanGroups(pattern);
+	const root = new Parser(pattern, flags, groups).parse();
+	return {
+		pattern,
+		flags,
+		root,
+		groupCount: groups.count,
+		groupNames: groups.names,
+	};
+}
+
+/**
+ * Get the direct children of a node (class items are not included)
+ */
+export function getChildren(node: RegexNode): RegexNode[] {
+	switch (node.type) {
+		case "disjunction":
+			return node.alternatives;
+		case "sequence":
+			return node.elements;
+		case "group":
+		case "lookaround":
+		case "quantifier":
+			return [node.body];
+		default:
+			return [];
+	}
+}
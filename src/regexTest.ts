@@ -0,0 +1,154 @@
+/**
+ * Regex testing module for regexYbot
+ *
+ * Parses /test arguments and renders the matches found by a worker, with the
+ * matched spans highlighted in the tested text.
+ */
+
+import type { TranslateFn } from "./i18n";
+import type { RegexMatch } from "./types";
+import { getRegexFlags } from "./utils";
+import { CONFIG } from "./config";
+import {
+	MessageBuilder,
+	formatted,
+	type FormattedText,
+} from "./messageBuilder";
+
+/**
+ * Most matches listed in a /test reply
+ */
+export const MAX_TEST_MATCHES = 20;
+
+// Longest tested text shown with highlights, and longest match or group value
+const MAX_HIGHLIGHT_LENGTH = 1000;
+const MAX_VALUE_LENGTH = 100;
+
+/**
+ * Parse the arguments of /test: "pattern/flags", optionally followed by text
+ *
+ * A leading slash is allowed ("/foo/g"); slashes inside the pattern must be
+ * escaped. Flags are normalized like in sed commands.
+ *
+ * @returns The pattern, flags and inline text, or null if malformed
+ */
+export function parseTestArguments(
+	input: string,
+): { pattern: string; flags: string; text?: string } | null {
+	const trimmed = input.trim().replace(/^\//, "");
+	const match = trimmed.match(
+		/^((?:\\[^]|[^\\/])+)\/([a-zA-Z]*)(?:\s+([^]*))?$/,
+	);
+	if (!match) return null;
+
+	const [, pattern, rawFlags, text] = match;
+	return {
+		pattern,
+		flags: getRegexFlags(rawFlags).flags,
+		text: text || undefined,
+	};
+}
+
+/**
+ * Shorten a value for display
+ */
+function truncate(value: string, maxLength: number): string {
+	return value.length > maxLength ? `${value.slice(0, maxLength)}…` : value;
+}
+
+/**
+ * Render the tested text with every non-empty match underlined and bold
+ */
+function highlightMatches(text: string, matches: RegexMatch[]): FormattedText {
+	const shown = text.slice(0, MAX_HIGHLIGHT_LENGTH);
+	const builder = new MessageBuilder();
+	let position = 0;
+
+	for (const match of matches) {
+		if (match.text.length === 0) continue;
+		const end = Math.min(match.index + match.text.length, shown.length);
+		if (match.index >= end) break;
+		builder
+			.add(shown.slice(position, match.index))
+			.bold(formatted(shown.slice(match.index, end), { type: "underline" }));
+		position = end;
+	}
+
+	builder.add(shown.slice(position));
+	if (shown.length < text.length) builder.add("…");
+	return builder.build();
+}
+
+/**
+ * Format one match with its numbered and named groups
+ */
+function formatMatch(
+	match: RegexMatch,
+	number: number,
+	t: TranslateFn,
+): FormattedText {
+	const builder = new MessageBuilder();
+	const value = (group: string | undefined) =>
+		group === undefined
+			? builder.italic(t("regexTest-unmatched"))
+			: builder.code(truncate(group, MAX_VALUE_LENGTH));
+
+	builder.bold(t("regexTest-match", { number, index: match.index })).add(" ");
+	value(match.text);
+	match.groups.forEach((group, i) => {
+		builder
+			.add("\n    ")
+			.code(`$${i + 1}`)
+			.add(" ");
+		value(group);
+	});
+	for (const [name, group] of Object.entries(match.namedGroups ?? {})) {
+		builder.add("\n    ").code(`<${name}>`).add(" ");
+		value(group);
+	}
+	return builder.build();
+}
+
+/**
+ * Format the result of a /test run
+ *
+ * Matches that would push the reply past the message length limit are left
+ * out and counted in the closing line instead.
+ *
+ * @param matches - Matches returned by the worker (at most MAX_TEST_MATCHES)
+ * @param matchCount - Total number of matches, including ones not returned
+ * @param text - The tested text
+ */
+export function formatTestResult(
+	matches: RegexMatch[],
+	matchCount: number,
+	text: string,
+	t: TranslateFn,
+): FormattedText {
+	const message = new MessageBuilder().add("🔍 ");
+	if (matchCount === 0) {
+		return message.add(t("regexTest-noMatches")).build();
+	}
+
+	message
+		.bold(t("regexTest-matchCount", { count: matchCount }))
+		.add("\n\n")
+		.add(highlightMatches(text, matches));
+
+	// Leave room for the "more matches" line
+	const limit = CONFIG.MAX_MESSAGE_LENGTH - 100;
+	let listed = 0;
+	for (const match of matches) {
+		const entry = formatMatch(match, listed + 1, t);
+		if (message.length + 2 + entry.text.length > limit) break;
+		message.add("\n\n").add(entry);
+		listed++;
+	}
+
+	if (listed < matchCount) {
+		message
+			.add("\n\n")
+			.italic(t("regexTest-moreMatches", { count: matchCount - listed }));
+	}
+	return message.build();
+}
@@ -5,237 +5,250 @@
  */
 
 import { InlineKeyboard } from "grammy";
-import { escapeForMarkdownV2AndBackslashes } from "./utils";
+import { MessageBuilder, type FormattedText } from "./messageBuilder";
+import type { TranslateFn } from "./i18n";
 
 export interface RegexHelpItem {
 	name: string;
+	/** Message key of the description */
 	description: string;
+	/** Message key of the example */
 	example?: string;
 }
 
 export interface RegexHelpCategory {
+	/** Message keys of the name and description */
 	name: string;
 	description: string;
 	items: Record<string, RegexHelpItem>;
 }
 
-// Help content organized by category
+// Help content organized by category, texts are looked up in the locales
 export const regexHelpData: Record<string, RegexHelpCategory> = {
 	tokens: {
-		name: "Tokens",
-		description:
-			"Special character classes that match specific types of characters",
+		name: "regexHelp-tokens",
+		description: "regexHelp-tokens-description",
 		items: {
 			d: {
 				name: "\\d",
-				description: "Matches any digit (0-9)",
-				example: "\\d matches '5' in 'abc5def'",
+				description: "regexHelp-tokens-digit",
+				example: "regexHelp-tokens-digit-example",
 			},
 			D: {
 				name: "\\D",
-				description: "Matches any non-digit",
-				example: "\\D matches 'a' in '123a456'",
+				description: "regexHelp-tokens-nonDigit",
+				example: "regexHelp-tokens-nonDigit-example",
 			},
 			w: {
 				name: "\\w",
-				description: "Matches any word character [a-zA-Z0-9_]",
-				example: "\\w matches 'h' in 'hello'",
+				description: "regexHelp-tokens-word",
+				example: "regexHelp-tokens-word-example",
 			},
 			W: {
 				name: "\\W",
-				description: "Matches any non-word character",
-				example: "\\W matches ' ' in 'hello world'",
+				description: "regexHelp-tokens-nonWord",
+				example: "regexHelp-tokens-nonWord-example",
 			},
 			s: {
 				name: "\\s",
-				description: "Matches any whitespace (space, tab, newline)",
-				example: "\\s matches the space in 'a b'",
+				description: "regexHelp-tokens-space",
+				example: "regexHelp-tokens-space-example",
 			},
 			S: {
 				name: "\\S",
-				description: "Matches any non-whitespace",
-				example: "\\S matches 'a' in ' a '",
+				description: "regexHelp-tokens-nonSpace",
+				example: "regexHelp-tokens-nonSpace-example",
 			},
 			dot: {
 				name: ".",
-				description: "Matches any character except newline",
-				example: ". matches any character in 'abc'",
+				description: "regexHelp-tokens-dot",
+				example: "regexHelp-tokens-dot-example",
 			},
 		},
 	},
 	quantifiers: {
-		name: "Quantifiers",
-		description: "Specify how many times a pattern should match",
+		name: "regexHelp-quantifiers",
+		description: "regexHelp-quantifiers-description",
 		items: {
 			star: {
 				name: "*",
-				description: "Zero or more times",
-				example: "a* matches '', 'a', or 'aaa'",
+				description: "regexHelp-quantifiers-star",
+				example: "regexHelp-quantifiers-star-example",
 			},
 			plus: {
 				name: "+",
-				description: "One or more times",
-				example: "a+ matches 'a' or 'aaa' but not ''",
+				description: "regexHelp-quantifiers-plus",
+				example: "regexHelp-quantifiers-plus-example",
 			},
 			question: {
 				name: "?",
-				description: "Zero or one time (optional)",
-				example: "a? matches '' or 'a'",
+				description: "regexHelp-quantifiers-question",
+				example: "regexHelp-quantifiers-question-example",
 			},
 			exact: {
 				name: "{n}",
-				description: "Exactly n times",
-				example: "a{3} matches exactly 'aaa'",
+				description: "regexHelp-quantifiers-exact",
+				example: "regexHelp-quantifiers-exact-example",
 			},
 			min: {
 				name: "{n,}",
-				description: "At least n times",
-				example: "a{2,} matches 'aa', 'aaa', etc.",
+				description: "regexHelp-quantifiers-min",
+				example: "regexHelp-quantifiers-min-example",
 			},
 			range: {
 				name: "{n,m}",
-				description: "Between n and m times",
-				example: "a{2,4} matches 'aa', 'aaa', or 'aaaa'",
+				description: "regexHelp-quantifiers-range",
+				example: "regexHelp-quantifiers-range-example",
 			},
 		},
 	},
 	anchors: {
-		name: "Anchors",
-		description: "Match positions rather than characters",
+		name: "regexHelp-anchors",
+		description: "regexHelp-anchors-description",
 		items: {
 			start: {
 				name: "^",
-				description: "Start of string",
-				example: "^hello matches 'hello world' but not 'say hello'",
+				description: "regexHelp-anchors-start",
+				example: "regexHelp-anchors-start-example",
 			},
 			end: {
 				name: "$",
-				description: "End of string",
-				example: "world$ matches 'hello world' but not 'world peace'",
+				description: "regexHelp-anchors-end",
+				example: "regexHelp-anchors-end-example",
 			},
 			word: {
 				name: "\\b",
-				description: "Word boundary",
-				example: "\\bcat\\b matches 'cat' but not 'category'",
+				description: "regexHelp-anchors-word",
+				example: "regexHelp-anchors-word-example",
 			},
 			nonword: {
 				name: "\\B",
-				description: "Non-word boundary",
-				example: "\\Bcat matches 'category' but not 'cat'",
+				description: "regexHelp-anchors-nonWord",
+				example: "regexHelp-anchors-nonWord-example",
 			},
 		},
 	},
 	groups: {
-		name: "Groups",
-		description: "Group parts of patterns together",
+		name: "regexHelp-groups",
+		description: "regexHelp-groups-description",
 		items: {
 			capture: {
 				name: "()",
-				description: "Capture group - remembers match for backreferences",
-				example: "(abc) captures 'abc' for use with $1",
+				description: "regexHelp-groups-capture",
+				example: "regexHelp-groups-capture-example",
 			},
 			noncapture: {
 				name: "(?:)",
-				description: "Non-capturing group - groups without remembering",
-				example: "(?:abc) groups but doesn't capture",
+				description: "regexHelp-groups-nonCapture",
+				example: "regexHelp-groups-nonCapture-example",
 			},
 			lookahead: {
 				name: "(?=)",
-				description: "Positive lookahead - matches if followed by",
-				example: "a(?=b) matches 'a' only if followed by 'b'",
+				description: "regexHelp-groups-lookahead",
+				example: "regexHelp-groups-lookahead-example",
 			},
 			neglookahead: {
 				name: "(?!)",
-				description: "Negative lookahead - matches if NOT followed by",
-				example: "a(?!b) matches 'a' only if NOT followed by 'b'",
+				description: "regexHelp-groups-negLookahead",
+				example: "regexHelp-groups-negLookahead-example",
 			},
 		},
 	},
 	classes: {
-		name: "Character Classes",
-		description: "Match specific sets of characters",
+		name: "regexHelp-classes",
+		description: "regexHelp-classes-description",
 		items: {
 			set: {
 				name: "[]",
-				description: "Character set - match any character inside",
-				example: "[abc] matches 'a', 'b', or 'c'",
+				description: "regexHelp-classes-set",
+				example: "regexHelp-classes-set-example",
 			},
 			negset: {
 				name: "[^]",
-				description: "Negated set - match any character NOT inside",
-				example: "[^abc] matches any character except 'a', 'b', 'c'",
+				description: "regexHelp-classes-negSet",
+				example: "regexHelp-classes-negSet-example",
 			},
 			range: {
 				name: "[a-z]",
-				description: "Range - match any character in range",
-				example: "[a-z] matches any lowercase letter",
+				description: "regexHelp-classes-range",
+				example: "regexHelp-classes-range-example",
 			},
 		},
 	},
 	escapes: {
-		name: "Escapes",
-		description: "Match special characters literally",
+		name: "regexHelp-escapes",
+		description: "regexHelp-escapes-description",
 		items: {
 			dot: {
 				name: "\\.",
-				description: "Literal dot",
-				example: "\\. matches '.' not 'any character'",
+				description: "regexHelp-escapes-dot",
+				example: "regexHelp-escapes-dot-example",
 			},
 			star: {
 				name: "\\*",
-				description: "Literal asterisk",
-				example: "\\* matches '*' not 'zero or more'",
+				description: "regexHelp-escapes-star",
+				example: "regexHelp-escapes-star-example",
 			},
 			plus: {
 				name: "\\+",
-				description: "Literal plus",
-				example: "\\+ matches '+' not 'one or more'",
+				description: "regexHelp-escapes-plus",
+				example: "regexHelp-escapes-plus-example",
 			},
 			backslash: {
 				name: "\\\\",
-				description: "Literal backslash",
-				example: "\\\\ matches a single backslash",
+				description: "regexHelp-escapes-backslash",
+				example: "regexHelp-escapes-backslash-example",
 			},
 			tab: {
 				name: "\\t",
-				description: "Tab character",
-				example: "\\t matches a tab",
+				description: "regexHelp-escapes-tab",
+				example: "regexHelp-escapes-tab-example",
 			},
 			newline: {
 				name: "\\n",
-				description: "Newline character",
-				example: "\\n matches a newline",
+				description: "regexHelp-escapes-newline",
+				example: "regexHelp-escapes-newline-example",
 			},
 		},
 	},
 	flags: {
-		name: "Flags",
-		description: "Modify how the regex behaves",
+		name: "regexHelp-flags",
+		description: "regexHelp-flags-description",
 		items: {
 			global: {
 				name: "g",
-				description: "Global - find all matches, not just first",
-				example: "/a/g matches all 'a's in 'banana'",
+				description: "regexHelp-flags-global",
+				example: "regexHelp-flags-global-example",
 			},
 			ignorecase: {
 				name: "i",
-				description: "Ignore case - case insensitive matching",
-				example: "/hello/i matches 'HELLO', 'Hello', etc.",
+				description: "regexHelp-flags-ignoreCase",
+				example: "regexHelp-flags-ignoreCase-example",
 			},
 			multiline: {
 				name: "m",
-				description: "Multiline - ^ and $ match line boundaries",
-				example: "/^foo/m matches 'foo' at start of any line",
+				description: "regexHelp-flags-multiline",
+				example: "regexHelp-flags-multiline-example",
 			},
 			dotall: {
 				name: "s",
-				description: "Dot all - dot matches newlines too",
-				example: "/.+/s matches entire multiline text",
+				description: "regexHelp-flags-dotAll",
+				example: "regexHelp-flags-dotAll-example",
 			},
 			performance: {
 				name: "p",
-				description: "Performance - show timing info (custom flag)",
-				example: "/pattern/p shows execution time",
+				description: "regexHelp-flags-performance",
+				example: "regexHelp-flags-performance-example",
+			},
+			diff: {
+				name: "d",
+				description: "regexHelp-flags-diff",
+				example: "regexHelp-flags-diff-example",
+			},
+			occurrence: {
+				name: "N",
+				description: "regexHelp-flags-occurrence",
+				example: "regexHelp-flags-occurrence-example",
 			},
 		},
 	},
@@ -244,7 +257,7 @@ export const regexHelpData: Record<string, RegexHelpCategory> = {
 /**
  * Create category selection keyboard
  */
-export function createCategoryKeyboard(): InlineKeyboard {
+export function createCategoryKeyboard(t: TranslateFn): InlineKeyboard {
 	const keyboard = new InlineKeyboard();
 
 	const categories = Object.entries(regexHelpData);
@@ -252,7 +265,7 @@ export function createCategoryKeyboard(): InlineKeyboard {
 		const row = categories.slice(i, i + 2);
 		keyboard.row(
 			...row.map(([key, data]) =>
-				InlineKeyboard.text(data.name, `regexhelp:category:${key}`),
+				InlineKeyboard.text(t(data.name), `regexhelp:category:${key}`),
 			),
 		);
 	}
@@ -263,12 +276,15 @@ export function createCategoryKeyboard(): InlineKeyboard {
 /**
  * Create item selection keyboard for a category
  */
-export function createItemKeyboard(categoryKey: string): InlineKeyboard {
+export function createItemKeyboard(
+	categoryKey: string,
+	t: TranslateFn,
+): InlineKeyboard {
 	const keyboard = new InlineKeyboard();
 	const category = regexHelpData[categoryKey];
 
 	if (!category) {
-		return keyboard.text("Back", "regexhelp:back");
+		return keyboard.text(t("regexHelp-back"), "regexhelp:back");
 	}
 
 	const items = Object.entries(category.items);
@@ -281,7 +297,9 @@ export function createItemKeyboard(categoryKey: string): InlineKeyboard {
 		);
 	}
 
-	keyboard.row(InlineKeyboard.text("Back to Categories", "regexhelp:back"));
+	keyboard.row(
+		InlineKeyboard.text(t("regexHelp-backToCategories"), "regexhelp:back"),
+	);
 
 	return keyboard;
 }
@@ -292,67 +310,60 @@ export function createItemKeyboard(categoryKey: string): InlineKeyboard {
 export function formatItemHelp(
 	categoryKey: string,
 	itemKey: string,
-): string | null {
+	t: TranslateFn,
+): FormattedText | null {
 	const category = regexHelpData[categoryKey];
 	if (!category) return null;
 
 	const item = category.items[itemKey];
 	if (!item) return null;
 
-	// Escape special characters for MarkdownV2
-	const name = escapeForMarkdownV2AndBackslashes(item.name);
-	const description = escapeForMarkdownV2AndBackslashes(item.description);
-	const example = item.example
-		? escapeForMarkdownV2AndBackslashes(item.example)
-		: null;
-
-	let message = `*${name}*\n\n`;
-	message += `${description}\n\n`;
-	if (example) {
-		message += `Example: ${example}`;
+	const message = new MessageBuilder()
+		.bold(item.name)
+		.add(`\n\n${t(item.description)}\n\n`);
+	if (item.example) {
+		message.add(`${t("regexHelp-example")} ${t(item.example)}`);
 	}
 
-	return message;
+	return message.build();
 }
 
 /**
  * Format category overview for display
  */
-export function formatCategoryHelp(categoryKey: string): string | null {
+export function formatCategoryHelp(
+	categoryKey: string,
+	t: TranslateFn,
+): FormattedText | null {
 	const category = regexHelpData[categoryKey];
 	if (!category) return null;
 
-	// Escape special characters for MarkdownV2
-	const name = escapeForMarkdownV2AndBackslashes(category.name);
-	const description = escapeForMarkdownV2AndBackslashes(category.description);
-
-	let message = `*${name}*\n\n`;
-	message += `${description}\n\n`;
-	message += `Available items:\n`;
+	const message = new MessageBuilder()
+		.bold(t(category.name))
+		.add(`\n\n${t(category.description)}\n\n`)
+		.add(`${t("regexHelp-availableItems")}\n`);
 
 	for (const item of Object.values(category.items)) {
-		const itemName = escapeForMarkdownV2AndBackslashes(item.name);
-		const itemDesc = escapeForMarkdownV2AndBackslashes(item.description);
-		message += `• ${itemName}: ${itemDesc}\n`;
+		message.add(`• ${item.name}: ${t(item.description)}\n`);
 	}
 
-	return message;
+	return message.build();
 }
 
 /**
  * Get main help message
  */
-export function getMainHelpMessage(): string {
-	const lines = [
-		`*Regex Help*\n`,
-		`Select a category to learn about regex syntax:\n`,
-	];
+export function getMainHelpMessage(t: TranslateFn): FormattedText {
+	const message = new MessageBuilder()
+		.bold(t("regexHelp-title"))
+		.add(`\n\n${t("regexHelp-selectCategory")}\n`);
 
 	for (const cat of Object.values(regexHelpData)) {
-		const name = escapeForMarkdownV2AndBackslashes(cat.name);
-		const desc = escapeForMarkdownV2AndBackslashes(cat.description);
-		lines.push(`• *${name}*: ${desc}`);
+		message
+			.add("\n• ")
+			.bold(t(cat.name))
+			.add(`: ${t(cat.description)}`);
 	}
 
-	return lines.join("\n");
+	return message.build();
 }
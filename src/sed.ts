@@ -1,24 +1,50 @@
+import { InlineQueryResultBuilder } from "grammy";
+import type { InlineQueryResult, MessageEntity } from "grammy/types";
 import { Logger } from "./logger";
-import type { SedCommand, TaskMessage } from "./types";
-import type { WorkerPool } from "./workerPool";
+import type {
+	MatchTaskMessage,
+	ParsedSedCommand,
+	ResultMessage,
+	TaskMessage,
+	WorkerCommand,
+	WorkerTask,
+} from "./types";
+import type { TaskOptions, WorkerPool } from "./workerPool";
 import {
-	SED_PATTERN,
+	SED_COMMAND_START,
 	getRegexFlags,
-	escapeForMarkdownV2AndBackslashes,
+	isSedCommand,
+	parseSedCommand,
 } from "./utils";
 import { CONFIG } from "./config";
-import { RegexError, WorkerError } from "./errors";
+import { CircuitBreakerError, RegexError, WorkerError } from "./errors";
+import type { CircuitBreaker } from "./circuitBreaker";
+import type { DatabaseService } from "./database";
 import type { MyContext } from "./i18n";
-import { recordSubstitution } from "./metrics";
+import { recordDangerousPatternBlocked, recordSubstitution } from "./metrics";
 import {
 	detectDangerousPattern,
+	formatDangerousPatternBlocked,
 	formatDangerousPatternWarning,
+	isBlockedByPolicy,
 	isSimplePattern,
+	type DangerousPatternResult,
 } from "./dangerousPatterns";
 import { getBestTip, sendTransientTip } from "./optimizationTips";
+import { getDisallowedFlags, resolveChatSettings } from "./chatSettings";
+import { MAX_TEST_MATCHES, formatTestResult } from "./regexTest";
+import { formattingEntities, truncateEntities } from "./entities";
+import { MessageBuilder, type FormattedText } from "./messageBuilder";
+import { diffWords, formatDiff } from "./diff";
 
 const { MAX_CHAIN_LENGTH, MAX_MESSAGE_LENGTH, WORKER_TIMEOUT_MS } = CONFIG;
 
+// Sandboxed patterns never get longer than any other task
+const SANDBOX_TIMEOUT_MS = Math.min(
+	CONFIG.DANGER_SANDBOX_TIMEOUT_MS,
+	WORKER_TIMEOUT_MS,
+);
+
 /**
  * Track performance message info for edit handling
  */
@@ -67,13 +93,40 @@ function formatDuration(ms: number): string {
 	return `${hours}h ${minutes}m`;
 }
 
+/**
+ * Convert a parsed command into the form executed by the worker
+ */
+export function toWorkerCommand(parsed: ParsedSedCommand): WorkerCommand {
+	if (parsed.command === "y") {
+		return {
+			type: "y",
+			source: parsed.source,
+			target: parsed.target,
+			address: parsed.address,
+		};
+	}
+	const replacement = parsed.replacement
+		.replace(/\\(\d+)/g, "$$$1")
+		.replace(/\\n/g, "\n")
+		.replace(/\\t/g, "\t");
+	const { flags, occurrence } = getRegexFlags(parsed.flags);
+	return {
+		type: "s",
+		pattern: parsed.pattern,
+		flags,
+		replacement,
+		occurrence,
+		address: parsed.address,
+	};
+}
+
 export function parseSedCommands(text: string): string[] {
 	const lines = text.split("\n");
 	const commands: string[] = [];
 	let currentCommand = "";
 
 	for (const line of lines) {
-		if (line.trim().startsWith("s/")) {
+		if (SED_COMMAND_START.test(line.trim())) {
 			if (currentCommand) {
 				commands.push(currentCommand.trim());
 			}
@@ -90,14 +143,91 @@ export function parseSedCommands(text: string): string[] {
 	return commands;
 }
 
+/**
+ * Get the commands in a text that actually parse as sed commands
+ *
+ * parseSedCommands splits on anything that starts like a command, which
+ * includes prose such as "y'all ..." or "s-curve".
+ */
+export function findSedCommands(text: string): string[] {
+	return parseSedCommands(text).filter(isSedCommand);
+}
+
+/**
+ * Get the pattern a task was running when it failed
+ *
+ * @param failedIndex - Index of the failed command, as reported by the worker
+ * @returns The pattern and its flags, or undefined for non-regex commands
+ */
+function getTaskPattern(
+	task: WorkerTask,
+	failedIndex: unknown,
+): { pattern: string; flags: string } | undefined {
+	if (task.type === "match") return task;
+	const command =
+		typeof failedIndex === "number" ? task.commands[failedIndex] : undefined;
+	return command?.type !== "y" ? command : undefined;
+}
+
+/**
+ * Text and options for the message content of an inline result
+ */
+function messageContent(
+	message: FormattedText,
+): [string, { entities: MessageEntity[] }] {
+	return [message.text, { entities: message.entities }];
+}
+
+/**
+ * Split an inline query like "s/foo/bar/g | some text" into commands and text
+ *
+ * The separator is the first " | " whose left side is made of sed commands,
+ * so "|" may still be used as a delimiter or inside the pattern.
+ *
+ * @returns The commands and input text, or null if the query has no such form
+ */
+export function parseInlineQuery(
+	query: string,
+): { commands: string[]; text: string } | null {
+	for (const separator of query.matchAll(/\s\|\s/g)) {
+		const commandPart = query.slice(0, separator.index).trim();
+		const text = query.slice(separator.index + separator[0].length).trim();
+		const commands = parseSedCommands(commandPart);
+		if (
+			text &&
+			commands.length > 0 &&
+			commands.every((command) => parseSedCommand(command))
+		) {
+			return { commands, text };
+		}
+	}
+	return null;
+}
+
 export interface SedHandlerDependencies {
 	workerPool: WorkerPool;
+	/** Sends the reply shown to users; result is the corrected text alone */
 	sendOrEditReply: (
 		ctx: MyContext,
 		targetMsgId: number,
-		messageText: string,
+		message: FormattedText,
+		result: FormattedText,
 		isEdit: boolean,
 	) => Promise<void>;
+	/** Guards replies sent to Telegram */
+	telegramBreaker: CircuitBreaker;
+	/** Finds the message a command changes, from its reply or the history */
+	findTargetMessage: DatabaseService["findTargetMessage"];
+}
+
+/**
+ * A chain of commands that passed the chat's checks, ready for the worker pool
+ */
+interface PreparedChain {
+	/** The commands as written, limited to the chat's chain length */
+	chain: string[];
+	commands: WorkerCommand[];
+	taskOptions: TaskOptions;
 }
 
 export class SedHandler {
@@ -107,112 +237,418 @@ export class SedHandler {
 		this.logger = new Logger("SedHandler");
 	}
 
-	async handleSedCommand(
+	/**
+	 * Call Telegram through the circuit breaker
+	 * Returns undefined when the circuit is open and the call was dropped
+	 */
+	private async callTelegram<T>(
+		call: () => Promise<T>,
+	): Promise<T | undefined> {
+		try {
+			return await this.deps.telegramBreaker.execute(call);
+		} catch (error) {
+			if (error instanceof CircuitBreakerError) {
+				this.logger.warn(`Dropping reply: ${error.message}`);
+				return undefined;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Reply through the Telegram circuit breaker
+	 * Returns undefined when the circuit is open and the reply was dropped
+	 */
+	private async reply(
+		ctx: MyContext,
+		...args: Parameters<MyContext["reply"]>
+	): Promise<Awaited<ReturnType<MyContext["reply"]>> | undefined> {
+		return this.callTelegram(() => ctx.reply(...args));
+	}
+
+	/**
+	 * Reply with text formatted by entities
+	 */
+	private async replyFormatted(
+		ctx: MyContext,
+		message: FormattedText,
+	): Promise<Awaited<ReturnType<MyContext["reply"]>> | undefined> {
+		return this.reply(ctx, message.text, { entities: message.entities });
+	}
+
+	/**
+	 * Look for patterns prone to catastrophic backtracking
+	 * @returns The detection result, or null if the command looks safe
+	 */
+	private checkDangerousPattern(
+		command: WorkerCommand,
+	): DangerousPatternResult | null {
+		if (command.type === "y" || isSimplePattern(command.pattern)) return null;
+		const dangerCheck = detectDangerousPattern(command.pattern, command.flags);
+		if (!dangerCheck.detected) return null;
+		this.logger.warn(
+			`Dangerous pattern detected: ${command.pattern} (score: ${dangerCheck.complexityScore})`,
+		);
+		return dangerCheck;
+	}
+
+	/**
+	 * Apply the chat's dangerous pattern policy to commands about to run
+	 *
+	 * Sends the warnings the chat wants to see. In block mode a high-risk
+	 * pattern stops the whole chain before it reaches the worker pool; in
+	 * sandbox mode the chain gets a short timeout.
+	 *
+	 * @returns Options for the worker task, or null if a pattern was blocked
+	 */
+	private async enforceDangerPolicy(
+		ctx: MyContext,
+		commands: WorkerCommand[],
+	): Promise<TaskOptions | null> {
+		const settings = resolveChatSettings(ctx.chatSettings);
+		const policy = settings.dangerPolicy;
+		if (!settings.dangerWarnings && policy === "warn") return {};
+
+		const dangerChecks = commands
+			.map((command) => this.checkDangerousPattern(command))
+			.filter((check) => check !== null);
+
+		const blocked = dangerChecks.find((check) =>
+			isBlockedByPolicy(check, policy),
+		);
+		if (blocked) {
+			recordDangerousPatternBlocked();
+			this.logger.warn(`Blocked dangerous pattern: ${blocked.pattern}`);
+			await this.replyFormatted(
+				ctx,
+				formatDangerousPatternBlocked(blocked, ctx.t),
+			);
+			return null;
+		}
+
+		const timeoutMs =
+			policy === "sandbox" && dangerChecks.length > 0
+				? SANDBOX_TIMEOUT_MS
+				: undefined;
+		if (settings.dangerWarnings) {
+			for (const dangerCheck of dangerChecks) {
+				await this.replyFormatted(
+					ctx,
+					formatDangerousPatternWarning(dangerCheck, ctx.t, timeoutMs),
+				);
+			}
+		}
+		return { timeoutMs };
+	}
+
+	/**
+	 * Run a chain of commands in the worker pool
+	 *
+	 * @param entities - Formatting of the text, moved along with it
+	 */
+	private async runChain(
+		ctx: MyContext,
+		commands: WorkerCommand[],
+		initialText: string,
+		includePerformance: boolean,
+		options: TaskOptions = {},
+		entities: MessageEntity[] = [],
+	): Promise<FormattedText | { errorMessage: string }> {
+		// The whole chain runs in a single task, sharing one timeout
+		const task: TaskMessage = {
+			initialText,
+			commands,
+			includePerformance,
+			entities,
+		};
+		const outcome = await this.runTask(ctx, task, options);
+		if ("errorMessage" in outcome) return outcome;
+		this.logger.debug(
+			`Chain result. New text length: ${outcome.result.result.length}`,
+		);
+		return {
+			text: outcome.result.result,
+			entities: outcome.result.entities ?? [],
+		};
+	}
+
+	/**
+	 * Run a task in the worker pool
+	 *
+	 * Failures are turned into a message for the user: regex errors point at
+	 * the failing pattern, timeouts and open circuits get their own text.
+	 */
+	private async runTask(
+		ctx: MyContext,
+		task: WorkerTask,
+		options: TaskOptions = {},
+	): Promise<{ result: ResultMessage } | { errorMessage: string }> {
+		try {
+			const result = await this.deps.workerPool.run(task, options);
+			if (result.error) {
+				return {
+					errorMessage: ctx.t("error-substitution", { error: result.error }),
+				};
+			}
+			return { result };
+		} catch (error: unknown) {
+			this.logger.error(String(error), "Worker pool task failed");
+
+			if (error instanceof CircuitBreakerError) {
+				return { errorMessage: error.getUserMessage(ctx.t) };
+			}
+
+			// Point regex errors at the pattern that actually failed
+			const failedIndex =
+				error instanceof WorkerError
+					? error.context?.failedCommandIndex
+					: undefined;
+			const failedPattern = getTaskPattern(task, failedIndex);
+
+			const timedOut =
+				error instanceof Error && error.message.includes("timed out");
+			if (timedOut && options.timeoutMs !== undefined) {
+				// A sandboxed pattern hit its short timeout
+				return {
+					errorMessage: ctx.t("danger-sandboxTimeout", {
+						seconds: options.timeoutMs / 1000,
+					}),
+				};
+			}
+
+			// Convert to custom error types for consistent handling
+			let botError: WorkerError | RegexError;
+			if (timedOut) {
+				botError = new WorkerError(
+					`Regex operation timed out after ${WORKER_TIMEOUT_MS / 1000}s`,
+					"regex_execution",
+					undefined,
+					{ timeout: WORKER_TIMEOUT_MS },
+				);
+			} else if (
+				failedPattern &&
+				error instanceof Error &&
+				error.message.includes("Invalid regular expression")
+			) {
+				botError = new RegexError(
+					failedPattern.pattern,
+					failedPattern.flags,
+					error,
+				);
+			} else {
+				botError = new WorkerError(
+					error instanceof Error ? error.message : String(error),
+					"regex_execution",
+					undefined,
+					{ failedCommandIndex: failedIndex },
+				);
+			}
+
+			return { errorMessage: botError.getUserMessage(ctx.t) };
+		}
+	}
+
+	/**
+	 * Handle the sed commands of a message: find the message they change,
+	 * then run them on it
+	 *
+	 * Reply-only chats are checked first, so a command that doesn't reply to
+	 * anything never searches the history. The chain is checked against the
+	 * chat's flags and dangerous pattern policy before the search too, since
+	 * the search runs the first pattern. It runs in the worker pool with the
+	 * chain's task options, as the analysis can't vouch for every pattern.
+	 *
+	 * @param sedCommands - The commands, as split by parseSedCommands
+	 * @param messageId - The ID of the message holding the commands
+	 */
+	async handleSedMessage(
 		ctx: MyContext,
 		sedCommands: string[],
-		targetMsgText: string,
-		targetMsgId: number,
+		messageId: number,
 		isEdit: boolean,
 	): Promise<void> {
+		const firstCommand = parseSedCommand(sedCommands[0]);
+		if (!firstCommand) return;
+
+		const settings = resolveChatSettings(ctx.chatSettings);
+		if (settings.replyOnly && !ctx.msg?.reply_to_message) {
+			this.logger.debug("Chat is in reply-only mode, ignoring command.");
+			if (!isEdit) await this.reply(ctx, ctx.t("error-replyOnly"));
+			return;
+		}
+
+		const prepared = await this.prepareChain(ctx, sedCommands);
+		if (!prepared) return;
+
+		// The first failing match ends the search
+		let searchError: string | undefined;
+		const [first] = prepared.commands;
+		const matchTarget =
+			first.type !== "y"
+				? async (text: string) => {
+						if (searchError !== undefined) return false;
+						const outcome = await this.runTask(
+							ctx,
+							{
+								type: "match",
+								text,
+								pattern: first.pattern,
+								flags: first.flags.replace(/[gy]/g, ""),
+								maxMatches: 1,
+							},
+							prepared.taskOptions,
+						);
+						if ("errorMessage" in outcome) {
+							searchError = outcome.errorMessage;
+							return false;
+						}
+						return (outcome.result.matches?.length ?? 0) > 0;
+					}
+				: undefined;
+
+		const { targetMsgText, targetMsgEntities, targetMsgId } =
+			await this.deps.findTargetMessage(
+				ctx,
+				firstCommand,
+				isEdit ? messageId : undefined,
+				matchTarget,
+			);
+		if (searchError !== undefined) {
+			await this.reply(ctx, searchError);
+			return;
+		}
+		if (!targetMsgText || !targetMsgId) {
+			this.logger.info("No target found for sed command.");
+			if (!isEdit) await this.reply(ctx, ctx.t("error-noTarget"));
+			return;
+		}
+		if (isSedCommand(targetMsgText)) {
+			this.logger.debug("Target message is a sed command, ignoring.");
+			return;
+		}
+
 		this.logger.debug(
-			`Handling ${sedCommands.length} sed command(s) for targetMsgId: ${targetMsgId}`,
+			`Found valid target. Proceeding with handleSedCommand (isEdit: ${isEdit}).`,
+		);
+		await this.handleSedCommand(
+			ctx,
+			prepared,
+			targetMsgText,
+			targetMsgId,
+			isEdit,
+			targetMsgEntities,
 		);
-		this.logger.debug(`Commands to execute: ${JSON.stringify(sedCommands)}`);
+	}
 
-		const hasPerformanceFlag = sedCommands.some((cmd) => {
-			const match = cmd.match(SED_PATTERN);
-			return match
-				? getRegexFlags(match[3]).originalFlags?.toLowerCase().includes("p")
-				: false;
+	/**
+	 * Check a chain against the chat's settings and turn it into worker commands
+	 *
+	 * Commands beyond the chat's chain limit are dropped. Replies with the
+	 * reason when the chain must not run.
+	 *
+	 * @returns The chain to run, or null if it was refused
+	 */
+	private async prepareChain(
+		ctx: MyContext,
+		sedCommands: string[],
+	): Promise<PreparedChain | null> {
+		const settings = resolveChatSettings(ctx.chatSettings);
+		const chain = sedCommands.slice(0, settings.maxChainLength);
+		const disallowedFlags = chain.flatMap((cmd) => {
+			const parsed = parseSedCommand(cmd);
+			return parsed?.command === "s"
+				? getDisallowedFlags(parsed.flags, settings)
+				: [];
 		});
+		if (disallowedFlags.length > 0) {
+			await this.reply(
+				ctx,
+				ctx.t("error-flagsNotAllowed", {
+					flags: [...new Set(disallowedFlags)].join(", "),
+				}),
+			);
+			return null;
+		}
 
-		const startTime = hasPerformanceFlag ? performance.now() : undefined;
-		let currentText = targetMsgText;
-		let substitutionCount = 0;
-
-		for (const commandString of sedCommands.slice(0, MAX_CHAIN_LENGTH)) {
-			const match = commandString.match(SED_PATTERN);
-			if (!match) continue;
-
-			const fr = match[1].replace(/\\\//g, "/");
-			const processedTo = match[2]
-				.replace(/\\\//g, "/")
-				.replace(/\\(\d+)/g, "$$$1")
-				.replace(/\\n/g, "\n")
-				.replace(/\\t/g, "\t");
-			const { flags } = getRegexFlags(match[3]);
-			const commandForWorker: SedCommand = {
-				pattern: fr,
-				flags,
-				replacement: processedTo,
-			};
+		const commands: WorkerCommand[] = [];
+		for (const commandString of chain) {
+			const parsed = parseSedCommand(commandString);
+			if (!parsed) continue;
+
+			const commandForWorker = toWorkerCommand(parsed);
 
 			this.logger.debug(
-				`Executing command: pattern="${commandForWorker.pattern}", flags="${commandForWorker.flags}", replacement="${commandForWorker.replacement}"`,
+				`Queueing command: ${JSON.stringify(commandForWorker)}`,
 			);
+			commands.push(commandForWorker);
+		}
 
-			// Check for dangerous patterns (warn but don't block)
-			if (!isSimplePattern(commandForWorker.pattern)) {
-				const dangerCheck = detectDangerousPattern(commandForWorker.pattern);
-				if (dangerCheck.detected) {
-					this.logger.warn(
-						`Dangerous pattern detected: ${commandForWorker.pattern} (score: ${dangerCheck.complexityScore})`,
-					);
-					// Show warning but continue execution
-					const warning = formatDangerousPatternWarning(dangerCheck);
-					await ctx.reply(warning, { parse_mode: "Markdown" });
-				}
-			}
+		if (commands.length === 0) return null;
 
+		// Refused here, before the history search compiles the first pattern
+		for (const command of commands) {
+			if (command.type === "y") continue;
 			try {
-				const task: TaskMessage = {
-					initialText: currentText,
-					commands: [commandForWorker],
-					includePerformance: hasPerformanceFlag,
-				};
-				const result = await this.deps.workerPool.run(task);
-				if (result.error) {
-					await ctx.reply(`Error during substitution: ${result.error}`);
-					return;
-				}
-				currentText = result.result;
-				substitutionCount++;
-				this.logger.debug(
-					`Command result. New text length: ${currentText.length}`,
+				new RegExp(command.pattern, command.flags);
+			} catch (error) {
+				const regexError = new RegexError(
+					command.pattern,
+					command.flags,
+					error instanceof Error ? error : undefined,
 				);
-			} catch (error: unknown) {
-				this.logger.error(String(error), "Worker pool task failed");
-
-				// Convert to custom error types for consistent handling
-				let botError: WorkerError | RegexError;
-				if (error instanceof Error && error.message.includes("timed out")) {
-					botError = new WorkerError(
-						`Regex operation timed out after ${WORKER_TIMEOUT_MS / 1000}s`,
-						"regex_execution",
-						undefined,
-						{ timeout: WORKER_TIMEOUT_MS },
-					);
-				} else if (
-					error instanceof Error &&
-					error.message.includes("Invalid regular expression")
-				) {
-					botError = new RegexError(
-						commandForWorker.pattern,
-						commandForWorker.flags,
-						error instanceof Error ? error : undefined,
-					);
-				} else {
-					botError = new WorkerError(
-						error instanceof Error ? error.message : String(error),
-						"regex_execution",
-					);
-				}
-
-				await ctx.reply(botError.getUserMessage());
-				return;
+				this.logger.debug(regexError.message);
+				await this.reply(ctx, regexError.getUserMessage(ctx.t));
+				return null;
 			}
 		}
 
+		const taskOptions = await this.enforceDangerPolicy(ctx, commands);
+		if (!taskOptions) return null;
+
+		return { chain, commands, taskOptions };
+	}
+
+	private async handleSedCommand(
+		ctx: MyContext,
+		{ chain, commands: commandsForWorker, taskOptions }: PreparedChain,
+		targetMsgText: string,
+		targetMsgId: number,
+		isEdit: boolean,
+		targetMsgEntities?: MessageEntity[],
+	): Promise<void> {
+		this.logger.debug(
+			`Handling ${chain.length} sed command(s) for targetMsgId: ${targetMsgId}`,
+		);
+		this.logger.debug(`Commands to execute: ${JSON.stringify(chain)}`);
+
+		const settings = resolveChatSettings(ctx.chatSettings);
+		const hasPerformanceFlag = chain.some((cmd) => {
+			const parsed = parseSedCommand(cmd);
+			return parsed?.command === "s"
+				? getRegexFlags(parsed.flags).originalFlags?.toLowerCase().includes("p")
+				: false;
+		});
+		const hasDiffFlag = chain.some((cmd) => {
+			const parsed = parseSedCommand(cmd);
+			return parsed?.command === "s" && getRegexFlags(parsed.flags).diff;
+		});
+
+		const startTime = hasPerformanceFlag ? performance.now() : undefined;
+		const outcome = await this.runChain(
+			ctx,
+			commandsForWorker,
+			targetMsgText,
+			hasPerformanceFlag,
+			taskOptions,
+			formattingEntities(targetMsgEntities),
+		);
+		if ("errorMessage" in outcome) {
+			await this.reply(ctx, outcome.errorMessage);
+			return;
+		}
+		const currentText = outcome.text;
+		const substitutionCount = commandsForWorker.length;
+
 		let totalPerformanceMs: number | null = null;
 		if (hasPerformanceFlag && startTime !== undefined) {
 			totalPerformanceMs = performance.now() - startTime;
@@ -221,13 +657,24 @@ export class SedHandler {
 		// Record successful substitution
 		recordSubstitution();
 
-		// Prepare the result message
-		let resultText = currentText.slice(0, MAX_MESSAGE_LENGTH);
+		// Prepare the result message. A diff marks up the changes itself, so
+		// it leaves out the formatting of the original.
+		const result = hasDiffFlag
+			? formatDiff(diffWords(targetMsgText, currentText))
+			: outcome;
+		const resultText = result.text.slice(0, MAX_MESSAGE_LENGTH);
+		const message = new MessageBuilder().add({
+			text: resultText,
+			entities: truncateEntities(result.entities, resultText.length),
+		});
 		let performanceText: string | null = null;
 
 		if (hasPerformanceFlag && totalPerformanceMs !== null) {
 			const formattedTime = formatDuration(totalPerformanceMs);
-			performanceText = `Performed ${substitutionCount} substitution${substitutionCount !== 1 ? "s" : ""} in ${formattedTime}`;
+			performanceText = ctx.t("substitution-performance", {
+				count: substitutionCount,
+				time: formattedTime,
+			});
 
 			// Calculate if performance text fits inline
 			// Need: result + "\n\n" + performanceText <= MAX_MESSAGE_LENGTH
@@ -237,7 +684,7 @@ export class SedHandler {
 
 			if (totalLength <= MAX_MESSAGE_LENGTH) {
 				// Fits inline - add to result
-				resultText += "\n\n" + performanceText;
+				message.add(`\n\n${performanceText}`);
 				performanceText = null; // Don't send separately
 			}
 			// If doesn't fit, performanceText remains non-null for separate message
@@ -246,16 +693,17 @@ export class SedHandler {
 		await this.deps.sendOrEditReply(
 			ctx,
 			targetMsgId,
-			escapeForMarkdownV2AndBackslashes(resultText),
+			message.build(),
+			outcome,
 			isEdit,
 		);
 
 		// Send separate performance message if needed
 		if (performanceText) {
-			const sentPerfMsg = await ctx.reply(performanceText);
+			const sentPerfMsg = await this.reply(ctx, performanceText);
 			// Store tracking info for edit handling
 			const chatId = ctx.chat?.id;
-			if (chatId) {
+			if (chatId && sentPerfMsg) {
 				const key = `${chatId}:${targetMsgId}`;
 				// We need the result message ID - get it from the bot_replies tracking
 				// This will be updated when sendOrEditReply stores it
@@ -271,14 +719,13 @@ export class SedHandler {
 		}
 
 		// Show optimization tip if applicable (max one per chain)
-		if (ctx.from?.id) {
+		if (settings.tips && ctx.from?.id) {
 			const userId = ctx.from.id;
-			for (const commandString of sedCommands.slice(0, MAX_CHAIN_LENGTH)) {
-				const match = commandString.match(SED_PATTERN);
-				if (!match) continue;
+			for (const commandString of chain) {
+				const parsed = parseSedCommand(commandString);
+				if (parsed?.command !== "s") continue;
 
-				const pattern = match[1].replace(/\\\//g, "/");
-				const tip = getBestTip(pattern, userId);
+				const tip = getBestTip(parsed.pattern, userId);
 
 				if (tip) {
 					await sendTransientTip(ctx, tip);
@@ -287,4 +734,168 @@ export class SedHandler {
 			}
 		}
 	}
+
+	/**
+	 * Answer an inline query of the form "s/find/replace/flags | text"
+	 *
+	 * Works like a substitution in a chat, but the result (or the error) is
+	 * offered as an inline result and dangerous pattern warnings become extra
+	 * results, as there is no chat to send them to.
+	 */
+	async handleInlineQuery(ctx: MyContext): Promise<void> {
+		const query = ctx.inlineQuery?.query ?? "";
+		const parsedQuery = parseInlineQuery(query);
+		if (!parsedQuery) {
+			await this.callTelegram(() =>
+				ctx.answerInlineQuery([], {
+					button: { text: ctx.t("inline-usage"), start_parameter: "inline" },
+					is_personal: true,
+				}),
+			);
+			return;
+		}
+
+		const parsedCommands = parsedQuery.commands
+			.slice(0, MAX_CHAIN_LENGTH)
+			.map((command) => parseSedCommand(command)!);
+		const commandsForWorker = parsedCommands.map(toWorkerCommand);
+		const hasPerformanceFlag = parsedCommands.some(
+			(parsed) =>
+				parsed.command === "s" && parsed.flags.toLowerCase().includes("p"),
+		);
+		this.logger.debug(
+			`Inline query with ${commandsForWorker.length} command(s)`,
+		);
+
+		// Inline queries have no chat, so this is the global policy
+		const { dangerPolicy } = resolveChatSettings(ctx.chatSettings);
+		const dangerChecks = commandsForWorker.map((command) =>
+			this.checkDangerousPattern(command),
+		);
+		const blocked = dangerChecks.find(
+			(check) => check !== null && isBlockedByPolicy(check, dangerPolicy),
+		);
+		const timeoutMs =
+			dangerPolicy === "sandbox" && dangerChecks.some((check) => check)
+				? SANDBOX_TIMEOUT_MS
+				: undefined;
+
+		const results: InlineQueryResult[] = [];
+		if (blocked) {
+			recordDangerousPatternBlocked();
+			results.push(
+				InlineQueryResultBuilder.article(
+					"blocked",
+					ctx.t("inline-errorTitle"),
+					{ description: ctx.t("danger-blocked") },
+				).text(
+					...messageContent(formatDangerousPatternBlocked(blocked, ctx.t)),
+				),
+			);
+		} else {
+			const startTime = performance.now();
+			const outcome = await this.runChain(
+				ctx,
+				commandsForWorker,
+				parsedQuery.text,
+				hasPerformanceFlag,
+				{ timeoutMs },
+			);
+
+			if ("errorMessage" in outcome) {
+				results.push(
+					InlineQueryResultBuilder.article(
+						"error",
+						ctx.t("inline-errorTitle"),
+						{ description: outcome.errorMessage },
+					).text(outcome.errorMessage),
+				);
+			} else {
+				recordSubstitution();
+				let resultText = outcome.text || ctx.t("inline-emptyResult");
+				resultText = resultText.slice(0, MAX_MESSAGE_LENGTH);
+				if (hasPerformanceFlag) {
+					const performanceText = ctx.t("substitution-performance", {
+						count: commandsForWorker.length,
+						time: formatDuration(performance.now() - startTime),
+					});
+					if (
+						resultText.length + 2 + performanceText.length <=
+						MAX_MESSAGE_LENGTH
+					) {
+						resultText += "\n\n" + performanceText;
+					}
+				}
+				results.push(
+					InlineQueryResultBuilder.article(
+						"result",
+						ctx.t("inline-resultTitle"),
+						{
+							description: resultText,
+						},
+					).text(resultText),
+				);
+			}
+		}
+
+		dangerChecks.forEach((dangerCheck, index) => {
+			if (!dangerCheck || dangerCheck === blocked) return;
+			const warning = formatDangerousPatternWarning(
+				dangerCheck,
+				ctx.t,
+				timeoutMs,
+			);
+			results.push(
+				InlineQueryResultBuilder.article(
+					`danger-${index}`,
+					ctx.t("inline-dangerTitle"),
+					{
+						description: ctx.t("danger-riskScore", {
+							score: dangerCheck.complexityScore,
+						}),
+					},
+				).text(...messageContent(warning)),
+			);
+		});
+
+		await this.callTelegram(() =>
+			ctx.answerInlineQuery(results, { is_personal: true }),
+		);
+	}
+
+	/**
+	 * Run /test: find every match of a pattern in a text and reply with them
+	 */
+	async handleTestCommand(
+		ctx: MyContext,
+		pattern: string,
+		flags: string,
+		text: string,
+	): Promise<void> {
+		this.logger.debug(`Testing /${pattern}/${flags}`);
+
+		const taskOptions = await this.enforceDangerPolicy(ctx, [
+			{ pattern, flags, replacement: "" },
+		]);
+		if (!taskOptions) return;
+
+		const task: MatchTaskMessage = {
+			type: "match",
+			text,
+			pattern,
+			flags,
+			maxMatches: MAX_TEST_MATCHES,
+		};
+		const outcome = await this.runTask(ctx, task, taskOptions);
+		if ("errorMessage" in outcome) {
+			await this.reply(ctx, outcome.errorMessage);
+			return;
+		}
+
+		const { matches = [], matchCount = 0 } = outcome.result;
+		await this.replyFormatted(
+			ctx,
+			formatTestResult(matches, matchCount, text, ctx.t),
+		);
+	}
 }
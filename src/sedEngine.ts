@@ -0,0 +1,331 @@
+/**
+ * Sed execution engine
+ *
+ * Pure text transformations used by the hellspawn worker. Kept free of worker
+ * globals so the logic can be unit tested directly.
+ */
+
+import type {
+	RegexMatch,
+	SedAddress,
+	SedAddressPart,
+	TextEdit,
+	WorkerCommand,
+} from "./types";
+import { getCachedRegex } from "./utils";
+
+/**
+ * Output of a command along with the spans of its input it replaced
+ */
+export interface EditedText {
+	text: string;
+	// In input order, never overlapping
+	edits: TextEdit[];
+}
+
+/**
+ * Translate characters one by one, like sed's y command
+ *
+ * Every occurrence of the Nth character of source is replaced by the Nth
+ * character of target. Works on code points, so emoji and other astral
+ * characters are handled as single characters.
+ *
+ * @param text - The text to transform
+ * @param source - Characters to replace
+ * @param target - Replacement characters (same length as source)
+ */
+export function transliterate(
+	text: string,
+	source: string,
+	target: string,
+): string {
+	return transliterateWithEdits(text, source, target).text;
+}
+
+function transliterateWithEdits(
+	text: string,
+	source: string,
+	target: string,
+): EditedText {
+	const from = [...source];
+	const to = [...target];
+	if (from.length !== to.length) {
+		throw new Error("strings for `y' command are different lengths");
+	}
+
+	const mapping = new Map<string, string>();
+	for (let i = 0; i < from.length; i++) {
+		// First mapping wins, like GNU sed
+		if (!mapping.has(from[i])) {
+			mapping.set(from[i], to[i]);
+		}
+	}
+
+	let result = "";
+	const edits: TextEdit[] = [];
+	let position = 0;
+	for (const char of text) {
+		const replacement = mapping.get(char) ?? char;
+		if (replacement !== char) {
+			edits.push({
+				start: position,
+				end: position + char.length,
+				length: replacement.length,
+			});
+		}
+		result += replacement;
+		position += char.length;
+	}
+	return { text: result, edits };
+}
+
+/**
+ * Expand a replacement template for a single match
+ *
+ * Mirrors the substitution rules of String.prototype.replace ($$, $&, $`, $',
+ * $n, $nn and $<name>) so matches can be replaced selectively.
+ */
+export function expandReplacement(
+	replacement: string,
+	match: RegExpExecArray,
+	text: string,
+): string {
+	const position = match.index;
+	const groupCount = match.length - 1;
+	return replacement.replace(
+		/\$(?:\$|&|`|'|(\d\d?)|<([^>]*)>)/g,
+		(token, digits: string | undefined, name: string | undefined) => {
+			if (token === "$$") return "$";
+			if (token === "$&") return match[0];
+			if (token === "$`") return text.slice(0, position);
+			if (token === "$'") return text.slice(position + match[0].length);
+			if (name !== undefined) {
+				if (!match.groups) return token;
+				return match.groups[name] ?? "";
+			}
+			if (digits !== undefined) {
+				const twoDigit = parseInt(digits, 10);
+				if (digits.length === 2 && twoDigit >= 1 && twoDigit <= groupCount) {
+					return match[twoDigit] ?? "";
+				}
+				const oneDigit = parseInt(digits[0], 10);
+				if (oneDigit >= 1 && oneDigit <= groupCount) {
+					return (match[oneDigit] ?? "") + digits.slice(1);
+				}
+			}
+			return token;
+		},
+	);
+}
+
+/**
+ * Replace the Nth match, or every match from the Nth onward when global
+ */
+export function replaceOccurrences(
+	text: string,
+	regex: RegExp,
+	replacement: string,
+	occurrence: number,
+	global: boolean,
+): string {
+	const flags = regex.flags.includes("g") ? regex.flags : regex.flags + "g";
+	const globalRegex = getCachedRegex(regex.source, flags);
+	return replaceMatches(text, globalRegex, replacement, occurrence, global)
+		.text;
+}
+
+/**
+ * @param globalRegex - The pattern with the g flag, needed to find every match
+ */
+function replaceMatches(
+	text: string,
+	globalRegex: RegExp,
+	replacement: string,
+	occurrence: number,
+	global: boolean,
+): EditedText {
+	let result = "";
+	const edits: TextEdit[] = [];
+	let lastIndex = 0;
+	let count = 0;
+
+	for (const match of text.matchAll(globalRegex)) {
+		count++;
+		if (count < occurrence) continue;
+		const expanded = expandReplacement(replacement, match, text);
+		result += text.slice(lastIndex, match.index) + expanded;
+		lastIndex = match.index + match[0].length;
+		edits.push({ start: match.index, end: lastIndex, length: expanded.length });
+		if (!global) break;
+	}
+
+	return { text: result + text.slice(lastIndex), edits };
+}
+
+/**
+ * Find every match of a pattern, with its capture groups
+ *
+ * Always searches globally, whatever the flags. Counting continues past
+ * maxMatches so callers can tell how many matches were left out.
+ */
+export function findMatches(
+	text: string,
+	pattern: string,
+	flags: string,
+	maxMatches: number,
+): { matches: RegexMatch[]; count: number } {
+	const globalFlags = flags.includes("g") ? flags : flags + "g";
+	const regex = getCachedRegex(pattern, globalFlags);
+	const matches: RegexMatch[] = [];
+	let count = 0;
+
+	for (const match of text.matchAll(regex)) {
+		count++;
+		if (matches.length >= maxMatches) continue;
+		matches.push({
+			index: match.index,
+			text: match[0],
+			groups: match.slice(1),
+			namedGroups: match.groups ? { ...match.groups } : undefined,
+		});
+	}
+
+	return { matches, count };
+}
+
+/**
+ * Work out which lines an address selects, following GNU sed range rules
+ *
+ * A range starts on a line matching its start address and runs until a line
+ * matching its end address (checked from the following line on). A numeric
+ * end at or before the start line selects just the start line. Once a range
+ * has ended it can start again on a later matching line.
+ *
+ * @returns One boolean per line, true when the line is addressed
+ */
+export function selectLines(lines: string[], address: SedAddress): boolean[] {
+	const matchesStart = createAddressMatcher(address.start, lines.length);
+	const { end } = address;
+	const matchesEnd = end ? createAddressMatcher(end, lines.length) : undefined;
+	const selected: boolean[] = [];
+	let inRange = false;
+
+	for (let i = 0; i < lines.length; i++) {
+		if (inRange) {
+			selected.push(true);
+			if (matchesEnd!(lines[i], i)) inRange = false;
+			continue;
+		}
+
+		const isStart = matchesStart(lines[i], i);
+		selected.push(isStart);
+		if (isStart && end) {
+			inRange = end.type !== "line" || end.line > i + 1;
+		}
+	}
+
+	return selected;
+}
+
+function createAddressMatcher(
+	part: SedAddressPart,
+	lineCount: number,
+): (line: string, index: number) => boolean {
+	switch (part.type) {
+		case "line":
+			return (_line, index) => index + 1 === part.line;
+		case "last":
+			return (_line, index) => index === lineCount - 1;
+		case "regex": {
+			const regex = getCachedRegex(part.pattern, "");
+			return (line) => regex.test(line);
+		}
+	}
+}
+
+/**
+ * Apply a single worker command to a text
+ *
+ * Addressed commands are applied line by line to the selected lines only.
+ */
+export function applyCommand(text: string, command: WorkerCommand): string {
+	return applyCommandWithEdits(text, command).text;
+}
+
+/**
+ * Apply a single worker command and report which spans of the text it
+ * replaced, so formatting can follow the text that is kept
+ */
+export function applyCommandWithEdits(
+	text: string,
+	command: WorkerCommand,
+): EditedText {
+	if (!command.address) {
+		return applyToText(text, command);
+	}
+	const lines = text.split("\n");
+	const selected = selectLines(lines, command.address);
+	const results: string[] = [];
+	const edits: TextEdit[] = [];
+	let lineStart = 0;
+	for (let i = 0; i < lines.length; i++) {
+		if (selected[i]) {
+			const result = applyToText(lines[i], command);
+			results.push(result.text);
+			for (const edit of result.edits) {
+				edits.push({
+					start: lineStart + edit.start,
+					end: lineStart + edit.end,
+					length: edit.length,
+				});
+			}
+		} else {
+			results.push(lines[i]);
+		}
+		lineStart += lines[i].length + 1;
+	}
+	return { text: results.join("\n"), edits };
+}
+
+function applyToText(text: string, command: WorkerCommand): EditedText {
+	if (command.type === "y") {
+		return transliterateWithEdits(text, command.source, command.target);
+	}
+	const global = command.flags.includes("g");
+	const regex = getCachedRegex(
+		command.pattern,
+		global ? command.flags : command.flags + "g",
+	);
+	return replaceMatches(
+		text,
+		regex,
+		command.replacement,
+		command.occurrence ?? 1,
+		global,
+	);
+}
+
+/**
+ * Describe a command for logging
+ */
+export function describeCommand(command: WorkerCommand): string {
+	const address = command.address ? describeAddress(command.address) : "";
+	if (command.type === "y") {
+		return `${address}y/${command.source}/${command.target}/`;
+	}
+	return `${address}/${command.pattern}/${command.flags}${command.occurrence ?? ""}/${command.replacement}/`;
+}
+
+/**
+ * Write an address back the way it appears in front of a command
+ */
+export function describeAddress(address: SedAddress): string {
+	const describePart = (part: SedAddressPart) =>
+		part.type === "line"
+			? String(part.line)
+			: part.type === "last"
+				? "$"
+				: `/${part.pattern}/`;
+	const start = describePart(address.start);
+	return address.end ? `${start},${describePart(address.end)}` : start;
+}
@@ -0,0 +1,136 @@
+import { describe, test, expect } from "bun:test";
+import {
+	DANGER_POLICIES,
+	SED_FLAGS,
+	applySettingsAction,
+	createChatSettingsKeyboard,
+	formatChatSettings,
+	getDisallowedFlags,
+	resolveChatSettings,
+} from "../chatSettings";
+import { CONFIG } from "../config";
+import { translatorFor } from "../i18n";
+
+const t = translatorFor("en");
+
+describe("Chat settings", () => {
+	describe("resolveChatSettings", () => {
+		test("should fill in defaults for unset settings", () => {
+			expect(resolveChatSettings({})).toEqual({
+				tips: true,
+				dangerWarnings: true,
+				dangerPolicy: CONFIG.DANGER_POLICY,
+				replyOnly: false,
+				maxChainLength: CONFIG.MAX_CHAIN_LENGTH,
+				allowedFlags: SED_FLAGS,
+			});
+		});
+
+		test("should keep the chain length within the global limit", () => {
+			const settings = resolveChatSettings({
+				maxChainLength: CONFIG.MAX_CHAIN_LENGTH + 10,
+			});
+			expect(settings.maxChainLength).toBe(CONFIG.MAX_CHAIN_LENGTH);
+		});
+	});
+
+	describe("getDisallowedFlags", () => {
+		test("should report flags the chat turned off", () => {
+			const settings = resolveChatSettings({ allowedFlags: "gi" });
+			expect(getDisallowedFlags("gip", settings)).toEqual(["p"]);
+			expect(getDisallowedFlags("Gi", settings)).toEqual([]);
+		});
+
+		test("should ignore occurrence numbers and unknown letters", () => {
+			const settings = resolveChatSettings({ allowedFlags: "" });
+			expect(getDisallowedFlags("2x", settings)).toEqual([]);
+		});
+	});
+
+	describe("applySettingsAction", () => {
+		test("should toggle on/off settings from their defaults", () => {
+			expect(applySettingsAction({}, "toggle:tips")).toEqual({ tips: false });
+			expect(applySettingsAction({}, "toggle:replyOnly")).toEqual({
+				replyOnly: true,
+			});
+			expect(
+				applySettingsAction({ dangerWarnings: false }, "toggle:dangerWarnings"),
+			).toEqual({ dangerWarnings: true });
+		});
+
+		test("should switch the dangerous pattern policy", () => {
+			expect(
+				applySettingsAction({ dangerPolicy: "warn" }, "policy:block"),
+			).toEqual({ dangerPolicy: "block" });
+			expect(
+				applySettingsAction({ dangerPolicy: "sandbox" }, "policy:sandbox"),
+			).toBe(null);
+			expect(applySettingsAction({}, "policy:ignore")).toBe(null);
+		});
+
+		test("should change the chain length within bounds", () => {
+			expect(applySettingsAction({ maxChainLength: 2 }, "chain:dec")).toEqual({
+				maxChainLength: 1,
+			});
+			expect(applySettingsAction({ maxChainLength: 1 }, "chain:dec")).toBe(
+				null,
+			);
+			expect(applySettingsAction({}, "chain:inc")).toBe(null);
+			expect(applySettingsAction({}, "chain:show")).toBe(null);
+		});
+
+		test("should toggle flags and keep them in order", () => {
+			expect(applySettingsAction({}, "flag:p")).toEqual({
+				allowedFlags: "gimsuyd",
+			});
+			expect(applySettingsAction({ allowedFlags: "g" }, "flag:i")).toEqual({
+				allowedFlags: "gi",
+			});
+		});
+
+		test("should ignore unknown actions", () => {
+			expect(applySettingsAction({}, "toggle:language")).toBe(null);
+			expect(applySettingsAction({}, "flag:x")).toBe(null);
+			expect(applySettingsAction({}, "nonsense")).toBe(null);
+		});
+	});
+
+	describe("menu", () => {
+		test("should offer a button for every action", () => {
+			const keyboard = createChatSettingsKeyboard({}, t);
+			const actions = keyboard.inline_keyboard
+				.flat()
+				.map((button) =>
+					"callback_data" in button ? button.callback_data : "",
+				);
+
+			expect(actions).toContain("chatsettings:toggle:tips");
+			expect(actions).toContain("chatsettings:toggle:dangerWarnings");
+			expect(actions).toContain("chatsettings:toggle:replyOnly");
+			expect(actions).toContain("chatsettings:chain:inc");
+			for (const policy of DANGER_POLICIES) {
+				expect(actions).toContain(`chatsettings:policy:${policy}`);
+			}
+			for (const flag of SED_FLAGS) {
+				expect(actions).toContain(`chatsettings:flag:${flag}`);
+			}
+		});
+
+		test("should describe the current settings", () => {
+			const text = formatChatSettings(
+				{
+					language: "de",
+					tips: false,
+					dangerPolicy: "sandbox",
+					allowedFlags: "",
+				},
+				t,
+			);
+			expect(text).toContain("Deutsch");
+			expect(text).toContain("Optimization tips: off");
+			expect(text).toContain("Dangerous pattern warnings: on");
+			expect(text).toContain("Dangerous patterns: sandbox");
+			expect(text).toContain("Allowed flags: none");
+		});
+	});
+});
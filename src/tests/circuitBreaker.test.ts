@@ -0,0 +1,81 @@
+import { describe, test, expect } from "bun:test";
+import { CircuitBreaker } from "../circuitBreaker";
+import { CircuitBreakerError } from "../errors";
+
+const fail = () => Promise.reject(new Error("boom"));
+const succeed = () => Promise.resolve("ok");
+
+describe("CircuitBreaker", () => {
+	test("opens after the failure threshold and rejects fast", async () => {
+		const breaker = new CircuitBreaker("test", {
+			failureThreshold: 2,
+			resetTimeoutMs: 60000,
+		});
+
+		await expect(breaker.execute(fail)).rejects.toThrow("boom");
+		expect(breaker.getState()).toBe("CLOSED");
+		await expect(breaker.execute(fail)).rejects.toThrow("boom");
+		expect(breaker.getState()).toBe("OPEN");
+
+		let called = false;
+		await expect(
+			breaker.execute(() => {
+				called = true;
+				return succeed();
+			}),
+		).rejects.toThrow(CircuitBreakerError);
+		expect(called).toBe(false);
+	});
+
+	test("closes again after successful probes", async () => {
+		const breaker = new CircuitBreaker("test", {
+			failureThreshold: 1,
+			resetTimeoutMs: 0,
+			successThreshold: 2,
+		});
+
+		await expect(breaker.execute(fail)).rejects.toThrow("boom");
+		expect(breaker.getState()).toBe("OPEN");
+
+		await breaker.execute(succeed);
+		expect(breaker.getState()).toBe("HALF_OPEN");
+		await breaker.execute(succeed);
+		expect(breaker.getState()).toBe("CLOSED");
+	});
+
+	test("ignores errors rejected by isFailure", async () => {
+		const breaker = new CircuitBreaker("test", {
+			failureThreshold: 1,
+			isFailure: (error) =>
+				!(error instanceof Error && error.message === "user error"),
+		});
+
+		await expect(
+			breaker.execute(() => Promise.reject(new Error("user error"))),
+		).rejects.toThrow("user error");
+		expect(breaker.getState()).toBe("CLOSED");
+		expect(breaker.getFailureCount()).toBe(0);
+
+		await expect(breaker.execute(fail)).rejects.toThrow("boom");
+		expect(breaker.getState()).toBe("OPEN");
+	});
+
+	test("reports its state in getStats", async () => {
+		const breaker = new CircuitBreaker("telegram", {
+			failureThreshold: 1,
+			resetTimeoutMs: 60000,
+		});
+		expect(breaker.getStats()).toEqual({
+			name: "telegram",
+			state: "CLOSED",
+			failures: 0,
+			openUntil: null,
+		});
+
+		await expect(breaker.execute(fail)).rejects.toThrow("boom");
+		const stats = breaker.getStats();
+		expect(stats.state).toBe("OPEN");
+		expect(stats.failures).toBe(1);
+		expect(stats.openUntil).toBeGreaterThan(Date.now());
+	});
+});
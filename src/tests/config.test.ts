@@ -87,6 +87,16 @@ describe("Configuration", () => {
 		});
 	});
 
+	describe("Dangerous pattern configuration", () => {
+		test("should have a valid DANGER_POLICY", () => {
+			expect(["warn", "block", "sandbox"]).toContain(CONFIG.DANGER_POLICY);
+		});
+
+		test("should have a positive DANGER_SANDBOX_TIMEOUT_MS", () => {
+			expect(CONFIG.DANGER_SANDBOX_TIMEOUT_MS).toBeGreaterThan(0);
+		});
+	});
+
 	describe("Database configuration", () => {
 		test("should have positive CLEANUP_INTERVAL_MS", () => {
 			expect(CONFIG.CLEANUP_INTERVAL_MS).toBeGreaterThan(0);
@@ -111,6 +121,21 @@ describe("Configuration", () => {
 		});
 	});
 
+	describe("Webhook configuration", () => {
+		test("should have a webhook path starting with a slash", () => {
+			expect(CONFIG.WEBHOOK_PATH.startsWith("/")).toBe(true);
+		});
+
+		test("should have a valid WEBHOOK_PORT", () => {
+			expect(CONFIG.WEBHOOK_PORT).toBeGreaterThanOrEqual(1);
+			expect(CONFIG.WEBHOOK_PORT).toBeLessThanOrEqual(65535);
+		});
+
+		test("should always have a secret token Telegram accepts", () => {
+			expect(CONFIG.WEBHOOK_SECRET).toMatch(/^[A-Za-z0-9_-]{1,256}$/);
+		});
+	});
+
 	describe("Healthcheck configuration", () => {
 		test("should have valid ENABLE_FILE_HEALTHCHECK", () => {
 			expect(typeof CONFIG.ENABLE_FILE_HEALTHCHECK).toBe("boolean");
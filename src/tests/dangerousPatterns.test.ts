@@ -0,0 +1,117 @@
+import { describe, test, expect } from "bun:test";
+import {
+	detectDangerousPattern,
+	formatDangerousPatternBlocked,
+	formatDangerousPatternWarning,
+	isBlockedByPolicy,
+	isSimplePattern,
+} from "../dangerousPatterns";
+import { translatorFor } from "../i18n";
+import type { FormattedText } from "../messageBuilder";
+
+const t = translatorFor("en");
+
+// The formatted parts of a message as [type, text] pairs
+const spans = ({ text, entities }: FormattedText) =>
+	entities.map((entity) => [
+		entity.type,
+		text.slice(entity.offset, entity.offset + entity.length),
+	]);
+
+describe("dangerousPatterns", () => {
+	test("should rate exponential patterns as high risk", () => {
+		const result = detectDangerousPattern("^(\\d+)*$");
+		expect(result.detected).toBe(true);
+		expect(result.complexityScore).toBe(100);
+		expect(result.issues).toMatchObject([
+			{
+				type: "exponential_backtracking",
+				severity: "high",
+				variables: { subexpression: "(\\d+)*" },
+			},
+		]);
+	});
+
+	test("should rate polynomial patterns by their degree", () => {
+		const result = detectDangerousPattern("^\\s+\\s+$");
+		expect(result.complexityScore).toBe(50);
+		expect(result.issues).toMatchObject([
+			{ type: "polynomial_backtracking", severity: "medium" },
+		]);
+		expect(result.issues[0].variables?.degree).toBe(2);
+	});
+
+	test("should treat patterns too large to analyze as high risk", () => {
+		const result = detectDangerousPattern(
+			"(?:[a-z]{10}|q)?".repeat(40) + "(x+x+)+y",
+		);
+		expect(result.complexityScore).toBe(100);
+		expect(result.issues).toMatchObject([
+			{ type: "unknown_backtracking", severity: "high" },
+		]);
+		expect(isBlockedByPolicy(result, "block")).toBe(true);
+	});
+
+	test("should not flag patterns that only look dangerous", () => {
+		// Quantified alternation and nested groups the old heuristics flagged
+		for (const pattern of ["^(foo|bar)+$", "(\\d{1,3}\\.){3}\\d{1,3}"]) {
+			expect(detectDangerousPattern(pattern)).toMatchObject({
+				detected: false,
+				complexityScore: 0,
+				issues: [],
+			});
+		}
+	});
+
+	test("should use the flags of the command", () => {
+		expect(detectDangerousPattern("^(x|X)+$").detected).toBe(false);
+		expect(detectDangerousPattern("^(x|X)+$", "i").detected).toBe(true);
+	});
+
+	test("should include the issue and an attack example in the warning", () => {
+		const warning = formatDangerousPatternWarning(
+			detectDangerousPattern("^(a+)+$"),
+			t,
+		);
+		expect(warning.text).toContain("Risk Score: 100/100");
+		expect(spans(warning)).toContainEqual(["code", "(a+)+"]);
+		expect(spans(warning)).toContainEqual(["code", '"aaaaaaaaaaa0"']);
+		expect(
+			formatDangerousPatternWarning(detectDangerousPattern("a+"), t),
+		).toEqual({ text: "", entities: [] });
+	});
+
+	test("should skip patterns without quantifiers", () => {
+		expect(isSimplePattern("foo|bar")).toBe(true);
+		expect(isSimplePattern("(a+)")).toBe(false);
+		expect(isSimplePattern("a{2}")).toBe(false);
+	});
+
+	test("should only block high-risk patterns in block mode", () => {
+		const exponential = detectDangerousPattern("^(a+)+$");
+		const polynomial = detectDangerousPattern("\\s+\\s+$");
+		expect(isBlockedByPolicy(exponential, "block")).toBe(true);
+		expect(isBlockedByPolicy(polynomial, "block")).toBe(false);
+		expect(isBlockedByPolicy(exponential, "warn")).toBe(false);
+		expect(isBlockedByPolicy(exponential, "sandbox")).toBe(false);
+	});
+
+	test("should explain why a pattern was blocked", () => {
+		const message = formatDangerousPatternBlocked(
+			detectDangerousPattern("^(a+)+$"),
+			t,
+		);
+		expect(message.text).toContain("Blocked");
+		expect(spans(message)).toContainEqual(["code", "(a+)+"]);
+	});
+
+	test("should mention the time limit of sandboxed patterns", () => {
+		const warning = formatDangerousPatternWarning(
+			detectDangerousPattern("^(a+)+$"),
+			t,
+			2000,
+		);
+		expect(warning.text).toContain("time limit of 2s");
+		expect(warning.text).not.toContain("will still execute");
+	});
+});
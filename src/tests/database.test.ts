@@ -1,7 +1,12 @@
 import { describe, test, expect, beforeAll } from "bun:test";
 import { SQL } from "bun";
+import type { MessageEntity } from "grammy/types";
 import { DatabaseService } from "../database";
 import { CONFIG } from "../config";
+import { runMigrations } from "../migrations";
+import { parseSedCommand } from "../utils";
+import { RegexError } from "../errors";
+import type { MyContext } from "../i18n";
 
 describe("DatabaseService", () => {
 	let db: SQL;
@@ -9,24 +14,7 @@ describe("DatabaseService", () => {
 
 	beforeAll(async () => {
 		db = new SQL("sqlite://:memory:");
-		await db`
-			CREATE TABLE IF NOT EXISTS message_history (
-				chat_id INTEGER NOT NULL,
-				message_id INTEGER NOT NULL,
-				text TEXT,
-				timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-				PRIMARY KEY (chat_id, message_id)
-			)
-		`;
-		await db`
-			CREATE TABLE IF NOT EXISTS bot_replies (
-				target_message_id INTEGER NOT NULL,
-				chat_id INTEGER NOT NULL,
-				bot_message_id INTEGER NOT NULL,
-				timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-				PRIMARY KEY (target_message_id, chat_id)
-			)
-		`;
+		await runMigrations(db);
 		dbService = new DatabaseService(db);
 	});
 
@@ -40,6 +28,13 @@ describe("DatabaseService", () => {
 			expect(messages[0].text).toBe("Hello world");
 		});
 
+		test("should store prose that only looks like a command", async () => {
+			await dbService.storeMessageInHistory(12346, 1, "s'pose it's fine");
+
+			const messages = await dbService.findMessagesInHistory(12346);
+			expect(messages.map((m) => m.text)).toEqual(["s'pose it's fine"]);
+		});
+
 		test("should handle undefined text", async () => {
 			await dbService.storeMessageInHistory(12345, 101, undefined);
 
@@ -60,6 +55,78 @@ describe("DatabaseService", () => {
 		});
 	});
 
+	describe("findTargetMessage", () => {
+		const ctx = { chat: { id: 54321 }, msg: {} } as unknown as MyContext;
+		const command = parseSedCommand("s/bold/b/")!;
+
+		test("should return the entities stored with a message", async () => {
+			const entities = [{ type: "bold" as const, offset: 0, length: 4 }];
+			await dbService.storeMessageInHistory(54321, 1, "bold text", entities);
+
+			expect(await dbService.findTargetMessage(ctx, command)).toEqual({
+				targetMsgText: "bold text",
+				targetMsgEntities: entities,
+				targetMsgId: 1,
+			});
+		});
+
+		test("should return no entities for plain messages", async () => {
+			await dbService.storeMessageInHistory(54322, 2, "plain bold");
+
+			const target = await dbService.findTargetMessage(
+				{ chat: { id: 54322 }, msg: {} } as unknown as MyContext,
+				command,
+			);
+			expect(target.targetMsgId).toBe(2);
+			expect(target.targetMsgEntities).toBeUndefined();
+		});
+
+		test("should target the stored text of a replied-to correction", async () => {
+			await dbService.storeBotReplyInHistory(54323, 11, "bold fix", [], 10);
+
+			const target = await dbService.findTargetMessage(
+				{
+					chat: { id: 54323 },
+					msg: {
+						reply_to_message: {
+							message_id: 11,
+							text: "bold fix\n\nPerformed 1 substitution in 1ms",
+						},
+					},
+				} as unknown as MyContext,
+				command,
+			);
+			expect(target).toEqual({
+				targetMsgText: "bold fix",
+				targetMsgEntities: undefined,
+				targetMsgId: 11,
+			});
+		});
+
+		test("should reject an invalid pattern with a regex error", async () => {
+			await expect(
+				dbService.findTargetMessage(
+					{ chat: { id: 54325 }, msg: {} } as unknown as MyContext,
+					parseSedCommand("s/(/x/")!,
+				),
+			).rejects.toBeInstanceOf(RegexError);
+		});
+
+		test("should skip bot corrections in history when told to", async () => {
+			const chat = { chat: { id: 54324 }, msg: {} } as unknown as MyContext;
+			await db`INSERT INTO message_history (chat_id, message_id, text, timestamp) VALUES (${54324}, ${1}, ${"bold typo"}, ${"2000-01-01 00:00:00"})`;
+			await dbService.storeBotReplyInHistory(54324, 2, "bold fix", [], 1);
+
+			expect(
+				(await dbService.findTargetMessage(chat, command)).targetMsgId,
+			).toBe(2);
+			const withoutBot = new DatabaseService(db, false);
+			expect(
+				(await withoutBot.findTargetMessage(chat, command)).targetMsgId,
+			).toBe(1);
+		});
+	});
+
 	describe("storeBotReplyMapping", () => {
 		test("should store a bot reply mapping", async () => {
 			await dbService.storeBotReplyMapping(100, 12345, 200);
@@ -82,6 +149,83 @@ describe("DatabaseService", () => {
 		});
 	});
 
+	describe("correction versions", () => {
+		const chatId = 44444;
+		const bold = [{ type: "bold" as const, offset: 0, length: 3 }];
+		const plain = (text: string, entities: MessageEntity[] = []) => ({
+			text,
+			entities,
+		});
+
+		test("should find the message a bot reply corrects", async () => {
+			await dbService.storeBotReplyMapping(10, chatId, 11);
+
+			expect(await dbService.getBotReplyTarget(11, chatId)).toBe(10);
+			expect(await dbService.getBotReplyTarget(10, chatId)).toBeUndefined();
+		});
+
+		test("should step back and forward through the results", async () => {
+			await dbService.recordCorrectionVersion(chatId, 20, plain("one", bold));
+			await dbService.recordCorrectionVersion(chatId, 20, plain("two"));
+			expect(
+				await dbService.findCorrectionVersion(chatId, 20, "redo"),
+			).toBeUndefined();
+
+			const undo = await dbService.findCorrectionVersion(chatId, 20, "undo");
+			expect(undo).toEqual({
+				version: 1,
+				text: "one",
+				entities: bold,
+				resultText: "one",
+				resultEntities: bold,
+			});
+			await dbService.setCurrentCorrectionVersion(chatId, 20, undo!.version);
+			expect(
+				await dbService.findCorrectionVersion(chatId, 20, "undo"),
+			).toBeUndefined();
+
+			const redo = await dbService.findCorrectionVersion(chatId, 20, "redo");
+			expect(redo?.version).toBe(2);
+			expect(redo?.text).toBe("two");
+		});
+
+		test("should drop undone results when a new one is recorded", async () => {
+			await dbService.recordCorrectionVersion(chatId, 30, plain("one"));
+			await dbService.recordCorrectionVersion(chatId, 30, plain("two"));
+			await dbService.setCurrentCorrectionVersion(chatId, 30, 1);
+			await dbService.recordCorrectionVersion(chatId, 30, plain("three"));
+
+			expect(
+				await dbService.findCorrectionVersion(chatId, 30, "redo"),
+			).toBeUndefined();
+			expect(
+				(await dbService.findCorrectionVersion(chatId, 30, "undo"))?.text,
+			).toBe("one");
+		});
+
+		test("should have nothing to undo for a single result", async () => {
+			await dbService.recordCorrectionVersion(chatId, 40, plain("only"));
+
+			expect(
+				await dbService.findCorrectionVersion(chatId, 40, "undo"),
+			).toBeUndefined();
+		});
+
+		test("should keep the corrected text apart from the reply", async () => {
+			await dbService.recordCorrectionVersion(
+				chatId,
+				50,
+				plain("one\n\nPerformed 1 substitution in 1ms"),
+				plain("one"),
+			);
+			await dbService.recordCorrectionVersion(chatId, 50, plain("two"));
+
+			const undo = await dbService.findCorrectionVersion(chatId, 50, "undo");
+			expect(undo?.text).toBe("one\n\nPerformed 1 substitution in 1ms");
+			expect(undo?.resultText).toBe("one");
+		});
+	});
+
 	describe("cleanupOldEntries", () => {
 		test("should clean up entries older than cleanup interval", async () => {
 			const chatId = 99999;
@@ -97,6 +241,84 @@ describe("DatabaseService", () => {
 			expect(messages.length).toBe(1);
 			expect(replies.length).toBe(1);
 		});
+
+		test("should remove entries past the retention window", async () => {
+			const chatId = 77777;
+			const expired = new Date(Date.now() - CONFIG.CLEANUP_INTERVAL_MS - 60000)
+				.toISOString()
+				.slice(0, 19)
+				.replace("T", " ");
+
+			await db`INSERT INTO message_history (chat_id, message_id, text, timestamp) VALUES (${chatId}, ${1}, ${"Expired"}, ${expired})`;
+			await db`INSERT INTO bot_replies (target_message_id, chat_id, bot_message_id, timestamp) VALUES (${1}, ${chatId}, ${2}, ${expired})`;
+			await dbService.storeMessageInHistory(chatId, 3, "Fresh");
+
+			await dbService.cleanupOldEntries();
+
+			const messages = await dbService.findMessagesInHistory(chatId);
+			const replies = await dbService.findRepliesInHistory(chatId);
+
+			expect(messages.map((m) => m.text)).toEqual(["Fresh"]);
+			expect(replies.length).toBe(0);
+		});
+	});
+
+	describe("chat settings", () => {
+		test("should return empty settings for an unknown chat", async () => {
+			expect(await dbService.getChatSettings(77777)).toEqual({});
+		});
+
+		test("should store and return the chat language", async () => {
+			const updated = await dbService.updateChatSettings(77778, {
+				language: "de",
+			});
+			expect(updated.language).toBe("de");
+			expect((await dbService.getChatSettings(77778)).language).toBe("de");
+		});
+
+		test("should reset a setting set to undefined", async () => {
+			await dbService.updateChatSettings(77779, { language: "ja" });
+			await dbService.updateChatSettings(77779, { language: undefined });
+			expect((await dbService.getChatSettings(77779)).language).toBeUndefined();
+		});
+
+		test("should store feature settings without touching the language", async () => {
+			await dbService.updateChatSettings(77782, { language: "sv" });
+			await dbService.updateChatSettings(77782, {
+				tips: false,
+				replyOnly: true,
+				maxChainLength: 2,
+				allowedFlags: "gi",
+			});
+			expect(await dbService.getChatSettings(77782)).toEqual({
+				language: "sv",
+				tips: false,
+				dangerWarnings: undefined,
+				dangerPolicy: undefined,
+				replyOnly: true,
+				maxChainLength: 2,
+				allowedFlags: "gi",
+			});
+		});
+
+		test("should store the dangerous pattern policy", async () => {
+			await dbService.updateChatSettings(77784, { dangerPolicy: "block" });
+			expect((await dbService.getChatSettings(77784)).dangerPolicy).toBe(
+				"block",
+			);
+		});
+
+		test("should keep an empty list of allowed flags", async () => {
+			await dbService.updateChatSettings(77783, { allowedFlags: "" });
+			expect((await dbService.getChatSettings(77783)).allowedFlags).toBe("");
+		});
+
+		test("should keep settings separate per chat", async () => {
+			await dbService.updateChatSettings(77780, { language: "uk" });
+			await dbService.updateChatSettings(77781, { language: "pl" });
+			expect((await dbService.getChatSettings(77780)).language).toBe("uk");
+			expect((await dbService.getChatSettings(77781)).language).toBe("pl");
+		});
 	});
 
 	describe("message history limit", () => {
@@ -0,0 +1,73 @@
+import { describe, test, expect } from "bun:test";
+import { diffWords, formatDiff } from "../diff";
+
+describe("diff", () => {
+	describe("diffWords", () => {
+		test("should find replaced words", () => {
+			expect(diffWords("the quick brown fox", "the slow brown fox")).toEqual([
+				{ type: "equal", text: "the " },
+				{ type: "removed", text: "quick" },
+				{ type: "inserted", text: "slow" },
+				{ type: "equal", text: " brown fox" },
+			]);
+		});
+
+		test("should find removals and insertions in several places", () => {
+			expect(diffWords("a b c d", "a c d e")).toEqual([
+				{ type: "equal", text: "a " },
+				{ type: "removed", text: "b " },
+				{ type: "equal", text: "c d" },
+				{ type: "inserted", text: " e" },
+			]);
+		});
+
+		test("should compare whole words, not characters", () => {
+			expect(diffWords("colour", "color")).toEqual([
+				{ type: "removed", text: "colour" },
+				{ type: "inserted", text: "color" },
+			]);
+		});
+
+		test("should treat punctuation as separate tokens", () => {
+			expect(diffWords("Hello, world!", "Hello world?")).toEqual([
+				{ type: "equal", text: "Hello" },
+				{ type: "removed", text: "," },
+				{ type: "equal", text: " world" },
+				{ type: "removed", text: "!" },
+				{ type: "inserted", text: "?" },
+			]);
+		});
+
+		test("should handle identical and empty texts", () => {
+			expect(diffWords("same", "same")).toEqual([
+				{ type: "equal", text: "same" },
+			]);
+			expect(diffWords("", "new")).toEqual([{ type: "inserted", text: "new" }]);
+			expect(diffWords("old", "")).toEqual([{ type: "removed", text: "old" }]);
+		});
+
+		test("should fall back to a single change for huge texts", () => {
+			const segments = diffWords(
+				`${"a ".repeat(1500)}x`,
+				`${"b ".repeat(1500)}y`,
+			);
+			expect(segments.map((segment) => segment.type)).toEqual([
+				"removed",
+				"inserted",
+			]);
+		});
+	});
+
+	describe("formatDiff", () => {
+		test("should strike removed text and highlight inserted text", () => {
+			expect(formatDiff(diffWords("a cat", "a dog"))).toEqual({
+				text: "a catdog",
+				entities: [
+					{ type: "strikethrough", offset: 2, length: 3 },
+					{ type: "bold", offset: 5, length: 3 },
+					{ type: "underline", offset: 5, length: 3 },
+				],
+			});
+		});
+	});
+});
@@ -0,0 +1,151 @@
+import { describe, test, expect } from "bun:test";
+import type { MessageEntity } from "grammy/types";
+import {
+	formattingEntities,
+	remapEntities,
+	truncateEntities,
+} from "../entities";
+import { applyCommandWithEdits } from "../sedEngine";
+import type { WorkerCommand } from "../types";
+
+/**
+ * Apply a command and return the result with its entities as text spans
+ */
+function substitute(
+	text: string,
+	entities: MessageEntity[],
+	command: WorkerCommand,
+): { text: string; spans: string[] } {
+	const result = applyCommandWithEdits(text, command);
+	return {
+		text: result.text,
+		spans: remapEntities(entities, result.edits).map(
+			(entity) =>
+				`${entity.type}:${result.text.slice(entity.offset, entity.offset + entity.length)}`,
+		),
+	};
+}
+
+const bold = (offset: number, length: number): MessageEntity => ({
+	type: "bold",
+	offset,
+	length,
+});
+
+describe("entities", () => {
+	test("should move entities with the text around them", () => {
+		expect(
+			substitute("hi there world", [bold(9, 5)], {
+				pattern: "hi",
+				flags: "",
+				replacement: "hello",
+			}),
+		).toEqual({ text: "hello there world", spans: ["bold:world"] });
+	});
+
+	test("should keep formatting on a replacement inside the entity", () => {
+		expect(
+			substitute("a big cat", [bold(2, 7)], {
+				pattern: "big",
+				flags: "",
+				replacement: "small",
+			}).spans,
+		).toEqual(["bold:small cat"]);
+	});
+
+	test("should shrink entities to the text that survives", () => {
+		// "bc" is bold, the match "cd" only partly overlaps it
+		expect(
+			substitute("abcde", [bold(1, 2)], {
+				pattern: "cd",
+				flags: "",
+				replacement: "XY",
+			}).spans,
+		).toEqual(["bold:b"]);
+		expect(
+			substitute("abcde", [bold(2, 2)], {
+				pattern: "bc",
+				flags: "",
+				replacement: "XY",
+			}).spans,
+		).toEqual(["bold:d"]);
+	});
+
+	test("should drop entities whose text was removed", () => {
+		expect(
+			substitute("keep drop", [bold(5, 4)], {
+				pattern: " ?drop",
+				flags: "",
+				replacement: "",
+			}),
+		).toEqual({ text: "keep", spans: [] });
+	});
+
+	test("should include text inserted at an entity's edge", () => {
+		expect(
+			substitute("word", [bold(0, 4)], {
+				pattern: "$",
+				flags: "",
+				replacement: "!",
+			}).spans,
+		).toEqual(["bold:word!"]);
+	});
+
+	test("should follow transliterations and addressed lines", () => {
+		expect(
+			substitute("😀 ab\nab", [bold(3, 2), bold(6, 2)], {
+				type: "y",
+				source: "😀b",
+				target: "xB",
+				address: { start: { type: "line", line: 1 } },
+			}),
+		).toEqual({ text: "x aB\nab", spans: ["bold:aB", "bold:ab"] });
+	});
+
+	test("should only keep custom emoji that are untouched", () => {
+		const emoji: MessageEntity = {
+			type: "custom_emoji",
+			offset: 2,
+			length: 2,
+			custom_emoji_id: "1",
+		};
+		expect(
+			substitute("a 😀", [emoji], {
+				pattern: "^",
+				flags: "",
+				replacement: ">",
+			}).spans,
+		).toEqual(["custom_emoji:😀"]);
+		expect(
+			substitute("a 😀", [emoji], {
+				pattern: "😀",
+				flags: "",
+				replacement: "🙂",
+			}).spans,
+		).toEqual([]);
+	});
+
+	test("should keep only formatting entities", () => {
+		const link: MessageEntity = {
+			type: "text_link",
+			offset: 0,
+			length: 1,
+			url: "https://example.com",
+		};
+		expect(
+			formattingEntities([
+				link,
+				{ type: "url", offset: 2, length: 19 },
+				{ type: "mention", offset: 22, length: 4 },
+			]),
+		).toEqual([link]);
+		expect(formattingEntities(undefined)).toEqual([]);
+	});
+
+	test("should cut entities at the end of truncated text", () => {
+		expect(truncateEntities([bold(0, 2), bold(3, 4), bold(8, 1)], 5)).toEqual([
+			bold(0, 2),
+			bold(3, 2),
+		]);
+	});
+});
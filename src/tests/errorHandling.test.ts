@@ -1,5 +1,7 @@
 import { describe, test, expect } from "bun:test";
+import { GrammyError, HttpError } from "grammy";
 import { SED_PATTERN, getRegexFlags } from "../utils";
+import { isTelegramOutage } from "../errors";
 
 describe("Error Handling and Edge Cases", () => {
 	describe("SED_PATTERN edge cases", () => {
@@ -114,4 +116,28 @@ describe("Error Handling and Edge Cases", () => {
 			expect(SED_PATTERN.test("s/ foo / bar /")).toBe(true);
 		});
 	});
+
+	describe("isTelegramOutage", () => {
+		const apiError = (code: number) =>
+			new GrammyError(
+				"Call to 'sendMessage' failed!",
+				{ ok: false, error_code: code, description: "error" },
+				"sendMessage",
+				{},
+			);
+
+		test("should count network errors, rate limits and server errors", () => {
+			expect(
+				isTelegramOutage(new HttpError("Network request failed", {})),
+			).toBe(true);
+			expect(isTelegramOutage(apiError(429))).toBe(true);
+			expect(isTelegramOutage(apiError(502))).toBe(true);
+		});
+
+		test("should not count request errors", () => {
+			expect(isTelegramOutage(apiError(400))).toBe(false);
+			expect(isTelegramOutage(apiError(403))).toBe(false);
+			expect(isTelegramOutage(new Error("other"))).toBe(false);
+		});
+	});
 });
@@ -0,0 +1,307 @@
+import { describe, test, expect } from "bun:test";
+import {
+	explainAddressLines,
+	explainFlagLines,
+	explainPattern,
+	explainPatternLines,
+	explainReplacementLines,
+	parseExplainInput,
+} from "../explain";
+import { parseRegex } from "../regexParser";
+import { translatorFor } from "../i18n";
+
+const t = translatorFor("en");
+
+describe("explain", () => {
+	test("should nest explanations under groups and quantifiers", () => {
+		expect(explainPatternLines("^(\\d{3})-foo", "", t)).toEqual([
+			{ depth: 0, source: "^", description: "Start of string" },
+			{ depth: 0, source: "(\\d{3})", description: "Capture group 1" },
+			{ depth: 1, source: "\\d{3}", description: "Exactly 3 times" },
+			{ depth: 2, source: "\\d", description: "Any digit (0-9)" },
+			{ depth: 0, source: "-foo", description: 'Literal text "-foo"' },
+		]);
+	});
+
+	test("should list alternatives and class items", () => {
+		const lines = explainPatternLines("cat|[^a-c\\s]", "", t);
+		expect(lines.map(({ depth, description }) => [depth, description])).toEqual(
+			[
+				[0, "One of 2 alternatives"],
+				[1, 'Literal text "cat"'],
+				[1, "Any character except"],
+				[2, 'Any character from "a" to "c"'],
+				[2, "Any whitespace"],
+			],
+		);
+	});
+
+	test("should explain anchors, dot and letters according to the flags", () => {
+		const descriptions = (flags: string) =>
+			explainPatternLines("^a.$", flags, t).map((line) => line.description);
+
+		expect(descriptions("")).toEqual([
+			"Start of string",
+			'Literal "a"',
+			"Any character except line breaks",
+			"End of string",
+		]);
+		expect(descriptions("ims")).toEqual([
+			"Start of a line",
+			'Literal "a", any case',
+			"Any character",
+			"End of a line",
+		]);
+	});
+
+	test("should explain lookarounds, backreferences and lazy quantifiers", () => {
+		const descriptions = explainPatternLines(
+			"(?<q>['\"]).*?\\k<q>(?<!\\\\)",
+			"",
+			t,
+		).map((line) => line.description);
+		expect(descriptions).toEqual([
+			'Named capture group "q" (group 1)',
+			"One character of",
+			'Literal "\'"',
+			'Literal """',
+			"Zero or more times, as few as possible (lazy)",
+			"Any character except line breaks",
+			'Same text as group "q" matched',
+			"Negative lookbehind: not preceded by",
+			'Literal "\\" (escaped)',
+		]);
+	});
+
+	test("should read unicode escapes when the pattern is valid with u", () => {
+		const { text } = explainPattern("\\p{Lu}\\u{41}", t);
+		expect(text).toContain("Any uppercase letter");
+		expect(text).toContain('Literal "A" (U+0041)');
+	});
+
+	test("should describe patterns in the given language", () => {
+		expect(
+			explainPatternLines("(\\d)+?", "", translatorFor("de")).map(
+				(line) => line.description,
+			),
+		).toEqual([
+			"Ein- oder mehrmals, so selten wie möglich (genügsam)",
+			"Gruppe 1",
+			"Eine beliebige Ziffer (0-9)",
+		]);
+	});
+
+	test("should show usage for an empty pattern and errors for invalid ones", () => {
+		const explain = (input: string) => explainPattern(input, t).text;
+		expect(explain("")).toContain("/explain");
+		expect(explain("(a")).toContain("Invalid regex pattern");
+		expect(explain("/a/iu")).not.toContain("Invalid");
+		expect(explain("s/(a/b/")).toContain("Invalid regex pattern");
+	});
+
+	describe("parseExplainInput", () => {
+		test("should read sed commands, regex literals and bare patterns", () => {
+			expect(parseExplainInput("s|a/b|$1|gi")).toEqual({
+				pattern: "a/b",
+				flags: "gi",
+				replacement: "$1",
+			});
+			expect(parseExplainInput(" /a\\/b/ms ")).toEqual({
+				pattern: "a\\/b",
+				flags: "ms",
+			});
+			expect(parseExplainInput("\\d+")).toEqual({ pattern: "\\d+" });
+		});
+
+		test("should read transliterations and addresses", () => {
+			expect(parseExplainInput("y/abc/xyz/")).toEqual({
+				pattern: "abc",
+				target: "xyz",
+			});
+			expect(parseExplainInput("3s/a/b/")).toEqual({
+				pattern: "a",
+				flags: "",
+				replacement: "b",
+				address: { start: { type: "line", line: 3 } },
+			});
+		});
+
+		test("should keep slashes with invalid flags as a bare pattern", () => {
+			expect(parseExplainInput("/usr/bin")).toEqual({ pattern: "/usr/bin" });
+			expect(parseExplainInput("/a/gg")).toEqual({ pattern: "/a/gg" });
+		});
+	});
+
+	describe("explainFlagLines", () => {
+		test("should explain regex literal flags", () => {
+			expect(explainFlagLines("gy", false, t)).toEqual([
+				{
+					depth: 0,
+					source: "g",
+					description: "Global: find every match, not just the first",
+				},
+				{
+					depth: 0,
+					source: "y",
+					description:
+						"Sticky: each match must start where the previous one ended",
+				},
+			]);
+		});
+
+		test("should explain sed flags, occurrences and unknown letters", () => {
+			expect(
+				explainFlagLines("I3px", true, t).map((line) => line.description),
+			).toEqual([
+				"Ignore case",
+				"Replace only match 3",
+				"Show how long the substitution took",
+				"Not a flag, ignored",
+			]);
+			expect(explainFlagLines("3g", true, t)[0].description).toBe(
+				"Replace match 3 and every one after it",
+			);
+		});
+
+		test("should read d as indices in a regex literal and as a diff in sed", () => {
+			expect(explainFlagLines("d", false, t)[0].description).toBe(
+				"Indices: record where each group matched",
+			);
+			expect(explainFlagLines("d", true, t)[0].description).toBe(
+				"Show what changed: removed text struck through",
+			);
+		});
+
+		test("should note that sed replaces one match without g", () => {
+			expect(explainFlagLines("i", true, t).at(-1)).toEqual({
+				depth: 0,
+				source: "",
+				description: "Without g, only the first match is replaced",
+			});
+		});
+	});
+
+	describe("explainReplacementLines", () => {
+		const ast = parseRegex("(?<word>\\w+) (\\w+)");
+		const explain = (replacement: string) =>
+			explainReplacementLines(replacement, ast, t).map(
+				({ source, description }) => [source, description],
+			);
+
+		test("should explain group references in both styles", () => {
+			expect(explain("$2 \\1 $<word>")).toEqual([
+				["$2", "Text of group 2"],
+				[" ", 'Literal " "'],
+				["\\1", "Text of group 1"],
+				[" ", 'Literal " "'],
+				["$<word>", 'Text of group "word"'],
+			]);
+		});
+
+		test("should explain special tokens and escapes", () => {
+			expect(explain("[$&]$`$'$$\\n\\t")).toEqual([
+				["[", 'Literal "["'],
+				["$&", "The whole match"],
+				["]", 'Literal "]"'],
+				["$`", "Text before the match"],
+				["$'", "Text after the match"],
+				["$$", 'Literal "$"'],
+				["\\n", "Newline"],
+				["\\t", "Tab"],
+			]);
+		});
+
+		test("should explain references to groups that don't exist", () => {
+			expect(explain("$21$5$<nope>")).toEqual([
+				["$21", 'Text of group 2, then "1"'],
+				["$5", 'Literal "$5" (there is no group 5)'],
+				["$<nope>", 'Nothing (there is no group "nope")'],
+			]);
+		});
+
+		test("should explain an empty replacement", () => {
+			expect(explain("")).toEqual([["", "Nothing: matches are deleted"]]);
+		});
+	});
+
+	describe("explainAddressLines", () => {
+		test("should explain single addresses and ranges", () => {
+			expect(
+				explainAddressLines({ start: { type: "line", line: 3 } }, t),
+			).toEqual([{ depth: 0, source: "3", description: "Only line 3" }]);
+			expect(
+				explainAddressLines(
+					{
+						start: { type: "regex", pattern: "^#" },
+						end: { type: "last" },
+					},
+					t,
+				),
+			).toEqual([
+				{
+					depth: 0,
+					source: "/^#/,$",
+					description: 'From a line matching "^#" to the last line',
+				},
+			]);
+		});
+	});
+
+	test("should explain a transliteration instead of a regex", () => {
+		const { text } = explainPattern("y/aba/xyz/", t);
+		expect(text).toBe(
+			[
+				"Transliteration: aba → xyz",
+				"",
+				"Characters:",
+				'• "a" becomes "x"',
+				'• "b" becomes "y"',
+			].join("\n"),
+		);
+	});
+
+	test("should show the address of a sed command", () => {
+		const { text } = explainPattern("3s/a/b/", t);
+		expect(text).toContain("Address:\n• 3 Only line 3");
+		expect(text.indexOf("Address")).toBeLessThan(text.indexOf("Replacement"));
+	});
+
+	test("should explain flags and the replacement of a sed command", () => {
+		const { text } = explainPattern("s/(a)/[$1]/g", t);
+		expect(text).toContain("Flags: g");
+		expect(text).toContain("Replacement: [$1]");
+		expect(text).toContain("$1 Text of group 1");
+		expect(text.indexOf("Replacement")).toBeLessThan(text.indexOf("Breakdown"));
+	});
+
+	test("should format the tree as indented text with entities", () => {
+		const { text, entities } = explainPattern("(a)", t);
+		expect(text).toBe(
+			[
+				"Pattern: (a)",
+				"",
+				"Breakdown:",
+				"• (a) Capture group 1",
+				'    • a Literal "a"',
+			].join("\n"),
+		);
+		expect(
+			entities.map((entity) => [
+				entity.type,
+				text.slice(entity.offset, entity.offset + entity.length),
+			]),
+		).toEqual([
+			["bold", "Pattern:"],
+			["code", "(a)"],
+			["bold", "Breakdown:"],
+			["code", "(a)"],
+			["code", "a"],
+		]);
+	});
+
+	test("should truncate explanations that don't fit in a message", () => {
+		const { text } = explainPattern("(a)".repeat(500), t);
+		expect(text.length).toBeLessThan(4096);
+		expect(text).toContain("Explanation truncated");
+	});
+});
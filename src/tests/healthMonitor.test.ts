@@ -136,4 +136,21 @@ describe("HealthMonitor", () => {
 		const metrics = disabledMonitor.calculateHealth(2, 1, 0, 0);
 		expect(metrics.status).toBe("healthy");
 	});
+
+	test("should build a cumulative duration histogram", () => {
+		monitor.recordSuccess(3);
+		monitor.recordSuccess(40);
+		monitor.recordSuccess(40);
+		monitor.recordSuccess(120000); // Above the largest bucket
+
+		const histogram = monitor.getDurationHistogram();
+		expect(histogram.count).toBe(4);
+		expect(histogram.sum).toBe(120083);
+		const bucket = (le: number) =>
+			histogram.buckets.find((b) => b.le === le)?.count;
+		expect(bucket(5)).toBe(1);
+		expect(bucket(25)).toBe(1);
+		expect(bucket(50)).toBe(3);
+		expect(bucket(60000)).toBe(3);
+	});
 });
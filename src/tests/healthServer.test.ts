@@ -0,0 +1,132 @@
+import { describe, test, expect } from "bun:test";
+import {
+	HealthServer,
+	type CheckResult,
+	type HealthServerDependencies,
+} from "../healthServer";
+
+function createServer(
+	overrides: Partial<HealthServerDependencies> = {},
+	options: { telegramCheckCacheMs?: number; checkTimeoutMs?: number } = {},
+): HealthServer {
+	return new HealthServer(
+		{
+			getWorkerPoolHealth: (): CheckResult => ({ status: "healthy" }),
+			pingDatabase: async () => {},
+			pingTelegram: async () => {},
+			...overrides,
+		},
+		{ host: "127.0.0.1", port: 0, ...options },
+	);
+}
+
+function get(server: HealthServer, path: string): Promise<Response> {
+	return server.handleRequest(new Request(`http://localhost${path}`));
+}
+
+describe("HealthServer", () => {
+	test("liveness always answers ok", async () => {
+		const server = createServer({
+			pingDatabase: async () => {
+				throw new Error("down");
+			},
+		});
+		const response = await get(server, "/healthz");
+		expect(response.status).toBe(200);
+		expect((await response.json()).status).toBe("ok");
+	});
+
+	test("readiness is healthy when all checks pass", async () => {
+		const response = await get(createServer(), "/readyz");
+		expect(response.status).toBe(200);
+		const body = await response.json();
+		expect(body.status).toBe("healthy");
+		expect(Object.keys(body.checks)).toEqual([
+			"workerPool",
+			"database",
+			"telegram",
+		]);
+	});
+
+	test("degraded worker pool still answers 200", async () => {
+		const server = createServer({
+			getWorkerPoolHealth: () => ({ status: "degraded" }),
+		});
+		const response = await get(server, "/readyz");
+		expect(response.status).toBe(200);
+		expect((await response.json()).status).toBe("degraded");
+	});
+
+	test("unreachable database answers 503", async () => {
+		const server = createServer({
+			pingDatabase: async () => {
+				throw new Error("database is locked");
+			},
+		});
+		const response = await get(server, "/readyz");
+		expect(response.status).toBe(503);
+		const body = await response.json();
+		expect(body.checks.database).toEqual({
+			status: "unhealthy",
+			error: "database is locked",
+		});
+	});
+
+	test("slow checks time out as unhealthy", async () => {
+		const server = createServer(
+			{ pingTelegram: () => new Promise(() => {}) },
+			{ checkTimeoutMs: 20 },
+		);
+		const report = await server.checkReadiness();
+		expect(report.status).toBe("unhealthy");
+		expect(report.checks.telegram.error).toContain("timed out");
+	});
+
+	test("caches the Telegram check", async () => {
+		let calls = 0;
+		const server = createServer({
+			pingTelegram: async () => {
+				calls++;
+			},
+		});
+		await server.checkReadiness();
+		await server.checkReadiness();
+		expect(calls).toBe(1);
+	});
+
+	test("reports unhealthy while shutting down", async () => {
+		const server = createServer({ isShuttingDown: () => true });
+		const response = await get(server, "/readyz");
+		expect(response.status).toBe(503);
+	});
+
+	test("serves Prometheus metrics when configured", async () => {
+		expect((await get(createServer(), "/metrics")).status).toBe(404);
+
+		const server = createServer({ getMetricsText: () => "x_total 1\n" });
+		const response = await get(server, "/metrics");
+		expect(response.status).toBe(200);
+		expect(response.headers.get("content-type")).toContain("version=0.0.4");
+		expect(await response.text()).toBe("x_total 1\n");
+	});
+
+	test("rejects unknown paths and methods", async () => {
+		const server = createServer();
+		expect((await get(server, "/metrics-nope")).status).toBe(404);
+		const post = await server.handleRequest(
+			new Request("http://localhost/healthz", { method: "POST" }),
+		);
+		expect(post.status).toBe(405);
+	});
+
+	test("serves over HTTP", async () => {
+		const server = createServer();
+		server.start();
+		try {
+			const response = await fetch(`http://127.0.0.1:${server.port}/healthz`);
+			expect(response.status).toBe(200);
+		} finally {
+			await server.stop();
+		}
+	});
+});
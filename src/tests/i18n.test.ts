@@ -0,0 +1,125 @@
+import { describe, test, expect } from "bun:test";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { AVAILABLE_LANGUAGES, translatorFor } from "../i18n";
+
+const LOCALES_DIR = join(import.meta.dir, "../../locales");
+const SOURCE_DIR = join(import.meta.dir, "..");
+
+/**
+ * Parse a Fluent file into message keys and the variables each one uses
+ */
+function parseLocale(code: string): Map<string, Set<string>> {
+	const source = readFileSync(join(LOCALES_DIR, `${code}.ftl`), "utf-8");
+	const messages = new Map<string, Set<string>>();
+	let current: Set<string> | null = null;
+
+	for (const line of source.split("\n")) {
+		const entry = line.match(/^([a-zA-Z][\w-]*)\s*=/);
+		if (entry) {
+			current = new Set();
+			messages.set(entry[1], current);
+		} else if (line.startsWith("#")) {
+			current = null;
+		}
+		for (const variable of line.matchAll(/\{\s*\$(\w+)/g)) {
+			current?.add(variable[1]);
+		}
+	}
+
+	return messages;
+}
+
+/**
+ * Read all non-test source files
+ */
+function readSources(): { file: string; source: string }[] {
+	return readdirSync(SOURCE_DIR)
+		.filter((file) => file.endsWith(".ts"))
+		.map((file) => ({
+			file,
+			source: readFileSync(join(SOURCE_DIR, file), "utf-8"),
+		}));
+}
+
+const english = parseLocale("en");
+
+describe("i18n", () => {
+	test("every language has a locale file", () => {
+		const files = readdirSync(LOCALES_DIR).filter((f) => f.endsWith(".ftl"));
+		expect(files.sort()).toEqual(
+			AVAILABLE_LANGUAGES.map(({ code }) => `${code}.ftl`).sort(),
+		);
+	});
+
+	for (const { code } of AVAILABLE_LANGUAGES) {
+		if (code === "en") continue;
+
+		test(`${code} defines the same keys and variables as en`, () => {
+			const messages = parseLocale(code);
+			expect([...messages.keys()].sort()).toEqual([...english.keys()].sort());
+			for (const [key, variables] of english) {
+				expect({
+					key,
+					variables: [...(messages.get(key) ?? [])].sort(),
+				}).toEqual({ key, variables: [...variables].sort() });
+			}
+		});
+
+		test(`${code} messages format without errors`, () => {
+			const t = translatorFor(code);
+			for (const key of english.keys()) {
+				const variables = Object.fromEntries(
+					[...english.get(key)!].map((name) => [name, 2]),
+				);
+				const text = t(key, variables);
+				expect(text).not.toContain(key);
+				expect(text).not.toContain("{$");
+			}
+		});
+	}
+
+	test("every message key used in the source exists", () => {
+		const prefixes = new Set(
+			[...english.keys()].map((key) => key.split("-")[0]),
+		);
+		const keyPattern = new RegExp(
+			`["'\`]((?:${[...prefixes].join("|")})-[a-zA-Z][\\w-]*)["'\`]`,
+			"g",
+		);
+
+		const missing: string[] = [];
+		for (const { file, source } of readSources()) {
+			for (const match of source.matchAll(keyPattern)) {
+				if (!english.has(match[1])) missing.push(`${file}: ${match[1]}`);
+			}
+		}
+		expect(missing).toEqual([]);
+	});
+
+	test("every command has a localized description", () => {
+		const index = readFileSync(join(SOURCE_DIR, "index.ts"), "utf-8");
+		const commands = [...index.matchAll(/\.command\(\s*"(\w+)"/g)].map(
+			(match) => match[1],
+		);
+		expect(commands.length).toBeGreaterThan(0);
+		for (const command of commands) {
+			expect(english.has(`command-${command}-description`)).toBe(true);
+		}
+	});
+
+	test("user-facing replies are not hard-coded", () => {
+		// A string literal as the text of a reply, callback answer or button
+		const literalReply =
+			/(?:\.reply|answerCallbackQuery|editMessageText|sendMessage|InlineKeyboard\.text)\(\s*(?:ctx,\s*)?["'`]/g;
+
+		const offenders: string[] = [];
+		for (const { file, source } of readSources()) {
+			for (const match of source.matchAll(literalReply)) {
+				const line = source.slice(0, match.index).split("\n").length;
+				offenders.push(`${file}:${line}`);
+			}
+		}
+		expect(offenders).toEqual([]);
+	});
+});
@@ -87,4 +87,43 @@ describe("LRUCache", () => {
 		expect(cache.get(1)).toBe("one");
 		expect(cache.get(2)).toBe("two");
 	});
+
+	test("should count hits and misses", () => {
+		const cache = new LRUCache<string, number>(3);
+		cache.set("a", 1);
+
+		cache.get("a");
+		cache.get("a");
+		cache.get("b");
+
+		expect(cache.getStats()).toMatchObject({ hits: 2, misses: 1 });
+	});
+
+	test("should count evictions and expirations", async () => {
+		const cache = new LRUCache<string, number>(2, 10);
+		cache.set("a", 1);
+		cache.set("b", 2);
+		cache.set("c", 3); // Evicts "a"
+
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		cache.get("b"); // Expired: miss + expiration
+		cache.cleanup(); // Removes expired "c"
+
+		const stats = cache.getStats();
+		expect(stats.evictions).toBe(1);
+		expect(stats.expirations).toBe(2);
+		expect(stats.misses).toBe(1);
+		expect(stats.hitRate).toBe(0);
+	});
+
+	test("should report the hit rate", () => {
+		const cache = new LRUCache<string, number>(3);
+		cache.set("a", 1);
+		cache.get("a");
+		cache.get("a");
+		cache.get("a");
+		cache.get("missing");
+
+		expect(cache.getStats().hitRate).toBe(0.75);
+	});
 });
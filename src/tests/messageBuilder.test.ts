@@ -0,0 +1,65 @@
+import { describe, test, expect } from "bun:test";
+import {
+	MessageBuilder,
+	formatted,
+	translateFormatted,
+} from "../messageBuilder";
+import { translatorFor } from "../i18n";
+
+const t = translatorFor("en");
+
+describe("messageBuilder", () => {
+	test("should build text with entities at the right offsets", () => {
+		expect(
+			new MessageBuilder()
+				.add("Use ")
+				.code("s/*_[/x/")
+				.add(" or ")
+				.bold("😀 this")
+				.build(),
+		).toEqual({
+			text: "Use s/*_[/x/ or 😀 this",
+			entities: [
+				{ type: "code", offset: 4, length: 8 },
+				{ type: "bold", offset: 16, length: 7 },
+			],
+		});
+	});
+
+	test("should list nested entities from the outside in", () => {
+		const inner = new MessageBuilder().add("a ").italic("b").build();
+		expect(new MessageBuilder().add(">").bold(inner).build()).toEqual({
+			text: ">a b",
+			entities: [
+				{ type: "bold", offset: 1, length: 3 },
+				{ type: "italic", offset: 3, length: 1 },
+			],
+		});
+	});
+
+	test("should skip entities around empty text", () => {
+		expect(new MessageBuilder().bold("").add("x").build().entities).toEqual([]);
+	});
+
+	test("should format entities with extra fields", () => {
+		expect(
+			formatted("site", { type: "text_link", url: "https://example.com" }),
+		).toEqual({
+			text: "site",
+			entities: [
+				{ type: "text_link", url: "https://example.com", offset: 0, length: 4 },
+			],
+		});
+	});
+
+	test("should put formatted variables into translations", () => {
+		const message = translateFormatted(t, "danger-polynomial", {
+			subexpression: formatted("\\d+\\d+", { type: "code" }),
+			degree: 2,
+		});
+		expect(message.text).toBe(
+			"\\d+\\d+ has overlapping repetitions, so a failing match takes polynomial time of degree 2",
+		);
+		expect(message.entities).toEqual([{ type: "code", offset: 0, length: 6 }]);
+	});
+});
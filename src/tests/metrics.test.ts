@@ -0,0 +1,69 @@
+import { describe, test, expect } from "bun:test";
+import {
+	formatHealthStatus,
+	formatMetrics,
+	getMetrics,
+	recordRegexCacheActivity,
+	type MetricsData,
+} from "../metrics";
+import { translatorFor } from "../i18n";
+
+const t = translatorFor("en");
+
+describe("metrics", () => {
+	test("should include worker cache activity and compilations", () => {
+		const before = getMetrics();
+		recordRegexCacheActivity({
+			hits: 3,
+			misses: 1,
+			evictions: 2,
+			expirations: 1,
+			compilations: 1,
+			size: 1,
+		});
+		const after = getMetrics();
+
+		expect(after.cacheHits - before.cacheHits).toBe(3);
+		expect(after.cacheMisses - before.cacheMisses).toBe(1);
+		expect(after.cacheEvictions - before.cacheEvictions).toBe(2);
+		expect(after.cacheExpirations - before.cacheExpirations).toBe(1);
+		expect(after.totalRegexCompilations - before.totalRegexCompilations).toBe(
+			1,
+		);
+	});
+
+	test("should report the real hit rate, not the fill level", () => {
+		const metrics: MetricsData = {
+			...getMetrics(),
+			cacheEnabled: true,
+			cachedRegexes: 10,
+			cacheMaxSize: 1000,
+			cacheHits: 9,
+			cacheMisses: 1,
+			cacheHitRate: 0.9,
+		};
+
+		const { text } = formatMetrics(metrics, t);
+		expect(text).toContain("Cache Hit Rate: 90% (9/10 lookups)");
+		expect(text).toContain("Cache: 10 entries");
+	});
+
+	test("should list circuit breaker states in the health status", () => {
+		const metrics: MetricsData = {
+			...getMetrics(),
+			circuitBreakers: [
+				{ name: "worker", state: "CLOSED", failures: 0, openUntil: null },
+				{
+					name: "telegram",
+					state: "OPEN",
+					failures: 5,
+					openUntil: Date.now() + 30000,
+				},
+			],
+		};
+
+		const { text } = formatHealthStatus(metrics, t);
+		expect(text).toContain("worker: CLOSED");
+		expect(text).toContain("telegram: OPEN (retry in 30s)");
+	});
+});
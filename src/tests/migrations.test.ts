@@ -0,0 +1,111 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { SQL } from "bun";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MIGRATIONS, getSchemaVersion, runMigrations } from "../migrations";
+import { DatabaseService, openDatabase } from "../database";
+
+describe("Migrations", () => {
+	const tempDir = mkdtempSync(join(tmpdir(), "regexybot-db-"));
+
+	afterAll(() => {
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test("should start at schema version 0", async () => {
+		const db = new SQL("sqlite://:memory:");
+		expect(await getSchemaVersion(db)).toBe(0);
+		await db.close();
+	});
+
+	test("should apply all migrations on a fresh database", async () => {
+		const db = new SQL("sqlite://:memory:");
+		const applied = await runMigrations(db);
+
+		expect(applied).toBe(MIGRATIONS.length);
+		expect(await getSchemaVersion(db)).toBe(
+			MIGRATIONS[MIGRATIONS.length - 1].version,
+		);
+		await db.close();
+	});
+
+	test("should be idempotent", async () => {
+		const db = new SQL("sqlite://:memory:");
+		await runMigrations(db);
+		expect(await runMigrations(db)).toBe(0);
+		await db.close();
+	});
+
+	test("should only apply pending migrations", async () => {
+		const db = new SQL("sqlite://:memory:");
+		await runMigrations(db);
+
+		const applied = await runMigrations(db, [
+			...MIGRATIONS,
+			{
+				version: 1000,
+				name: "test_table",
+				up: async (tx) => {
+					await tx`CREATE TABLE test_table (id INTEGER PRIMARY KEY)`;
+				},
+			},
+		]);
+
+		expect(applied).toBe(1);
+		expect(await getSchemaVersion(db)).toBe(1000);
+		await db.close();
+	});
+
+	test("should upgrade a database created by an older version", async () => {
+		const db = new SQL("sqlite://:memory:");
+		await runMigrations(db, MIGRATIONS.slice(0, 1));
+		await db`INSERT INTO message_history (chat_id, message_id, text) VALUES (1, 1, 'kept')`;
+
+		expect(await runMigrations(db)).toBe(MIGRATIONS.length - 1);
+		const [row] = await db`SELECT text FROM message_history`;
+		expect(row.text).toBe("kept");
+		await new DatabaseService(db).updateChatSettings(1, { language: "de" });
+		await db.close();
+	});
+
+	test("should roll back a failing migration", async () => {
+		const db = new SQL("sqlite://:memory:");
+		await runMigrations(db);
+		const versionBefore = await getSchemaVersion(db);
+
+		await expect(
+			runMigrations(db, [
+				{
+					version: 1000,
+					name: "broken",
+					up: async (tx) => {
+						await tx`CREATE TABLE half_done (id INTEGER)`;
+						await tx`THIS IS NOT SQL`;
+					},
+				},
+			]),
+		).rejects.toThrow();
+
+		expect(await getSchemaVersion(db)).toBe(versionBefore);
+		const tables =
+			await db`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'half_done'`;
+		expect(tables.length).toBe(0);
+		await db.close();
+	});
+
+	test("should keep history in a file-backed database across restarts", async () => {
+		const path = join(tempDir, "nested", "history.db");
+
+		const first = openDatabase(path);
+		await runMigrations(first);
+		await new DatabaseService(first).storeMessageInHistory(1, 42, "persisted");
+		await first.close();
+
+		const second = openDatabase(path);
+		expect(await runMigrations(second)).toBe(0);
+		const messages = await new DatabaseService(second).findMessagesInHistory(1);
+		expect(messages.map((m) => m.text)).toEqual(["persisted"]);
+		await second.close();
+	});
+});
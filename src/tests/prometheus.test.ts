@@ -0,0 +1,87 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { formatPrometheusMetrics } from "../prometheus";
+import {
+	recordDangerousPatternBlocked,
+	recordRateLimitRejection,
+	recordSubstitution,
+	recordTelegramError,
+} from "../metrics";
+import { WorkerPool } from "../workerPool";
+
+describe("Prometheus exporter", () => {
+	const pool = new WorkerPool({
+		maxWorkers: 1,
+		minWorkers: 1,
+		initialWorkers: 1,
+		taskTimeoutMs: 5000,
+		idleTimeoutMs: 60000,
+		idleCheckIntervalMs: 60000,
+		workerScript: "./src/hellspawn.ts",
+	});
+
+	afterAll(async () => {
+		await pool.shutdown();
+	});
+
+	/** Read a sample value from the exposition text */
+	function sample(text: string, line: string): number | undefined {
+		const match = text
+			.split("\n")
+			.find((l) => l.startsWith(line + " "))
+			?.slice(line.length + 1);
+		return match === undefined ? undefined : Number(match);
+	}
+
+	test("renders HELP and TYPE lines for every family", () => {
+		const text = formatPrometheusMetrics();
+		expect(text).toContain("# TYPE regexybot_substitutions_total counter");
+		expect(text).toContain("# HELP regexybot_uptime_seconds ");
+		expect(text.endsWith("\n")).toBe(true);
+	});
+
+	test("exposes counters", () => {
+		const before = formatPrometheusMetrics();
+		recordSubstitution();
+		recordRateLimitRejection();
+		recordDangerousPatternBlocked();
+		recordTelegramError(429);
+		recordTelegramError(429);
+		const after = formatPrometheusMetrics();
+
+		expect(sample(after, "regexybot_substitutions_total")).toBe(
+			sample(before, "regexybot_substitutions_total")! + 1,
+		);
+		expect(sample(after, "regexybot_rate_limit_rejections_total")).toBe(
+			sample(before, "regexybot_rate_limit_rejections_total")! + 1,
+		);
+		expect(sample(after, "regexybot_dangerous_patterns_blocked_total")).toBe(
+			sample(before, "regexybot_dangerous_patterns_blocked_total")! + 1,
+		);
+		expect(
+			sample(after, 'regexybot_telegram_api_errors_total{code="429"}'),
+		).toBe(
+			(sample(before, 'regexybot_telegram_api_errors_total{code="429"}') ?? 0) +
+				2,
+		);
+	});
+
+	test("includes worker pool gauges and the duration histogram", async () => {
+		await pool.run({
+			initialText: "hello",
+			commands: [{ pattern: "hello", flags: "", replacement: "hi" }],
+			includePerformance: false,
+		});
+		const text = formatPrometheusMetrics(pool);
+
+		expect(text).toContain('regexybot_worker_pool_workers{state="idle"}');
+		expect(text).toContain(
+			"# TYPE regexybot_worker_task_duration_seconds histogram",
+		);
+		expect(
+			sample(text, 'regexybot_worker_task_duration_seconds_bucket{le="+Inf"}'),
+		).toBe(1);
+		expect(sample(text, "regexybot_worker_task_duration_seconds_count")).toBe(
+			1,
+		);
+	});
+});
@@ -0,0 +1,130 @@
+import { describe, test, expect } from "bun:test";
+import { analyzeRedos, buildAttackString } from "../redos";
+
+/**
+ * Run a regex search on the attack string and return whether it matched
+ */
+function matchesAttack(pattern: string, flags = ""): boolean {
+	const { attack } = analyzeRedos(pattern, flags);
+	expect(attack).toBeDefined();
+	return new RegExp(pattern, flags).test(buildAttackString(attack!, 8));
+}
+
+describe("redos", () => {
+	test("should find exponential backtracking in nested and ambiguous loops", () => {
+		for (const pattern of [
+			"^(a+)+$",
+			"(a*)*b",
+			"(a|a)*b",
+			"^(\\w+\\s?)*$",
+			"^(?:a|b|ab)*$",
+			"(x+x+)+y",
+		]) {
+			expect(analyzeRedos(pattern).complexity).toBe("exponential");
+		}
+	});
+
+	test("should find polynomial backtracking with its degree", () => {
+		expect(analyzeRedos("=\\d+\\d+x")).toMatchObject({
+			complexity: "polynomial",
+			degree: 2,
+		});
+		expect(analyzeRedos("^.*.*=.*$")).toMatchObject({
+			complexity: "polynomial",
+			degree: 3,
+		});
+		expect(
+			analyzeRedos("^[\\s\\S]*?foo[\\s\\S]*?bar[\\s\\S]*?baz"),
+		).toMatchObject({ complexity: "polynomial", degree: 3 });
+	});
+
+	test("should count the start positions an unanchored search tries", () => {
+		for (const pattern of ["\\s+$", "\\s*$", "a+$", "\\d+$"]) {
+			expect(analyzeRedos(pattern)).toMatchObject({
+				complexity: "polynomial",
+				degree: 2,
+			});
+		}
+		expect(analyzeRedos("a*a*b")).toMatchObject({
+			complexity: "polynomial",
+			degree: 3,
+		});
+		expect(analyzeRedos("\\d+\\d+x").degree).toBe(3);
+		expect(analyzeRedos("a+$", "y").complexity).toBe("safe");
+	});
+
+	test("should consider unambiguous patterns safe", () => {
+		for (const pattern of [
+			"foo|bar",
+			"^a+b+",
+			"^[a-z]+$",
+			"^(a|ab)*c$",
+			"^(a|b)*$",
+			"(\\d{1,3}\\.){3}\\d{1,3}",
+			"^\\w+@\\w+\\.\\w+",
+		]) {
+			expect(analyzeRedos(pattern).complexity).toBe("safe");
+		}
+	});
+
+	test("should consider patterns safe when every input matches quickly", () => {
+		// Without anchors the search succeeds as soon as one a is found
+		expect(analyzeRedos("(a+)+").complexity).toBe("safe");
+	});
+
+	test("should take the flags into account", () => {
+		expect(analyzeRedos("^(a|A)*$").complexity).toBe("safe");
+		expect(analyzeRedos("^(a|A)*$", "i").complexity).toBe("exponential");
+		expect(analyzeRedos("^(\\p{L}+)*$", "u").complexity).toBe("exponential");
+	});
+
+	test("should point at the offending sub-expression", () => {
+		expect(analyzeRedos("^foo(a+)+$").culprit).toEqual({
+			start: 4,
+			end: 9,
+			source: "(a+)+",
+		});
+		expect(analyzeRedos("x(?:a|b|ab)*y").culprit?.source).toBe("(?:a|b|ab)*");
+		expect(analyzeRedos("=\\d+\\d+x").culprit?.source).toBe("\\d+\\d+");
+		expect(analyzeRedos("(\\w+\\s*){1,10}$").culprit?.source).toBe(
+			"(\\w+\\s*){1,10}",
+		);
+	});
+
+	test("should generate attack strings that make the match fail", () => {
+		for (const pattern of [
+			"^(a+)+$",
+			"(a|a)*b",
+			"^(\\w+\\s?)*$",
+			"\\d+\\d+x",
+		]) {
+			expect(matchesAttack(pattern)).toBe(false);
+		}
+		expect(analyzeRedos("^(a+)+$").attack).toEqual({
+			prefix: "a",
+			pump: "a",
+			suffix: "0",
+		});
+	});
+
+	test("should make matching slower as the attack grows", () => {
+		const { attack } = analyzeRedos("^(a+)+$");
+		const time = (repetitions: number) => {
+			const start = performance.now();
+			/^(a+)+$/.test(buildAttackString(attack!, repetitions));
+			return performance.now() - start;
+		};
+		expect(time(22)).toBeGreaterThan(time(2) * 10);
+	});
+
+	test("should report patterns too large to analyze as unknown", () => {
+		// Padding must not hide the exponential part at the end
+		const padded = "(?:[a-z]{10}|q)?".repeat(40) + "(x+x+)+y";
+		expect(analyzeRedos(padded)).toEqual({ complexity: "unknown" });
+	});
+
+	test("should report invalid patterns as safe", () => {
+		expect(analyzeRedos("(a")).toEqual({ complexity: "safe" });
+		expect(analyzeRedos("(a|b|c|d|e){200}").complexity).toBe("safe");
+	});
+});
@@ -0,0 +1,208 @@
+import { describe, test, expect } from "bun:test";
+import { parseRegex, RegexSyntaxError, type RegexNode } from "../regexParser";
+
+/**
+ * Reduce a node to its type and source, recursively, for compact assertions
+ */
+function outline(node: RegexNode, pattern: string): unknown {
+	const source = pattern.slice(node.start, node.end);
+	switch (node.type) {
+		case "disjunction":
+			return [source, node.alternatives.map((n) => outline(n, pattern))];
+		case "sequence":
+			return [source, node.elements.map((n) => outline(n, pattern))];
+		case "group":
+		case "lookaround":
+		case "quantifier":
+			return [source, outline(node.body, pattern)];
+		default:
+			return source;
+	}
+}
+
+describe("regexParser", () => {
+	test("should parse alternation, groups and quantifiers into a tree", () => {
+		const pattern = "^(a|bc)+?x{2,}$";
+		const { root } = parseRegex(pattern);
+		expect(outline(root, pattern)).toEqual([
+			pattern,
+			[
+				"^",
+				["(a|bc)+?", ["(a|bc)", ["a|bc", ["a", ["bc", ["b", "c"]]]]]],
+				["x{2,}", "x"],
+				"$",
+			],
+		]);
+	});
+
+	test("should read quantifier bounds and laziness", () => {
+		const { root } = parseRegex("a{2,5}?");
+		expect(root).toMatchObject({
+			type: "quantifier",
+			min: 2,
+			max: 5,
+			greedy: false,
+		});
+		expect(parseRegex("a*").root).toMatchObject({ min: 0, max: Infinity });
+		expect(parseRegex("a{3}").root).toMatchObject({ min: 3, max: 3 });
+	});
+
+	test("should number capture groups and collect names", () => {
+		const ast = parseRegex("(?<year>\\d{4})-(?:x)(\\d+)(?=y)");
+		expect(ast.groupCount).toBe(2);
+		expect(ast.groupNames).toEqual(["year"]);
+
+		const root = ast.root as Extract<RegexNode, { type: "sequence" }>;
+		expect(root.elements[0]).toMatchObject({
+			type: "group",
+			capturing: true,
+			index: 1,
+			name: "year",
+		});
+		expect(root.elements[2]).toMatchObject({ type: "group", capturing: false });
+		expect(root.elements[3]).toMatchObject({ type: "group", index: 2 });
+		expect(root.elements[4]).toMatchObject({
+			type: "lookaround",
+			direction: "ahead",
+			negated: false,
+		});
+	});
+
+	test("should parse lookbehinds and modifier groups", () => {
+		expect(parseRegex("(?<!a)b").root).toMatchObject({
+			elements: [
+				{ type: "lookaround", direction: "behind", negated: true },
+				{},
+			],
+		});
+		expect(parseRegex("(?i-m:a)").root).toMatchObject({
+			type: "group",
+			capturing: false,
+			modifiers: { add: "i", remove: "m" },
+		});
+	});
+
+	test("should parse character classes with ranges and escapes", () => {
+		const { root } = parseRegex("[^a-z\\d_\\-]");
+		expect(root).toMatchObject({
+			type: "characterClass",
+			negated: true,
+			items: [
+				{ type: "classRange", from: { codePoint: 97 }, to: { codePoint: 122 } },
+				{ type: "classEscape", kind: "digit", negated: false },
+				{ type: "character", codePoint: 95 },
+				{ type: "character", codePoint: 45 },
+			],
+		});
+	});
+
+	test("should treat \\b as backspace inside a class", () => {
+		expect(parseRegex("[\\b]").root).toMatchObject({
+			items: [{ type: "character", codePoint: 8 }],
+		});
+		expect(parseRegex("\\b").root).toMatchObject({
+			type: "assertion",
+			kind: "wordBoundary",
+		});
+	});
+
+	test("should decode character escapes", () => {
+		const codePoints = (pattern: string, flags = "") => {
+			const { root } = parseRegex(pattern, flags);
+			const nodes = root.type === "sequence" ? root.elements : [root];
+			return nodes.map((node) =>
+				node.type === "character" ? node.codePoint : node.type,
+			);
+		};
+
+		expect(codePoints("\\n\\t\\x41\\u00e9\\cJ\\0")).toEqual([
+			10, 9, 0x41, 0xe9, 10, 0,
+		]);
+		expect(codePoints("\\u{1F600}", "u")).toEqual([0x1f600]);
+		expect(codePoints("\\uD83D\\uDE00", "u")).toEqual([0x1f600]);
+		expect(codePoints("😀", "u")).toEqual([0x1f600]);
+	});
+
+	test("should distinguish backreferences from legacy octal escapes", () => {
+		expect(parseRegex("(a)\\1").root).toMatchObject({
+			elements: [{}, { type: "backreference", ref: 1 }],
+		});
+		expect(parseRegex("(a)\\2").root).toMatchObject({
+			elements: [{}, { type: "character", codePoint: 2 }],
+		});
+		expect(parseRegex("\\1(a)").root).toMatchObject({
+			elements: [{ type: "backreference", ref: 1 }, {}],
+		});
+		expect(parseRegex("(?<n>a)\\k<n>").root).toMatchObject({
+			elements: [{}, { type: "backreference", ref: "n" }],
+		});
+	});
+
+	test("should parse unicode property escapes only in unicode mode", () => {
+		expect(parseRegex("\\p{Script=Greek}", "u").root).toMatchObject({
+			type: "unicodeProperty",
+			name: "Script",
+			value: "Greek",
+			negated: false,
+		});
+		expect(parseRegex("\\P{L}", "u").root).toMatchObject({
+			type: "unicodeProperty",
+			name: "L",
+			negated: true,
+		});
+		expect(parseRegex("\\p{L}").root).toMatchObject({ type: "sequence" });
+	});
+
+	test("should treat a lone brace as a literal without unicode mode", () => {
+		expect(parseRegex("a{,2}").root).toMatchObject({
+			type: "sequence",
+			elements: [{ codePoint: 97 }, { codePoint: 123 }, {}, {}, {}],
+		});
+		expect(() => parseRegex("a{,2}", "u")).toThrow(RegexSyntaxError);
+	});
+
+	test("should parse set operations and nested classes with the v flag", () => {
+		expect(parseRegex("[\\p{L}--[a-z]]", "v").root).toMatchObject({
+			type: "characterClass",
+			operation: "subtraction",
+			items: [{ type: "unicodeProperty" }, { type: "characterClass" }],
+		});
+		expect(parseRegex("[\\q{abc|d}&&\\w]", "v").root).toMatchObject({
+			operation: "intersection",
+			items: [{ type: "classStrings", strings: ["abc", "d"] }, {}],
+		});
+	});
+
+	test("should keep empty alternatives", () => {
+		expect(parseRegex("a|").root).toMatchObject({
+			type: "disjunction",
+			alternatives: [{ type: "character" }, { type: "empty" }],
+		});
+	});
+
+	test("should report syntax errors with their position", () => {
+		for (const pattern of ["(a", "a)", "*a", "[a", "a{3,1}", "[z-a]", "\\"]) {
+			expect(() => parseRegex(pattern)).toThrow(RegexSyntaxError);
+		}
+		try {
+			parseRegex("ab)");
+		} catch (error) {
+			expect((error as RegexSyntaxError).position).toBe(2);
+		}
+	});
+
+	test("should parse every pattern RegExp accepts without errors", () => {
+		const patterns = [
+			"^(?:[a-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*)@(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\\.)+[a-z]{2,}$",
+			"(\\d{1,3}\\.){3}\\d{1,3}",
+			"(?<=\\$)\\d+(?:\\.\\d\\d)?(?!\\d)",
+			"\\[[^\\]]*\\]|\\((?:[^()]|\\([^()]*\\))*\\)",
+			"a]b}c",
+			"[\\]\\\\-]",
+		];
+		for (const pattern of patterns) {
+			new RegExp(pattern);
+			expect(() => parseRegex(pattern)).not.toThrow();
+		}
+	});
+});
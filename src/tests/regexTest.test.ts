@@ -0,0 +1,122 @@
+import { describe, test, expect } from "bun:test";
+import { formatTestResult, parseTestArguments } from "../regexTest";
+import { translatorFor } from "../i18n";
+import type { RegexMatch } from "../types";
+import type { FormattedText } from "../messageBuilder";
+
+const t = translatorFor("en");
+
+// The formatted parts of a message as [type, text] pairs
+const spans = ({ text, entities }: FormattedText) =>
+	entities.map((entity) => [
+		entity.type,
+		text.slice(entity.offset, entity.offset + entity.length),
+	]);
+
+describe("regexTest", () => {
+	describe("parseTestArguments", () => {
+		test("should parse a pattern with flags", () => {
+			expect(parseTestArguments("\\d+/gi")).toEqual({
+				pattern: "\\d+",
+				flags: "gi",
+				text: undefined,
+			});
+		});
+
+		test("should allow a leading slash and inline text", () => {
+			expect(parseTestArguments("/a b/ some a b text")).toEqual({
+				pattern: "a b",
+				flags: "",
+				text: "some a b text",
+			});
+		});
+
+		test("should keep escaped slashes in the pattern", () => {
+			expect(parseTestArguments("a\\/b/ a/b")).toEqual({
+				pattern: "a\\/b",
+				flags: "",
+				text: "a/b",
+			});
+		});
+
+		test("should keep multi-line text", () => {
+			expect(parseTestArguments("x/m\nline 1\nline 2")?.text).toBe(
+				"line 1\nline 2",
+			);
+		});
+
+		test("should reject input without a closing slash", () => {
+			expect(parseTestArguments("")).toBeNull();
+			expect(parseTestArguments("foo")).toBeNull();
+			expect(parseTestArguments("foo/g1")).toBeNull();
+		});
+	});
+
+	describe("formatTestResult", () => {
+		const match = (
+			index: number,
+			text: string,
+			groups: (string | undefined)[] = [],
+		): RegexMatch => ({ index, text, groups });
+
+		test("should report when nothing matches", () => {
+			expect(formatTestResult([], 0, "abc", t)).toEqual({
+				text: "🔍 No matches.",
+				entities: [],
+			});
+		});
+
+		test("should highlight the matched spans", () => {
+			const result = formatTestResult(
+				[match(0, "a.b"), match(4, "a.b")],
+				2,
+				"a.b a.b!",
+				t,
+			);
+			expect(result.text).toContain("2 matches\n\na.b a.b!");
+			expect(spans(result).slice(0, 5)).toEqual([
+				["bold", "2 matches"],
+				["bold", "a.b"],
+				["underline", "a.b"],
+				["bold", "a.b"],
+				["underline", "a.b"],
+			]);
+			expect(result.entities[1].offset).toBe(result.text.indexOf("a.b"));
+			expect(result.entities[3].offset).toBe(result.text.indexOf(" a.b") + 1);
+		});
+
+		test("should list groups, including unmatched ones", () => {
+			const result = formatTestResult(
+				[
+					{
+						index: 0,
+						text: "x",
+						groups: ["x", undefined],
+						namedGroups: { key: "x" },
+					},
+				],
+				1,
+				"x",
+				t,
+			);
+			expect(result.text).toContain(
+				"Match 1 at 0: x\n    $1 x\n    $2 not matched\n    <key> x",
+			);
+			expect(spans(result).slice(3)).toEqual([
+				["bold", "Match 1 at 0:"],
+				["code", "x"],
+				["code", "$1"],
+				["code", "x"],
+				["code", "$2"],
+				["italic", "not matched"],
+				["code", "<key>"],
+				["code", "x"],
+			]);
+		});
+
+		test("should count matches that were not listed", () => {
+			const result = formatTestResult([match(0, "a")], 5, "aaaaa", t);
+			expect(spans(result).at(-1)).toEqual(["italic", "…and 4 more matches"]);
+		});
+	});
+});
@@ -1,5 +1,21 @@
 import { describe, test, expect } from "bun:test";
-import { parseSedCommands } from "../sed";
+import {
+	SedHandler,
+	findSedCommands,
+	parseInlineQuery,
+	parseSedCommands,
+	toWorkerCommand,
+} from "../sed";
+import { applyCommand } from "../sedEngine";
+import { parseSedCommand } from "../utils";
+import { CircuitBreaker } from "../circuitBreaker";
+import { translatorFor, type MyContext } from "../i18n";
+import {
+	detectDangerousPattern,
+	formatDangerousPatternBlocked,
+} from "../dangerousPatterns";
+import type { ChatSettings, WorkerTask } from "../types";
+import type { WorkerPool } from "../workerPool";
 
 describe("parseSedCommands", () => {
 	describe("basic command parsing", () => {
@@ -207,6 +223,61 @@ goodbye world`;
 		});
 	});
 
+	describe("custom delimiters", () => {
+		test("should parse commands with custom delimiters", () => {
+			const text = "s|/usr/bin|/opt/bin|g\ns#foo#bar#\ns,a,b,";
+			const commands = parseSedCommands(text);
+			expect(commands).toEqual([
+				"s|/usr/bin|/opt/bin|g",
+				"s#foo#bar#",
+				"s,a,b,",
+			]);
+		});
+
+		test("should not start a command on words beginning with s", () => {
+			const text = "so this is\nsome text";
+			const commands = parseSedCommands(text);
+			expect(commands).toEqual([]);
+		});
+
+		test("should treat a word line as part of a multi-line replacement", () => {
+			const text = "s|foo|first\nsecond|";
+			const commands = parseSedCommands(text);
+			expect(commands).toEqual(["s|foo|first\nsecond|"]);
+		});
+	});
+
+	describe("addresses", () => {
+		test("should parse addressed commands", () => {
+			const text = "3s/a/b/\n2,5s/c/d/\n/foo/s/e/f/\n$y/ab/ba/";
+			const commands = parseSedCommands(text);
+			expect(commands).toEqual([
+				"3s/a/b/",
+				"2,5s/c/d/",
+				"/foo/s/e/f/",
+				"$y/ab/ba/",
+			]);
+		});
+
+		test("should not start a command on numbers in text", () => {
+			const commands = parseSedCommands("3 apples\n10 seconds");
+			expect(commands).toEqual([]);
+		});
+	});
+
+	describe("transliteration", () => {
+		test("should parse y commands alongside s commands", () => {
+			const text = "y/abc/xyz/\ns/foo/bar/";
+			const commands = parseSedCommands(text);
+			expect(commands).toEqual(["y/abc/xyz/", "s/foo/bar/"]);
+		});
+
+		test("should not start a command on words beginning with y", () => {
+			const commands = parseSedCommands("yes\nyou know");
+			expect(commands).toEqual([]);
+		});
+	});
+
 	describe("complex real-world scenarios", () => {
 		test("should handle URL replacement", () => {
 			// eslint-disable-next-line no-useless-escape
@@ -247,3 +318,180 @@ lines of markdown/`;
 		});
 	});
 });
+
+describe("findSedCommands", () => {
+	test("should keep only lines that parse as commands", () => {
+		expect(findSedCommands("s/a/b/\ny'all should see this")).toEqual([
+			"s/a/b/",
+		]);
+	});
+
+	test("should find nothing in prose that only starts like a command", () => {
+		expect(findSedCommands("y'all should see this")).toEqual([]);
+		expect(findSedCommands("s-curve ahead")).toEqual([]);
+	});
+});
+
+describe("toWorkerCommand", () => {
+	test("should turn \\N backreferences into capture groups", () => {
+		const command = toWorkerCommand(parseSedCommand("s/(a)/\\1\\1/")!);
+		expect(applyCommand("a", command)).toBe("aa");
+	});
+});
+
+describe("parseInlineQuery", () => {
+	test("should split a command from the input text", () => {
+		expect(parseInlineQuery("s/foo/bar/g | some foo text")).toEqual({
+			commands: ["s/foo/bar/g"],
+			text: "some foo text",
+		});
+	});
+
+	test("should allow | as delimiter and inside the pattern", () => {
+		expect(parseInlineQuery("s|a|b| | a | c")).toEqual({
+			commands: ["s|a|b|"],
+			text: "a | c",
+		});
+		expect(parseInlineQuery("s/a | b/c/ | a | b")).toEqual({
+			commands: ["s/a | b/c/"],
+			text: "a | b",
+		});
+	});
+
+	test("should accept a chain of commands", () => {
+		expect(parseInlineQuery("s/a/b/\ny/xy/yx/ | axy")).toEqual({
+			commands: ["s/a/b/", "y/xy/yx/"],
+			text: "axy",
+		});
+	});
+
+	test("should reject queries without a command or text", () => {
+		expect(parseInlineQuery("")).toBeNull();
+		expect(parseInlineQuery("s/foo/bar/")).toBeNull();
+		expect(parseInlineQuery("s/foo/bar/ | ")).toBeNull();
+		expect(parseInlineQuery("hello | world")).toBeNull();
+	});
+});
+
+describe("SedHandler", () => {
+	const t = translatorFor("en");
+
+	/**
+	 * A handler whose history lookup and replies are recorded instead of
+	 * touching the database or Telegram
+	 */
+	function createHandler(
+		chatSettings: ChatSettings,
+		replyTo?: object,
+		workerPool = {
+			run: async () => ({ result: "", performanceMs: null, matches: [] }),
+		} as unknown as WorkerPool,
+	) {
+		const replies: string[] = [];
+		const lookups: string[] = [];
+		const handler = new SedHandler({
+			workerPool,
+			sendOrEditReply: async () => {},
+			telegramBreaker: new CircuitBreaker("telegram"),
+			findTargetMessage: async (_ctx, command, _excluded, matchTarget) => {
+				lookups.push(command.command === "s" ? command.pattern : "");
+				await matchTarget?.("aaaa");
+				return {};
+			},
+		});
+		const ctx = {
+			chat: { id: 1 },
+			msg: { message_id: 2, reply_to_message: replyTo },
+			chatSettings,
+			t,
+			reply: async (text: string) => {
+				replies.push(text);
+			},
+		} as unknown as MyContext;
+		return { handler, ctx, replies, lookups };
+	}
+
+	test("should refuse commands without a reply before searching history", async () => {
+		const { handler, ctx, replies, lookups } = createHandler({
+			replyOnly: true,
+		});
+
+		await handler.handleSedMessage(ctx, ["s/nothing matches/x/"], 2, false);
+
+		expect(lookups).toEqual([]);
+		expect(replies).toEqual([t("error-replyOnly")]);
+	});
+
+	test("should report a missing target outside reply-only chats", async () => {
+		const { handler, ctx, replies, lookups } = createHandler({});
+
+		await handler.handleSedMessage(ctx, ["s/nothing matches/x/"], 2, false);
+
+		expect(lookups).toEqual(["nothing matches"]);
+		expect(replies).toEqual([t("error-noTarget")]);
+	});
+
+	test("should report an invalid pattern before searching history", async () => {
+		const { handler, ctx, replies, lookups } = createHandler({});
+
+		await handler.handleSedMessage(ctx, ["s/(/x/"], 2, false);
+
+		expect(lookups).toEqual([]);
+		expect(replies).toEqual([`❌ ${t("error-invalidRegex")}`]);
+	});
+
+	test("should block a dangerous pattern before searching history", async () => {
+		const { handler, ctx, replies, lookups } = createHandler({
+			dangerPolicy: "block",
+		});
+
+		await handler.handleSedMessage(ctx, ["s/^(a+)+$/x/"], 2, false);
+
+		expect(lookups).toEqual([]);
+		expect(replies).toEqual([
+			formatDangerousPatternBlocked(detectDangerousPattern("^(a+)+$"), t).text,
+		]);
+	});
+
+	test("should block a pattern too large to analyze before searching history", async () => {
+		const pattern = "(?:[a-z]{10}|q)?".repeat(40) + "(x+x+)+y";
+		const { handler, ctx, replies, lookups } = createHandler({
+			dangerPolicy: "block",
+		});
+
+		await handler.handleSedMessage(ctx, [`s/${pattern}/x/`], 2, false);
+
+		expect(lookups).toEqual([]);
+		expect(replies).toEqual([
+			formatDangerousPatternBlocked(detectDangerousPattern(pattern), t).text,
+		]);
+	});
+
+	test("should search history in the worker pool", async () => {
+		const tasks: WorkerTask[] = [];
+		const workerPool = {
+			run: async (task: WorkerTask) => {
+				tasks.push(task);
+				return { result: "", performanceMs: null, matches: [] };
+			},
+		} as unknown as WorkerPool;
+		const { handler, ctx, replies } = createHandler(
+			{ dangerWarnings: false },
+			undefined,
+			workerPool,
+		);
+
+		await handler.handleSedMessage(ctx, ["s/^(a+)+$/x/gi"], 2, false);
+
+		expect(tasks).toEqual([
+			{
+				type: "match",
+				text: "aaaa",
+				pattern: "^(a+)+$",
+				flags: "i",
+				maxMatches: 1,
+			},
+		]);
+		expect(replies).toEqual([t("error-noTarget")]);
+	});
+});
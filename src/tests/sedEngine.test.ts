@@ -0,0 +1,213 @@
+import { describe, test, expect } from "bun:test";
+import {
+	applyCommand,
+	describeCommand,
+	findMatches,
+	replaceOccurrences,
+	selectLines,
+	transliterate,
+} from "../sedEngine";
+
+describe("sedEngine", () => {
+	describe("transliterate", () => {
+		test("should map characters position by position", () => {
+			expect(transliterate("hello world", "lo", "01")).toBe("he001 w1r0d");
+		});
+
+		test("should swap characters", () => {
+			expect(transliterate("abba", "ab", "ba")).toBe("baab");
+		});
+
+		test("should use the first mapping for repeated source characters", () => {
+			expect(transliterate("aaa", "aa", "xy")).toBe("xxx");
+		});
+
+		test("should handle astral characters", () => {
+			expect(transliterate("I 😀 it", "😀", "❤")).toBe("I ❤ it");
+		});
+
+		test("should throw on different lengths", () => {
+			expect(() => transliterate("abc", "ab", "x")).toThrow();
+		});
+	});
+
+	describe("replaceOccurrences", () => {
+		test("should replace only the Nth match", () => {
+			expect(replaceOccurrences("banana", /a/, "o", 2, false)).toBe("banona");
+		});
+
+		test("should replace the Nth match onward when global", () => {
+			expect(replaceOccurrences("banana", /a/g, "o", 2, true)).toBe("banono");
+		});
+
+		test("should leave text unchanged when there are fewer matches", () => {
+			expect(replaceOccurrences("banana", /a/, "o", 4, false)).toBe("banana");
+		});
+
+		test("should expand replacement tokens", () => {
+			expect(replaceOccurrences("a1 b2 c3", /(\w)(\d)/, "$2$1", 2, false)).toBe(
+				"a1 2b c3",
+			);
+			expect(
+				replaceOccurrences("a1 b2 c3", /(?<l>\w)\d/, "[$<l>|$&]", 3, false),
+			).toBe("a1 b2 [c|c3]");
+			expect(replaceOccurrences("x x", /x/, "$$", 2, false)).toBe("x $");
+		});
+
+		test("should handle empty matches", () => {
+			expect(replaceOccurrences("abc", /(?:)/g, "-", 2, true)).toBe("a-b-c-");
+		});
+	});
+
+	describe("findMatches", () => {
+		test("should find every match even without the g flag", () => {
+			const { matches, count } = findMatches("a1 b22", "\\d+", "", 10);
+			expect(count).toBe(2);
+			expect(matches.map(({ index, text }) => ({ index, text }))).toEqual([
+				{ index: 1, text: "1" },
+				{ index: 4, text: "22" },
+			]);
+		});
+
+		test("should report numbered and named groups", () => {
+			const { matches } = findMatches(
+				"x=1 y",
+				"(?<key>\\w)(?:=(\\d))?",
+				"",
+				10,
+			);
+			expect(matches[0].groups).toEqual(["x", "1"]);
+			expect(matches[0].namedGroups).toEqual({ key: "x" });
+			expect(matches[1].groups).toEqual(["y", undefined]);
+		});
+
+		test("should keep counting past the match limit", () => {
+			const { matches, count } = findMatches("aaaa", "a", "g", 2);
+			expect(matches.length).toBe(2);
+			expect(count).toBe(4);
+		});
+
+		test("should throw on invalid patterns", () => {
+			expect(() => findMatches("a", "[", "", 10)).toThrow();
+		});
+	});
+
+	describe("selectLines", () => {
+		const lines = ["one", "two", "three", "four", "five"];
+
+		test("should select a single line", () => {
+			expect(selectLines(lines, { start: { type: "line", line: 2 } })).toEqual([
+				false,
+				true,
+				false,
+				false,
+				false,
+			]);
+		});
+
+		test("should select the last line", () => {
+			expect(selectLines(lines, { start: { type: "last" } })).toEqual([
+				false,
+				false,
+				false,
+				false,
+				true,
+			]);
+		});
+
+		test("should select a numeric range", () => {
+			expect(
+				selectLines(lines, {
+					start: { type: "line", line: 2 },
+					end: { type: "line", line: 4 },
+				}),
+			).toEqual([false, true, true, true, false]);
+		});
+
+		test("should select only the start line when the end is before it", () => {
+			expect(
+				selectLines(lines, {
+					start: { type: "line", line: 3 },
+					end: { type: "line", line: 1 },
+				}),
+			).toEqual([false, false, true, false, false]);
+		});
+
+		test("should restart regex ranges", () => {
+			expect(
+				selectLines(["a", "x", "b", "y", "a", "z"], {
+					start: { type: "regex", pattern: "^a" },
+					end: { type: "regex", pattern: "^b" },
+				}),
+			).toEqual([true, true, true, false, true, true]);
+		});
+
+		test("should check the end regex from the next line on", () => {
+			expect(
+				selectLines(["ab", "c", "b"], {
+					start: { type: "regex", pattern: "a" },
+					end: { type: "regex", pattern: "b" },
+				}),
+			).toEqual([true, true, true]);
+		});
+	});
+
+	describe("applyCommand", () => {
+		test("should apply substitutions", () => {
+			expect(
+				applyCommand("foo foo", {
+					pattern: "foo",
+					flags: "g",
+					replacement: "bar",
+				}),
+			).toBe("bar bar");
+		});
+
+		test("should apply an occurrence", () => {
+			expect(
+				applyCommand("foo foo foo", {
+					pattern: "foo",
+					flags: "g",
+					replacement: "bar",
+					occurrence: 2,
+				}),
+			).toBe("foo bar bar");
+		});
+
+		test("should only change addressed lines", () => {
+			expect(
+				applyCommand("a\na\na", {
+					pattern: "a",
+					flags: "",
+					replacement: "b",
+					address: { start: { type: "line", line: 2 }, end: { type: "last" } },
+				}),
+			).toBe("a\nb\nb");
+			expect(
+				applyCommand("ab\nab", {
+					type: "y",
+					source: "ab",
+					target: "ba",
+					address: { start: { type: "regex", pattern: "." } },
+				}),
+			).toBe("ba\nba");
+		});
+
+		test("should apply transliterations", () => {
+			expect(
+				applyCommand("abc", { type: "y", source: "abc", target: "ABC" }),
+			).toBe("ABC");
+		});
+	});
+
+	describe("describeCommand", () => {
+		test("should describe both command types", () => {
+			expect(describeCommand({ type: "y", source: "a", target: "b" })).toBe(
+				"y/a/b/",
+			);
+			expect(
+				describeCommand({ pattern: "a", flags: "g", replacement: "b" }),
+			).toBe("/a/g/b/");
+		});
+	});
+});
@@ -2,38 +2,218 @@ import { describe, test, expect } from "bun:test";
 import {
 	SED_PATTERN,
 	getRegexFlags,
-	escapeForMarkdownV2AndBackslashes,
+	getCachedRegex,
+	isSedCommand,
+	parseSedCommand,
+	trackRegexCacheActivity,
 } from "../utils";
+import type { ParsedSubstitution } from "../types";
+
+function parseSubstitution(text: string): ParsedSubstitution | undefined {
+	const parsed = parseSedCommand(text);
+	return parsed?.command === "s" ? parsed : undefined;
+}
 
 describe("utils", () => {
 	describe("SED_PATTERN", () => {
 		test("should match simple sed command", () => {
 			const match = "s/foo/bar/".match(SED_PATTERN);
 			expect(match).not.toBeNull();
-			expect(match![1]).toBe("foo");
-			expect(match![2]).toBe("bar");
-			expect(match![3] || "").toBe("");
+			expect(match![1]).toBe("/");
+			expect(match![2]).toBe("foo");
+			expect(match![3]).toBe("bar");
+			expect(match![4] || "").toBe("");
 		});
 
 		test("should match sed command with flags", () => {
 			const match = "s/foo/bar/gi".match(SED_PATTERN);
 			expect(match).not.toBeNull();
-			expect(match![1]).toBe("foo");
-			expect(match![2]).toBe("bar");
-			expect(match![3]).toBe("gi");
+			expect(match![2]).toBe("foo");
+			expect(match![3]).toBe("bar");
+			expect(match![4]).toBe("gi");
 		});
 
 		test("should match sed command with escaped slashes", () => {
 			const match = "s/foo\\/bar/baz/".match(SED_PATTERN);
 			expect(match).not.toBeNull();
-			expect(match![1]).toBe("foo\\/bar");
-			expect(match![2]).toBe("baz");
+			expect(match![2]).toBe("foo\\/bar");
+			expect(match![3]).toBe("baz");
 		});
 
 		test("should not match invalid sed command", () => {
 			const match = "not-a-sed-command".match(SED_PATTERN);
 			expect(match).toBeNull();
 		});
+
+		test("should match custom delimiters", () => {
+			expect(SED_PATTERN.test("s|foo|bar|")).toBe(true);
+			expect(SED_PATTERN.test("s#foo#bar#g")).toBe(true);
+			expect(SED_PATTERN.test("s,foo,bar,")).toBe(true);
+		});
+
+		test("should not treat letters, digits or whitespace as delimiters", () => {
+			expect(SED_PATTERN.test("sure, but not sure")).toBe(false);
+			expect(SED_PATTERN.test("s1a1b1")).toBe(false);
+			expect(SED_PATTERN.test("s a b ")).toBe(false);
+		});
+	});
+
+	describe("parseSedCommand", () => {
+		test("should not take prose starting with s and punctuation for a command", () => {
+			expect(isSedCommand("s'pose it's fine")).toBe(false);
+			expect(isSedCommand("s-he said-x")).toBe(false);
+			expect(isSedCommand("s.t. this.is.fine")).toBe(false);
+			expect(isSedCommand("s-he said-x-")).toBe(true);
+			expect(isSedCommand("s#a#b#2g")).toBe(true);
+		});
+
+		test("should parse a slash-delimited command", () => {
+			expect(parseSedCommand("s/foo/bar/g")).toEqual({
+				command: "s",
+				delimiter: "/",
+				pattern: "foo",
+				replacement: "bar",
+				flags: "g",
+			});
+		});
+
+		test("should default flags to an empty string", () => {
+			expect(parseSubstitution("s/foo/bar")?.flags).toBe("");
+		});
+
+		test("should parse paths without escaping slashes", () => {
+			const parsed = parseSubstitution("s|/usr/bin|/opt/bin|g");
+			expect(parsed?.pattern).toBe("/usr/bin");
+			expect(parsed?.replacement).toBe("/opt/bin");
+			expect(parsed?.flags).toBe("g");
+		});
+
+		test("should unescape the chosen delimiter", () => {
+			const parsed = parseSubstitution("s#a\\#b#c\\#d#");
+			expect(parsed?.pattern).toBe("a#b");
+			expect(parsed?.replacement).toBe("c#d");
+		});
+
+		test("should keep escaped regex syntax delimiters literal in the pattern", () => {
+			const parsed = parseSubstitution("s|a\\|b|x\\|y|");
+			expect(parsed?.pattern).toBe("a\\|b");
+			expect(new RegExp(parsed!.pattern).test("a|b")).toBe(true);
+			expect(parsed?.replacement).toBe("x|y");
+		});
+
+		test("should leave other escapes untouched", () => {
+			const parsed = parseSubstitution("s,\\d+\\,,\\1,");
+			expect(parsed?.pattern).toBe("\\d+,");
+			expect(parsed?.replacement).toBe("\\1");
+		});
+
+		test("should not unescape a delimiter preceded by an escaped backslash", () => {
+			const parsed = parseSubstitution("s/a\\\\/b/");
+			expect(parsed?.pattern).toBe("a\\\\");
+			expect(parsed?.replacement).toBe("b");
+		});
+
+		test("should return null for non-commands", () => {
+			expect(parseSedCommand("hello world")).toBeNull();
+			expect(parseSedCommand("s/")).toBeNull();
+		});
+	});
+
+	describe("parseSedCommand (y)", () => {
+		test("should parse a transliteration", () => {
+			expect(parseSedCommand("y/abc/xyz/")).toEqual({
+				command: "y",
+				delimiter: "/",
+				source: "abc",
+				target: "xyz",
+			});
+		});
+
+		test("should support custom delimiters and escapes", () => {
+			expect(parseSedCommand("y|a\\|b|x\\|y|")).toMatchObject({
+				source: "a|b",
+				target: "x|y",
+			});
+			expect(parseSedCommand("y/\\n/ /")).toMatchObject({
+				source: "\n",
+				target: " ",
+			});
+		});
+
+		test("should count astral characters as single characters", () => {
+			expect(parseSedCommand("y/😀a/😢b/")).toMatchObject({
+				source: "😀a",
+				target: "😢b",
+			});
+		});
+
+		test("should reject mismatched or empty strings", () => {
+			expect(parseSedCommand("y/abc/xy/")).toBeNull();
+			expect(parseSedCommand("y///")).toBeNull();
+			expect(parseSedCommand("y'all know'")).toBeNull();
+		});
+	});
+
+	describe("parseSedCommand (addresses)", () => {
+		test("should parse a line number address", () => {
+			expect(parseSedCommand("3s/a/b/")).toMatchObject({
+				command: "s",
+				address: { start: { type: "line", line: 3 } },
+				pattern: "a",
+			});
+		});
+
+		test("should parse ranges and the last line", () => {
+			expect(parseSedCommand("2,$s/a/b/g")?.address).toEqual({
+				start: { type: "line", line: 2 },
+				end: { type: "last" },
+			});
+		});
+
+		test("should parse regex addresses", () => {
+			expect(parseSedCommand("/^- \\/x/,/end/y/ab/ba/")).toMatchObject({
+				command: "y",
+				address: {
+					start: { type: "regex", pattern: "^- /x" },
+					end: { type: "regex", pattern: "end" },
+				},
+			});
+		});
+
+		test("should reject line zero", () => {
+			expect(parseSedCommand("0s/a/b/")).toBeNull();
+		});
+
+		test("should leave unaddressed commands without an address", () => {
+			expect(parseSedCommand("s/a/b/")).not.toHaveProperty("address");
+		});
+	});
+
+	describe("isSedCommand", () => {
+		test("should detect commands with any delimiter", () => {
+			expect(isSedCommand("s/a/b/")).toBe(true);
+			expect(isSedCommand("s,a,b,")).toBe(true);
+			expect(isSedCommand("so what")).toBe(false);
+			expect(isSedCommand("y/ab/ba/")).toBe(true);
+		});
+	});
+
+	describe("getCachedRegex", () => {
+		test("should reuse compiled regexes", () => {
+			const { result, activity } = trackRegexCacheActivity(() => [
+				getCachedRegex("cache-test-(\\d+)", "g"),
+				getCachedRegex("cache-test-(\\d+)", "g"),
+			]);
+			expect(result[0]).toBe(result[1]);
+			expect(activity).toMatchObject({ hits: 1, misses: 1, compilations: 1 });
+		});
+
+		test("should reset lastIndex of shared regexes", () => {
+			const regex = getCachedRegex("last-index", "g");
+			expect(regex.test("a last-index")).toBe(true);
+			expect(regex.lastIndex).toBeGreaterThan(0);
+			expect(getCachedRegex("last-index", "g").lastIndex).toBe(0);
+		});
 	});
 
 	describe("getRegexFlags", () => {
@@ -59,33 +239,30 @@ describe("utils", () => {
 			const result = getRegexFlags("iigg");
 			expect(result.flags).toBe("gi");
 		});
-	});
-
-	describe("escapeForMarkdownV2AndBackslashes", () => {
-		test("should escape MarkdownV2 special characters", () => {
-			const input = "Hello *world*";
-			const result = escapeForMarkdownV2AndBackslashes(input);
-			expect(result).toBe("Hello \\*world\\*");
-		});
 
-		test("should escape all MarkdownV2 special characters", () => {
-			const input = "_*[]()~`>#+-=|{}.!";
-			const result = escapeForMarkdownV2AndBackslashes(input);
-			expect(result).toBe(
-				"\\_\\*\\[\\]\\(\\)\\~\\`\\>\\#\\+\\-\\=\\|\\{\\}\\.\\!",
-			);
+		test("should extract a numeric occurrence", () => {
+			expect(getRegexFlags("2").occurrence).toBe(2);
+			expect(getRegexFlags("3g")).toEqual({
+				flags: "g",
+				originalFlags: "3g",
+				occurrence: 3,
+			});
+			expect(getRegexFlags("g12i").occurrence).toBe(12);
 		});
 
-		test("should escape backslashes", () => {
-			const input = "path\\to\\file";
-			const result = escapeForMarkdownV2AndBackslashes(input);
-			expect(result).toBe("path\\\\to\\\\file");
+		test("should read the diff flag in either case", () => {
+			expect(getRegexFlags("gd").diff).toBe(true);
+			expect(getRegexFlags("D")).toEqual({
+				flags: "",
+				originalFlags: "D",
+				diff: true,
+			});
+			expect(getRegexFlags("gi").diff).toBeUndefined();
 		});
 
-		test("should escape both backslashes and MarkdownV2 characters", () => {
-			const input = "Hello\\*world\\*";
-			const result = escapeForMarkdownV2AndBackslashes(input);
-			expect(result).toBe("Hello\\\\\\*world\\\\\\*");
+		test("should ignore a zero occurrence", () => {
+			expect(getRegexFlags("0g").occurrence).toBeUndefined();
+			expect(getRegexFlags("gi").occurrence).toBeUndefined();
 		});
 	});
 });
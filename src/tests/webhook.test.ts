@@ -0,0 +1,130 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Bot } from "grammy";
+import type { ApiResponse } from "grammy/types";
+import type { MyContext } from "../i18n";
+import { WebhookServer } from "../webhook";
+
+const SECRET = "test_secret-123";
+
+describe("WebhookServer", () => {
+	let bot: Bot<MyContext>;
+	let server: WebhookServer;
+	let apiCalls: { method: string; payload: unknown }[];
+	let receivedTexts: string[];
+
+	beforeEach(async () => {
+		apiCalls = [];
+		receivedTexts = [];
+		bot = new Bot<MyContext>("123:test", {
+			botInfo: {
+				id: 123,
+				is_bot: true,
+				first_name: "Test",
+				username: "test_bot",
+				can_join_groups: true,
+				can_read_all_group_messages: false,
+				supports_inline_queries: false,
+				can_connect_to_business: false,
+				has_main_web_app: false,
+				has_topics_enabled: false,
+				allows_users_to_create_topics: false,
+			},
+		});
+		// Intercept API calls instead of talking to Telegram
+		bot.api.config.use(async (_prev, method, payload) => {
+			apiCalls.push({ method, payload });
+			// Every method called here (e.g. setWebhook) returns true
+			const response: ApiResponse<true> = { ok: true, result: true };
+			return response as ApiResponse<never>;
+		});
+		bot.on("message:text", (ctx) => {
+			if (ctx.message.text === "boom") throw new Error("handler failed");
+			receivedTexts.push(ctx.message.text);
+		});
+
+		server = new WebhookServer(bot, {
+			url: "https://example.com/hook",
+			path: "/hook",
+			host: "127.0.0.1",
+			port: 0,
+			secretToken: SECRET,
+		});
+		await server.start();
+	});
+
+	afterEach(async () => {
+		await server.stop();
+	});
+
+	function postUpdate(
+		path: string,
+		secret?: string,
+		text = "hello",
+	): Promise<Response> {
+		const headers: Record<string, string> = {
+			"content-type": "application/json",
+		};
+		if (secret) headers["X-Telegram-Bot-Api-Secret-Token"] = secret;
+		return fetch(`http://127.0.0.1:${server.port}${path}`, {
+			method: "POST",
+			headers,
+			body: JSON.stringify({
+				update_id: 1,
+				message: {
+					message_id: 1,
+					date: 0,
+					chat: { id: 1, type: "private", first_name: "A" },
+					from: { id: 1, is_bot: false, first_name: "A" },
+					text,
+				},
+			}),
+		});
+	}
+
+	test("registers the webhook with the secret token on start", () => {
+		expect(apiCalls[0]).toEqual({
+			method: "setWebhook",
+			payload: { url: "https://example.com/hook", secret_token: SECRET },
+		});
+	});
+
+	test("accepts updates with the correct secret", async () => {
+		const response = await postUpdate("/hook", SECRET);
+		expect(response.status).toBe(200);
+		expect(receivedTexts).toEqual(["hello"]);
+	});
+
+	test("acknowledges updates whose handler throws", async () => {
+		const caught: unknown[] = [];
+		bot.catch(({ error }) => {
+			caught.push(error);
+		});
+
+		const response = await postUpdate("/hook", SECRET, "boom");
+		expect(response.status).toBe(200);
+		expect(caught).toEqual([new Error("handler failed")]);
+	});
+
+	test("acknowledges failed updates without an error handler", async () => {
+		const response = await postUpdate("/hook", SECRET, "boom");
+		expect(response.status).toBe(200);
+	});
+
+	test("rejects updates with a wrong or missing secret", async () => {
+		expect((await postUpdate("/hook", "wrong")).status).toBe(401);
+		expect((await postUpdate("/hook")).status).toBe(401);
+		expect(receivedTexts).toEqual([]);
+	});
+
+	test("only serves the configured path", async () => {
+		expect((await postUpdate("/other", SECRET)).status).toBe(404);
+		const response = await fetch(`http://127.0.0.1:${server.port}/hook`);
+		expect(response.status).toBe(405);
+	});
+
+	test("deletes the webhook on stop", async () => {
+		await server.stop();
+		expect(apiCalls.map((c) => c.method)).toContain("deleteWebhook");
+		expect(server.port).toBeUndefined();
+	});
+});
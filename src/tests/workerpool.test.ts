@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
 import { WorkerPool } from "../workerPool";
 import { TaskMessage } from "../types";
+import { WorkerError } from "../errors";
 
 describe("WorkerPool", () => {
 	let pool: WorkerPool;
@@ -120,6 +121,88 @@ describe("WorkerPool", () => {
 		await expect(pool.run(task)).rejects.toThrow();
 	});
 
+	test("runs a whole command chain in one task", async () => {
+		const task: TaskMessage = {
+			initialText: "hello world",
+			commands: [
+				{ pattern: "hello", flags: "", replacement: "goodbye" },
+				{ type: "y", source: "o", target: "0" },
+				{ pattern: "w(\\w+)", flags: "", replacement: "W$1" },
+			],
+			includePerformance: false,
+		};
+
+		const result = await pool.run(task);
+		expect(result.result).toBe("g00dbye W0rld");
+		expect(result.commandResults).toHaveLength(3);
+		expect(result.commandResults!.every((r) => r.success)).toBe(true);
+	});
+
+	test("reports regex cache activity per task", async () => {
+		const task: TaskMessage = {
+			initialText: "aaa",
+			commands: [
+				{ pattern: "a", flags: "g", replacement: "b" },
+				{ pattern: "a", flags: "g", replacement: "b" },
+			],
+			includePerformance: false,
+		};
+
+		const first = await pool.run(task);
+		expect(first.regexCache).toMatchObject({
+			hits: 1,
+			misses: 1,
+			compilations: 1,
+		});
+		const second = await pool.run(task);
+		expect(second.regexCache).toMatchObject({ hits: 2, compilations: 0 });
+		expect(pool.getRegexCacheSize()).toBe(1);
+	});
+
+	test("reports which command in a chain failed", async () => {
+		const task: TaskMessage = {
+			initialText: "test",
+			commands: [
+				{ pattern: "t", flags: "", replacement: "T" },
+				{ pattern: "[invalid", flags: "", replacement: "fixed" },
+				{ pattern: "e", flags: "", replacement: "E" },
+			],
+			includePerformance: false,
+		};
+
+		const error = await pool.run(task).catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(WorkerError);
+		const context = (error as WorkerError).context!;
+		expect(context.failedCommandIndex).toBe(1);
+		expect(context.commandResults).toEqual([
+			{ success: true },
+			{ success: false, error: expect.any(String) },
+		]);
+	});
+
+	test("finds matches in a match task", async () => {
+		const result = await pool.run({
+			type: "match",
+			text: "cat hat",
+			pattern: "(\\w)at",
+			flags: "",
+			maxMatches: 10,
+		});
+		expect(result.matchCount).toBe(2);
+		expect(result.matches?.map((match) => match.groups)).toEqual([
+			["c"],
+			["h"],
+		]);
+	});
+
+	test("reports invalid patterns in a match task", async () => {
+		const error = await pool
+			.run({ type: "match", text: "a", pattern: "(", flags: "", maxMatches: 1 })
+			.catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(WorkerError);
+		expect((error as WorkerError).context?.failedCommandIndex).toBe(0);
+	});
+
 	test("pool continues working after errors", async () => {
 		const validTask: TaskMessage = {
 			initialText: "hello",
@@ -243,4 +326,76 @@ describe("WorkerPool", () => {
 			}
 		}
 	});
+
+	test("invalid patterns don't trip the worker circuit", async () => {
+		const strictPool = new WorkerPool({
+			maxWorkers: 1,
+			minWorkers: 1,
+			initialWorkers: 1,
+			taskTimeoutMs: 5000,
+			idleTimeoutMs: 100,
+			idleCheckIntervalMs: 50,
+			workerScript: "./src/hellspawn.ts",
+			circuitBreaker: { failureThreshold: 1 },
+		});
+		try {
+			await expect(
+				strictPool.run({
+					initialText: "test",
+					commands: [{ pattern: "[invalid", flags: "", replacement: "x" }],
+					includePerformance: false,
+				}),
+			).rejects.toThrow(WorkerError);
+			expect(strictPool.getCircuitBreakerStats().state).toBe("CLOSED");
+		} finally {
+			await strictPool.shutdown();
+		}
+	});
+
+	test("timeouts don't trip the worker circuit", async () => {
+		const strictPool = new WorkerPool({
+			maxWorkers: 1,
+			minWorkers: 1,
+			initialWorkers: 1,
+			taskTimeoutMs: 200,
+			idleTimeoutMs: 100,
+			idleCheckIntervalMs: 50,
+			workerScript: "./src/hellspawn.ts",
+			circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 },
+		});
+		const task: TaskMessage = {
+			initialText: `${"a".repeat(40)}!`,
+			commands: [{ pattern: "(a+)+$", flags: "", replacement: "x" }],
+			includePerformance: false,
+		};
+		try {
+			for (let i = 0; i < 3; i++) {
+				await expect(strictPool.run(task)).rejects.toThrow("timed out");
+			}
+			const stats = strictPool.getCircuitBreakerStats();
+			expect(stats.name).toBe("worker");
+			expect(stats.state).toBe("CLOSED");
+			const result = await strictPool.run({
+				initialText: "abc",
+				commands: [{ pattern: "b", flags: "", replacement: "x" }],
+				includePerformance: false,
+			});
+			expect(result.result).toBe("axc");
+		} finally {
+			await strictPool.shutdown();
+		}
+	});
+
+	test("applies a per-task timeout", async () => {
+		const task: TaskMessage = {
+			initialText: `${"a".repeat(40)}!`,
+			commands: [{ pattern: "(a+)+$", flags: "", replacement: "x" }],
+			includePerformance: false,
+		};
+		const start = Date.now();
+		await expect(pool.run(task, { timeoutMs: 200 })).rejects.toThrow(
+			"timed out after 0.2s",
+		);
+		expect(Date.now() - start).toBeLessThan(2000);
+	});
 });
@@ -1,3 +1,5 @@
+import type { MessageEntity } from "grammy/types";
+
 // Define the available log levels in order of severity
 export type LogLevel = "none" | "debug" | "info" | "warn" | "error" | "fatal";
 
@@ -10,22 +12,160 @@ export const LOG_LEVELS: Record<Exclude<LogLevel, "none">, number> = {
 	fatal: 4,
 };
 
+// One side of a sed address: a line number, the last line ($) or /regex/
+export type SedAddressPart =
+	| { type: "line"; line: number }
+	| { type: "last" }
+	| { type: "regex"; pattern: string };
+
+// Lines a command applies to, e.g. 3, $, /re/ or a range like 2,5
+export interface SedAddress {
+	start: SedAddressPart;
+	end?: SedAddressPart;
+}
+
+// A sed command as written by the user, with delimiter escapes removed
+export interface ParsedSubstitution {
+	command: "s";
+	address?: SedAddress;
+	delimiter: string;
+	pattern: string;
+	replacement: string;
+	flags: string;
+}
+
+// A y/source/target/ transliteration as written by the user, escapes decoded
+export interface ParsedTransliteration {
+	command: "y";
+	address?: SedAddress;
+	delimiter: string;
+	source: string;
+	target: string;
+}
+
+export type ParsedSedCommand = ParsedSubstitution | ParsedTransliteration;
+
 // Define the structure of the data sent to the worker
 export interface SedCommand {
+	type?: "s";
 	pattern: string;
 	flags: string;
 	replacement: string;
+	// Replace only the Nth match (or the Nth onward with the g flag)
+	occurrence?: number;
+	address?: SedAddress;
+}
+
+// Character-by-character translation, source and target have equal length
+export interface TransliterationCommand {
+	type: "y";
+	source: string;
+	target: string;
+	address?: SedAddress;
 }
 
+export type WorkerCommand = SedCommand | TransliterationCommand;
+
 export interface TaskMessage {
+	type?: "sed";
 	initialText: string;
-	commands: SedCommand[];
+	commands: WorkerCommand[];
 	includePerformance: boolean;
+	// Formatting of initialText, moved along with the text each command keeps
+	entities?: MessageEntity[];
+}
+
+// A span of a command's input replaced by `length` characters of new text
+export interface TextEdit {
+	start: number;
+	end: number;
+	length: number;
+}
+
+// Find the matches of a single pattern instead of changing text (/test)
+export interface MatchTaskMessage {
+	type: "match";
+	text: string;
+	pattern: string;
+	flags: string;
+	// Stop after this many matches
+	maxMatches: number;
+}
+
+export type WorkerTask = TaskMessage | MatchTaskMessage;
+
+// One match found by a match task
+export interface RegexMatch {
+	index: number;
+	text: string;
+	// Numbered capture groups, undefined when a group did not participate
+	groups: (string | undefined)[];
+	namedGroups?: Record<string, string | undefined>;
+}
+
+// Outcome of a single command within a chain
+export interface CommandResult {
+	success: boolean;
+	error?: string;
+	durationMs?: number;
+}
+
+// Regex cache activity in a worker during one task (size is absolute)
+export interface RegexCacheActivity {
+	hits: number;
+	misses: number;
+	evictions: number;
+	expirations: number;
+	compilations: number;
+	size: number;
 }
 
 export interface ResultMessage {
+	// Final text, or the text before the failing command when error is set
 	result: string;
 	performanceMs: number | null;
 	error?: string;
 	taskId?: number;
+	// One entry per executed command; the chain stops at the first failure
+	commandResults?: CommandResult[];
+	failedCommandIndex?: number;
+	regexCache?: RegexCacheActivity;
+	// Formatting of result, set when the task had entities
+	entities?: MessageEntity[];
+	// Set for match tasks; matchCount also counts matches beyond maxMatches
+	matches?: RegexMatch[];
+	matchCount?: number;
+}
+
+// What happens to a command whose pattern can backtrack catastrophically:
+// run it with a warning, refuse high-risk ones, or run it with a short timeout
+export type DangerPolicy = "warn" | "block" | "sandbox";
+
+// Settings chosen by the admins of a chat, unset fields use the defaults
+export interface ChatSettings {
+	// Locale every member is answered in, ahead of their own preference
+	language?: string;
+	// Show optimization tips after substitutions
+	tips?: boolean;
+	// Warn about patterns prone to catastrophic backtracking
+	dangerWarnings?: boolean;
+	// Policy for dangerous patterns (unset uses CONFIG.DANGER_POLICY)
+	dangerPolicy?: DangerPolicy;
+	// Only substitute in messages the command replies to, never from history
+	replyOnly?: boolean;
+	// Commands run per message, at most CONFIG.MAX_CHAIN_LENGTH
+	maxChainLength?: number;
+	// Flag letters users may use, e.g. "gi" (unset allows all)
+	allowedFlags?: string;
+}
+
+// A result the bot showed for a target, numbered from 1 in the order shown
+export interface CorrectionVersion {
+	version: number;
+	// The reply as shown, with any diff or timing
+	text: string;
+	entities: MessageEntity[];
+	// The corrected text alone, which later commands can change further
+	resultText: string;
+	resultEntities: MessageEntity[];
 }
@@ -1,10 +1,50 @@
 // utils.ts
 import { LRUCache } from "./lruCache";
 import { CONFIG } from "./config";
+import type {
+	ParsedSedCommand,
+	RegexCacheActivity,
+	SedAddress,
+	SedAddressPart,
+} from "./types";
 
-// Regex for sed command, reverting to the original non-greedy version.
+// Regex for sed command. Like real sed, any character may follow the "s" as
+// the delimiter, except letters, digits, whitespace and backslash (so plain
+// words starting with "s" are never mistaken for commands).
+// Groups: 1 = delimiter, 2 = pattern, 3 = replacement, 4 = flags.
 export const SED_PATTERN =
-	/^s\/((?:\\.|[^/])+?)\/((?:\\.|[^/])*?)(?:\/([^]*))?$/;
+	/^s([^\p{L}\p{N}\s\\])((?:\\[^]|(?!\1)[^])+?)\1((?:\\[^]|(?!\1)[^])*?)(?:\1([^]*))?$/u;
+
+// Regex for a y/source/target/ transliteration command, same delimiter rules.
+// Groups: 1 = delimiter, 2 = source characters, 3 = target characters.
+export const TRANSLITERATE_PATTERN =
+	/^y([^\p{L}\p{N}\s\\])((?:\\[^]|(?!\1)[^])*?)\1((?:\\[^]|(?!\1)[^])*?)\1$/u;
+
+// A single sed address: a line number, $ (last line) or /regex/
+const ADDRESS_PART = String.raw`\d+|\$|\/(?:\\[^]|[^/\\])+\/`;
+
+// Optional address (or address range) in front of a command, e.g. "2,5s/a/b/".
+// Groups: 1 = start address, 2 = end address.
+export const ADDRESS_PATTERN = new RegExp(
+	`^(${ADDRESS_PART})(?:,(${ADDRESS_PART}))?(?=[sy])`,
+	"u",
+);
+
+// Matches the beginning of a line that starts a sed (s or y) command
+export const SED_COMMAND_START = new RegExp(
+	`^(?:(?:${ADDRESS_PART})(?:,(?:${ADDRESS_PART}))?)?[sy][^\\p{L}\\p{N}\\s\\\\]`,
+	"u",
+);
+
+// Flags after the closing delimiter: regex and bot flags, and an occurrence.
+// Commands with a delimiter other than "/" must close with a delimiter and
+// valid flags, so prose like "s'pose it's fine" is never taken for one.
+const COMMAND_FLAGS_PATTERN = /^[gimsuypd\d]*$/i;
+
+// Characters with a special meaning in regex syntax. An escaped delimiter that
+// is one of these must stay escaped, otherwise s|a\|b|x| would turn the literal
+// "|" into an alternation.
+const REGEX_SYNTAX_CHARS = "^$\\.*+?()[]{}|";
 
 // LRU Cache for compiled regex patterns with TTL support
 const regexCache = new LRUCache<string, RegExp>(
@@ -12,14 +52,22 @@ const regexCache = new LRUCache<string, RegExp>(
 	CONFIG.CACHE_TTL_MS,
 );
 
+// Number of RegExp objects compiled through getCachedRegex
+let regexCompilations = 0;
+
 /**
  * Get or create a cached compiled regex
+ *
+ * Cached instances are shared, so lastIndex is reset before returning to keep
+ * global and sticky regexes from carrying state between uses.
+ *
  * @param pattern - The regex pattern string
  * @param flags - Regex flags (e.g., 'gi')
  * @returns Compiled RegExp
  */
 export function getCachedRegex(pattern: string, flags: string): RegExp {
 	if (!CONFIG.CACHE_ENABLED) {
+		regexCompilations++;
 		return new RegExp(pattern, flags);
 	}
 
@@ -28,9 +76,11 @@ export function getCachedRegex(pattern: string, flags: string): RegExp {
 
 	if (!regex) {
 		regex = new RegExp(pattern, flags);
+		regexCompilations++;
 		regexCache.set(key, regex);
 	}
 
+	regex.lastIndex = 0;
 	return regex;
 }
 
@@ -42,19 +92,164 @@ export function getRegexCacheStats(): {
 	maxSize: number;
 	ttl: number;
 	enabled: boolean;
+	hits: number;
+	misses: number;
+	evictions: number;
+	expirations: number;
+	compilations: number;
 } {
+	const { hits, misses, evictions, expirations } = regexCache.getStats();
 	return {
 		size: regexCache.size,
 		maxSize: CONFIG.CACHE_MAX_SIZE,
 		ttl: CONFIG.CACHE_TTL_MS,
 		enabled: CONFIG.CACHE_ENABLED,
+		hits,
+		misses,
+		evictions,
+		expirations,
+		compilations: regexCompilations,
+	};
+}
+
+/**
+ * Measure regex cache activity while running a function
+ * Used by workers to report their (thread-local) cache usage per task
+ */
+export function trackRegexCacheActivity<T>(fn: () => T): {
+	result: T;
+	activity: RegexCacheActivity;
+} {
+	const before = getRegexCacheStats();
+	const result = fn();
+	const after = getRegexCacheStats();
+	return {
+		result,
+		activity: {
+			hits: after.hits - before.hits,
+			misses: after.misses - before.misses,
+			evictions: after.evictions - before.evictions,
+			expirations: after.expirations - before.expirations,
+			compilations: after.compilations - before.compilations,
+			size: after.size,
+		},
 	};
 }
 
+/**
+ * Removes the escaping from delimiter characters inside one part of a sed command
+ * @param text - The raw pattern or replacement
+ * @param delimiter - The delimiter used by the command
+ * @param isPattern - Whether text is a regex pattern (keeps regex syntax escaped)
+ */
+function unescapeDelimiter(
+	text: string,
+	delimiter: string,
+	isPattern: boolean,
+): string {
+	return text.replace(/\\([^])/gu, (sequence, char: string) => {
+		if (char !== delimiter) return sequence;
+		return isPattern && REGEX_SYNTAX_CHARS.includes(char) ? sequence : char;
+	});
+}
+
+/**
+ * Decodes one side of a y command: \\, \n, \t and the escaped delimiter
+ */
+function decodeTransliteration(text: string, delimiter: string): string {
+	return text.replace(/\\([^])/gu, (sequence, char: string) => {
+		if (char === delimiter || char === "\\") return char;
+		if (char === "n") return "\n";
+		if (char === "t") return "\t";
+		return sequence;
+	});
+}
+
+/**
+ * Parse a single sed command with an arbitrary delimiter and optional address
+ * @param text - The command text, e.g. "s/foo/bar/g", "2,5s|a/b|c|" or "y/abc/xyz/"
+ * @returns The parsed command, or null if the text is not a sed command
+ */
+export function parseSedCommand(text: string): ParsedSedCommand | null {
+	let address: SedAddress | undefined;
+	let command = text;
+	const addressMatch = text.match(ADDRESS_PATTERN);
+	if (addressMatch) {
+		const start = parseAddressPart(addressMatch[1]);
+		const end = addressMatch[2] ? parseAddressPart(addressMatch[2]) : null;
+		if (!start || (addressMatch[2] && !end)) return null;
+		address = end ? { start, end } : { start };
+		command = text.slice(addressMatch[0].length);
+	}
+
+	const parsed = parseUnaddressedCommand(command);
+	return parsed && address ? { ...parsed, address } : parsed;
+}
+
+/**
+ * Parse one side of an address ("3", "$" or "/regex/")
+ */
+function parseAddressPart(raw: string): SedAddressPart | null {
+	if (raw === "$") return { type: "last" };
+	if (raw.startsWith("/")) {
+		return {
+			type: "regex",
+			pattern: unescapeDelimiter(raw.slice(1, -1), "/", true),
+		};
+	}
+	const line = parseInt(raw, 10);
+	// Lines are numbered from 1, like sed
+	return line > 0 ? { type: "line", line } : null;
+}
+
+function parseUnaddressedCommand(command: string): ParsedSedCommand | null {
+	const transliteration = command.match(TRANSLITERATE_PATTERN);
+	if (transliteration) {
+		const [, delimiter, rawSource, rawTarget] = transliteration;
+		const source = decodeTransliteration(rawSource, delimiter);
+		const target = decodeTransliteration(rawTarget, delimiter);
+		// Like sed, both sides must map character for character. Anything else
+		// is treated as ordinary text (e.g. "y'all ... '" in conversation).
+		if (source.length === 0 || [...source].length !== [...target].length) {
+			return null;
+		}
+		return { command: "y", delimiter, source, target };
+	}
+
+	const match = command.match(SED_PATTERN);
+	if (!match) return null;
+
+	const [, delimiter, pattern, replacement, flags] = match;
+	if (
+		delimiter !== "/" &&
+		(flags === undefined || !COMMAND_FLAGS_PATTERN.test(flags))
+	) {
+		return null;
+	}
+	return {
+		command: "s",
+		delimiter,
+		pattern: unescapeDelimiter(pattern, delimiter, true),
+		replacement: unescapeDelimiter(replacement, delimiter, false),
+		flags: flags ?? "",
+	};
+}
+
+/**
+ * Check whether a whole text is a sed command
+ */
+export function isSedCommand(text: string): boolean {
+	return parseSedCommand(text) !== null;
+}
+
 // Helper function to get regex flags from a sed command
+// A number in the flags (e.g. "2" or "3g") selects the Nth occurrence, like GNU sed
+// and d asks for the result as a diff against the original text
 export function getRegexFlags(flagsMatch: string | undefined): {
 	flags: string;
 	originalFlags: string | undefined;
+	occurrence?: number;
+	diff?: boolean;
 } {
 	if (!flagsMatch) return { flags: "", originalFlags: undefined };
 	const originalFlags = flagsMatch;
@@ -65,14 +260,13 @@ export function getRegexFlags(flagsMatch: string | undefined): {
 		.map((char) => char.toLowerCase())
 		.sort()
 		.join("");
-	return { flags, originalFlags };
-}
-
-// Function to escape MarkdownV2 special characters and literal backslashes correctly
-export function escapeForMarkdownV2AndBackslashes(text: string): string {
-	// First, escape any literal backslashes in the original text.
-	let escapedText = text.replace(/\\/g, "\\\\");
-	// Then, escape all MarkdownV2 special characters with a single backslash.
-	escapedText = escapedText.replace(/([_*[\]()~`>#+\-=|{}.!])/g, "\\$1");
-	return escapedText;
+	const occurrenceMatch = rawFlags.match(/\d+/);
+	const occurrence = occurrenceMatch ? parseInt(occurrenceMatch[0], 10) : 0;
+	const diff = /d/i.test(rawFlags);
+	return {
+		flags,
+		originalFlags,
+		...(occurrence > 0 && { occurrence }),
+		...(diff && { diff }),
+	};
 }
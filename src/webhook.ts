@@ -0,0 +1,126 @@
+/**
+ * Webhook server for receiving updates from Telegram
+ *
+ * Alternative to long polling for deployments behind a reverse proxy. Runs a
+ * Bun HTTP server that hands updates to grammY, rejecting requests that do
+ * not carry the configured secret token.
+ */
+
+import { type Bot, BotError, webhookCallback } from "grammy";
+import type { Server } from "bun";
+import { Logger } from "./logger";
+import type { MyContext } from "./i18n";
+
+const logger = new Logger("Webhook");
+
+/**
+ * Webhook server options
+ */
+export interface WebhookOptions {
+	/** Public URL Telegram sends updates to (as seen through the proxy) */
+	url: string;
+	/** Local path the server accepts updates on */
+	path: string;
+	/** Interface to bind to */
+	host: string;
+	/** Port to listen on */
+	port: number;
+	/** Secret token Telegram sends in X-Telegram-Bot-Api-Secret-Token */
+	secretToken: string;
+}
+
+/**
+ * Serves the bot's webhook endpoint and registers it with Telegram
+ */
+export class WebhookServer {
+	private server: Server<undefined> | null = null;
+
+	constructor(
+		private bot: Bot<MyContext>,
+		private options: WebhookOptions,
+	) {}
+
+	/**
+	 * Start the HTTP server, then point Telegram at it
+	 */
+	async start(): Promise<void> {
+		const { url, path, host, port, secretToken } = this.options;
+
+		// Answer Telegram right away on slow updates (e.g. long regex runs) and
+		// keep processing in the background, so the update is not redelivered
+		const handleUpdate = webhookCallback(this.bot, "bun", {
+			secretToken,
+			onTimeout: "return",
+		});
+
+		this.server = Bun.serve({
+			hostname: host,
+			port,
+			fetch: async (request) => {
+				const { pathname } = new URL(request.url);
+				if (pathname !== path) {
+					return new Response("Not Found", { status: 404 });
+				}
+				if (request.method !== "POST") {
+					return new Response("Method Not Allowed", { status: 405 });
+				}
+				try {
+					return await handleUpdate(request);
+				} catch (error) {
+					// Telegram redelivers an update until it gets a 200, so a
+					// failing handler is reported here and the update acknowledged
+					await this.handleError(error);
+					return new Response(null, { status: 200 });
+				}
+			},
+		});
+		logger.info(
+			`Webhook server listening on ${host}:${this.server.port}${path}`,
+		);
+
+		await this.bot.api.setWebhook(url, { secret_token: secretToken });
+		logger.info(`Webhook registered with Telegram: ${url}`);
+	}
+
+	/**
+	 * Pass an update that failed to the bot's error handler, like polling does
+	 */
+	private async handleError(error: unknown): Promise<void> {
+		if (!(error instanceof BotError)) {
+			logger.error(`Failed to handle webhook request: ${error}`);
+			return;
+		}
+		try {
+			await this.bot.errorHandler(error);
+		} catch (handlerError) {
+			logger.error(`Failed to handle update: ${handlerError}`);
+		}
+	}
+
+	/**
+	 * Unregister the webhook and stop the HTTP server
+	 *
+	 * Pending updates are kept by Telegram and delivered on the next start.
+	 */
+	async stop(): Promise<void> {
+		try {
+			await this.bot.api.deleteWebhook();
+			logger.info("Webhook removed from Telegram.");
+		} catch (error) {
+			logger.error(`Failed to delete webhook: ${error}`);
+		}
+
+		if (this.server) {
+			await this.server.stop();
+			this.server = null;
+			logger.info("Webhook server stopped.");
+		}
+	}
+
+	/**
+	 * Port the server is bound to (useful when configured with port 0)
+	 */
+	get port(): number | undefined {
+		return this.server?.port;
+	}
+}
@@ -1,7 +1,17 @@
 import { Logger } from "./logger";
-import type { TaskMessage, ResultMessage } from "./types";
-import { HealthMonitor, type HealthMetrics } from "./healthMonitor";
+import type { ResultMessage, WorkerTask } from "./types";
+import {
+	HealthMonitor,
+	type DurationHistogram,
+	type HealthMetrics,
+} from "./healthMonitor";
 import { WorkerError } from "./errors";
+import { recordRegexCacheActivity } from "./metrics";
+import {
+	CircuitBreaker,
+	type CircuitBreakerOptions,
+	type CircuitBreakerStats,
+} from "./circuitBreaker";
 
 const logger = new Logger("WorkerPool");
 
@@ -12,6 +22,8 @@ interface WorkerState {
 	worker: Worker;
 	isIdle: boolean;
 	lastActiveTime: number;
+	/** Size of the worker's regex cache as of its last task */
+	regexCacheSize: number;
 }
 
 /**
@@ -32,6 +44,31 @@ export interface WorkerPoolConfig {
 	idleCheckIntervalMs: number;
 	/** Path to worker script */
 	workerScript: string;
+	/** Overrides for the "worker" circuit breaker guarding run() */
+	circuitBreaker?: Partial<CircuitBreakerOptions>;
+}
+
+/**
+ * Options for a single task
+ */
+export interface TaskOptions {
+	/** Timeout for this task, instead of the pool's taskTimeoutMs */
+	timeoutMs?: number;
+}
+
+/**
+ * Whether a failed task points at the workers rather than at the task.
+ * Per-command errors (e.g. an invalid regex), timeouts of slow patterns and
+ * shutdown rejections don't count; worker crashes do. One user sending slow
+ * patterns must not stop corrections for every chat.
+ */
+function isWorkerFailure(error: unknown): boolean {
+	if (error instanceof WorkerError) {
+		return !["worker_execution", "timeout", "shutdown"].includes(
+			error.operation,
+		);
+	}
+	return true;
 }
 
 /**
@@ -49,7 +86,8 @@ export class WorkerPool {
 	private workers: Map<Worker, WorkerState> = new Map();
 	/** Central FIFO task queue */
 	private taskQueue: Array<{
-		task: TaskMessage;
+		task: WorkerTask;
+		timeoutMs: number;
 		resolve: (value: ResultMessage) => void;
 		reject: (reason?: unknown) => void;
 	}> = [];
@@ -59,6 +97,7 @@ export class WorkerPool {
 			resolve: (value: ResultMessage) => void;
 			reject: (reason?: unknown) => void;
 			timeout: NodeJS.Timeout;
+			timeoutMs: number;
 			startTime: number;
 		}
 	>();
@@ -66,6 +105,7 @@ export class WorkerPool {
 	private idleCheckInterval: NodeJS.Timeout | null = null;
 	private isShuttingDown = false;
 	private healthMonitor: HealthMonitor;
+	private circuitBreaker: CircuitBreaker;
 
 	constructor(config: WorkerPoolConfig) {
 		this.config = config;
@@ -82,6 +122,11 @@ export class WorkerPool {
 			errorRateThreshold: 0.1,
 		});
 
+		this.circuitBreaker = new CircuitBreaker("worker", {
+			isFailure: isWorkerFailure,
+			...config.circuitBreaker,
+		});
+
 		// Spawn initial workers
 		for (let i = 0; i < config.initialWorkers; i++) {
 			this.spawnWorker();
@@ -123,6 +168,7 @@ export class WorkerPool {
 					worker,
 					isIdle: true,
 					lastActiveTime: Date.now(),
+					regexCacheSize: 0,
 				};
 
 				worker.onmessage = (event) =>
@@ -181,8 +227,8 @@ export class WorkerPool {
 
 		// Assign task to idle worker
 		if (idleWorker && this.taskQueue.length > 0) {
-			const { task, resolve, reject } = this.taskQueue.shift()!;
-			this.assignTaskToWorker(idleWorker, task, resolve, reject);
+			const { task, timeoutMs, resolve, reject } = this.taskQueue.shift()!;
+			this.assignTaskToWorker(idleWorker, task, timeoutMs, resolve, reject);
 
 			// Try to process more tasks if available
 			this.processQueue();
@@ -210,8 +256,8 @@ export class WorkerPool {
 
 		// Assign task to idle worker
 		if (idleWorker && this.taskQueue.length > 0) {
-			const { task, resolve, reject } = this.taskQueue.shift()!;
-			this.assignTaskToWorker(idleWorker, task, resolve, reject);
+			const { task, timeoutMs, resolve, reject } = this.taskQueue.shift()!;
+			this.assignTaskToWorker(idleWorker, task, timeoutMs, resolve, reject);
 
 			// Try to process more tasks if available
 			this.processQueueDuringShutdown();
@@ -223,7 +269,8 @@ export class WorkerPool {
 	 */
 	private assignTaskToWorker(
 		worker: Worker,
-		task: TaskMessage,
+		task: WorkerTask,
+		timeoutMs: number,
 		resolve: (value: ResultMessage) => void,
 		reject: (reason?: unknown) => void,
 	): void {
@@ -233,13 +280,14 @@ export class WorkerPool {
 		// Set up timeout
 		const timeout = setTimeout(() => {
 			this.handleWorkerTimeout(worker);
-		}, this.config.taskTimeoutMs);
+		}, timeoutMs);
 
 		// Track pending task
 		this.pendingTasks.set(worker, {
 			resolve,
 			reject,
 			timeout,
+			timeoutMs,
 			startTime: Date.now(),
 		});
 
@@ -261,6 +309,13 @@ export class WorkerPool {
 		const pending = this.pendingTasks.get(worker);
 		const state = this.workers.get(worker);
 
+		if (result.regexCache) {
+			recordRegexCacheActivity(result.regexCache);
+			if (state) {
+				state.regexCacheSize = result.regexCache.size;
+			}
+		}
+
 		if (pending) {
 			clearTimeout(pending.timeout);
 			this.pendingTasks.delete(worker);
@@ -269,7 +324,12 @@ export class WorkerPool {
 			const duration = Date.now() - pending.startTime;
 			if (result.error) {
 				this.healthMonitor.recordError();
-				pending.reject(new WorkerError(result.error, "worker_execution"));
+				pending.reject(
+					new WorkerError(result.error, "worker_execution", undefined, {
+						failedCommandIndex: result.failedCommandIndex,
+						commandResults: result.commandResults,
+					}),
+				);
 			} else {
 				this.healthMonitor.recordSuccess(duration);
 				pending.resolve(result);
@@ -322,14 +382,18 @@ export class WorkerPool {
 	 * Handle worker task timeout
 	 */
 	private handleWorkerTimeout(worker: Worker): void {
-		logger.warn(`Worker task timed out after ${this.config.taskTimeoutMs}ms`);
-
 		const pending = this.pendingTasks.get(worker);
+		const timeoutMs = pending?.timeoutMs ?? this.config.taskTimeoutMs;
+		logger.warn(`Worker task timed out after ${timeoutMs}ms`);
+
 		if (pending) {
 			this.pendingTasks.delete(worker);
 			pending.reject(
-				new Error(
-					`Regex operation timed out after ${this.config.taskTimeoutMs / 1000}s. Please use a simpler pattern.`,
+				new WorkerError(
+					`Regex operation timed out after ${timeoutMs / 1000}s. Please use a simpler pattern.`,
+					"timeout",
+					undefined,
+					{ timeout: timeoutMs },
 				),
 			);
 		}
@@ -427,8 +491,27 @@ export class WorkerPool {
 	/**
 	 * Submit a task to the worker pool
 	 * This is the main public API
+	 *
+	 * Rejects with a CircuitBreakerError while the "worker" circuit is open
+	 */
+	public run(
+		taskData: WorkerTask,
+		options: TaskOptions = {},
+	): Promise<ResultMessage> {
+		return this.circuitBreaker.execute(() => this.enqueue(taskData, options));
+	}
+
+	/**
+	 * Get the state of the circuit breaker guarding run()
 	 */
-	public run(taskData: TaskMessage): Promise<ResultMessage> {
+	public getCircuitBreakerStats(): CircuitBreakerStats {
+		return this.circuitBreaker.getStats();
+	}
+
+	private enqueue(
+		taskData: WorkerTask,
+		options: TaskOptions,
+	): Promise<ResultMessage> {
 		if (this.isShuttingDown) {
 			return Promise.reject(
 				new WorkerError("Worker pool is shutting down", "shutdown"),
@@ -438,11 +521,34 @@ export class WorkerPool {
 		logger.debug(`Queueing new task (queue size: ${this.taskQueue.length})`);
 
 		return new Promise((resolve, reject) => {
-			this.taskQueue.push({ task: taskData, resolve, reject });
+			this.taskQueue.push({
+				task: taskData,
+				timeoutMs: options.timeoutMs ?? this.config.taskTimeoutMs,
+				resolve,
+				reject,
+			});
 			this.processQueue();
 		});
 	}
 
+	/**
+	 * Get the total number of regexes cached across live workers
+	 */
+	public getRegexCacheSize(): number {
+		let size = 0;
+		for (const state of this.workers.values()) {
+			size += state.regexCacheSize;
+		}
+		return size;
+	}
+
+	/**
+	 * Get the histogram of successful task durations
+	 */
+	public getTaskDurationHistogram(): DurationHistogram {
+		return this.healthMonitor.getDurationHistogram();
+	}
+
 	/**
 	 * Get current pool statistics
 	 */